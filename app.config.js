@@ -66,7 +66,9 @@ export default {
       },
       supabaseUrl: process.env.SUPABASE_URL,
       supabaseAnonKey: process.env.SUPABASE_ANON_KEY,
-      openaiApiKey: process.env.OPEN_AI_KEY
+      openaiApiKey: process.env.OPEN_AI_KEY,
+      mpesaProvider: process.env.MPESA_PROVIDER,
+      etimsProvider: process.env.ETIMS_PROVIDER
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,76 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { AGING_BUCKETS, AgingBreakdown } from "@/utils/aging";
+import { formatCurrency } from "@/utils/format";
+
+interface AgingSummaryProps {
+  title: string;
+  aging: AgingBreakdown;
+}
+
+export function AgingSummary({ title, aging }: AgingSummaryProps) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.surface }]}>
+      <View style={styles.header}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {title}
+        </ThemedText>
+        <ThemedText type="h4" style={{ color: Colors.primary.main }}>
+          {formatCurrency(aging.total)}
+        </ThemedText>
+      </View>
+      <View style={styles.buckets}>
+        {AGING_BUCKETS.map((bucket) => {
+          const amount = aging[bucket.id];
+          const overdue = bucket.id !== "current" && amount > 0;
+          return (
+            <View key={bucket.id} style={styles.bucket}>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {bucket.label}
+              </ThemedText>
+              <ThemedText
+                type="caption"
+                style={{
+                  fontWeight: "600",
+                  color: overdue ? Colors.accent.error : theme.text,
+                }}
+                numberOfLines={1}
+                adjustsFontSizeToFit
+              >
+                {formatCurrency(amount)}
+              </ThemedText>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  buckets: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  bucket: {
+    flex: 1,
+    alignItems: "center",
+  },
+});
@@ -7,6 +7,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { CartItem as CartItemType } from "@/types";
 import { formatCurrency } from "@/utils/format";
+import { getPriceRuleLabel } from "@/utils/pricing";
 
 interface CartItemProps {
   item: CartItemType;
@@ -34,6 +35,19 @@ export function CartItemComponent({ item, onUpdateQuantity, onRemove }: CartItem
           <ThemedText type="caption" style={{ color: theme.textSecondary }}>
             {formatCurrency(item.unitPrice)} each
           </ThemedText>
+          {item.priceRule ? (
+            <ThemedText
+              type="caption"
+              style={{ color: item.priceRule === "retail" ? theme.textSecondary : Colors.primary.main }}
+            >
+              {getPriceRuleLabel(item.priceRule, item.product)}
+            </ThemedText>
+          ) : null}
+          {item.promotionName ? (
+            <ThemedText type="caption" style={{ color: Colors.accent.success }}>
+              {item.promotionName} -{formatCurrency(item.discount)}
+            </ThemedText>
+          ) : null}
         </View>
         <View style={styles.quantityContainer}>
           <Pressable
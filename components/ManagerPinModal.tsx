@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, TextInput } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth, PinApprover } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+
+interface ManagerPinModalProps {
+  visible: boolean;
+  title: string;
+  description?: string;
+  confirmLabel?: string;
+  reasonLabel?: string;
+  requireReason?: boolean;
+  onApprove: (approver: PinApprover, reason: string) => Promise<void> | void;
+  onClose: () => void;
+}
+
+export function ManagerPinModal({
+  visible,
+  title,
+  description,
+  confirmLabel = "Approve",
+  reasonLabel = "Reason",
+  requireReason = false,
+  onApprove,
+  onClose,
+}: ManagerPinModalProps) {
+  const { theme } = useTheme();
+  const { verifyManagerPin } = useAuth();
+
+  const [pin, setPin] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setPin("");
+      setReason("");
+      setError(null);
+    }
+  }, [visible]);
+
+  const canSubmit = pin.length >= 4 && (!requireReason || reason.trim());
+
+  const handleApprove = async () => {
+    if (!canSubmit || isVerifying) return;
+    setIsVerifying(true);
+    setError(null);
+    const result = await verifyManagerPin(pin);
+    if (!result.success || !result.approver) {
+      setIsVerifying(false);
+      setPin("");
+      setError(result.error || "Incorrect manager PIN");
+      return;
+    }
+    await onApprove(result.approver, reason.trim());
+    setIsVerifying(false);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[styles.content, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <View style={styles.header}>
+            <ThemedText type="h4">{title}</ThemedText>
+            <Pressable onPress={onClose}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {description ? (
+            <ThemedText
+              type="small"
+              style={[styles.description, { color: theme.textSecondary }]}
+            >
+              {description}
+            </ThemedText>
+          ) : null}
+
+          {requireReason ? (
+            <>
+              <ThemedText type="body" style={styles.label}>
+                {reasonLabel}
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.reasonInput,
+                  {
+                    backgroundColor: theme.surface,
+                    borderColor: theme.divider,
+                    color: theme.text,
+                  },
+                ]}
+                value={reason}
+                onChangeText={setReason}
+                placeholder="Required"
+                placeholderTextColor={theme.textSecondary}
+                multiline
+              />
+            </>
+          ) : null}
+
+          <ThemedText type="body" style={styles.label}>
+            Manager PIN
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.pinInput,
+              {
+                backgroundColor: theme.surface,
+                borderColor: error ? Colors.accent.error : theme.divider,
+                color: theme.text,
+              },
+            ]}
+            value={pin}
+            onChangeText={(text) => {
+              setPin(text.replace(/[^0-9]/g, ""));
+              setError(null);
+            }}
+            placeholder="••••"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+          />
+          {error ? (
+            <ThemedText
+              type="small"
+              style={[styles.error, { color: Colors.accent.error }]}
+            >
+              {error}
+            </ThemedText>
+          ) : null}
+
+          <Button
+            onPress={handleApprove}
+            icon="shield"
+            loading={isVerifying}
+            disabled={!canSubmit || isVerifying}
+            style={styles.button}
+          >
+            {confirmLabel}
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  description: {
+    marginBottom: Spacing.md,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+    fontWeight: "500",
+  },
+  reasonInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  pinInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: "center",
+  },
+  error: {
+    marginTop: Spacing.xs,
+  },
+  button: {
+    marginTop: Spacing.xl,
+  },
+});
@@ -0,0 +1,55 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { PurchaseOrderStatus } from "@/types";
+
+const STATUS_STYLES: Record<
+  PurchaseOrderStatus,
+  { label: string; bg: string; text: string }
+> = {
+  draft: {
+    label: "Draft",
+    bg: Colors.badges.expiringSoon.bg,
+    text: Colors.badges.expiringSoon.text,
+  },
+  sent: {
+    label: "Sent",
+    bg: Colors.badges.lowStock.bg,
+    text: Colors.badges.lowStock.text,
+  },
+  partially_received: {
+    label: "Part Received",
+    bg: Colors.badges.lowStock.bg,
+    text: Colors.badges.lowStock.text,
+  },
+  received: {
+    label: "Received",
+    bg: Colors.badges.inStock.bg,
+    text: Colors.badges.inStock.text,
+  },
+};
+
+export function PurchaseOrderStatusBadge({
+  status,
+}: {
+  status: PurchaseOrderStatus;
+}) {
+  const style = STATUS_STYLES[status];
+  return (
+    <View style={[styles.badge, { backgroundColor: style.bg }]}>
+      <ThemedText type="caption" style={{ color: style.text }}>
+        {style.label}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+});
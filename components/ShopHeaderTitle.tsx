@@ -2,6 +2,7 @@ import React from "react";
 import { View, StyleSheet, Image } from "react-native";
 
 import { ThemedText } from "@/components/ThemedText";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
 import { useAuth } from "@/context/AuthContext";
 import { Spacing, Colors } from "@/constants/theme";
 
@@ -17,6 +18,7 @@ export function ShopHeaderTitle() {
         resizeMode="contain"
       />
       <ThemedText style={styles.title}>{shopName}</ThemedText>
+      <SyncStatusBadge />
     </View>
   );
 }
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, TextInput } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { InventoryBatch, StockAdjustmentReason } from "@/types";
+
+export const ADJUSTMENT_REASONS: {
+  id: StockAdjustmentReason;
+  label: string;
+}[] = [
+  { id: "damage", label: "Damage" },
+  { id: "theft", label: "Theft" },
+  { id: "spillage", label: "Spillage" },
+  { id: "count_correction", label: "Count Correction" },
+  { id: "other", label: "Other" },
+];
+
+interface StockAdjustmentModalProps {
+  visible: boolean;
+  batch: InventoryBatch | null;
+  onSubmit: (
+    quantityChange: number,
+    reason: StockAdjustmentReason,
+    notes?: string,
+  ) => Promise<void> | void;
+  onClose: () => void;
+}
+
+export function StockAdjustmentModal({
+  visible,
+  batch,
+  onSubmit,
+  onClose,
+}: StockAdjustmentModalProps) {
+  const { theme } = useTheme();
+
+  const [direction, setDirection] = useState<"remove" | "add">("remove");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<StockAdjustmentReason>("damage");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setDirection("remove");
+      setQuantity("");
+      setReason("damage");
+      setNotes("");
+    }
+  }, [visible]);
+
+  const qty = parseFloat(quantity);
+  const change = direction === "add" ? qty : -qty;
+  const isValid =
+    !!batch && qty > 0 && (direction === "add" || qty <= batch.quantity);
+  const canSubmit = isValid && (reason !== "other" || notes.trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit || isSubmitting) return;
+    setIsSubmitting(true);
+    await onSubmit(change, reason, notes.trim() || undefined);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[styles.content, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <View style={styles.header}>
+            <ThemedText type="h4">Adjust Stock</ThemedText>
+            <Pressable onPress={onClose}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {batch ? (
+            <ThemedText
+              type="small"
+              style={[styles.description, { color: theme.textSecondary }]}
+            >
+              Batch {batch.batchNumber} · {batch.quantity} on hand
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.toggleRow}>
+            {(["remove", "add"] as const).map((option) => {
+              const selected = direction === option;
+              return (
+                <Pressable
+                  key={option}
+                  onPress={() => setDirection(option)}
+                  style={[
+                    styles.toggle,
+                    {
+                      backgroundColor: selected
+                        ? Colors.primary.main
+                        : theme.surface,
+                      borderColor: selected
+                        ? Colors.primary.main
+                        : theme.divider,
+                    },
+                  ]}
+                >
+                  <Feather
+                    name={option === "add" ? "plus" : "minus"}
+                    size={16}
+                    color={selected ? "#FFFFFF" : theme.text}
+                  />
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: selected ? "#FFFFFF" : theme.text,
+                      marginLeft: Spacing.xs,
+                    }}
+                  >
+                    {option === "add" ? "Add" : "Remove"}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <ThemedText type="body" style={styles.label}>
+            Quantity
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.surface,
+                borderColor:
+                  quantity && !isValid ? Colors.accent.error : theme.divider,
+                color: theme.text,
+              },
+            ]}
+            value={quantity}
+            onChangeText={(text) => setQuantity(text.replace(/[^0-9.]/g, ""))}
+            placeholder="0"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="decimal-pad"
+          />
+
+          <ThemedText type="body" style={styles.label}>
+            Reason
+          </ThemedText>
+          <View style={styles.reasonGrid}>
+            {ADJUSTMENT_REASONS.map((option) => {
+              const selected = reason === option.id;
+              return (
+                <Pressable
+                  key={option.id}
+                  onPress={() => setReason(option.id)}
+                  style={[
+                    styles.reasonChip,
+                    {
+                      backgroundColor: selected
+                        ? Colors.primary.main
+                        : theme.surface,
+                      borderColor: selected
+                        ? Colors.primary.main
+                        : theme.divider,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: selected ? "#FFFFFF" : theme.text }}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <ThemedText type="body" style={styles.label}>
+            Notes
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              styles.notesInput,
+              {
+                backgroundColor: theme.surface,
+                borderColor: theme.divider,
+                color: theme.text,
+              },
+            ]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder={reason === "other" ? "Required" : "Optional"}
+            placeholderTextColor={theme.textSecondary}
+            multiline
+          />
+
+          <Button
+            onPress={handleSubmit}
+            icon="check"
+            loading={isSubmitting}
+            disabled={!canSubmit || isSubmitting}
+            style={styles.button}
+          >
+            Save Adjustment
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  description: {
+    marginBottom: Spacing.md,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  toggle: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+    fontWeight: "500",
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  reasonGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  reasonChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  button: {
+    marginTop: Spacing.xl,
+  },
+});
@@ -0,0 +1,54 @@
+import React from "react";
+import { StyleSheet, Pressable, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+
+export function SyncStatusBadge() {
+  const { syncStatus, syncNow } = useApp();
+  const { pendingCount, failedCount, isSyncing } = syncStatus;
+  const total = pendingCount + failedCount;
+
+  if (total === 0) {
+    return null;
+  }
+
+  const color = failedCount > 0 ? Colors.accent.error : Colors.accent.warning;
+
+  return (
+    <Pressable
+      onPress={syncNow}
+      disabled={isSyncing}
+      style={({ pressed }) => [
+        styles.badge,
+        { backgroundColor: color + "20", opacity: pressed ? 0.7 : 1 },
+      ]}
+    >
+      {isSyncing ? (
+        <ActivityIndicator size="small" color={color} />
+      ) : (
+        <Feather name="cloud-off" size={14} color={color} />
+      )}
+      <ThemedText type="caption" style={[styles.label, { color }]}>
+        {total} {total === 1 ? "change" : "changes"} pending
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    marginLeft: Spacing.sm,
+  },
+  label: {
+    marginLeft: Spacing.xs,
+    fontWeight: "600",
+  },
+});
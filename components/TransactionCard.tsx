@@ -8,6 +8,7 @@ import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { Transaction } from "@/types";
 import { formatCurrency, formatDateTime } from "@/utils/format";
 import { PAYMENT_METHODS } from "@/constants/categories";
+import { isSplitTender } from "@/utils/payments";
 
 interface TransactionCardProps {
   transaction: Transaction;
@@ -21,6 +22,9 @@ export function TransactionCard({ transaction, onPress }: TransactionCardProps)
   const scale = useSharedValue(1);
 
   const paymentMethod = PAYMENT_METHODS.find((p) => p.id === transaction.paymentMethod);
+  const paymentLabel = isSplitTender(transaction)
+    ? `Split (${(transaction.payments || []).map((p) => PAYMENT_METHODS.find((m) => m.id === p.method)?.name || p.method).join(" + ")})`
+    : paymentMethod?.name || transaction.paymentMethod;
 
   const animatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: scale.value }],
@@ -39,8 +43,10 @@ export function TransactionCard({ transaction, onPress }: TransactionCardProps)
       case "completed":
         return Colors.accent.success;
       case "pending":
+      case "partial":
         return Colors.accent.warning;
       case "refunded":
+      case "voided":
         return Colors.accent.error;
       default:
         return theme.textSecondary;
@@ -65,7 +71,16 @@ export function TransactionCard({ transaction, onPress }: TransactionCardProps)
         </View>
         <View style={styles.statusContainer}>
           <View style={[styles.statusDot, { backgroundColor: getStatusColor() }]} />
-          <ThemedText type="h4" style={{ color: Colors.primary.main }}>
+          <ThemedText
+            type="h4"
+            style={[
+              { color: transaction.kind === "refund" ? Colors.accent.error : Colors.primary.main },
+              transaction.paymentStatus === "voided" && {
+                color: theme.textSecondary,
+                textDecorationLine: "line-through",
+              },
+            ]}
+          >
             {formatCurrency(transaction.total)}
           </ThemedText>
         </View>
@@ -73,12 +88,12 @@ export function TransactionCard({ transaction, onPress }: TransactionCardProps)
       <View style={styles.footer}>
         <View style={styles.paymentInfo}>
           <Feather
-            name={paymentMethod?.icon as any || "credit-card"}
+            name={isSplitTender(transaction) ? "layers" : paymentMethod?.icon as any || "credit-card"}
             size={14}
             color={theme.textSecondary}
           />
           <ThemedText type="caption" style={{ color: theme.textSecondary, marginLeft: 4 }}>
-            {paymentMethod?.name || transaction.paymentMethod}
+            {paymentLabel}
           </ThemedText>
         </View>
         <ThemedText type="caption" style={{ color: theme.textSecondary }}>
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Modal, Pressable, TextInput } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { formatCurrency } from "@/utils/format";
+import { InventoryBatch, WriteOffReason } from "@/types";
+
+const REASONS: { id: WriteOffReason; label: string }[] = [
+  { id: "expired", label: "Expired" },
+  { id: "damaged", label: "Damaged" },
+  { id: "recalled", label: "Recalled" },
+  { id: "other", label: "Other" },
+];
+
+interface WriteOffModalProps {
+  visible: boolean;
+  batch: InventoryBatch | null;
+  productName?: string;
+  onSubmit: (
+    quantity: number,
+    reason: WriteOffReason,
+    notes?: string,
+  ) => Promise<void> | void;
+  onClose: () => void;
+}
+
+export function WriteOffModal({
+  visible,
+  batch,
+  productName,
+  onSubmit,
+  onClose,
+}: WriteOffModalProps) {
+  const { theme } = useTheme();
+
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<WriteOffReason>("expired");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible && batch) {
+      setQuantity(batch.quantity.toString());
+      setReason("expired");
+      setNotes("");
+    }
+  }, [visible, batch]);
+
+  const qty = parseFloat(quantity);
+  const isValid = !!batch && qty > 0 && qty <= batch.quantity;
+  const requireNotes = reason === "other";
+  const canSubmit = isValid && (!requireNotes || notes.trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit || isSubmitting) return;
+    setIsSubmitting(true);
+    await onSubmit(qty, reason, notes.trim() || undefined);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[styles.content, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <View style={styles.header}>
+            <ThemedText type="h4">Write Off Stock</ThemedText>
+            <Pressable onPress={onClose}>
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {batch ? (
+            <ThemedText
+              type="small"
+              style={[styles.description, { color: theme.textSecondary }]}
+            >
+              {productName || "Unknown"} · Batch {batch.batchNumber} ·{" "}
+              {batch.quantity} on hand
+            </ThemedText>
+          ) : null}
+
+          <ThemedText type="body" style={styles.label}>
+            Quantity
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.surface,
+                borderColor:
+                  quantity && !isValid ? Colors.accent.error : theme.divider,
+                color: theme.text,
+              },
+            ]}
+            value={quantity}
+            onChangeText={(text) => setQuantity(text.replace(/[^0-9.]/g, ""))}
+            keyboardType="decimal-pad"
+          />
+
+          <ThemedText type="body" style={styles.label}>
+            Reason
+          </ThemedText>
+          <View style={styles.reasonGrid}>
+            {REASONS.map((option) => {
+              const selected = reason === option.id;
+              return (
+                <Pressable
+                  key={option.id}
+                  onPress={() => setReason(option.id)}
+                  style={[
+                    styles.reasonChip,
+                    {
+                      backgroundColor: selected
+                        ? Colors.primary.main
+                        : theme.surface,
+                      borderColor: selected
+                        ? Colors.primary.main
+                        : theme.divider,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: selected ? "#FFFFFF" : theme.text }}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <ThemedText type="body" style={styles.label}>
+            Notes
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              styles.notesInput,
+              {
+                backgroundColor: theme.surface,
+                borderColor: theme.divider,
+                color: theme.text,
+              },
+            ]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder={requireNotes ? "Required" : "Optional"}
+            placeholderTextColor={theme.textSecondary}
+            multiline
+          />
+
+          {batch && isValid ? (
+            <ThemedText
+              type="small"
+              style={[styles.cost, { color: Colors.accent.error }]}
+            >
+              Loss at cost: {formatCurrency(qty * batch.costPerUnit)}
+            </ThemedText>
+          ) : null}
+
+          <Button
+            onPress={handleSubmit}
+            icon="trash-2"
+            loading={isSubmitting}
+            disabled={!canSubmit || isSubmitting}
+            style={styles.button}
+          >
+            Write Off
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  description: {
+    marginBottom: Spacing.md,
+  },
+  label: {
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+    fontWeight: "500",
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  reasonGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  reasonChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  cost: {
+    marginTop: Spacing.md,
+  },
+  button: {
+    marginTop: Spacing.xl,
+  },
+});
@@ -38,3 +38,11 @@ export const PAYMENT_METHODS = [
 ] as const;
 
 export type PaymentMethodId = typeof PAYMENT_METHODS[number]["id"];
+
+export const TAX_CLASSES = [
+  { id: "standard", name: "Standard (16%)", rate: 0.16 },
+  { id: "zero_rated", name: "Zero-rated", rate: 0 },
+  { id: "exempt", name: "Exempt", rate: 0 },
+] as const;
+
+export type TaxClassId = typeof TAX_CLASSES[number]["id"];
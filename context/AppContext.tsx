@@ -1,5 +1,47 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
-import { Product, Customer, Supplier, Transaction, InventoryBatch, CartItem, User, PurchasePriceRecord, ReceiptProcessingMode, ProcessedReceiptResult, CreditTransaction } from "@/types";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from "react";
+import { AppState } from "react-native";
+import {
+  Product,
+  Customer,
+  Supplier,
+  Transaction,
+  InventoryBatch,
+  CartItem,
+  User,
+  PurchasePriceRecord,
+  ReceiptProcessingMode,
+  ProcessedReceiptResult,
+  CreditTransaction,
+  BatchDeduction,
+  BatchAllocation,
+  TransactionItem,
+  ReturnLine,
+  StockWriteOff,
+  WriteOffReason,
+  StockMovement,
+  StockMovementType,
+  StockAdjustmentReason,
+  StockTake,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  GoodsReceivedNote,
+  SupplierTransaction,
+  PaymentReminder,
+  TransactionPayment,
+  Shift,
+  DailySummary,
+  Promotion,
+  PrinterSettings,
+} from "@/types";
 import {
   ProductStorage,
   CustomerStorage,
@@ -9,12 +51,84 @@ import {
   UserStorage,
   PriceHistoryStorage,
   CreditTransactionStorage,
+  WriteOffStorage,
+  StockMovementStorage,
+  StockTakeStorage,
+  PurchaseOrderStorage,
+  SupplierTransactionStorage,
+  PaymentReminderStorage,
+  ShiftStorage,
+  DailySummaryStorage,
+  PromotionStorage,
+  PrinterSettingsStorage,
   generateId,
   generateTransactionNumber,
+  generateRefundNumber,
   wasDataCleared,
+  applyBatchDeductions,
+  setStorageShop,
 } from "@/utils/storage";
 import { SAMPLE_PRODUCTS, SAMPLE_CUSTOMERS, SAMPLE_SUPPLIERS, generateSampleBatches } from "@/utils/sampleData";
 import { ExtractedReceiptData } from "@/utils/openaiVision";
+import { SyncQueue, SyncStatus } from "@/utils/syncQueue";
+import { getCurrentShopId } from "@/utils/shopScope";
+import { ConflictStorage, SyncConflict } from "@/utils/conflictResolver";
+import { useAuth, PinApprover } from "@/context/AuthContext";
+import { PaymentMethodId } from "@/constants/categories";
+import { allocateFefo, isBatchSellable } from "@/utils/batches";
+import {
+  createStockTakeItems,
+  planStockTakeCorrections,
+} from "@/utils/stockTake";
+import {
+  getOutstandingQuantity,
+  getReceivingStatus,
+  ReceiveLineInput,
+} from "@/utils/purchaseOrders";
+import { getDueDate, getPayableBalance } from "@/utils/payables";
+import {
+  buildReminderMessage,
+  ReminderCampaignResult,
+  selectReminderTargets,
+} from "@/utils/reminders";
+import { getSmsGateway } from "@/utils/sms";
+import {
+  getCreditPortion,
+  getPaymentTotal,
+  getPrimaryPaymentMethod,
+} from "@/utils/payments";
+import { calculateShiftTotals, getOpenShiftOf } from "@/utils/shifts";
+import {
+  buildDailySummaries,
+  getDaysToClose,
+  isDayClosed,
+} from "@/utils/dailySummaries";
+import { toLocalDateKey } from "@/utils/format";
+import { priceCartItem } from "@/utils/pricing";
+import { applyPromotions } from "@/utils/promotions";
+import { calculateSaleTax, pricesIncludeTax } from "@/utils/tax";
+import {
+  createEtimsRecord,
+  getDueEtimsInvoices,
+  isEtimsEnabled,
+  isSentToEtims,
+  submitEtimsInvoice,
+} from "@/utils/etims";
+import {
+  DEFAULT_PRINTER_SETTINGS,
+  printTransactionReceipt,
+} from "@/utils/printer";
+
+const SYNC_INTERVAL = 30 * 1000;
+
+// Extras a sale can carry: a manager's approval to go past the customer's
+// credit limit, and the payment reference (such as an M-Pesa receipt code).
+export interface SaleOptions {
+  creditOverride?: { approver: PinApprover; reason: string };
+  referenceNumber?: string;
+  // Split tender lines; they must add up to the sale total.
+  payments?: TransactionPayment[];
+}
 
 interface AppContextType {
   products: Product[];
@@ -23,18 +137,54 @@ interface AppContextType {
   transactions: Transaction[];
   batches: InventoryBatch[];
   cart: CartItem[];
+  cartCustomer: Customer | null;
   user: User | null;
   priceHistory: PurchasePriceRecord[];
   creditTransactions: CreditTransaction[];
+  writeOffs: StockWriteOff[];
+  stockMovements: StockMovement[];
+  stockTakes: StockTake[];
+  purchaseOrders: PurchaseOrder[];
+  supplierTransactions: SupplierTransaction[];
+  paymentReminders: PaymentReminder[];
+  shifts: Shift[];
+  currentShift: Shift | null;
+  dailySummaries: DailySummary[];
+  promotions: Promotion[];
+  printerSettings: PrinterSettings;
   isLoading: boolean;
+  syncStatus: SyncStatus;
+  syncNow: () => Promise<void>;
+  resolveSyncConflict: (
+    conflict: SyncConflict,
+    useDiscardedValue: boolean,
+  ) => Promise<boolean>;
   loadData: () => Promise<void>;
   addToCart: (product: Product, quantity?: number, fractionalDetails?: { weight: number; totalPrice: number }) => void;
   removeFromCart: (itemId: string) => void;
+  setCartCustomer: (customerId: string | null) => void;
   updateCartQuantity: (itemId: string, quantity: number) => void;
   clearCart: () => void;
   getCartTotal: () => number;
   getCartSubtotal: () => number;
-  completeSale: (paymentMethod: string, customerId?: string, discount?: number, notes?: string) => Promise<Transaction | null>;
+  completeSale: (
+    paymentMethod: string,
+    customerId?: string,
+    discount?: number,
+    notes?: string,
+    options?: SaleOptions,
+  ) => Promise<Transaction | null>;
+  processRefund: (
+    transactionId: string,
+    lines: ReturnLine[],
+    refundMethod: PaymentMethodId,
+    reason?: string,
+  ) => Promise<Transaction | null>;
+  voidTransaction: (
+    transactionId: string,
+    reason: string,
+    approver: PinApprover,
+  ) => Promise<boolean>;
   addProduct: (product: Omit<Product, "id" | "createdAt" | "updatedAt">, initialStock?: { quantity: number; costPerUnit?: number }) => Promise<boolean>;
   updateProduct: (product: Product) => Promise<boolean>;
   addCustomer: (customer: Omit<Customer, "id">) => Promise<boolean>;
@@ -42,34 +192,177 @@ interface AppContextType {
   addSupplier: (supplier: Omit<Supplier, "id">) => Promise<boolean>;
   addStockEntry: (productId: string, quantity: number, costPerUnit: number) => Promise<{ merged: boolean; batchId: string } | null>;
   getProductStock: (productId: string) => number;
+  getSellableStock: (productId: string) => number;
+  getQuarantinedStock: (productId: string) => number;
+  writeOffStock: (
+    batchId: string,
+    quantity: number,
+    reason: WriteOffReason,
+    notes?: string,
+  ) => Promise<boolean>;
+  adjustStock: (
+    batchId: string,
+    quantityChange: number,
+    reason: StockAdjustmentReason,
+    notes?: string,
+  ) => Promise<boolean>;
+  getProductMovements: (productId: string) => StockMovement[];
+  startStockTake: (categoryId?: string) => Promise<StockTake | null>;
+  saveStockTakeCounts: (stockTake: StockTake) => Promise<boolean>;
+  approveStockTake: (
+    stockTake: StockTake,
+    approver: PinApprover,
+  ) => Promise<boolean>;
+  cancelStockTake: (stockTakeId: string) => Promise<boolean>;
+  createPurchaseOrder: (
+    supplierId: string,
+    lines: PurchaseOrderLine[],
+    notes?: string,
+  ) => Promise<PurchaseOrder | null>;
+  updatePurchaseOrder: (order: PurchaseOrder) => Promise<boolean>;
+  sendPurchaseOrder: (purchaseOrderId: string) => Promise<boolean>;
+  deletePurchaseOrder: (purchaseOrderId: string) => Promise<boolean>;
+  receivePurchaseOrder: (
+    purchaseOrderId: string,
+    received: ReceiveLineInput[],
+    details?: { invoiceNumber?: string; notes?: string },
+  ) => Promise<GoodsReceivedNote | null>;
   getTodaySales: () => number;
   getTodayTransactionCount: () => number;
   getLowStockProducts: () => Product[];
   searchProducts: (query: string) => Product[];
-  processReceiptData: (data: ExtractedReceiptData, mode: ReceiptProcessingMode) => Promise<ProcessedReceiptResult>;
+  processReceiptData: (
+    data: ExtractedReceiptData,
+    mode: ReceiptProcessingMode,
+    receiptId?: string,
+  ) => Promise<ProcessedReceiptResult>;
   getPriceHistory: (productId: string) => PurchasePriceRecord[];
   getCustomerCreditHistory: (customerId: string) => CreditTransaction[];
   recordCreditPayment: (customerId: string, amount: number, paymentMethod: string, referenceNumber?: string, notes?: string) => Promise<boolean>;
   adjustCreditBalance: (customerId: string, adjustmentAmount: number, reason: string, notes?: string) => Promise<boolean>;
   getTotalOutstandingDebt: () => number;
   getCustomersWithDebt: () => Customer[];
+  getSupplierTransactions: (supplierId: string) => SupplierTransaction[];
+  getSupplierBalance: (supplierId: string) => number;
+  getTotalPayables: () => number;
+  recordSupplierPayment: (
+    supplierId: string,
+    amount: number,
+    paymentMethod: string,
+    referenceNumber?: string,
+    notes?: string,
+  ) => Promise<boolean>;
+  sendPaymentReminders: (
+    customerIds: string[],
+    template: string,
+  ) => Promise<ReminderCampaignResult>;
+  openShift: (openingFloat: number) => Promise<Shift | null>;
+  recordPaidOut: (amount: number, reason: string) => Promise<boolean>;
+  closeShift: (countedCash: number, notes?: string) => Promise<Shift | null>;
+  savePromotion: (
+    promotion: Omit<
+      Promotion,
+      "id" | "createdAt" | "createdBy" | "updatedAt"
+    > & { id?: string },
+  ) => Promise<Promotion | null>;
+  resubmitEtimsInvoice: (transactionId: string) => Promise<boolean>;
+  savePrinterSettings: (settings: PrinterSettings) => Promise<boolean>;
+  printReceipt: (transactionId: string) => Promise<boolean>;
   login: (email: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Returned goods go back to the batches the sale drew from, newest allocation
+// first, skipping whatever earlier returns of the same line already restocked.
+function getReturnRestocks(
+  item: TransactionItem,
+  quantity: number,
+  batches: InventoryBatch[],
+): BatchAllocation[] {
+  const allocations = (item.batchAllocations || []).filter((a) =>
+    batches.some((b) => b.id === a.batchId),
+  );
+  // Sales recorded before batch allocations existed go back to the product's
+  // newest batch; a line that was allocated nothing has nothing to restock.
+  if (item.batchAllocations === undefined) {
+    const fallback = batches
+      .filter((b) => b.productId === item.productId)
+      .pop();
+    return fallback
+      ? [
+          {
+            batchId: fallback.id,
+            batchNumber: fallback.batchNumber,
+            expiryDate: fallback.expiryDate,
+            quantity,
+          },
+        ]
+      : [];
+  }
+  if (allocations.length === 0) return [];
+
+  const allocatedTotal = allocations.reduce((sum, a) => sum + a.quantity, 0);
+  let skip = (allocatedTotal * (item.returnedQuantity || 0)) / item.quantity;
+  let remaining = (allocatedTotal * quantity) / item.quantity;
+  const restocks: BatchAllocation[] = [];
+  for (const allocation of [...allocations].reverse()) {
+    if (remaining <= 0) break;
+    const skipped = Math.min(skip, allocation.quantity);
+    skip -= skipped;
+    const restock = Math.min(allocation.quantity - skipped, remaining);
+    if (restock <= 0) continue;
+    restocks.push({ ...allocation, quantity: restock });
+    remaining -= restock;
+  }
+  return restocks;
+}
+
+type MovementLine = Pick<
+  StockMovement,
+  "productId" | "batchId" | "batchNumber" | "quantity"
+>;
+
 export function AppProvider({ children }: { children: ReactNode }) {
+  const { shop, user: staff } = useAuth();
+  const shopId = shop?.id ?? null;
   const [products, setProducts] = useState<Product[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [batches, setBatches] = useState<InventoryBatch[]>([]);
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const [cartLines, setCart] = useState<CartItem[]>([]);
+  const [cartCustomerId, setCartCustomerId] = useState<string | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [priceHistory, setPriceHistory] = useState<PurchasePriceRecord[]>([]);
   const [creditTransactions, setCreditTransactions] = useState<CreditTransaction[]>([]);
+  const [writeOffs, setWriteOffs] = useState<StockWriteOff[]>([]);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [supplierTransactions, setSupplierTransactions] = useState<
+    SupplierTransaction[]
+  >([]);
+  const [paymentReminders, setPaymentReminders] = useState<PaymentReminder[]>(
+    [],
+  );
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [dailySummaries, setDailySummaries] = useState<DailySummary[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [printerSettings, setPrinterSettings] = useState<PrinterSettings>(
+    DEFAULT_PRINTER_SETTINGS,
+  );
+  const [today, setToday] = useState(() => toLocalDateKey(new Date()));
+  // Current minute, so happy hours and promotion dates start and end on time
+  const [minute, setMinute] = useState(() => Math.floor(Date.now() / 60000));
+  // Shop whose data is in state, so nothing is closed out for one shop with
+  // another's transactions while switching.
+  const loadedShopId = useRef<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(
+    SyncQueue.getStatus(),
+  );
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
@@ -84,6 +377,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
       const loadedUser = await UserStorage.get();
       const loadedPriceHistory = await PriceHistoryStorage.getAll();
       const loadedCreditTransactions = await CreditTransactionStorage.getAll();
+      const loadedWriteOffs = await WriteOffStorage.getAll();
+      await StockMovementStorage.getAll();
+      const loadedStockTakes = await StockTakeStorage.getAll();
+      const loadedPurchaseOrders = await PurchaseOrderStorage.getAll();
+      const loadedSupplierTransactions =
+        await SupplierTransactionStorage.getAll();
+      const loadedPaymentReminders = await PaymentReminderStorage.getAll();
+      const loadedShifts = await ShiftStorage.getAll();
+      const loadedDailySummaries = await DailySummaryStorage.getAll();
+      const loadedPromotions = await PromotionStorage.getAll();
+      const loadedPrinterSettings = await PrinterSettingsStorage.get();
 
       if (!dataWasCleared) {
         if (loadedProducts.length === 0) {
@@ -107,6 +411,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
         }
       }
 
+      loadedBatches = (await BatchStorage.quarantineExpired()) || loadedBatches;
+      const loadedMovements =
+        await StockMovementStorage.recordOpeningBalances(loadedBatches);
+
       loadedProducts = loadedProducts.map(p => ({
         ...p,
         itemType: p.itemType || (p.isBulkItem ? 'bulk' : 'unit'),
@@ -120,6 +428,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setUser(loadedUser);
       setPriceHistory(loadedPriceHistory);
       setCreditTransactions(loadedCreditTransactions);
+      setWriteOffs(loadedWriteOffs);
+      setStockMovements(loadedMovements);
+      setStockTakes(loadedStockTakes);
+      setPurchaseOrders(loadedPurchaseOrders);
+      setSupplierTransactions(loadedSupplierTransactions);
+      setPaymentReminders(loadedPaymentReminders);
+      setShifts(loadedShifts);
+      setDailySummaries(loadedDailySummaries);
+      setPromotions(loadedPromotions);
+      setPrinterSettings({
+        ...DEFAULT_PRINTER_SETTINGS,
+        ...loadedPrinterSettings,
+      });
+      loadedShopId.current = getCurrentShopId();
     } catch (error) {
       console.error("Error loading data:", error);
     } finally {
@@ -127,9 +449,121 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Storage is namespaced per shop, so (re)load whenever a different shop signs in.
+  useEffect(() => {
+    (async () => {
+      await setStorageShop(shopId);
+      if (!shopId) return;
+      await loadData();
+      await SyncQueue.refreshStatus();
+      SyncQueue.flush();
+    })();
+  }, [shopId, loadData]);
+
+  // Replay queued cloud writes on return to foreground and on a timer, so
+  // sales made offline reach Supabase once connectivity is back.
+  useEffect(() => {
+    const unsubscribe = SyncQueue.subscribe(setSyncStatus);
+    const interval = setInterval(() => {
+      SyncQueue.flush();
+      setToday(toLocalDateKey(new Date()));
+      setMinute(Math.floor(Date.now() / 60000));
+    }, SYNC_INTERVAL);
+    const subscription = AppState.addEventListener(
+      "change",
+      async (nextAppState) => {
+        if (nextAppState === "active") {
+          SyncQueue.flush();
+          setToday(toLocalDateKey(new Date()));
+          setMinute(Math.floor(Date.now() / 60000));
+          // Batches that expired while the app was in the background
+          const quarantined = await BatchStorage.quarantineExpired();
+          if (quarantined) setBatches(quarantined);
+        }
+      },
+    );
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, []);
+
+  // Close out finished days into summaries: on the first launch after them,
+  // or when midnight passes with the app open.
+  useEffect(() => {
+    if (isLoading || !shopId || loadedShopId.current !== shopId) return;
+    const days = getDaysToClose(dailySummaries, transactions, today);
+    if (days.length === 0) return;
+    (async () => {
+      const saved = await DailySummaryStorage.add(
+        buildDailySummaries(transactions, days, batches, products),
+      );
+      if (saved) setDailySummaries(saved);
+    })();
+  }, [
+    today,
+    isLoading,
+    shopId,
+    dailySummaries,
+    transactions,
+    batches,
+    products,
+  ]);
+
+  const syncNow = useCallback(async () => {
+    await SyncQueue.retryAll();
+  }, []);
+
+  // Ledger entries for stock moved by whoever is signed in
+  const createMovements = useCallback(
+    (
+      type: StockMovementType,
+      lines: MovementLine[],
+      details: Pick<StockMovement, "reason" | "notes" | "referenceId"> = {},
+    ): StockMovement[] => {
+      const createdAt = new Date().toISOString();
+      return lines
+        .filter((line) => line.quantity !== 0)
+        .map((line) => ({
+          id: generateId(),
+          ...line,
+          type,
+          ...details,
+          userId: staff?.id || user?.id,
+          userName: staff?.fullName || user?.fullName,
+          createdAt,
+        }));
+    },
+    [staff, user],
+  );
+
+  // A merged sync rewrites cached records, so pick up the reconciled values.
   useEffect(() => {
-    loadData();
-  }, [loadData]);
+    if (!syncStatus.lastMergedAt) return;
+    (async () => {
+      setProducts(await ProductStorage.getAll());
+      setCustomers(await CustomerStorage.getAll());
+      setSuppliers(await SupplierStorage.getAll());
+      setBatches(await BatchStorage.getAll());
+    })();
+  }, [syncStatus.lastMergedAt]);
+
+  // The customer the sale is for; their tier feeds every cart line's price.
+  const cartCustomer = useMemo(
+    () =>
+      cartCustomerId
+        ? customers.find((c) => c.id === cartCustomerId) || null
+        : null,
+    [cartCustomerId, customers],
+  );
+
+  // Promotions are worked out again whenever the cart, a promotion or the
+  // minute changes, so every line shows the discount it will be sold at.
+  const cart = useMemo(
+    () => applyPromotions(cartLines, promotions, new Date(minute * 60000)),
+    [cartLines, promotions, minute],
+  );
 
   const addToCart = useCallback((product: Product, quantity = 1, fractionalDetails?: { weight: number; totalPrice: number }) => {
     setCart((prev) => {
@@ -152,26 +586,34 @@ export function AppProvider({ children }: { children: ReactNode }) {
       // For regular items, check if already in cart
       const existing = prev.find((item) => item.product.id === product.id && !item.isFractionalSale);
       if (existing) {
-        // Update quantity for existing item
+          // Update quantity for existing item; a bigger line may reach a quantity break
         return prev.map((item) =>
           item.product.id === product.id && !item.isFractionalSale
-            ? { ...item, quantity: item.quantity + quantity }
+              ? priceCartItem(
+                  { ...item, quantity: item.quantity + quantity },
+                  cartCustomer,
+                )
             : item
         );
       }
       // Add new item with specified quantity
       return [
         ...prev,
-        {
-          id: generateId(),
-          product,
-          quantity,
-          unitPrice: product.retailPrice,
-          discount: 0,
-        },
+          priceCartItem(
+            {
+              id: generateId(),
+              product,
+              quantity,
+              unitPrice: product.retailPrice,
+              discount: 0,
+            },
+            cartCustomer,
+          ),
       ];
     });
-  }, []);
+    },
+    [cartCustomer],
+  );
 
   const removeFromCart = useCallback((itemId: string) => {
     setCart((prev) => prev.filter((item) => item.id !== itemId));
@@ -183,12 +625,31 @@ export function AppProvider({ children }: { children: ReactNode }) {
       return;
     }
     setCart((prev) =>
-      prev.map((item) => (item.id === itemId ? { ...item, quantity } : item))
+        prev.map((item) =>
+          item.id === itemId
+            ? priceCartItem({ ...item, quantity }, cartCustomer)
+            : item,
+        ),
     );
-  }, [removeFromCart]);
+    },
+    [removeFromCart, cartCustomer],
+  );
+
+  // Attaching or changing the customer re-prices the whole cart for their tier.
+  const setCartCustomer = useCallback(
+    (customerId: string | null) => {
+      const customer = customerId
+        ? customers.find((c) => c.id === customerId) || null
+        : null;
+      setCartCustomerId(customer?.id ?? null);
+      setCart((prev) => prev.map((item) => priceCartItem(item, customer)));
+    },
+    [customers],
+  );
 
   const clearCart = useCallback(() => {
     setCart([]);
+    setCartCustomerId(null);
   }, []);
 
   const getCartSubtotal = useCallback(() => {
@@ -198,32 +659,134 @@ export function AppProvider({ children }: { children: ReactNode }) {
     );
   }, [cart]);
 
+  // Includes VAT added on top when the shop prices without it
   const getCartTotal = useCallback(() => {
-    return getCartSubtotal();
-  }, [getCartSubtotal]);
+    return calculateSaleTax(cart, 0, shop).total;
+  }, [cart, shop]);
+
+  // Receipts waiting for KRA to sign their sale before they auto-print
+  const autoPrintQueue = useRef<Set<string>>(new Set());
+  const printTransaction = useCallback(
+    async (transaction: Transaction, reprint = false): Promise<boolean> => {
+      if (!shop) return false;
+      try {
+        const original = transaction.originalTransactionId
+          ? transactions.find((t) => t.id === transaction.originalTransactionId)
+          : undefined;
+        await printTransactionReceipt(transaction, shop, printerSettings, {
+          original,
+          reprint,
+        });
+        return true;
+      } catch (error) {
+        console.error("Error printing receipt:", error);
+        return false;
+      }
+    },
+    [shop, printerSettings, transactions],
+  );
+
+  // Each cashier has at most one open shift; their cash sales, refunds and
+  // account payments count against it until it is closed. Sales and refunds
+  // are only taken while one is open.
+  const currentShift = useMemo(() => {
+    const userId = staff?.id || user?.id;
+    return (
+      shifts.find((s) => s.status === "open" && s.userId === userId) || null
+    );
+  }, [shifts, staff, user]);
 
   const completeSale = useCallback(
     async (
       paymentMethod: string,
       customerId?: string,
       discount = 0,
-      notes?: string
+      notes?: string,
+      {
+        creditOverride,
+        referenceNumber,
+        payments: splitPayments,
+      }: SaleOptions = {},
     ): Promise<Transaction | null> => {
-      if (cart.length === 0) return null;
+      // Priced at the moment of sale, in case a promotion started or ended
+      // since the cart was last worked out
+      const saleCart = applyPromotions(cartLines, promotions, new Date());
+      if (saleCart.length === 0 || !currentShift) return null;
 
-      const subtotal = getCartSubtotal();
+      const subtotal = saleCart.reduce(
+        (sum, item) => sum + item.unitPrice * item.quantity - item.discount,
+        0,
+      );
+      const {
+        lines: lineTaxes,
+        tax,
+        total,
+      } = calculateSaleTax(saleCart, discount, shop);
       const customer = customerId
         ? customers.find((c) => c.id === customerId)
         : undefined;
 
+      const payments: TransactionPayment[] = splitPayments?.length
+        ? splitPayments.filter((p) => p.amount > 0)
+        : [
+            {
+              method: paymentMethod as PaymentMethodId,
+              amount: total,
+              reference: referenceNumber,
+            },
+          ];
+      if (
+        payments.length === 0 ||
+        Math.abs(getPaymentTotal(payments) - total) > 0.01
+      )
+        return null;
+      const creditAmount = getPaymentTotal(payments, "credit");
+      if (creditAmount > 0 && !customer) return null;
+
+      // A credit sale may only take the customer past their limit with a
+      // manager's approval, which is kept on the sale.
+      const overLimit =
+        creditAmount > 0 &&
+        !!customer &&
+        customer.currentBalance + creditAmount > customer.creditLimit;
+      if (overLimit && !creditOverride) return null;
+
+      // Draw each line from its batches first-expiry-first-out and record them,
+      // so returns can restock them and recalled lots can be traced. A line the
+      // sellable batches cannot cover in full is not sold.
+      const available = new Map(batches.map((b) => [b.id, b.quantity]));
+      const lineQuantities = saleCart.map((item) =>
+        item.isFractionalSale && item.actualWeight
+          ? item.actualWeight
+          : item.quantity,
+      );
+      const allocations = saleCart.map((item, index) =>
+        allocateFefo(
+          batches,
+          item.product.id,
+          lineQuantities[index],
+          available,
+          item.batchId,
+        ),
+      );
+      const shortfall = allocations.some(
+        (lineAllocations, index) =>
+          lineAllocations.reduce((sum, a) => sum + a.quantity, 0) <
+          lineQuantities[index] - 0.0001,
+      );
+      if (shortfall) return null;
+      const batchDeductions: BatchDeduction[] = allocations
+        .flat()
+        .map(({ batchId, quantity }) => ({ batchId, quantity }));
+
       const transaction: Transaction = {
         id: generateId(),
         transactionNumber: generateTransactionNumber(),
         customerId,
         customerName: customer?.name,
-        userId: user?.id || "guest",
+        userId: staff?.id || user?.id || "guest",
         transactionDate: new Date().toISOString(),
-        items: cart.map((item) => ({
+        items: saleCart.map((item, index) => ({
           id: generateId(),
           productId: item.product.id,
           productName: item.product.name,
@@ -231,67 +794,434 @@ export function AppProvider({ children }: { children: ReactNode }) {
           unitPrice: item.unitPrice,
           discount: item.discount,
           total: item.unitPrice * item.quantity - item.discount,
+          batchAllocations: allocations[index],
+          promotionId: item.promotionId,
+          promotionName: item.promotionName,
+          ...lineTaxes[index],
         })),
         subtotal,
         discount,
-        tax: 0,
-        total: subtotal - discount,
-        paymentMethod: paymentMethod as any,
+        tax,
+        total,
+        pricesIncludeTax: pricesIncludeTax(shop),
+        paymentMethod: getPrimaryPaymentMethod(payments),
         paymentStatus: "completed",
+        referenceNumber:
+          referenceNumber || payments.find((p) => p.reference)?.reference,
+        payments,
         notes,
+        kind: "sale",
+        etims: isEtimsEnabled(shop) ? createEtimsRecord() : undefined,
+        ...(overLimit && creditOverride
+          ? {
+              creditOverrideBy: creditOverride.approver.id,
+              creditOverrideByName: creditOverride.approver.fullName,
+              creditOverrideReason: creditOverride.reason,
+            }
+          : {}),
       };
 
-      const success = await TransactionStorage.add(transaction);
+      const creditTransaction: CreditTransaction | undefined =
+        creditAmount > 0 && customer
+          ? {
+              id: generateId(),
+              customerId: customer.id,
+              transactionId: transaction.id,
+              type: "credit_sale",
+              amount: creditAmount,
+              balanceBefore: customer.currentBalance,
+              balanceAfter: customer.currentBalance + creditAmount,
+              notes: transaction.creditOverrideBy
+                ? `Sale: ${transaction.transactionNumber} - over limit, approved by ${transaction.creditOverrideByName}`
+                : `Sale: ${transaction.transactionNumber}`,
+              createdAt: new Date().toISOString(),
+              createdBy: user?.id,
+            }
+          : undefined;
+
+      const movements = createMovements(
+        "sale",
+        transaction.items.flatMap((item) =>
+          (item.batchAllocations || []).map((a) => ({
+            productId: item.productId,
+            batchId: a.batchId,
+            batchNumber: a.batchNumber,
+            quantity: -a.quantity,
+          })),
+        ),
+        { referenceId: transaction.id },
+      );
+
+      const success = await TransactionStorage.commitSale({
+        transaction,
+        batchDeductions,
+        creditTransaction,
+        stockMovements: movements,
+      });
       if (success) {
         setTransactions((prev) => [transaction, ...prev]);
+        setBatches((prev) => applyBatchDeductions(prev, batchDeductions));
+        setStockMovements((prev) => [...movements, ...prev]);
         
-        for (const item of cart) {
-          const productBatches = batches.filter(
-            (b) => b.productId === item.product.id
+        if (creditTransaction && customer) {
+          setCreditTransactions((prev) => [creditTransaction, ...prev]);
+          setCustomers((prev) =>
+            prev.map((c) =>
+              c.id === customer.id
+                ? {
+                    ...c,
+                    currentBalance: c.currentBalance + creditTransaction.amount,
+                  }
+                : c,
+            ),
           );
-          let remainingQty = item.isFractionalSale && item.actualWeight 
-            ? item.actualWeight 
-            : item.quantity;
-          for (const batch of productBatches) {
-            if (remainingQty <= 0) break;
-            const deduct = Math.min(batch.quantity, remainingQty);
-            batch.quantity -= deduct;
-            remainingQty -= deduct;
-          }
         }
-        await BatchStorage.save(batches);
-        setBatches([...batches]);
         
-        if (paymentMethod === "credit" && customer) {
-          const creditTransaction: CreditTransaction = {
+        clearCart();
+        if (printerSettings.autoPrint) {
+          // Fiscalised sales print once signed, so the receipt carries the KRA QR code
+          if (transaction.etims) {
+            autoPrintQueue.current.add(transaction.id);
+          } else {
+            printTransaction(transaction);
+          }
+        }
+        return transaction;
+      }
+      return null;
+    },
+    [
+      cartLines,
+      promotions,
+      customers,
+      currentShift,
+      staff,
+      user,
+      shop,
+      batches,
+      printerSettings,
+      clearCart,
+      createMovements,
+      printTransaction,
+    ],
+  );
+
+  const processRefund = useCallback(
+    async (
+      transactionId: string,
+      lines: ReturnLine[],
+      refundMethod: PaymentMethodId,
+      reason?: string,
+    ): Promise<Transaction | null> => {
+      const original = transactions.find((t) => t.id === transactionId);
+      if (!original || original.kind === "refund" || !currentShift) {
+        return null;
+      }
+
+      const returnLines = lines
+        .map((line) => {
+          const item = original.items.find((i) => i.id === line.itemId);
+          const returnable = item
+            ? item.quantity - (item.returnedQuantity || 0)
+            : 0;
+          return {
+            itemId: line.itemId,
+            quantity: Math.min(line.quantity, returnable),
+          };
+        })
+        .filter((line) => line.quantity > 0);
+      if (returnLines.length === 0) return null;
+
+      const batchRestocks: BatchDeduction[] = [];
+      const refundItems: TransactionItem[] = returnLines.map((line) => {
+        const item = original.items.find((i) => i.id === line.itemId)!;
+        const share = line.quantity / item.quantity;
+        const restocks = getReturnRestocks(item, line.quantity, batches);
+        batchRestocks.push(...restocks);
+        return {
+          id: generateId(),
+          productId: item.productId,
+          productName: item.productName,
+          quantity: -line.quantity,
+          unitPrice: item.unitPrice,
+          discount: -item.discount * share,
+          total: -item.total * share,
+          batchAllocations: restocks.map((r) => ({
+            ...r,
+            quantity: -r.quantity,
+          })),
+          originalItemId: item.id,
+          promotionId: item.promotionId,
+          promotionName: item.promotionName,
+          taxClass: item.taxClass,
+          taxRate: item.taxRate,
+          taxableAmount:
+            item.taxableAmount !== undefined
+              ? -item.taxableAmount * share
+              : undefined,
+          taxAmount:
+            item.taxAmount !== undefined ? -item.taxAmount * share : undefined,
+        };
+      });
+
+      // Spread the sale-level discount over the returned lines
+      const subtotal = refundItems.reduce((sum, i) => sum + i.total, 0);
+      const discount =
+        original.subtotal > 0
+          ? subtotal * (original.discount / original.subtotal)
+          : 0;
+      // Tax added on top of the sale comes back with the goods
+      const tax =
+        Math.round(
+          refundItems.reduce((sum, i) => sum + (i.taxAmount || 0), 0) * 100,
+        ) / 100;
+      const refundTotal =
+        subtotal - discount + (original.pricesIncludeTax === false ? tax : 0);
+      // The credit share of a split sale comes off the customer's account; the
+      // rest is paid out with refundMethod.
+      const creditShare =
+        original.customerId && original.total > 0
+          ? getCreditPortion(original) / original.total
+          : 0;
+      const creditRefund = Math.round(refundTotal * creditShare * 100) / 100;
+      const refundLines: TransactionPayment[] = [
+        { method: "credit", amount: creditRefund },
+        { method: refundMethod, amount: refundTotal - creditRefund },
+      ];
+      const payments = refundLines.filter((p) => p.amount !== 0);
+
+      const refund: Transaction = {
+        id: generateId(),
+        transactionNumber: generateRefundNumber(),
+        customerId: original.customerId,
+        customerName: original.customerName,
+        userId: staff?.id || user?.id || "guest",
+        transactionDate: new Date().toISOString(),
+        items: refundItems,
+        subtotal,
+        discount,
+        tax,
+        total: refundTotal,
+        pricesIncludeTax: original.pricesIncludeTax,
+        paymentMethod:
+          payments.length > 0
+            ? getPrimaryPaymentMethod(payments)
+            : refundMethod,
+        paymentStatus: "completed",
+        payments,
+        notes: reason,
+        kind: "refund",
+        originalTransactionId: original.id,
+        // A credit note can only be fiscalised against a fiscalised sale
+        etims:
+          isEtimsEnabled(shop) && original.etims
+            ? createEtimsRecord()
+            : undefined,
+      };
+
+      const updatedItems = original.items.map((item) => {
+        const line = returnLines.find((l) => l.itemId === item.id);
+        return line
+          ? {
+              ...item,
+              returnedQuantity: (item.returnedQuantity || 0) + line.quantity,
+            }
+          : item;
+      });
+      const updatedOriginal: Transaction = {
+        ...original,
+        items: updatedItems,
+        paymentStatus: updatedItems.every(
+          (i) => (i.returnedQuantity || 0) >= i.quantity,
+        )
+          ? "refunded"
+          : "partial",
+      };
+
+      const customer =
+        creditRefund !== 0
+          ? customers.find((c) => c.id === original.customerId)
+          : undefined;
+      const creditTransaction: CreditTransaction | undefined = customer
+        ? {
             id: generateId(),
             customerId: customer.id,
-            transactionId: transaction.id,
-            type: "credit_sale",
-            amount: transaction.total,
+            transactionId: refund.id,
+            type: "refund",
+            amount: -creditRefund,
             balanceBefore: customer.currentBalance,
-            balanceAfter: customer.currentBalance + transaction.total,
-            notes: `Sale: ${transaction.transactionNumber}`,
+            balanceAfter: customer.currentBalance + creditRefund,
+            notes: `Return: ${original.transactionNumber}`,
             createdAt: new Date().toISOString(),
             createdBy: user?.id,
-          };
-          await CreditTransactionStorage.add(creditTransaction);
-          setCreditTransactions(prev => [creditTransaction, ...prev]);
-          
-          const updatedCustomer = {
-            ...customer,
-            currentBalance: customer.currentBalance + transaction.total,
-          };
-          await CustomerStorage.update(updatedCustomer);
-          setCustomers(prev => prev.map(c => c.id === customer.id ? updatedCustomer : c));
-        }
-        
-        clearCart();
-        return transaction;
+          }
+        : undefined;
+
+      const movements = createMovements(
+        "return",
+        refundItems.flatMap((item) =>
+          (item.batchAllocations || []).map((a) => ({
+            productId: item.productId,
+            batchId: a.batchId,
+            batchNumber: a.batchNumber,
+            quantity: -a.quantity,
+          })),
+        ),
+        { referenceId: refund.id, notes: reason },
+      );
+
+      const success = await TransactionStorage.commitRefund({
+        refund,
+        original: updatedOriginal,
+        returnLines,
+        batchRestocks,
+        creditTransaction,
+        stockMovements: movements,
+      });
+      if (!success) return null;
+      setStockMovements((prev) => [...movements, ...prev]);
+
+      setTransactions((prev) => [
+        refund,
+        ...prev.map((t) => (t.id === original.id ? updatedOriginal : t)),
+      ]);
+      setBatches((prev) =>
+        applyBatchDeductions(
+          prev,
+          batchRestocks.map((r) => ({ ...r, quantity: -r.quantity })),
+        ),
+      );
+      if (creditTransaction) {
+        setCreditTransactions((prev) => [creditTransaction, ...prev]);
+        setCustomers((prev) =>
+          prev.map((c) =>
+            c.id === creditTransaction.customerId
+              ? {
+                  ...c,
+                  currentBalance: c.currentBalance - creditTransaction.amount,
+                }
+              : c,
+          ),
+        );
       }
-      return null;
+      return refund;
+    },
+    [
+      transactions,
+      customers,
+      batches,
+      currentShift,
+      staff,
+      user,
+      shop,
+      createMovements,
+    ],
+  );
+
+  const voidTransaction = useCallback(
+    async (
+      transactionId: string,
+      reason: string,
+      approver: PinApprover,
+    ): Promise<boolean> => {
+      const original = transactions.find((t) => t.id === transactionId);
+      if (
+        !original ||
+        original.kind === "refund" ||
+        original.paymentStatus !== "completed" ||
+        isSentToEtims(original) ||
+        isDayClosed(dailySummaries, toLocalDateKey(original.transactionDate)) ||
+        !getOpenShiftOf(shifts, original)
+      ) {
+        return false;
+      }
+
+      const restockLines = original.items.flatMap((item) =>
+        getReturnRestocks(item, item.quantity, batches).map((r) => ({
+          ...r,
+          productId: item.productId,
+        })),
+      );
+      const batchRestocks: BatchDeduction[] = restockLines.map(
+        ({ batchId, quantity }) => ({ batchId, quantity }),
+      );
+      const voided: Transaction = {
+        ...original,
+        paymentStatus: "voided",
+        voidReason: reason,
+        voidedAt: new Date().toISOString(),
+        voidedBy: approver.id,
+        voidedByName: approver.fullName,
+      };
+
+      const creditAmount = getCreditPortion(original);
+      const customer =
+        creditAmount > 0 && original.customerId
+          ? customers.find((c) => c.id === original.customerId)
+          : undefined;
+      const creditTransaction: CreditTransaction | undefined = customer
+        ? {
+            id: generateId(),
+            customerId: customer.id,
+            transactionId: original.id,
+            type: "void",
+            amount: creditAmount,
+            balanceBefore: customer.currentBalance,
+            balanceAfter: customer.currentBalance - creditAmount,
+            notes: `Void: ${original.transactionNumber} - ${reason}`,
+            createdAt: new Date().toISOString(),
+            createdBy: approver.id,
+          }
+        : undefined;
+
+      const movements = createMovements(
+        "void",
+        restockLines.map(({ productId, batchId, batchNumber, quantity }) => ({
+          productId,
+          batchId,
+          batchNumber,
+          quantity,
+        })),
+        {
+          referenceId: original.id,
+          notes: `${reason} (approved by ${approver.fullName})`,
+        },
+      );
+
+      const success = await TransactionStorage.commitVoid({
+        transaction: voided,
+        batchRestocks,
+        creditTransaction,
+        stockMovements: movements,
+      });
+      if (!success) return false;
+      setStockMovements((prev) => [...movements, ...prev]);
+
+      setTransactions((prev) =>
+        prev.map((t) => (t.id === original.id ? voided : t)),
+      );
+      setBatches((prev) =>
+        applyBatchDeductions(
+          prev,
+          batchRestocks.map((r) => ({ ...r, quantity: -r.quantity })),
+        ),
+      );
+      if (creditTransaction) {
+        setCreditTransactions((prev) => [creditTransaction, ...prev]);
+        setCustomers((prev) =>
+          prev.map((c) =>
+            c.id === creditTransaction.customerId
+              ? {
+                  ...c,
+                  currentBalance: c.currentBalance - creditTransaction.amount,
+                }
+              : c,
+          ),
+        );
+      }
+      return true;
     },
-    [cart, customers, user, batches, getCartSubtotal, clearCart]
+    [transactions, customers, batches, dailySummaries, shifts, createMovements],
   );
 
   const addProduct = useCallback(
@@ -320,13 +1250,28 @@ export function AppProvider({ children }: { children: ReactNode }) {
             purchaseDate: new Date().toISOString().split("T")[0],
             costPerUnit: initialStock.costPerUnit || productData.costPrice,
           };
-          await BatchStorage.add(batch);
-          setBatches((prev) => [...prev, batch]);
+          if (await BatchStorage.add(batch)) {
+            setBatches((prev) => [...prev, batch]);
+            const movements = createMovements(
+              "restock",
+              [
+                {
+                  productId: product.id,
+                  batchId: batch.id,
+                  batchNumber: batch.batchNumber,
+                  quantity: batch.quantity,
+                },
+              ],
+              { notes: "Initial stock" },
+            );
+            await StockMovementStorage.append(movements);
+            setStockMovements((prev) => [...movements, ...prev]);
+          }
         }
       }
       return success;
     },
-    []
+    [createMovements],
   );
 
   const updateProduct = useCallback(async (product: Product): Promise<boolean> => {
@@ -377,6 +1322,72 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return success;
   }, []);
 
+  const resolveSyncConflict = useCallback(
+    async (
+      conflict: SyncConflict,
+      useDiscardedValue: boolean,
+    ): Promise<boolean> => {
+      if (useDiscardedValue) {
+        const field = conflict.field.replace(/_([a-z])/g, (_, c: string) =>
+          c.toUpperCase(),
+        );
+        const value = conflict.discardedValue ?? undefined;
+        let success = false;
+        switch (conflict.table) {
+          case "products": {
+            const product = (await ProductStorage.getAll()).find(
+              (p) => p.id === conflict.recordId,
+            );
+            if (product)
+              success = await updateProduct({ ...product, [field]: value });
+            break;
+          }
+          case "customers": {
+            const customer = (await CustomerStorage.getAll()).find(
+              (c) => c.id === conflict.recordId,
+            );
+            if (customer)
+              success = await updateCustomer({ ...customer, [field]: value });
+            break;
+          }
+          case "suppliers": {
+            const supplier = (await SupplierStorage.getAll()).find(
+              (s) => s.id === conflict.recordId,
+            );
+            if (supplier) {
+              const updated = { ...supplier, [field]: value };
+              success = await SupplierStorage.update(updated);
+              if (success)
+                setSuppliers((prev) =>
+                  prev.map((s) => (s.id === updated.id ? updated : s)),
+                );
+            }
+            break;
+          }
+          case "inventory_batches": {
+            const batch = (await BatchStorage.getAll()).find(
+              (b) => b.id === conflict.recordId,
+            );
+            if (batch) {
+              const updated = { ...batch, [field]: value };
+              success = await BatchStorage.update(updated);
+              if (success)
+                setBatches((prev) =>
+                  prev.map((b) => (b.id === updated.id ? updated : b)),
+                );
+            }
+            break;
+          }
+        }
+        if (!success) return false;
+      }
+      await ConflictStorage.markReviewed(conflict.id);
+      await SyncQueue.refreshStatus();
+      return true;
+    },
+    [updateProduct, updateCustomer],
+  );
+
   const addSupplier = useCallback(
     async (supplierData: Omit<Supplier, "id">): Promise<boolean> => {
       const supplier: Supplier = {
@@ -412,6 +1423,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
           setBatches((prev) =>
             prev.map((b) => (b.id === existingBatch.id ? { ...b, quantity: newQuantity } : b))
           );
+          const movements = createMovements("restock", [
+            {
+              productId,
+              batchId: existingBatch.id,
+              batchNumber: existingBatch.batchNumber,
+              quantity,
+            },
+          ]);
+          await StockMovementStorage.append(movements);
+          setStockMovements((prev) => [...movements, ...prev]);
           return { merged: true, batchId: existingBatch.id };
         }
         return null;
@@ -427,12 +1448,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
         const success = await BatchStorage.add(newBatch);
         if (success) {
           setBatches((prev) => [...prev, newBatch]);
+          const movements = createMovements("restock", [
+            {
+              productId,
+              batchId: newBatch.id,
+              batchNumber: newBatch.batchNumber,
+              quantity,
+            },
+          ]);
+          await StockMovementStorage.append(movements);
+          setStockMovements((prev) => [...movements, ...prev]);
           return { merged: false, batchId: newBatch.id };
         }
         return null;
       }
     },
-    [products, batches]
+    [products, batches, createMovements],
   );
 
   const getCustomerCreditHistory = useCallback((customerId: string): CreditTransaction[] => {
@@ -460,7 +1491,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
       referenceNumber,
       notes,
       createdAt: new Date().toISOString(),
-      createdBy: user?.id,
+        createdBy: staff?.id || user?.id,
     };
 
     const success = await CreditTransactionStorage.add(creditTransaction);
@@ -474,7 +1505,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
       return customerUpdateSuccess;
     }
     return success;
-  }, [customers, user]);
+    },
+    [customers, staff, user],
+  );
 
   const adjustCreditBalance = useCallback(async (
     customerId: string,
@@ -518,6 +1551,356 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return customers.filter(c => c.currentBalance > 0).sort((a, b) => b.currentBalance - a.currentBalance);
   }, [customers]);
 
+  const getSupplierTransactions = useCallback(
+    (supplierId: string): SupplierTransaction[] => {
+      return supplierTransactions.filter((t) => t.supplierId === supplierId);
+    },
+    [supplierTransactions],
+  );
+
+  const getSupplierBalance = useCallback(
+    (supplierId: string): number => {
+      return getPayableBalance(
+        supplierTransactions.filter((t) => t.supplierId === supplierId),
+      );
+    },
+    [supplierTransactions],
+  );
+
+  const getTotalPayables = useCallback((): number => {
+    return Math.max(getPayableBalance(supplierTransactions), 0);
+  }, [supplierTransactions]);
+
+  // Books a supplier invoice for stock received, due according to the
+  // supplier's payment terms.
+  const raiseSupplierInvoice = useCallback(
+    async (
+      supplier: Supplier,
+      amount: number,
+      details: Pick<
+        SupplierTransaction,
+        "invoiceNumber" | "invoiceDate" | "source" | "sourceId" | "notes"
+      >,
+    ): Promise<boolean> => {
+      if (amount <= 0) return false;
+      const balance = getPayableBalance(
+        supplierTransactions.filter((t) => t.supplierId === supplier.id),
+      );
+      const createdAt = new Date().toISOString();
+      // Dates read off a scanned receipt are not always ISO; use today for those.
+      const invoiceDate = /^\d{4}-\d{2}-\d{2}/.test(details.invoiceDate || "")
+        ? details.invoiceDate!.slice(0, 10)
+        : toLocalDateKey(createdAt);
+      const invoice: SupplierTransaction = {
+        id: generateId(),
+        supplierId: supplier.id,
+        type: "invoice",
+        amount,
+        balanceBefore: balance,
+        balanceAfter: balance + amount,
+        ...details,
+        invoiceDate,
+        dueDate: getDueDate(invoiceDate, supplier.paymentTerms),
+        createdAt,
+        createdBy: staff?.id || user?.id,
+      };
+      const success = await SupplierTransactionStorage.add(invoice);
+      if (success) {
+        setSupplierTransactions((prev) =>
+          prev.some(
+            (t) =>
+              t.type === "invoice" &&
+              t.sourceId &&
+              t.sourceId === invoice.sourceId,
+          )
+            ? prev
+            : [invoice, ...prev],
+        );
+      }
+      return success;
+    },
+    [supplierTransactions, staff, user],
+  );
+
+  const recordSupplierPayment = useCallback(
+    async (
+      supplierId: string,
+      amount: number,
+      paymentMethod: string,
+      referenceNumber?: string,
+      notes?: string,
+    ): Promise<boolean> => {
+      if (amount <= 0 || !suppliers.some((s) => s.id === supplierId))
+        return false;
+      const balance = getPayableBalance(
+        supplierTransactions.filter((t) => t.supplierId === supplierId),
+      );
+
+      const payment: SupplierTransaction = {
+        id: generateId(),
+        supplierId,
+        type: "payment",
+        amount,
+        balanceBefore: balance,
+        balanceAfter: balance - amount,
+        paymentMethod,
+        referenceNumber,
+        notes,
+        createdAt: new Date().toISOString(),
+        createdBy: staff?.id || user?.id,
+      };
+
+      const success = await SupplierTransactionStorage.add(payment);
+      if (success) {
+        setSupplierTransactions((prev) => [payment, ...prev]);
+      }
+      return success;
+    },
+    [suppliers, supplierTransactions, staff, user],
+  );
+
+  // Texts each chosen debtor through the active SMS gateway, one at a time.
+  // Customers who no longer owe or were reminded within the cooldown are
+  // skipped; every attempt is logged.
+  const sendPaymentReminders = useCallback(
+    async (
+      customerIds: string[],
+      template: string,
+    ): Promise<ReminderCampaignResult> => {
+      const gateway = getSmsGateway();
+      const campaignId = generateId();
+      const targets = selectReminderTargets(
+        customers.filter((c) => customerIds.includes(c.id)),
+        creditTransactions,
+        paymentReminders,
+        { minBalance: 0, minDaysOverdue: 0 },
+      );
+      const result: ReminderCampaignResult = {
+        sent: 0,
+        failed: 0,
+        skipped: customerIds.length - targets.length,
+      };
+      const logged: PaymentReminder[] = [];
+
+      for (const target of targets) {
+        if (target.nextReminderAt) {
+          result.skipped++;
+          continue;
+        }
+        const message = buildReminderMessage(template, target, shop);
+        const delivery = await gateway.send(target.customer.phone, message);
+        const reminder: PaymentReminder = {
+          id: generateId(),
+          campaignId,
+          customerId: target.customer.id,
+          customerName: target.customer.name,
+          phone: target.customer.phone,
+          message,
+          balance: target.balance,
+          status: delivery.success ? "sent" : "failed",
+          gateway: gateway.id,
+          gatewayMessageId: delivery.messageId,
+          error: delivery.error,
+          sentAt: new Date().toISOString(),
+          sentBy: staff?.id || user?.id,
+        };
+        await PaymentReminderStorage.add(reminder);
+        logged.push(reminder);
+        if (delivery.success) {
+          result.sent++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      if (logged.length > 0) {
+        setPaymentReminders((prev) => [...logged.reverse(), ...prev]);
+      }
+      return result;
+    },
+    [customers, creditTransactions, paymentReminders, shop, staff, user],
+  );
+
+  const openShift = useCallback(
+    async (openingFloat: number): Promise<Shift | null> => {
+      const userId = staff?.id || user?.id;
+      if (!userId || currentShift) return null;
+      const shift: Shift = {
+        id: generateId(),
+        userId,
+        userName: staff?.fullName || user?.fullName || "Cashier",
+        status: "open",
+        openedAt: new Date().toISOString(),
+        openingFloat,
+        paidOuts: [],
+      };
+      const saved = await ShiftStorage.save(shift);
+      if (saved) {
+        setShifts((prev) => [saved, ...prev]);
+      }
+      return saved;
+    },
+    [currentShift, staff, user],
+  );
+
+  const recordPaidOut = useCallback(
+    async (amount: number, reason: string): Promise<boolean> => {
+      if (!currentShift) return false;
+      const saved = await ShiftStorage.save({
+        ...currentShift,
+        paidOuts: [
+          ...currentShift.paidOuts,
+          {
+            id: generateId(),
+            amount,
+            reason,
+            createdAt: new Date().toISOString(),
+          },
+        ],
+      });
+      if (!saved) return false;
+      setShifts((prev) => prev.map((s) => (s.id === saved.id ? saved : s)));
+      return true;
+    },
+    [currentShift],
+  );
+
+  // Freezes the shift's totals and records how far the counted cash is over
+  // (positive) or short (negative) of what the drawer should hold.
+  const closeShift = useCallback(
+    async (countedCash: number, notes?: string): Promise<Shift | null> => {
+      if (!currentShift) return null;
+      const closedAt = new Date().toISOString();
+      const totals = calculateShiftTotals(
+        currentShift,
+        transactions,
+        creditTransactions,
+        closedAt,
+      );
+      const saved = await ShiftStorage.save({
+        ...currentShift,
+        status: "closed",
+        closedAt,
+        closedBy: staff?.id || user?.id,
+        countedCash,
+        overShort: Math.round((countedCash - totals.expectedCash) * 100) / 100,
+        totals,
+        notes,
+      });
+      if (!saved) return null;
+      setShifts((prev) => prev.map((s) => (s.id === saved.id ? saved : s)));
+      return saved;
+    },
+    [currentShift, transactions, creditTransactions, staff, user],
+  );
+
+  // Creates a promotion, or updates it when an id is given. Promotions are
+  // paused rather than deleted so past sales still name them.
+  const savePromotion = useCallback(
+    async (
+      data: Omit<Promotion, "id" | "createdAt" | "createdBy" | "updatedAt"> & {
+        id?: string;
+      },
+    ): Promise<Promotion | null> => {
+      const existing = data.id
+        ? promotions.find((p) => p.id === data.id)
+        : undefined;
+      const promotion: Promotion = existing
+        ? { ...existing, ...data, id: existing.id }
+        : {
+            ...data,
+            id: generateId(),
+            createdAt: new Date().toISOString(),
+            createdBy: staff?.id || user?.id,
+          };
+      const saved = await PromotionStorage.save(promotion);
+      if (!saved) return null;
+      setPromotions((prev) =>
+        existing
+          ? prev.map((p) => (p.id === saved.id ? saved : p))
+          : [saved, ...prev],
+      );
+      return saved;
+    },
+    [promotions, staff, user],
+  );
+
+  // Sends sales waiting for eTIMS one at a time, oldest first. Whatever fails
+  // stays queued on the sale and is picked up by a later run.
+  const etimsRunning = useRef(false);
+  const submitEtimsInvoices = useCallback(async () => {
+    if (!shop || !isEtimsEnabled(shop) || etimsRunning.current) return;
+    const due = getDueEtimsInvoices(transactions);
+    if (due.length === 0) return;
+    etimsRunning.current = true;
+    try {
+      for (const transaction of due) {
+        const original = transaction.originalTransactionId
+          ? transactions.find((t) => t.id === transaction.originalTransactionId)
+          : undefined;
+        const etims = await submitEtimsInvoice(transaction, shop, original);
+        await TransactionStorage.updateEtims(transaction.id, etims);
+        setTransactions((prev) =>
+          prev.map((t) => (t.id === transaction.id ? { ...t, etims } : t)),
+        );
+        if (autoPrintQueue.current.delete(transaction.id)) {
+          printTransaction({ ...transaction, etims });
+        }
+      }
+    } finally {
+      etimsRunning.current = false;
+    }
+  }, [shop, transactions, printTransaction]);
+
+  // Submit new sales straight away and retry the queue on a timer, so sales
+  // made offline are fiscalised once connectivity is back.
+  useEffect(() => {
+    if (isLoading) return;
+    submitEtimsInvoices();
+    const interval = setInterval(submitEtimsInvoices, SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLoading, submitEtimsInvoices]);
+
+  // Puts a rejected invoice back in the queue, e.g. after the shop's PIN is fixed
+  const resubmitEtimsInvoice = useCallback(
+    async (transactionId: string): Promise<boolean> => {
+      const transaction = transactions.find((t) => t.id === transactionId);
+      if (!transaction?.etims || transaction.etims.status === "signed")
+        return false;
+      const etims = {
+        ...createEtimsRecord(),
+        attempts: transaction.etims.attempts,
+      };
+      const saved = await TransactionStorage.updateEtims(transactionId, etims);
+      if (saved) {
+        setTransactions((prev) =>
+          prev.map((t) => (t.id === transactionId ? { ...t, etims } : t)),
+        );
+      }
+      return saved;
+    },
+    [transactions],
+  );
+
+  const savePrinterSettings = useCallback(
+    async (settings: PrinterSettings): Promise<boolean> => {
+      const saved = await PrinterSettingsStorage.save(settings);
+      if (saved) setPrinterSettings(settings);
+      return saved;
+    },
+    [],
+  );
+
+  // Reprints are marked as copies
+  const printReceipt = useCallback(
+    async (transactionId: string): Promise<boolean> => {
+      const transaction = transactions.find((t) => t.id === transactionId);
+      if (!transaction) return false;
+      return printTransaction(transaction, true);
+    },
+    [transactions, printTransaction],
+  );
+
   const getProductStock = useCallback(
     (productId: string): number => {
       return batches
@@ -527,16 +1910,495 @@ export function AppProvider({ children }: { children: ReactNode }) {
     [batches]
   );
 
+  const getSellableStock = useCallback(
+    (productId: string): number => {
+      return batches
+        .filter((b) => b.productId === productId && isBatchSellable(b))
+        .reduce((total, b) => total + b.quantity, 0);
+    },
+    [batches],
+  );
+
+  const getQuarantinedStock = useCallback(
+    (productId: string): number => {
+      return batches
+        .filter((b) => b.productId === productId && !isBatchSellable(b))
+        .reduce((total, b) => total + b.quantity, 0);
+    },
+    [batches],
+  );
+
+  const writeOffStock = useCallback(
+    async (
+      batchId: string,
+      quantity: number,
+      reason: WriteOffReason,
+      notes?: string,
+    ): Promise<boolean> => {
+      const batch = batches.find((b) => b.id === batchId);
+      if (!batch || quantity <= 0 || quantity > batch.quantity) return false;
+      const product = products.find((p) => p.id === batch.productId);
+
+      const writeOff: StockWriteOff = {
+        id: generateId(),
+        batchId,
+        productId: batch.productId,
+        productName: product?.name || "Unknown",
+        batchNumber: batch.batchNumber,
+        quantity,
+        costPerUnit: batch.costPerUnit,
+        totalCost: quantity * batch.costPerUnit,
+        reason,
+        notes,
+        createdAt: new Date().toISOString(),
+        createdBy: user?.id,
+      };
+
+      const movements = createMovements(
+        "write_off",
+        [
+          {
+            productId: batch.productId,
+            batchId,
+            batchNumber: batch.batchNumber,
+            quantity: -quantity,
+          },
+        ],
+        { reason, notes, referenceId: writeOff.id },
+      );
+
+      const success = await WriteOffStorage.commit(writeOff, movements);
+      if (!success) return false;
+
+      setWriteOffs((prev) => [writeOff, ...prev]);
+      setBatches((prev) => applyBatchDeductions(prev, [{ batchId, quantity }]));
+      setStockMovements((prev) => [...movements, ...prev]);
+      return true;
+    },
+    [batches, products, user, createMovements],
+  );
+
+  const adjustStock = useCallback(
+    async (
+      batchId: string,
+      quantityChange: number,
+      reason: StockAdjustmentReason,
+      notes?: string,
+    ): Promise<boolean> => {
+      const batch = batches.find((b) => b.id === batchId);
+      if (!batch || quantityChange === 0) return false;
+      const newQuantity = batch.quantity + quantityChange;
+      if (newQuantity < 0) return false;
+
+      const success = await BatchStorage.updateQuantity(batchId, newQuantity);
+      if (!success) return false;
+      setBatches((prev) =>
+        prev.map((b) =>
+          b.id === batchId ? { ...b, quantity: newQuantity } : b,
+        ),
+      );
+
+      const movements = createMovements(
+        "adjustment",
+        [
+          {
+            productId: batch.productId,
+            batchId,
+            batchNumber: batch.batchNumber,
+            quantity: quantityChange,
+          },
+        ],
+        { reason, notes },
+      );
+      await StockMovementStorage.append(movements);
+      setStockMovements((prev) => [...movements, ...prev]);
+      return true;
+    },
+    [batches, createMovements],
+  );
+
+  const getProductMovements = useCallback(
+    (productId: string): StockMovement[] => {
+      return stockMovements.filter((m) => m.productId === productId);
+    },
+    [stockMovements],
+  );
+
+  const startStockTake = useCallback(
+    async (categoryId?: string): Promise<StockTake | null> => {
+      const startedAt = new Date().toISOString();
+      const stockTake: StockTake = {
+        id: generateId(),
+        reference: `ST-${startedAt.split("T")[0].replace(/-/g, "")}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+        status: "counting",
+        categoryId,
+        items: createStockTakeItems(products, batches, categoryId),
+        startedAt,
+        startedBy: staff?.id || user?.id,
+        startedByName: staff?.fullName || user?.fullName,
+      };
+      const saved = await StockTakeStorage.save(stockTake);
+      if (!saved) return null;
+      setStockTakes((prev) => [saved, ...prev]);
+      return saved;
+    },
+    [products, batches, staff, user],
+  );
+
+  const saveStockTakeCounts = useCallback(
+    async (stockTake: StockTake): Promise<boolean> => {
+      if (stockTake.status !== "counting") return false;
+      const saved = await StockTakeStorage.save({
+        ...stockTake,
+        countedBy: staff?.id || user?.id,
+        countedByName: staff?.fullName || user?.fullName,
+      });
+      if (!saved) return false;
+      setStockTakes((prev) => prev.map((s) => (s.id === saved.id ? saved : s)));
+      return true;
+    },
+    [staff, user],
+  );
+
+  const approveStockTake = useCallback(
+    async (stockTake: StockTake, approver: PinApprover): Promise<boolean> => {
+      const stored = stockTakes.find((s) => s.id === stockTake.id);
+      if (!stored || stored.status !== "counting") return false;
+
+      const { corrections, unbatchedSurplus } = planStockTakeCorrections(
+        stockTake,
+        batches,
+      );
+      const purchaseDate = new Date().toISOString().split("T")[0];
+      const newBatches: InventoryBatch[] = unbatchedSurplus.map((surplus) => ({
+        id: generateId(),
+        productId: surplus.productId,
+        batchNumber: `COUNT-${Date.now()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+        quantity: surplus.quantity,
+        purchaseDate,
+        costPerUnit: surplus.costPerUnit,
+      }));
+
+      const movements = createMovements(
+        "adjustment",
+        [
+          ...corrections,
+          ...newBatches.map((b) => ({
+            productId: b.productId,
+            batchId: b.id,
+            batchNumber: b.batchNumber,
+            quantity: b.quantity,
+          })),
+        ],
+        {
+          reason: "count_correction",
+          referenceId: stockTake.id,
+          notes: `Stock take ${stockTake.reference}`,
+        },
+      );
+
+      const completed: StockTake = {
+        ...stockTake,
+        countedBy: staff?.id || user?.id,
+        countedByName: staff?.fullName || user?.fullName,
+        status: "completed",
+        completedAt: new Date().toISOString(),
+        approvedBy: approver.id,
+        approvedByName: approver.fullName,
+      };
+      const deductions: BatchDeduction[] = corrections.map((c) => ({
+        batchId: c.batchId,
+        quantity: -c.quantity,
+      }));
+
+      const success = await StockTakeStorage.commitApproval({
+        stockTake: completed,
+        corrections: deductions,
+        newBatches,
+        stockMovements: movements,
+      });
+      if (!success) return false;
+
+      setStockTakes((prev) =>
+        prev.map((s) => (s.id === completed.id ? completed : s)),
+      );
+      setBatches((prev) => [
+        ...applyBatchDeductions(prev, deductions),
+        ...newBatches,
+      ]);
+      setStockMovements((prev) => [...movements, ...prev]);
+      return true;
+    },
+    [stockTakes, batches, staff, user, createMovements],
+  );
+
+  const cancelStockTake = useCallback(
+    async (stockTakeId: string): Promise<boolean> => {
+      const stockTake = stockTakes.find((s) => s.id === stockTakeId);
+      if (!stockTake || stockTake.status !== "counting") return false;
+      const saved = await StockTakeStorage.save({
+        ...stockTake,
+        status: "cancelled",
+      });
+      if (!saved) return false;
+      setStockTakes((prev) => prev.map((s) => (s.id === saved.id ? saved : s)));
+      return true;
+    },
+    [stockTakes],
+  );
+
+  const createPurchaseOrder = useCallback(
+    async (
+      supplierId: string,
+      lines: PurchaseOrderLine[],
+      notes?: string,
+    ): Promise<PurchaseOrder | null> => {
+      const supplier = suppliers.find((s) => s.id === supplierId);
+      if (!supplier || lines.length === 0) return null;
+      const createdAt = new Date().toISOString();
+      const order: PurchaseOrder = {
+        id: generateId(),
+        orderNumber: `PO-${createdAt.split("T")[0].replace(/-/g, "")}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+        supplierId,
+        supplierName: supplier.name,
+        status: "draft",
+        lines,
+        receipts: [],
+        notes,
+        createdAt,
+        createdBy: staff?.id || user?.id,
+        createdByName: staff?.fullName || user?.fullName,
+      };
+      const saved = await PurchaseOrderStorage.save(order);
+      if (!saved) return null;
+      setPurchaseOrders((prev) => [saved, ...prev]);
+      return saved;
+    },
+    [suppliers, staff, user],
+  );
+
+  // Only drafts can be edited; once sent the order is what the supplier has.
+  const updatePurchaseOrder = useCallback(
+    async (order: PurchaseOrder): Promise<boolean> => {
+      const stored = purchaseOrders.find((o) => o.id === order.id);
+      const supplier = suppliers.find((s) => s.id === order.supplierId);
+      if (
+        !stored ||
+        stored.status !== "draft" ||
+        !supplier ||
+        order.lines.length === 0
+      )
+        return false;
+      const saved = await PurchaseOrderStorage.save({
+        ...order,
+        supplierName: supplier.name,
+        status: "draft",
+      });
+      if (!saved) return false;
+      setPurchaseOrders((prev) =>
+        prev.map((o) => (o.id === saved.id ? saved : o)),
+      );
+      return true;
+    },
+    [purchaseOrders, suppliers],
+  );
+
+  const sendPurchaseOrder = useCallback(
+    async (purchaseOrderId: string): Promise<boolean> => {
+      const order = purchaseOrders.find((o) => o.id === purchaseOrderId);
+      if (!order || order.status !== "draft") return false;
+      const saved = await PurchaseOrderStorage.save({
+        ...order,
+        status: "sent",
+        sentAt: new Date().toISOString(),
+      });
+      if (!saved) return false;
+      setPurchaseOrders((prev) =>
+        prev.map((o) => (o.id === saved.id ? saved : o)),
+      );
+      return true;
+    },
+    [purchaseOrders],
+  );
+
+  const deletePurchaseOrder = useCallback(
+    async (purchaseOrderId: string): Promise<boolean> => {
+      const order = purchaseOrders.find((o) => o.id === purchaseOrderId);
+      if (!order || order.status !== "draft") return false;
+      const success = await PurchaseOrderStorage.delete(purchaseOrderId);
+      if (success)
+        setPurchaseOrders((prev) =>
+          prev.filter((o) => o.id !== purchaseOrderId),
+        );
+      return success;
+    },
+    [purchaseOrders],
+  );
+
+  // Books a delivery as new batches from the order's supplier. Each received
+  // line keeps its variance against the order so differences stay on record.
+  const receivePurchaseOrder = useCallback(
+    async (
+      purchaseOrderId: string,
+      received: ReceiveLineInput[],
+      details: { invoiceNumber?: string; notes?: string } = {},
+    ): Promise<GoodsReceivedNote | null> => {
+      const order = purchaseOrders.find((o) => o.id === purchaseOrderId);
+      if (
+        !order ||
+        (order.status !== "sent" && order.status !== "partially_received")
+      )
+        return null;
+      const deliveries = received.filter(
+        (r) =>
+          r.quantity > 0 &&
+          order.lines.some((l) => l.productId === r.productId),
+      );
+      if (deliveries.length === 0) return null;
+
+      const receivedAt = new Date().toISOString();
+      const purchaseDate = receivedAt.split("T")[0];
+      const invoiceNumber = details.invoiceNumber || order.orderNumber;
+      const newBatches: InventoryBatch[] = deliveries.map((delivery) => ({
+        id: generateId(),
+        productId: delivery.productId,
+        batchNumber: `BATCH-${Date.now()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+        quantity: delivery.quantity,
+        expiryDate: delivery.expiryDate,
+        supplierId: order.supplierId,
+        invoiceNumber,
+        purchaseDate,
+        costPerUnit: delivery.unitCost,
+      }));
+
+      const receipt: GoodsReceivedNote = {
+        id: generateId(),
+        invoiceNumber: details.invoiceNumber,
+        receivedAt,
+        receivedBy: staff?.id || user?.id,
+        receivedByName: staff?.fullName || user?.fullName,
+        notes: details.notes,
+        lines: newBatches.map((batch) => {
+          const line = order.lines.find(
+            (l) => l.productId === batch.productId,
+          )!;
+          return {
+            productId: batch.productId,
+            batchId: batch.id,
+            batchNumber: batch.batchNumber,
+            quantity: batch.quantity,
+            unitCost: batch.costPerUnit,
+            expectedCost: line.expectedCost,
+            quantityVariance: batch.quantity - getOutstandingQuantity(line),
+            expiryDate: batch.expiryDate,
+          };
+        }),
+      };
+
+      const lines = order.lines.map((line) => {
+        const delivery = deliveries.find((d) => d.productId === line.productId);
+        return delivery
+          ? {
+              ...line,
+              quantityReceived: line.quantityReceived + delivery.quantity,
+            }
+          : line;
+      });
+      const status = getReceivingStatus(lines);
+      const updated: PurchaseOrder = {
+        ...order,
+        lines,
+        status,
+        receipts: [...order.receipts, receipt],
+        receivedAt: status === "received" ? receivedAt : order.receivedAt,
+      };
+
+      const movements = createMovements(
+        "receipt",
+        newBatches.map((b) => ({
+          productId: b.productId,
+          batchId: b.id,
+          batchNumber: b.batchNumber,
+          quantity: b.quantity,
+        })),
+        {
+          referenceId: order.orderNumber,
+          notes: `Received from ${order.supplierName}`,
+        },
+      );
+
+      const success = await PurchaseOrderStorage.commitReceipt({
+        purchaseOrder: updated,
+        receiptId: receipt.id,
+        newBatches,
+        stockMovements: movements,
+      });
+      if (!success) return null;
+
+      const priceRecords: PurchasePriceRecord[] = newBatches.map((batch) => ({
+        id: generateId(),
+        productId: batch.productId,
+        supplierId: order.supplierId,
+        supplierName: order.supplierName,
+        purchaseDate,
+        unitCost: batch.costPerUnit,
+        quantity: batch.quantity,
+        receiptNumber: invoiceNumber,
+        createdAt: receivedAt,
+      }));
+      await PriceHistoryStorage.addMultiple(priceRecords);
+
+      const supplier = suppliers.find((s) => s.id === order.supplierId);
+      if (supplier) {
+        await raiseSupplierInvoice(
+          supplier,
+          newBatches.reduce((sum, b) => sum + b.quantity * b.costPerUnit, 0),
+          {
+            invoiceNumber,
+            invoiceDate: purchaseDate,
+            source: "purchase_order",
+            sourceId: receipt.id,
+            notes: `Delivery on ${order.orderNumber}`,
+          },
+        );
+      }
+
+      setPurchaseOrders((prev) =>
+        prev.map((o) => (o.id === updated.id ? updated : o)),
+      );
+      setBatches((prev) => [...prev, ...newBatches]);
+      setStockMovements((prev) => [...movements, ...prev]);
+      setPriceHistory((prev) => [...priceRecords, ...prev]);
+      return receipt;
+    },
+    [
+      purchaseOrders,
+      suppliers,
+      staff,
+      user,
+      createMovements,
+      raiseSupplierInvoice,
+    ],
+  );
+
   const getTodaySales = useCallback((): number => {
     const today = new Date().toISOString().split("T")[0];
     return transactions
-      .filter((t) => t.transactionDate.startsWith(today))
+      .filter(
+        (t) =>
+          t.transactionDate.startsWith(today) && t.paymentStatus !== "voided",
+      )
       .reduce((total, t) => total + t.total, 0);
   }, [transactions]);
 
   const getTodayTransactionCount = useCallback((): number => {
     const today = new Date().toISOString().split("T")[0];
-    return transactions.filter((t) => t.transactionDate.startsWith(today)).length;
+    return transactions.filter(
+      (t) =>
+        t.transactionDate.startsWith(today) &&
+        t.kind !== "refund" &&
+        t.paymentStatus !== "voided",
+    ).length;
   }, [transactions]);
 
   const getLowStockProducts = useCallback((): Product[] => {
@@ -587,7 +2449,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const processReceiptData = useCallback(
     async (
       data: ExtractedReceiptData,
-      mode: ReceiptProcessingMode
+      mode: ReceiptProcessingMode,
+      receiptId?: string,
     ): Promise<ProcessedReceiptResult> => {
       const result: ProcessedReceiptResult = {
         newProductsCreated: 0,
@@ -599,6 +2462,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       const newPriceRecords: PurchasePriceRecord[] = [];
       const newBatches: InventoryBatch[] = [];
+      const supplier = data.supplierName
+        ? suppliers.find(
+            (s) => s.name.toLowerCase() === data.supplierName!.toLowerCase(),
+          )
+        : undefined;
       const updatedProducts: Product[] = [];
       const createdProducts: Product[] = [];
 
@@ -642,6 +2510,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         const priceRecord: PurchasePriceRecord = {
           id: generateId(),
           productId: product.id,
+          supplierId: supplier?.id,
           supplierName: data.supplierName,
           purchaseDate: data.date || new Date().toISOString().split("T")[0],
           unitCost: item.unitPrice,
@@ -658,6 +2527,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
             productId: product.id,
             batchNumber: `BATCH-${Date.now()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
             quantity: item.quantity,
+            supplierId: supplier?.id,
+            invoiceNumber: data.receiptNumber,
             purchaseDate: data.date || new Date().toISOString().split("T")[0],
             costPerUnit: item.unitPrice,
           };
@@ -687,11 +2558,44 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       if (newBatches.length > 0) {
         setBatches((prev) => [...prev, ...newBatches]);
+        const movements = createMovements(
+          "receipt",
+          newBatches.map((b) => ({
+            productId: b.productId,
+            batchId: b.id,
+            batchNumber: b.batchNumber,
+            quantity: b.quantity,
+          })),
+          {
+            referenceId: data.receiptNumber,
+            notes: data.supplierName
+              ? `Received from ${data.supplierName}`
+              : undefined,
+          },
+        );
+        await StockMovementStorage.append(movements);
+        setStockMovements((prev) => [...movements, ...prev]);
+      }
+
+      // Stock received on a known supplier's receipt is owed to them.
+      if (mode === "current_stock" && supplier) {
+        const amount =
+          data.total ??
+          data.items.reduce(
+            (sum, item) => sum + item.quantity * item.unitPrice,
+            0,
+          );
+        await raiseSupplierInvoice(supplier, amount, {
+          invoiceNumber: data.receiptNumber,
+          invoiceDate: data.date,
+          source: "scanned_receipt",
+          sourceId: receiptId || data.receiptNumber,
+        });
       }
 
       return result;
     },
-    [findMatchingProduct]
+    [findMatchingProduct, suppliers, createMovements, raiseSupplierInvoice],
   );
 
   const login = useCallback(
@@ -728,18 +2632,36 @@ export function AppProvider({ children }: { children: ReactNode }) {
         transactions,
         batches,
         cart,
+        cartCustomer,
         user,
         priceHistory,
         creditTransactions,
+        writeOffs,
+        stockMovements,
+        stockTakes,
+        purchaseOrders,
+        supplierTransactions,
+        paymentReminders,
+        shifts,
+        currentShift,
+        dailySummaries,
+        promotions,
+        printerSettings,
         isLoading,
+        syncStatus,
+        syncNow,
+        resolveSyncConflict,
         loadData,
         addToCart,
         removeFromCart,
+        setCartCustomer,
         updateCartQuantity,
         clearCart,
         getCartTotal,
         getCartSubtotal,
         completeSale,
+        processRefund,
+        voidTransaction,
         addProduct,
         updateProduct,
         addCustomer,
@@ -747,6 +2669,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
         addSupplier,
         addStockEntry,
         getProductStock,
+        getSellableStock,
+        getQuarantinedStock,
+        writeOffStock,
+        adjustStock,
+        getProductMovements,
+        startStockTake,
+        saveStockTakeCounts,
+        approveStockTake,
+        cancelStockTake,
+        createPurchaseOrder,
+        updatePurchaseOrder,
+        sendPurchaseOrder,
+        deletePurchaseOrder,
+        receivePurchaseOrder,
         getTodaySales,
         getTodayTransactionCount,
         getLowStockProducts,
@@ -758,6 +2694,18 @@ export function AppProvider({ children }: { children: ReactNode }) {
         adjustCreditBalance,
         getTotalOutstandingDebt,
         getCustomersWithDebt,
+        getSupplierTransactions,
+        getSupplierBalance,
+        getTotalPayables,
+        recordSupplierPayment,
+        sendPaymentReminders,
+        openShift,
+        recordPaidOut,
+        closeShift,
+        savePromotion,
+        resubmitEtimsInvoice,
+        savePrinterSettings,
+        printReceipt,
         login,
         logout,
       }}
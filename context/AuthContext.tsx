@@ -10,21 +10,18 @@ const LOCK_TIMESTAMP_KEY = "@agrovet_lock_timestamp";
 const LAST_SHOP_KEY = "@agrovet_last_shop";
 const INACTIVITY_TIMEOUT = 5 * 60 * 1000;
 
-// Generate a proper UUID v4 format string
-const generateUUID = (): string => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
-
 export interface LastShopInfo {
   name: string;
   shopCode: string;
   logo?: string;
 }
 
+export interface PinApprover {
+  id: string;
+  fullName: string;
+  role: UserRole;
+}
+
 interface AuthContextType {
   user: AuthUser | null;
   shop: Shop | null;
@@ -36,6 +33,7 @@ interface AuthContextType {
   adminLogin: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   staffLogin: (shopCode: string, pin: string) => Promise<{ success: boolean; error?: string }>;
   unlockWithPin: (pin: string) => Promise<{ success: boolean; error?: string }>;
+  verifyManagerPin: (pin: string) => Promise<{ success: boolean; approver?: PinApprover; error?: string }>;
   signupWithLicense: (
     licenseKey: string,
     phone: string,
@@ -47,6 +45,7 @@ interface AuthContextType {
   logout: () => Promise<void>;
   lockScreen: () => void;
   updateUserProfile: (updates: Partial<AuthUser>) => Promise<boolean>;
+  updateShop: (updates: Partial<Shop>) => Promise<boolean>;
   hasPermission: (requiredRole: UserRole | UserRole[]) => boolean;
   createStaffMember: (
     fullName: string,
@@ -224,6 +223,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           taxId: shopData.tax_id,
           currency: shopData.currency || "KES",
           receiptFooter: shopData.receipt_footer,
+          pricesIncludeTax: shopData.prices_include_tax ?? true,
+          categoryTaxClasses: shopData.category_tax_classes || {},
           shopCode: shopData.shop_code,
           createdAt: shopData.created_at,
           updatedAt: shopData.updated_at,
@@ -443,25 +444,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const { data: shopData, error: shopError } = await supabase
-        .from("shops")
-        .select("*")
-        .eq("shop_code", shopCode.toUpperCase())
-        .single();
+      // Shops and users are hidden by row level security until signed in,
+      // so the PIN is checked server-side.
+      const { data: loginData, error: loginError } = await supabase.rpc("staff_login", {
+        p_shop_code: shopCode,
+        p_pin: pin,
+      });
 
-      if (shopError || !shopData) {
+      if (loginError || !loginData) {
         return { success: false, error: "Invalid shop code" };
       }
+      if (loginData.locked) {
+        return { success: false, error: "Too many wrong PINs. Try again in 15 minutes." };
+      }
 
-      const { data: userData, error: userError } = await supabase
-        .from("users")
-        .select("*")
-        .eq("shop_id", shopData.id)
-        .eq("pin", pin)
-        .eq("active", true)
-        .single();
-
-      if (userError || !userData) {
+      const shopData = loginData.shop;
+      const userData = loginData.user;
+      if (!userData) {
         return { success: false, error: "Invalid PIN" };
       }
 
@@ -488,6 +487,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         taxId: shopData.tax_id,
         currency: shopData.currency || "KES",
         receiptFooter: shopData.receipt_footer,
+        pricesIncludeTax: shopData.prices_include_tax ?? true,
+        categoryTaxClasses: shopData.category_tax_classes || {},
         shopCode: shopData.shop_code,
         createdAt: shopData.created_at,
         updatedAt: shopData.updated_at,
@@ -508,11 +509,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setLastShopInfoState(lastShop);
       await AsyncStorage.setItem(LAST_SHOP_KEY, JSON.stringify(lastShop));
 
-      await supabase
-        .from("users")
-        .update({ last_login_at: new Date().toISOString() })
-        .eq("id", userData.id);
-
       return { success: true };
     } catch (error: any) {
       return { success: false, error: error.message || "Login failed" };
@@ -540,17 +536,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const { data: userData, error } = await supabase
-        .from("users")
-        .select("pin")
-        .eq("id", user.id)
-        .single();
+      const { data: isValid, error } = await supabase.rpc("verify_staff_pin", {
+        p_user_id: user.id,
+        p_pin: pin,
+      });
 
-      if (error || !userData) {
+      if (error) {
         return { success: false, error: "Could not verify PIN" };
       }
 
-      if (userData.pin === pin) {
+      if (isValid) {
         setIsLocked(false);
         await AsyncStorage.removeItem(LOCK_TIMESTAMP_KEY);
         resetInactivityTimer();
@@ -563,6 +558,50 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Checks a manager or admin PIN without switching the signed-in user, so a
+  // supervisor can approve an action on the cashier's session.
+  const verifyManagerPin = async (
+    pin: string
+  ): Promise<{ success: boolean; approver?: PinApprover; error?: string }> => {
+    if (!shop) {
+      return { success: false, error: "No shop session" };
+    }
+
+    if (!isSupabaseConfigured()) {
+      if (pin === "5678") {
+        return { success: true, approver: { id: "staff-2", fullName: "Mary Manager", role: "manager" } };
+      }
+      if (user && user.role !== "cashier" && user.pin === pin) {
+        return { success: true, approver: { id: user.id, fullName: user.fullName, role: user.role } };
+      }
+      return { success: false, error: "Incorrect manager PIN" };
+    }
+
+    const supabase = getSupabase();
+    if (!supabase) {
+      return { success: false, error: "Database not configured" };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc("verify_manager_pin", { p_pin: pin });
+
+      if (error) {
+        return { success: false, error: "Could not verify PIN" };
+      }
+
+      if (data) {
+        return {
+          success: true,
+          approver: { id: data.id, fullName: data.full_name, role: data.role },
+        };
+      }
+
+      return { success: false, error: "Incorrect manager PIN" };
+    } catch (error: any) {
+      return { success: false, error: error.message || "Verification failed" };
+    }
+  };
+
   const signupWithLicense = async (
     licenseKey: string,
     phone: string,
@@ -650,62 +689,43 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
       }
 
-      // Step 2: Create shop in Supabase
+      // Step 2: Create Supabase auth user. register_shop ties the admin to
+      // this session, so it has to succeed.
+      const { data: authData, error: authError } = await supabase.auth.signUp({
+        email,
+        password,
+      });
+      if (authError) {
+        return { success: false, error: authError.message };
+      }
+      if (!authData.session) {
+        return { success: false, error: "No session after sign-up. Turn off email confirmation in Supabase Auth settings." };
+      }
+
+      // Step 3: Create the shop and its admin user together. Row level
+      // security hides both tables until the shop exists, so this runs
+      // server-side.
       const shopCode = generateShopCode(shopName);
-      const { data: newShop, error: shopError } = await supabase
-        .from("shops")
-        .insert({
+      const defaultPin = Math.floor(1000 + Math.random() * 9000).toString();
+      const { error: registerError } = await supabase.rpc("register_shop", {
+        p_shop: {
           name: shopName,
           shop_code: shopCode,
           currency: "KES",
           phone: phone,
           email: email,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (shopError) {
-        console.log("Shop creation error:", shopError);
-        return { success: false, error: `Failed to create shop: ${shopError.message}` };
-      }
-
-      // Step 3: Create Supabase auth user
-      let authUserId = generateUUID();
-      try {
-        const { data: authData, error: authError } = await supabase.auth.signUp({
-          email,
-          password,
-        });
-
-        if (authError) throw new Error(authError.message);
-        if (authData.user) {
-          authUserId = authData.user.id;
-        }
-      } catch (authErr) {
-        console.log("Supabase auth failed, using fallback UUID:", authErr);
-        // Generate a new UUID if auth fails (ensures uniqueness)
-        authUserId = generateUUID();
-      }
-
-      // Step 4: Create user record
-      const defaultPin = Math.floor(1000 + Math.random() * 9000).toString();
-      const { error: userError } = await supabase.from("users").insert({
-        auth_id: authUserId,
-        email: email,
-        full_name: fullName,
-        phone: phone,
-        shop_id: newShop.id,
-        role: "admin",
-        active: true,
-        pin: defaultPin,
-        created_at: new Date().toISOString(),
+        },
+        p_admin: {
+          email: email,
+          full_name: fullName,
+          phone: phone,
+          pin: defaultPin,
+        },
       });
 
-      if (userError) {
-        console.log("User creation error:", userError);
-        return { success: false, error: `Failed to create user: ${userError.message}` };
+      if (registerError) {
+        console.log("Shop registration error:", registerError);
+        return { success: false, error: `Failed to create shop: ${registerError.message}` };
       }
 
       console.log("Shop created successfully with code:", shopCode);
@@ -767,6 +787,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return true;
   };
 
+  // Saves the shop's KRA PIN and tax settings
+  const updateShop = async (updates: Partial<Shop>): Promise<boolean> => {
+    if (!shop) return false;
+
+    if (isSupabaseConfigured()) {
+      const supabase = getSupabase();
+      if (supabase) {
+        const { error } = await supabase
+          .from("shops")
+          .update({
+            tax_id: updates.taxId,
+            prices_include_tax: updates.pricesIncludeTax,
+            category_tax_classes: updates.categoryTaxClasses,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", shop.id);
+
+        if (error) {
+          console.error("Error updating shop:", error);
+          return false;
+        }
+      }
+    }
+
+    const updatedShop = { ...shop, ...updates, updatedAt: new Date().toISOString() };
+    setShop(updatedShop);
+    await AsyncStorage.setItem(SHOP_STORAGE_KEY, JSON.stringify(updatedShop));
+    return true;
+  };
+
   const hasPermission = (requiredRole: UserRole | UserRole[]): boolean => {
     if (!user) return false;
 
@@ -939,10 +989,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     try {
       const { data: shopData, error: shopError } = await supabase
-        .from("shops")
-        .select("name, shop_code, logo")
-        .eq("shop_code", shopCode.toUpperCase())
-        .single();
+        .rpc("lookup_shop_by_code", { p_shop_code: shopCode })
+        .maybeSingle<{ name: string; shop_code: string; logo?: string }>();
 
       if (shopError || !shopData) {
         return { success: false, error: "Shop not found. Please check the shop code." };
@@ -988,10 +1036,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         adminLogin,
         staffLogin,
         unlockWithPin,
+        verifyManagerPin,
         signupWithLicense,
         logout,
         lockScreen,
         updateUserProfile,
+        updateShop,
         hasPermission,
         createStaffMember,
         updateStaffPin,
@@ -4,6 +4,8 @@ import InventoryScreen from "@/screens/InventoryScreen";
 import ProductDetailScreen from "@/screens/ProductDetailScreen";
 import AddOrRestockScreen from "@/screens/AddOrRestockScreen";
 import ReceiptUploadScreen from "@/screens/ReceiptUploadScreen";
+import StockTakesScreen from "@/screens/StockTakesScreen";
+import StockTakeScreen from "@/screens/StockTakeScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
 
@@ -12,6 +14,8 @@ export type InventoryStackParamList = {
   ProductDetail: { productId: string };
   AddOrRestock: undefined;
   ReceiptUpload: undefined;
+  StockTakes: undefined;
+  StockTake: { stockTakeId: string };
 };
 
 const Stack = createNativeStackNavigator<InventoryStackParamList>();
@@ -55,6 +59,20 @@ export default function InventoryStackNavigator() {
           presentation: "modal",
         }}
       />
+      <Stack.Screen
+        name="StockTakes"
+        component={StockTakesScreen}
+        options={{
+          headerTitle: "Stock Takes",
+        }}
+      />
+      <Stack.Screen
+        name="StockTake"
+        component={StockTakeScreen}
+        options={{
+          headerTitle: "Stock Take",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -10,6 +10,23 @@ import AddSupplierScreen from "@/screens/AddSupplierScreen";
 import ReceiptsScreen from "@/screens/ReceiptsScreen";
 import CustomerCreditsScreen from "@/screens/CustomerCreditsScreen";
 import UserManagementScreen from "@/screens/UserManagementScreen";
+import SyncConflictsScreen from "@/screens/SyncConflictsScreen";
+import TransactionDetailScreen from "@/screens/TransactionDetailScreen";
+import ReturnItemsScreen from "@/screens/ReturnItemsScreen";
+import PurchaseOrdersScreen from "@/screens/PurchaseOrdersScreen";
+import PurchaseOrderEditScreen from "@/screens/PurchaseOrderEditScreen";
+import PurchaseOrderDetailScreen from "@/screens/PurchaseOrderDetailScreen";
+import ReceiveGoodsScreen from "@/screens/ReceiveGoodsScreen";
+import SupplierAccountScreen from "@/screens/SupplierAccountScreen";
+import DebtorAgingScreen from "@/screens/DebtorAgingScreen";
+import CustomerStatementScreen from "@/screens/CustomerStatementScreen";
+import ReminderCampaignScreen from "@/screens/ReminderCampaignScreen";
+import ShiftScreen from "@/screens/ShiftScreen";
+import ZReportScreen from "@/screens/ZReportScreen";
+import PromotionsScreen from "@/screens/PromotionsScreen";
+import PromotionEditScreen from "@/screens/PromotionEditScreen";
+import TaxSettingsScreen from "@/screens/TaxSettingsScreen";
+import PrinterSettingsScreen from "@/screens/PrinterSettingsScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
 
@@ -24,6 +41,23 @@ export type MoreStackParamList = {
   Receipts: undefined;
   CustomerCredits: { customerId?: string };
   UserManagement: undefined;
+  SyncConflicts: undefined;
+  TransactionDetail: { transactionId: string };
+  ReturnItems: { transactionId: string };
+  PurchaseOrders: undefined;
+  PurchaseOrderEdit: { purchaseOrderId?: string; suggest?: boolean };
+  PurchaseOrderDetail: { purchaseOrderId: string };
+  ReceiveGoods: { purchaseOrderId: string };
+  SupplierAccount: { supplierId: string };
+  DebtorAging: undefined;
+  CustomerStatement: { customerId: string };
+  ReminderCampaign: undefined;
+  Shift: undefined;
+  ZReport: { date?: string };
+  Promotions: undefined;
+  PromotionEdit: { promotionId?: string };
+  TaxSettings: undefined;
+  PrinterSettings: undefined;
 };
 
 const Stack = createNativeStackNavigator<MoreStackParamList>();
@@ -109,6 +143,127 @@ export default function MoreStackNavigator() {
           headerTitle: "Team Management",
         }}
       />
+      <Stack.Screen
+        name="SyncConflicts"
+        component={SyncConflictsScreen}
+        options={{
+          headerTitle: "Sync Conflicts",
+        }}
+      />
+      <Stack.Screen
+        name="TransactionDetail"
+        component={TransactionDetailScreen}
+        options={{
+          headerTitle: "Transaction Details",
+        }}
+      />
+      <Stack.Screen
+        name="ReturnItems"
+        component={ReturnItemsScreen}
+        options={{
+          headerTitle: "Return Items",
+        }}
+      />
+      <Stack.Screen
+        name="PurchaseOrders"
+        component={PurchaseOrdersScreen}
+        options={{
+          headerTitle: "Purchase Orders",
+        }}
+      />
+      <Stack.Screen
+        name="PurchaseOrderEdit"
+        component={PurchaseOrderEditScreen}
+        options={{
+          headerTitle: "Purchase Order",
+          presentation: "modal",
+        }}
+      />
+      <Stack.Screen
+        name="PurchaseOrderDetail"
+        component={PurchaseOrderDetailScreen}
+        options={{
+          headerTitle: "Purchase Order",
+        }}
+      />
+      <Stack.Screen
+        name="ReceiveGoods"
+        component={ReceiveGoodsScreen}
+        options={{
+          headerTitle: "Receive Goods",
+        }}
+      />
+      <Stack.Screen
+        name="SupplierAccount"
+        component={SupplierAccountScreen}
+        options={{
+          headerTitle: "Supplier Account",
+        }}
+      />
+      <Stack.Screen
+        name="DebtorAging"
+        component={DebtorAgingScreen}
+        options={{
+          headerTitle: "Debtor Aging",
+        }}
+      />
+      <Stack.Screen
+        name="CustomerStatement"
+        component={CustomerStatementScreen}
+        options={{
+          headerTitle: "Statement",
+        }}
+      />
+      <Stack.Screen
+        name="ReminderCampaign"
+        component={ReminderCampaignScreen}
+        options={{
+          headerTitle: "Payment Reminders",
+        }}
+      />
+      <Stack.Screen
+        name="Shift"
+        component={ShiftScreen}
+        options={{
+          headerTitle: "Cash Drawer",
+        }}
+      />
+      <Stack.Screen
+        name="ZReport"
+        component={ZReportScreen}
+        options={{
+          headerTitle: "Z-Report",
+        }}
+      />
+      <Stack.Screen
+        name="Promotions"
+        component={PromotionsScreen}
+        options={{
+          headerTitle: "Promotions",
+        }}
+      />
+      <Stack.Screen
+        name="PromotionEdit"
+        component={PromotionEditScreen}
+        options={{
+          headerTitle: "Promotion",
+          presentation: "modal",
+        }}
+      />
+      <Stack.Screen
+        name="TaxSettings"
+        component={TaxSettingsScreen}
+        options={{
+          headerTitle: "Tax Settings",
+        }}
+      />
+      <Stack.Screen
+        name="PrinterSettings"
+        component={PrinterSettingsScreen}
+        options={{
+          headerTitle: "Receipt Printer",
+        }}
+      />
     </Stack.Navigator>
   );
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import POSScreen from "@/screens/POSScreen";
 import CheckoutScreen from "@/screens/CheckoutScreen";
 import TransactionDetailScreen from "@/screens/TransactionDetailScreen";
+import ReturnItemsScreen from "@/screens/ReturnItemsScreen";
 import { ShopHeaderTitle } from "@/components/ShopHeaderTitle";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
@@ -11,6 +12,7 @@ export type POSStackParamList = {
   POS: undefined;
   Checkout: undefined;
   TransactionDetail: { transactionId: string };
+  ReturnItems: { transactionId: string };
 };
 
 const Stack = createNativeStackNavigator<POSStackParamList>();
@@ -46,6 +48,13 @@ export default function POSStackNavigator() {
           headerTitle: "Transaction Details",
         }}
       />
+      <Stack.Screen
+        name="ReturnItems"
+        component={ReturnItemsScreen}
+        options={{
+          headerTitle: "Return Items",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -3,6 +3,8 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import ReportsScreen from "@/screens/ReportsScreen";
 import SalesReportScreen from "@/screens/SalesReportScreen";
 import InventoryReportScreen from "@/screens/InventoryReportScreen";
+import LotTraceScreen from "@/screens/LotTraceScreen";
+import VatReportScreen from "@/screens/VatReportScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
 
@@ -10,6 +12,8 @@ export type ReportsStackParamList = {
   Reports: undefined;
   SalesReport: undefined;
   InventoryReport: undefined;
+  LotTrace: undefined;
+  VatReport: undefined;
 };
 
 const Stack = createNativeStackNavigator<ReportsStackParamList>();
@@ -44,6 +48,20 @@ export default function ReportsStackNavigator() {
           headerTitle: "Inventory Report",
         }}
       />
+      <Stack.Screen
+        name="LotTrace"
+        component={LotTraceScreen}
+        options={{
+          headerTitle: "Trace Lot",
+        }}
+      />
+      <Stack.Screen
+        name="VatReport"
+        component={VatReportScreen}
+        options={{
+          headerTitle: "VAT Report",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -8,10 +8,13 @@ import { Button } from "@/components/Button";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { CATEGORIES, UNITS, CategoryId, UnitId } from "@/constants/categories";
+import { CATEGORIES, TAX_CLASSES, UNITS, CategoryId, TaxClassId, UnitId } from "@/constants/categories";
 import { InventoryStackParamList } from "@/navigation/InventoryStackNavigator";
 import { Product, ItemType } from "@/types";
+import { DEFAULT_WHOLESALE_MIN_QUANTITY } from "@/utils/pricing";
+import { DEFAULT_TAX_CLASS, getTaxClassName } from "@/utils/tax";
 
 type AddOrRestockScreenProps = {
   navigation: NativeStackNavigationProp<InventoryStackParamList, "AddOrRestock">;
@@ -22,6 +25,7 @@ type Mode = "search" | "restock" | "new";
 export default function AddOrRestockScreen({ navigation }: AddOrRestockScreenProps) {
   const { theme } = useTheme();
   const { products, addProduct, addStockEntry, getProductStock, batches } = useApp();
+  const { shop } = useAuth();
 
   const [mode, setMode] = useState<Mode>("search");
   const [searchQuery, setSearchQuery] = useState("");
@@ -36,9 +40,12 @@ export default function AddOrRestockScreen({ navigation }: AddOrRestockScreenPro
   const [description, setDescription] = useState("");
   const [sku, setSku] = useState("");
   const [category, setCategory] = useState<CategoryId>(CATEGORIES[0].id);
+  // Null follows the shop's class for the category
+  const [taxClass, setTaxClass] = useState<TaxClassId | null>(null);
   const [unit, setUnit] = useState<UnitId>(UNITS[0].id);
   const [retailPrice, setRetailPrice] = useState("");
   const [wholesalePrice, setWholesalePrice] = useState("");
+  const [wholesaleMinQuantity, setWholesaleMinQuantity] = useState("");
   const [newCostPrice, setNewCostPrice] = useState("");
   const [reorderLevel, setReorderLevel] = useState("10");
   const [initialQuantity, setInitialQuantity] = useState("");
@@ -168,8 +175,10 @@ export default function AddOrRestockScreen({ navigation }: AddOrRestockScreenPro
         unit: unit as any,
         retailPrice: parseFloat(retailPrice),
         wholesalePrice: parseFloat(wholesalePrice) || parseFloat(retailPrice) * 0.9,
+        wholesaleMinQuantity: wholesaleMinQuantity.trim() ? parseInt(wholesaleMinQuantity, 10) || 0 : undefined,
         costPrice: parseFloat(newCostPrice) || parseFloat(retailPrice) * 0.7,
         reorderLevel: parseInt(reorderLevel) || 10,
+        taxClass: taxClass || undefined,
         active: true,
         itemType,
       };
@@ -203,7 +212,7 @@ export default function AddOrRestockScreen({ navigation }: AddOrRestockScreenPro
     } finally {
       setIsLoading(false);
     }
-  }, [name, description, sku, category, unit, retailPrice, wholesalePrice, newCostPrice, reorderLevel, itemType, packageWeight, pricePerKg, costPerKg, bulkUnit, initialQuantity, addProduct, navigation]);
+  }, [name, description, sku, category, taxClass, unit, retailPrice, wholesalePrice, wholesaleMinQuantity, newCostPrice, reorderLevel, itemType, packageWeight, pricePerKg, costPerKg, bulkUnit, initialQuantity, addProduct, navigation]);
 
   const existingBatches = selectedProduct ? getExistingBatches(selectedProduct.id) : [];
   const matchingBatch = existingBatches.find(
@@ -570,6 +579,34 @@ export default function AddOrRestockScreen({ navigation }: AddOrRestockScreenPro
             </ScrollView>
           </View>
 
+          <View style={styles.inputGroup}>
+            <ThemedText type="small" style={[styles.label, { color: theme.textSecondary }]}>
+              Tax Class
+            </ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipScroll}>
+              {[
+                { id: null, name: `Category default (${getTaxClassName(shop?.categoryTaxClasses?.[category] || DEFAULT_TAX_CLASS)})` },
+                ...TAX_CLASSES,
+              ].map((option) => (
+                <Pressable
+                  key={option.id ?? "default"}
+                  onPress={() => setTaxClass(option.id)}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: taxClass === option.id ? Colors.primary.main : theme.surface,
+                      borderColor: taxClass === option.id ? Colors.primary.main : theme.divider,
+                    },
+                  ]}
+                >
+                  <ThemedText type="caption" style={{ color: taxClass === option.id ? "#FFFFFF" : theme.text }}>
+                    {option.name}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </ScrollView>
+          </View>
+
           <View style={styles.inputGroup}>
             <ThemedText type="small" style={[styles.label, { color: theme.textSecondary }]}>
               Unit of Measure
@@ -630,6 +667,23 @@ export default function AddOrRestockScreen({ navigation }: AddOrRestockScreenPro
             </View>
           </View>
 
+          <View style={styles.inputGroup}>
+            <ThemedText type="small" style={[styles.label, { color: theme.textSecondary }]}>
+              Wholesale From Quantity
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.surface, borderColor: theme.divider, color: theme.text }]}
+              value={wholesaleMinQuantity}
+              onChangeText={setWholesaleMinQuantity}
+              placeholder={String(DEFAULT_WHOLESALE_MIN_QUANTITY)}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="number-pad"
+            />
+            <ThemedText type="caption" style={{ color: theme.textSecondary, marginTop: Spacing.xs }}>
+              Any customer buying this many pays the wholesale price. Enter 0 to turn this off.
+            </ThemedText>
+          </View>
+
           <View style={styles.row}>
             <View style={[styles.inputGroup, { flex: 1, marginRight: Spacing.sm }]}>
               <ThemedText type="small" style={[styles.label, { color: theme.textSecondary }]}>
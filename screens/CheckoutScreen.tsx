@@ -1,5 +1,20 @@
-import React, { useState, useCallback, useEffect, useMemo } from "react";
-import { View, StyleSheet, ScrollView, Pressable, Alert, TextInput } from "react-native";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+} from "react-native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useFocusEffect } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
@@ -7,13 +22,35 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { ManagerPinModal } from "@/components/ManagerPinModal";
 import { useTheme } from "@/hooks/useTheme";
-import { useApp } from "@/context/AppContext";
+import { useApp, SaleOptions } from "@/context/AppContext";
+import { PinApprover, useAuth } from "@/context/AuthContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { formatCurrency } from "@/utils/format";
-import { PAYMENT_METHODS } from "@/constants/categories";
+import { formatCurrency, formatPhone } from "@/utils/format";
+import {
+  getMpesaProvider,
+  toDarajaPhone,
+  waitForMpesaConfirmation,
+} from "@/utils/mpesa";
+import {
+  getCashChange,
+  getPaymentTotal,
+  getTransactionPayments,
+} from "@/utils/payments";
+import { getPriceRuleLabel } from "@/utils/pricing";
+import { calculateSaleTax, pricesIncludeTax } from "@/utils/tax";
+import { PAYMENT_METHODS, PaymentMethodId } from "@/constants/categories";
 import { POSStackParamList } from "@/navigation/POSStackNavigator";
-import { Customer } from "@/types";
+import { Customer, TransactionPayment } from "@/types";
+
+interface SplitLine {
+  method: PaymentMethodId;
+  amount: string;
+  reference: string;
+  // Whole shillings already charged by an M-Pesa prompt for this line
+  charged?: number;
+}
 
 type CheckoutScreenProps = {
   navigation: NativeStackNavigationProp<POSStackParamList, "Checkout">;
@@ -22,40 +59,326 @@ type CheckoutScreenProps = {
 export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
   // ALL HOOKS MUST BE CALLED FIRST - NO CONDITIONAL LOGIC BEFORE THIS POINT
   const { theme } = useTheme();
-  const { cart, customers, getCartSubtotal, completeSale, clearCart } = useApp();
+  const {
+    cart,
+    cartCustomer,
+    setCartCustomer,
+    customers,
+    getCartSubtotal,
+    completeSale,
+    clearCart,
+    getSellableStock,
+    currentShift,
+  } = useApp();
+  const { shop } = useAuth();
 
-  const [selectedPayment, setSelectedPayment] = useState("cash");
-  const [selectedCustomer, setSelectedCustomer] = useState<string | null>(null);
+  const [selectedPayment, setSelectedPayment] =
+    useState<PaymentMethodId>("cash");
+  const [splitMode, setSplitMode] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
+  const [cashTendered, setCashTendered] = useState("");
   const [discount, setDiscount] = useState("");
   const [notes, setNotes] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showOverrideModal, setShowOverrideModal] = useState(false);
+  const [mpesaPhone, setMpesaPhone] = useState("");
+  const [mpesaCode, setMpesaCode] = useState("");
+  const [awaitingMpesa, setAwaitingMpesa] = useState(false);
+  const [mpesaAmount, setMpesaAmount] = useState(0);
+  const mpesaCancelled = useRef(false);
 
   // Calculate values after all hooks
   const subtotal = getCartSubtotal();
   const discountAmount = parseFloat(discount) || 0;
-  const total = subtotal - discountAmount;
+  const { tax, total } = calculateSaleTax(cart, discountAmount, shop);
 
   // Reset form when screen is focused
   useFocusEffect(
     useCallback(() => {
       setSelectedPayment("cash");
-      setSelectedCustomer(null);
+      setSplitMode(false);
+      setSplitLines([]);
+      setCashTendered("");
       setDiscount("");
       setNotes("");
+      setMpesaPhone("");
+      setMpesaCode("");
     }, [])
   );
 
-  const selectedCustomerData: Customer | undefined = useMemo(() => {
-    return selectedCustomer ? customers.find(c => c.id === selectedCustomer) : undefined;
-  }, [selectedCustomer, customers]);
+  // The customer is kept with the cart, so one attached on the POS screen
+  // carries over and changing it here re-prices the order.
+  const selectedCustomer = cartCustomer?.id ?? null;
+  const selectedCustomerData: Customer | undefined = cartCustomer ?? undefined;
+
+  // One line for the whole total, or the split lines that have an amount. An
+  // M-Pesa line with a code is paid, in whole shillings.
+  const payments: TransactionPayment[] = useMemo(() => {
+    const withCharge = (payment: TransactionPayment, charged?: number) =>
+      payment.method === "mpesa" && payment.reference
+        ? { ...payment, tendered: charged ?? Math.ceil(payment.amount) }
+        : payment;
+    if (!splitMode) {
+      const reference = selectedPayment === "mpesa" ? mpesaCode.trim() : "";
+      return [
+        withCharge({
+          method: selectedPayment,
+          amount: total,
+          reference: reference || undefined,
+        }),
+      ];
+    }
+    return splitLines
+      .map((line) =>
+        withCharge(
+          {
+            method: line.method,
+            amount: parseFloat(line.amount) || 0,
+            reference: line.reference.trim() || undefined,
+          },
+          line.charged,
+        ),
+      )
+      .filter((p) => p.amount > 0);
+  }, [splitMode, selectedPayment, splitLines, total, mpesaCode]);
+
+  const splitRemaining = total - getPaymentTotal(payments);
+  const cashPortion = getPaymentTotal(payments, "cash");
+  const cashReceived = parseFloat(cashTendered) || 0;
+  const cashChange = cashTendered
+    ? getCashChange([
+        { method: "cash", amount: cashPortion, tendered: cashReceived },
+      ])
+    : 0;
+  const cashShort = !!cashTendered && cashReceived < cashPortion;
+  const needsMpesaPrompt = payments.some(
+    (p) => p.method === "mpesa" && !p.reference,
+  );
 
-  const isCreditSale = selectedPayment === "credit";
+  const creditAmount = getPaymentTotal(payments, "credit");
+  const isCreditSale = creditAmount > 0;
   const customerCreditLimit = selectedCustomerData?.creditLimit ?? 0;
   const customerCurrentBalance = selectedCustomerData?.currentBalance ?? 0;
-  const newBalanceAfterSale = customerCurrentBalance + total;
+  const newBalanceAfterSale = customerCurrentBalance + creditAmount;
   const exceedsCreditLimit = isCreditSale && newBalanceAfterSale > customerCreditLimit;
   const creditSaleRequiresCustomer = isCreditSale && !selectedCustomer;
 
+  // Prompt on the selected customer's phone unless another number was typed
+  useEffect(() => {
+    if (selectedCustomerData?.phone) {
+      setMpesaPhone(selectedCustomerData.phone);
+    }
+  }, [selectedCustomerData?.phone]);
+
+  const processSale = useCallback(
+    async (options: SaleOptions = {}) => {
+      setIsProcessing(true);
+      try {
+        const transaction = await completeSale(
+          selectedPayment,
+          selectedCustomer || undefined,
+          discountAmount,
+          notes || undefined,
+          options,
+        );
+
+        if (transaction) {
+          const change = getCashChange(getTransactionPayments(transaction));
+          navigation.goBack();
+          setTimeout(() => {
+            Alert.alert(
+              "Sale Complete",
+              `Transaction ${transaction.transactionNumber} completed successfully!${
+                change > 0 ? `\n\nGive ${formatCurrency(change)} change.` : ""
+              }`,
+              [
+                {
+                  text: "View Details",
+                  onPress: () => {
+                    navigation.navigate("Transactions");
+                    navigation.navigate("TransactionDetail", {
+                      transactionId: transaction.id,
+                    });
+                  },
+                },
+                { text: "OK", style: "cancel" },
+              ],
+            );
+          }, 100);
+        } else {
+          const mpesaReference = options.payments?.find(
+            (p) => p.method === "mpesa",
+          )?.reference;
+          Alert.alert(
+            "Error",
+            mpesaReference
+              ? `The sale could not be saved. M-Pesa payment ${mpesaReference} stays on this sale, so completing it again will not charge the customer twice.`
+              : "Failed to complete sale. Please try again.",
+          );
+        }
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [
+      selectedPayment,
+      selectedCustomer,
+      discountAmount,
+      notes,
+      completeSale,
+      navigation,
+    ],
+  );
+
+  // Prompts the customer's phone for the M-Pesa share and resolves with the
+  // M-Pesa receipt code once they pay, or null if they don't.
+  const collectMpesaPayment = useCallback(
+    async (amount: number): Promise<string | null> => {
+      if (!toDarajaPhone(mpesaPhone)) {
+        Alert.alert(
+          "Phone Required",
+          "Enter the Safaricom number that will pay for this sale.",
+        );
+        return null;
+      }
+
+      const provider = getMpesaProvider();
+      mpesaCancelled.current = false;
+      setMpesaAmount(Math.ceil(amount));
+      setIsProcessing(true);
+      try {
+        const { checkoutRequestId } = await provider.requestPayment({
+          phone: mpesaPhone,
+          amount: Math.ceil(amount),
+          accountReference: "AgroVet POS",
+          description: "Sale",
+        });
+        setAwaitingMpesa(true);
+        const result = await waitForMpesaConfirmation(
+          checkoutRequestId,
+          () => mpesaCancelled.current,
+          provider,
+        );
+        setAwaitingMpesa(false);
+
+        if (result.status === "completed") {
+          return result.receiptNumber || checkoutRequestId;
+        }
+        if (mpesaCancelled.current) return null;
+        if (result.status === "pending") {
+          Alert.alert(
+            "Payment Not Confirmed",
+            "M-Pesa has not confirmed this payment yet. If the customer got an M-Pesa message, enter its code as the M-Pesa code instead of sending another prompt.",
+          );
+        } else {
+          Alert.alert(
+            "Payment Failed",
+            result.resultDescription ||
+              "The M-Pesa payment did not go through.",
+          );
+        }
+      } catch (error) {
+        Alert.alert(
+          "M-Pesa Error",
+          error instanceof Error ? error.message : "Unable to reach M-Pesa.",
+        );
+      } finally {
+        setAwaitingMpesa(false);
+        setIsProcessing(false);
+      }
+      return null;
+    },
+    [mpesaPhone],
+  );
+
+  // The sale is only recorded once any M-Pesa share is confirmed, with the
+  // M-Pesa receipt code as that line's reference. M-Pesa only takes whole
+  // shillings, so the line keeps what was charged and the cents over the
+  // amount are given back as change. The confirmed payment is kept as a
+  // split line, so if the sale cannot be saved it is completed again without
+  // another prompt.
+  const finishSale = useCallback(
+    async (options: SaleOptions = {}) => {
+      if (!currentShift) {
+        Alert.alert(
+          "No Open Shift",
+          "Open a shift with your float from Cash Drawer before taking payment.",
+        );
+        return;
+      }
+
+      // Stock can expire while the cart waits, so check it before any charge.
+      const cartQuantities = new Map<string, number>();
+      cart.forEach((item) => {
+        const quantity =
+          item.isFractionalSale && item.actualWeight
+            ? item.actualWeight
+            : item.quantity;
+        cartQuantities.set(
+          item.product.id,
+          (cartQuantities.get(item.product.id) || 0) + quantity,
+        );
+      });
+      const shortItem = cart.find(
+        (item) =>
+          (cartQuantities.get(item.product.id) || 0) >
+          getSellableStock(item.product.id),
+      );
+      if (shortItem) {
+        Alert.alert(
+          "Not Enough Stock",
+          `Only ${getSellableStock(shortItem.product.id)} of ${shortItem.product.name} can be sold. Reduce it in the cart before taking payment.`,
+        );
+        return;
+      }
+
+      let salePayments = payments.map((p) =>
+        p.method === "cash" && cashTendered
+          ? { ...p, tendered: cashReceived }
+          : p,
+      );
+      const mpesaLine = salePayments.find(
+        (p) => p.method === "mpesa" && !p.reference,
+      );
+      if (mpesaLine) {
+        const receiptNumber = await collectMpesaPayment(mpesaLine.amount);
+        if (!receiptNumber) return;
+        const charged = Math.ceil(mpesaLine.amount);
+        const paidLine: SplitLine = {
+          method: "mpesa",
+          amount: String(mpesaLine.amount),
+          reference: receiptNumber,
+          charged,
+        };
+        if (splitMode) {
+          setSplitLines((prev) =>
+            prev.map((line) => (line.method === "mpesa" ? paidLine : line)),
+          );
+        } else {
+          setSplitLines([paidLine]);
+          setSplitMode(true);
+        }
+        salePayments = salePayments.map((p) =>
+          p === mpesaLine
+            ? { ...p, reference: receiptNumber, tendered: charged }
+            : p,
+        );
+      }
+      await processSale({ ...options, payments: salePayments });
+    },
+    [
+      currentShift,
+      cart,
+      getSellableStock,
+      payments,
+      cashTendered,
+      cashReceived,
+      collectMpesaPayment,
+      processSale,
+      splitMode,
+    ],
+  );
+
   const handleCompleteSale = useCallback(async () => {
     if (isProcessing) return;
 
@@ -65,70 +388,101 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
         return;
       }
 
-      if (selectedPayment === "credit" && !selectedCustomer) {
-        Alert.alert("Customer Required", "Please select a customer for credit sales.");
+      if (splitMode && Math.abs(splitRemaining) > 0.01) {
+        Alert.alert(
+          "Payments Don't Add Up",
+          `The payments come to ${formatCurrency(total - splitRemaining)} but the total is ${formatCurrency(total)}.`,
+        );
         return;
       }
 
-      const processSale = async () => {
-        setIsProcessing(true);
-        try {
-          const transaction = await completeSale(
-            selectedPayment,
-            selectedCustomer || undefined,
-            discountAmount,
-            notes || undefined
-          );
+      if (isCreditSale && !selectedCustomer) {
+        Alert.alert(
+          "Customer Required",
+          "Please select a customer for credit sales.",
+        );
+        return;
+      }
 
-          if (transaction) {
-            navigation.goBack();
-            setTimeout(() => {
-              Alert.alert("Sale Complete", `Transaction ${transaction.transactionNumber} completed successfully!`,
-                [
-                  {
-                    text: "View Details",
-                    onPress: () => {
-                      navigation.navigate("Transactions");
-                      navigation.navigate("TransactionDetail", { transactionId: transaction.id });
-                    },
-                  },
-                  { text: "OK", style: "cancel" },
-                ]
-              );
-            }, 100);
-          } else {
-            Alert.alert("Error", "Failed to complete sale. Please try again.");
-          }
-        } finally {
-          setIsProcessing(false);
-        }
-      };
+      if (cashShort) {
+        Alert.alert(
+          "Not Enough Cash",
+          `The cash received is less than the ${formatCurrency(cashPortion)} due in cash.`,
+        );
+        return;
+      }
 
-      if (selectedPayment === "credit" && selectedCustomer) {
-        const customer = customers.find((c) => c.id === selectedCustomer);
-        if (customer) {
-          const newBalance = customer.currentBalance + total;
-          if (newBalance > customer.creditLimit) {
-            Alert.alert(
-              "Credit Limit Exceeded",
-              `This sale would exceed ${customer.name}'s credit limit of ${formatCurrency(customer.creditLimit)}. Current balance: ${formatCurrency(customer.currentBalance)}. New balance would be: ${formatCurrency(newBalance)}.`,
-              [
-                { text: "Cancel", style: "cancel" },
-                { text: "Proceed Anyway", style: "destructive", onPress: processSale },
-              ]
-            );
-            return;
-          }
-        }
+      if (exceedsCreditLimit) {
+        setShowOverrideModal(true);
+        return;
       }
 
-      await processSale();
+      await finishSale();
     } catch (error) {
       console.error("Error in handleCompleteSale:", error);
       Alert.alert("Error", "Failed to process sale. Please check your details and try again.");
       setIsProcessing(false);
     }
-  }, [cart.length, selectedPayment, selectedCustomer, customers, total, discountAmount, notes, completeSale, navigation, isProcessing]);
+  }, [
+    cart.length,
+    splitMode,
+    splitRemaining,
+    total,
+    isCreditSale,
+    selectedCustomer,
+    cashShort,
+    cashPortion,
+    exceedsCreditLimit,
+    finishSale,
+    isProcessing,
+  ]);
+
+  const handleOverrideApprove = async (
+    approver: PinApprover,
+    reason: string,
+  ) => {
+    setShowOverrideModal(false);
+    await finishSale({ creditOverride: { approver, reason } });
+  };
+
+  const startSplit = () => {
+    setSplitLines([
+      {
+        method: selectedPayment,
+        amount: total > 0 ? String(total) : "",
+        reference: "",
+      },
+    ]);
+    setSplitMode(true);
+  };
+
+  const addSplitLine = () => {
+    const method = PAYMENT_METHODS.find(
+      (m) => !splitLines.some((l) => l.method === m.id),
+    );
+    if (!method) return;
+    setSplitLines((prev) => [
+      ...prev,
+      {
+        method: method.id,
+        amount:
+          splitRemaining > 0
+            ? String(Math.round(splitRemaining * 100) / 100)
+            : "",
+        reference: "",
+      },
+    ]);
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLine>) => {
+    setSplitLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    );
+  };
+
+  const removeSplitLine = (index: number) => {
+    setSplitLines((prev) => prev.filter((_, i) => i !== index));
+  };
 
   return (
     <ScreenKeyboardAwareScrollView>
@@ -143,10 +497,21 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
                 <ThemedText type="body">{item.product.name}</ThemedText>
                 <ThemedText type="caption" style={{ color: theme.textSecondary }}>
                   {item.quantity} x {formatCurrency(item.unitPrice)}
+                  {item.priceRule
+                    ? ` · ${getPriceRuleLabel(item.priceRule, item.product)}`
+                    : ""}
                 </ThemedText>
+                {item.promotionName ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: Colors.accent.success }}
+                  >
+                    {item.promotionName} -{formatCurrency(item.discount)}
+                  </ThemedText>
+                ) : null}
               </View>
               <ThemedText type="body" style={{ fontWeight: "600" }}>
-                {formatCurrency(item.quantity * item.unitPrice)}
+                {formatCurrency(item.quantity * item.unitPrice - item.discount)}
               </ThemedText>
             </View>
           ))}
@@ -167,6 +532,14 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
               </ThemedText>
             </View>
           ) : null}
+          {tax > 0 ? (
+            <View style={styles.summaryRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                {pricesIncludeTax(shop) ? "VAT included" : "VAT"}
+              </ThemedText>
+              <ThemedText type="body">{formatCurrency(tax)}</ThemedText>
+            </View>
+          ) : null}
           <View style={styles.summaryRow}>
             <ThemedText type="h4">Total</ThemedText>
             <ThemedText type="h3" style={{ color: Colors.primary.main }}>
@@ -186,7 +559,7 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
           contentContainerStyle={styles.customersScroll}
         >
           <Pressable
-            onPress={() => setSelectedCustomer(null)}
+            onPress={() => setCartCustomer(null)}
             style={[
               styles.customerChip,
               {
@@ -210,7 +583,7 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
           {customers.map((customer) => (
             <Pressable
               key={customer.id}
-              onPress={() => setSelectedCustomer(customer.id)}
+              onPress={() => setCartCustomer(customer.id)}
               style={[
                 styles.customerChip,
                 {
@@ -235,48 +608,341 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
               >
                 {customer.name}
               </ThemedText>
+              {customer.creditLimit > 0 ? (
+                <ThemedText
+                  type="caption"
+                  style={{
+                    color:
+                      selectedCustomer === customer.id
+                        ? "#FFFFFF"
+                        : customer.currentBalance >= customer.creditLimit
+                          ? Colors.accent.error
+                          : theme.textSecondary,
+                    marginLeft: 6,
+                  }}
+                >
+                  {formatCurrency(
+                    Math.max(0, customer.creditLimit - customer.currentBalance),
+                  )}{" "}
+                  avail.
+                </ThemedText>
+              ) : null}
             </Pressable>
           ))}
         </ScrollView>
       </View>
 
       <View style={styles.section}>
-        <ThemedText type="h4" style={styles.sectionTitle}>
-          Payment Method
-        </ThemedText>
-        <View style={styles.paymentGrid}>
-          {PAYMENT_METHODS.map((method) => (
-            <Pressable
-              key={method.id}
-              onPress={() => setSelectedPayment(method.id)}
-              style={[
-                styles.paymentOption,
-                {
-                  backgroundColor: selectedPayment === method.id ? Colors.primary.main : theme.surface,
-                  borderColor: selectedPayment === method.id ? Colors.primary.main : theme.divider,
-                },
-              ]}
-            >
-              <Feather
-                name={method.icon as any}
-                size={24}
-                color={selectedPayment === method.id ? "#FFFFFF" : Colors.primary.main}
-              />
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h4">Payment Method</ThemedText>
+          <Pressable
+            onPress={splitMode ? () => setSplitMode(false) : startSplit}
+          >
+            <ThemedText type="link">
+              {splitMode ? "Single payment" : "Split payment"}
+            </ThemedText>
+          </Pressable>
+        </View>
+        {splitMode ? (
+          <>
+            {splitLines.map((line, index) => (
+              <View
+                key={line.method}
+                style={[
+                  styles.card,
+                  styles.splitLine,
+                  { backgroundColor: theme.surface },
+                ]}
+              >
+                <View style={styles.splitLineHeader}>
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    style={styles.flex}
+                  >
+                    {PAYMENT_METHODS.filter(
+                      (m) =>
+                        m.id === line.method ||
+                        !splitLines.some((l) => l.method === m.id),
+                    ).map((method) => {
+                      const selected = line.method === method.id;
+                      return (
+                        <Pressable
+                          key={method.id}
+                          disabled={line.charged !== undefined}
+                          onPress={() =>
+                            updateSplitLine(index, { method: method.id })
+                          }
+                          style={[
+                            styles.methodChip,
+                            {
+                              backgroundColor: selected
+                                ? Colors.primary.main
+                                : theme.backgroundDefault,
+                              borderColor: selected
+                                ? Colors.primary.main
+                                : theme.divider,
+                            },
+                          ]}
+                        >
+                          <Feather
+                            name={method.icon as any}
+                            size={14}
+                            color={selected ? "#FFFFFF" : Colors.primary.main}
+                          />
+                          <ThemedText
+                            type="caption"
+                            style={{
+                              color: selected ? "#FFFFFF" : theme.text,
+                              marginLeft: 4,
+                            }}
+                          >
+                            {method.name}
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })}
+                  </ScrollView>
+                  {splitLines.length > 1 && line.charged === undefined ? (
+                    <Pressable
+                      onPress={() => removeSplitLine(index)}
+                      hitSlop={8}
+                      style={styles.splitRemove}
+                    >
+                      <Feather name="x" size={20} color={theme.textSecondary} />
+                    </Pressable>
+                  ) : null}
+                </View>
+                <View
+                  style={[
+                    styles.inputContainer,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      borderColor: theme.divider,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="body"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    KES
+                  </ThemedText>
+                  <TextInput
+                    style={[styles.input, { color: theme.text }]}
+                    value={line.amount}
+                    onChangeText={(amount) =>
+                      updateSplitLine(index, { amount })
+                    }
+                    editable={line.charged === undefined}
+                    placeholder="0"
+                    placeholderTextColor={theme.textSecondary}
+                    keyboardType="numeric"
+                  />
+                </View>
+                {line.method !== "cash" && line.method !== "credit" ? (
+                  <TextInput
+                    style={[
+                      styles.referenceInput,
+                      {
+                        backgroundColor: theme.backgroundDefault,
+                        borderColor: theme.divider,
+                        color: theme.text,
+                      },
+                    ]}
+                    value={line.reference}
+                    onChangeText={(reference) =>
+                      updateSplitLine(index, { reference })
+                    }
+                    editable={line.charged === undefined}
+                    placeholder={
+                      line.method === "mpesa"
+                        ? "M-Pesa code (leave blank to send a prompt)"
+                        : "Reference"
+                    }
+                    placeholderTextColor={theme.textSecondary}
+                    autoCapitalize="characters"
+                  />
+                ) : null}
+                {line.charged !== undefined ? (
+                  <ThemedText
+                    type="caption"
+                    style={[styles.paidNote, { color: Colors.accent.success }]}
+                  >
+                    Paid {formatCurrency(line.charged)} on M-Pesa
+                  </ThemedText>
+                ) : null}
+              </View>
+            ))}
+            <View style={styles.summaryRow}>
+              {splitLines.length < PAYMENT_METHODS.length ? (
+                <Pressable onPress={addSplitLine} style={styles.addLine}>
+                  <Feather name="plus" size={16} color={Colors.primary.main} />
+                  <ThemedText type="link" style={{ marginLeft: 4 }}>
+                    Add payment
+                  </ThemedText>
+                </Pressable>
+              ) : (
+                <View />
+              )}
               <ThemedText
-                type="small"
+                type="body"
                 style={{
-                  color: selectedPayment === method.id ? "#FFFFFF" : theme.text,
-                  marginTop: 4,
-                  textAlign: "center",
+                  fontWeight: "600",
+                  color:
+                    Math.abs(splitRemaining) > 0.01
+                      ? Colors.accent.error
+                      : Colors.accent.success,
                 }}
               >
-                {method.name}
+                {splitRemaining > 0.01
+                  ? `${formatCurrency(splitRemaining)} left to pay`
+                  : splitRemaining < -0.01
+                    ? `${formatCurrency(-splitRemaining)} over total`
+                    : "Fully paid"}
               </ThemedText>
-            </Pressable>
-          ))}
-        </View>
+            </View>
+          </>
+        ) : (
+          <View style={styles.paymentGrid}>
+            {PAYMENT_METHODS.map((method) => (
+              <Pressable
+                key={method.id}
+                onPress={() => setSelectedPayment(method.id)}
+                style={[
+                  styles.paymentOption,
+                  {
+                    backgroundColor:
+                      selectedPayment === method.id
+                        ? Colors.primary.main
+                        : theme.surface,
+                    borderColor:
+                      selectedPayment === method.id
+                        ? Colors.primary.main
+                        : theme.divider,
+                  },
+                ]}
+              >
+                <Feather
+                  name={method.icon as any}
+                  size={24}
+                  color={
+                    selectedPayment === method.id
+                      ? "#FFFFFF"
+                      : Colors.primary.main
+                  }
+                />
+                <ThemedText
+                  type="small"
+                  style={{
+                    color:
+                      selectedPayment === method.id ? "#FFFFFF" : theme.text,
+                    marginTop: 4,
+                    textAlign: "center",
+                  }}
+                >
+                  {method.name}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        )}
       </View>
 
+      {cashPortion > 0 && (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Cash Received
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              { backgroundColor: theme.surface, borderColor: theme.divider },
+            ]}
+          >
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              KES
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              value={cashTendered}
+              onChangeText={setCashTendered}
+              placeholder={String(Math.ceil(cashPortion))}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numeric"
+            />
+          </View>
+          {cashTendered ? (
+            <View style={[styles.summaryRow, { marginTop: Spacing.sm }]}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                {cashShort ? "Short by" : "Change"}
+              </ThemedText>
+              <ThemedText
+                type="h4"
+                style={{
+                  color: cashShort
+                    ? Colors.accent.error
+                    : Colors.accent.success,
+                }}
+              >
+                {formatCurrency(
+                  cashShort ? cashPortion - cashReceived : cashChange,
+                )}
+              </ThemedText>
+            </View>
+          ) : null}
+        </View>
+      )}
+
+      {(needsMpesaPrompt || (!splitMode && selectedPayment === "mpesa")) && (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            M-Pesa Number
+          </ThemedText>
+          <View
+            style={[
+              styles.inputContainer,
+              { backgroundColor: theme.surface, borderColor: theme.divider },
+            ]}
+          >
+            <Feather name="smartphone" size={20} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              value={mpesaPhone}
+              onChangeText={setMpesaPhone}
+              placeholder="07XX XXX XXX"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="phone-pad"
+            />
+          </View>
+          <ThemedText
+            type="caption"
+            style={{ color: theme.textSecondary, marginTop: Spacing.xs }}
+          >
+            The customer gets a prompt to enter their M-Pesa PIN via{" "}
+            {getMpesaProvider().name}.
+          </ThemedText>
+          {!splitMode ? (
+            <TextInput
+              style={[
+                styles.referenceInput,
+                styles.mpesaCode,
+                {
+                  backgroundColor: theme.surface,
+                  borderColor: theme.divider,
+                  color: theme.text,
+                },
+              ]}
+              value={mpesaCode}
+              onChangeText={setMpesaCode}
+              placeholder="M-Pesa code (if the customer already paid)"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+            />
+          ) : null}
+        </View>
+      )}
+
       {isCreditSale && (
         <View style={styles.section}>
           <View style={[styles.creditInfoCard, {
@@ -293,8 +959,10 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
                 {creditSaleRequiresCustomer
                   ? "Select a customer for credit sale"
                   : exceedsCreditLimit
-                    ? "Credit limit would be exceeded"
-                    : "Credit sale"}
+                    ? "Over credit limit - manager approval needed"
+                    : splitMode
+                      ? `${formatCurrency(creditAmount)} on credit`
+                      : "Credit sale"}
               </ThemedText>
             </View>
             {selectedCustomerData && (
@@ -383,6 +1051,54 @@ export default function CheckoutScreen({ navigation }: CheckoutScreenProps) {
           Complete Sale - {formatCurrency(total)}
         </Button>
       )}
+
+      <Modal visible={awaitingMpesa} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.mpesaCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <ActivityIndicator size="large" color={Colors.primary.main} />
+            <ThemedText type="h4" style={styles.mpesaTitle}>
+              Waiting for payment
+            </ThemedText>
+            <ThemedText
+              type="body"
+              style={{ textAlign: "center", color: theme.textSecondary }}
+            >
+              Ask the customer to enter their M-Pesa PIN on{" "}
+              {formatPhone(mpesaPhone)} to pay {formatCurrency(mpesaAmount)}.
+            </ThemedText>
+            <Button
+              onPress={() => {
+                mpesaCancelled.current = true;
+                setAwaitingMpesa(false);
+              }}
+              variant="outline"
+              style={styles.mpesaCancel}
+            >
+              Stop Waiting
+            </Button>
+          </View>
+        </View>
+      </Modal>
+
+      <ManagerPinModal
+        visible={showOverrideModal}
+        title="Credit Limit Exceeded"
+        description={
+          selectedCustomerData
+            ? `This sale takes ${selectedCustomerData.name}'s balance to ${formatCurrency(newBalanceAfterSale)}, over their ${formatCurrency(customerCreditLimit)} limit. A manager or admin must approve.`
+            : undefined
+        }
+        confirmLabel="Approve Sale"
+        reasonLabel="Reason for exceeding the limit"
+        requireReason
+        onApprove={handleOverrideApprove}
+        onClose={() => setShowOverrideModal(false)}
+      />
     </ScreenKeyboardAwareScrollView>
   );
 }
@@ -394,6 +1110,15 @@ const styles = StyleSheet.create({
   sectionTitle: {
     marginBottom: Spacing.md,
   },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  flex: {
+    flex: 1,
+  },
   card: {
     borderRadius: BorderRadius.md,
     padding: Spacing.lg,
@@ -443,6 +1168,42 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     padding: Spacing.md,
   },
+  splitLine: {
+    marginBottom: Spacing.md,
+    gap: Spacing.sm,
+  },
+  splitLineHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  splitRemove: {
+    marginLeft: Spacing.sm,
+  },
+  methodChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    marginRight: Spacing.xs,
+  },
+  referenceInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  mpesaCode: {
+    marginTop: Spacing.md,
+  },
+  paidNote: {
+    marginTop: Spacing.xs,
+  },
+  addLine: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   inputContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -468,6 +1229,25 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     marginBottom: Spacing.xl,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    padding: Spacing.xl,
+  },
+  mpesaCard: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    alignItems: "center",
+  },
+  mpesaTitle: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  mpesaCancel: {
+    marginTop: Spacing.xl,
+    alignSelf: "stretch",
+  },
   creditInfoCard: {
     borderRadius: BorderRadius.md,
     borderWidth: 1,
@@ -353,6 +353,14 @@ export default function CustomerCreditsScreen({ navigation, route }: CustomerCre
       icon = decreased ? "minus-circle" : "plus-circle";
       color = decreased ? Colors.accent.success : Colors.accent.warning;
       label = "Balance Adjustment";
+    } else if (item.type === "refund") {
+      icon = "rotate-ccw";
+      color = Colors.accent.success;
+      label = "Returned Goods";
+    } else if (item.type === "void") {
+      icon = "x-circle";
+      color = Colors.accent.success;
+      label = "Voided Sale";
     }
     
     return (
@@ -411,9 +419,19 @@ export default function CustomerCreditsScreen({ navigation, route }: CustomerCre
           <ThemedText type="h2" style={{ color: Colors.accent.error, marginTop: Spacing.sm }}>
             {formatCurrency(totalDebt)}
           </ThemedText>
-          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
-            from {customersWithDebt.length} customer{customersWithDebt.length !== 1 ? "s" : ""}
-          </ThemedText>
+          <View style={styles.totalDebtFooter}>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              from {customersWithDebt.length} customer{customersWithDebt.length !== 1 ? "s" : ""}
+            </ThemedText>
+            <View style={styles.totalDebtLinks}>
+              <Pressable onPress={() => navigation.navigate("ReminderCampaign")}>
+                <ThemedText type="link">Remind</ThemedText>
+              </Pressable>
+              <Pressable onPress={() => navigation.navigate("DebtorAging")}>
+                <ThemedText type="link">View aging</ThemedText>
+              </Pressable>
+            </View>
+          </View>
         </View>
 
         <View style={styles.searchSection}>
@@ -508,6 +526,15 @@ export default function CustomerCreditsScreen({ navigation, route }: CustomerCre
                 </Button>
               )}
 
+              <Button
+                onPress={() => navigation.navigate("CustomerStatement", { customerId: selectedCustomer.id })}
+                icon="file-text"
+                variant="outline"
+                style={{ marginBottom: Spacing.md }}
+              >
+                Statement
+              </Button>
+
               <ThemedText type="body" style={{ fontWeight: "600", marginBottom: Spacing.sm }}>
                 Transaction History
               </ThemedText>
@@ -807,6 +834,15 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  totalDebtFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  totalDebtLinks: {
+    flexDirection: "row",
+    gap: Spacing.lg,
+  },
   searchSection: {
     marginBottom: Spacing.lg,
   },
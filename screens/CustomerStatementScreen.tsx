@@ -0,0 +1,326 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, TextInput, Share, Alert } from "react-native";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatCurrency, formatDateTime } from "@/utils/format";
+import {
+  buildCustomerStatement,
+  formatStatementHtml,
+  formatStatementText,
+  STATEMENT_ENTRY_LABELS,
+} from "@/utils/receivables";
+
+type CustomerStatementScreenProps = {
+  route: RouteProp<MoreStackParamList, "CustomerStatement">;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string) =>
+  DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+export default function CustomerStatementScreen({
+  route,
+}: CustomerStatementScreenProps) {
+  const { theme } = useTheme();
+  const { customers, creditTransactions } = useApp();
+  const { shop } = useAuth();
+  const customer = customers.find((c) => c.id === route.params.customerId);
+
+  const today = new Date().toISOString().split("T")[0];
+  const [from, setFrom] = useState(`${today.slice(0, 8)}01`);
+  const [to, setTo] = useState(today);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const rangeIsValid = isValidDate(from) && isValidDate(to) && from <= to;
+  const statement = useMemo(
+    () =>
+      customer && rangeIsValid
+        ? buildCustomerStatement(customer, creditTransactions, from, to)
+        : null,
+    [customer, creditTransactions, from, to, rangeIsValid],
+  );
+
+  if (!customer) {
+    return (
+      <ScreenKeyboardAwareScrollView>
+        <EmptyState
+          icon="user-x"
+          title="Customer not found"
+          description="This customer may have been removed"
+        />
+      </ScreenKeyboardAwareScrollView>
+    );
+  }
+
+  const handleShareText = async () => {
+    if (!statement) return;
+    try {
+      await Share.share({
+        message: formatStatementText(statement, shop?.name),
+      });
+    } catch {
+      Alert.alert("Error", "Unable to share the statement.");
+    }
+  };
+
+  const handleSharePdf = async () => {
+    if (!statement) return;
+    setIsSharing(true);
+    try {
+      const { uri } = await Print.printToFileAsync({
+        html: formatStatementHtml(statement, shop?.name),
+      });
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert("PDF Saved", `The statement was saved to ${uri}`);
+        return;
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: "application/pdf",
+        UTI: "com.adobe.pdf",
+        dialogTitle: `Statement for ${customer.name}`,
+      });
+    } catch {
+      Alert.alert("Error", "Unable to create the PDF statement.");
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const summaryRows: [string, number][] = statement
+    ? [
+        ["Opening balance", statement.openingBalance],
+        ["Credit sales", statement.sales],
+        ["Returns", -statement.returns],
+        ["Payments", -statement.payments],
+        ["Adjustments", statement.adjustments],
+      ]
+    : [];
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View style={[styles.card, { backgroundColor: theme.surface }]}>
+        <ThemedText type="h4">{customer.name}</ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Current balance {formatCurrency(customer.currentBalance)}
+        </ThemedText>
+      </View>
+
+      <View style={styles.rangeRow}>
+        {[
+          { label: "From", value: from, onChange: setFrom },
+          { label: "To", value: to, onChange: setTo },
+        ].map((field) => (
+          <View key={field.label} style={styles.flex}>
+            <ThemedText type="small" style={styles.inputLabel}>
+              {field.label}
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: theme.surface,
+                  borderColor: theme.divider,
+                  color: theme.text,
+                },
+              ]}
+              value={field.value}
+              onChangeText={field.onChange}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              maxLength={10}
+            />
+          </View>
+        ))}
+      </View>
+
+      {!statement ? (
+        <ThemedText
+          type="small"
+          style={[styles.sectionTitle, { color: Colors.accent.error }]}
+        >
+          Enter a valid date range as YYYY-MM-DD.
+        </ThemedText>
+      ) : (
+        <>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {summaryRows.map(([label, amount]) => (
+              <View key={label} style={styles.row}>
+                <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                  {label}
+                </ThemedText>
+                <ThemedText type="body">
+                  {amount < 0 ? "-" : ""}
+                  {formatCurrency(Math.abs(amount))}
+                </ThemedText>
+              </View>
+            ))}
+            <View
+              style={[
+                styles.row,
+                styles.totalRow,
+                { borderTopColor: theme.divider },
+              ]}
+            >
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                Closing balance
+              </ThemedText>
+              <ThemedText type="h4" style={{ color: Colors.primary.main }}>
+                {formatCurrency(statement.closingBalance)}
+              </ThemedText>
+            </View>
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              onPress={handleSharePdf}
+              icon="file-text"
+              loading={isSharing}
+              style={styles.flex}
+            >
+              Share PDF
+            </Button>
+            <Button
+              onPress={handleShareText}
+              icon="share"
+              variant="outline"
+              style={styles.flex}
+            >
+              Share Text
+            </Button>
+          </View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Activity
+          </ThemedText>
+          {statement.entries.length === 0 ? (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              No activity in this period.
+            </ThemedText>
+          ) : (
+            statement.entries.map((entry) => {
+              const change = entry.balanceAfter - entry.balanceBefore;
+              return (
+                <View
+                  key={entry.id}
+                  style={[styles.entry, { backgroundColor: theme.surface }]}
+                >
+                  <Feather
+                    name={change < 0 ? "arrow-down-left" : "arrow-up-right"}
+                    size={18}
+                    color={
+                      change < 0 ? Colors.accent.success : Colors.accent.error
+                    }
+                  />
+                  <View style={[styles.flex, styles.entryInfo]}>
+                    <ThemedText type="small" style={{ fontWeight: "600" }}>
+                      {STATEMENT_ENTRY_LABELS[entry.type]}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {formatDateTime(entry.createdAt)}
+                    </ThemedText>
+                    {entry.notes ? (
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        {entry.notes}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                  <View style={styles.amount}>
+                    <ThemedText type="small" style={{ fontWeight: "600" }}>
+                      {change < 0 ? "-" : "+"}
+                      {formatCurrency(Math.abs(change))}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      Bal {formatCurrency(entry.balanceAfter)}
+                    </ThemedText>
+                  </View>
+                </View>
+              );
+            })
+          )}
+        </>
+      )}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.xs,
+  },
+  rangeRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  inputLabel: {
+    marginBottom: Spacing.xs,
+    fontWeight: "500",
+  },
+  textInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    marginTop: Spacing.sm,
+    paddingTop: Spacing.sm,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  entryInfo: {
+    marginLeft: Spacing.md,
+  },
+  amount: {
+    alignItems: "flex-end",
+    marginLeft: Spacing.sm,
+  },
+});
@@ -0,0 +1,97 @@
+import React, { useMemo } from "react";
+import { Pressable, StyleSheet } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { AgingSummary } from "@/components/AgingSummary";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { ageReceivables, ageReceivablesByCustomer } from "@/utils/receivables";
+
+type DebtorAgingScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "DebtorAging">;
+};
+
+export default function DebtorAgingScreen({
+  navigation,
+}: DebtorAgingScreenProps) {
+  const { theme } = useTheme();
+  const { customers, creditTransactions } = useApp();
+
+  const totals = useMemo(
+    () => ageReceivables(creditTransactions),
+    [creditTransactions],
+  );
+  const rows = useMemo(
+    () => ageReceivablesByCustomer(customers, creditTransactions),
+    [customers, creditTransactions],
+  );
+
+  if (rows.length === 0) {
+    return (
+      <ScreenScrollView>
+        <EmptyState
+          icon="check-circle"
+          title="No outstanding debts"
+          description="All customers are paid up!"
+        />
+      </ScreenScrollView>
+    );
+  }
+
+  return (
+    <ScreenScrollView>
+      <AgingSummary title="Owed by customers" aging={totals} />
+      <Button
+        onPress={() => navigation.navigate("ReminderCampaign")}
+        icon="send"
+        variant="outline"
+        style={styles.remindButton}
+      >
+        Send Payment Reminders
+      </Button>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        By Customer
+      </ThemedText>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        Days since each unpaid credit sale. Payments clear the oldest sales
+        first. Tap a customer for their statement.
+      </ThemedText>
+      {rows.map(({ customer, aging }) => (
+        <Pressable
+          key={customer.id}
+          onPress={() =>
+            navigation.navigate("CustomerStatement", {
+              customerId: customer.id,
+            })
+          }
+          style={({ pressed }) => ({ opacity: pressed ? 0.9 : 1 })}
+        >
+          <AgingSummary title={customer.name} aging={aging} />
+        </Pressable>
+      ))}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  remindButton: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    marginBottom: Spacing.md,
+  },
+});
@@ -1,19 +1,31 @@
-import React, { useMemo } from "react";
-import { View, StyleSheet, FlatList } from "react-native";
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, FlatList, Alert } from "react-native";
 import { Feather } from "@expo/vector-icons";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { MetricCard } from "@/components/MetricCard";
+import { Button } from "@/components/Button";
+import { WriteOffModal } from "@/components/WriteOffModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { formatCurrency, formatDate } from "@/utils/format";
 import { CATEGORIES } from "@/constants/categories";
+import { isBatchSellable } from "@/utils/batches";
+import { InventoryBatch, WriteOffReason } from "@/types";
+
+const WRITE_OFF_REASON_LABELS: Record<WriteOffReason, string> = {
+  expired: "Expired",
+  damaged: "Damaged",
+  recalled: "Recalled",
+  other: "Other",
+};
 
 export default function InventoryReportScreen() {
   const { theme } = useTheme();
-  const { products, batches, getProductStock, getLowStockProducts } = useApp();
+  const { products, batches, writeOffs, getProductStock, getLowStockProducts, writeOffStock } = useApp();
+  const [writeOffBatch, setWriteOffBatch] = useState<InventoryBatch | null>(null);
 
   const lowStockProducts = getLowStockProducts();
 
@@ -62,6 +74,30 @@ export default function InventoryReportScreen() {
       .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
   }, [batches, products]);
 
+  const quarantinedBatches = useMemo(() => {
+    return batches
+      .filter((b) => b.quantity > 0 && !isBatchSellable(b))
+      .map((batch) => ({
+        ...batch,
+        productName: products.find((p) => p.id === batch.productId)?.name || "Unknown",
+      }))
+      .sort((a, b) => (a.expiryDate || "").localeCompare(b.expiryDate || ""));
+  }, [batches, products]);
+
+  const shrinkage = useMemo(() => {
+    return writeOffs.reduce((sum, w) => sum + w.totalCost, 0);
+  }, [writeOffs]);
+
+  const handleWriteOff = async (quantity: number, reason: WriteOffReason, notes?: string) => {
+    if (!writeOffBatch) return;
+    const success = await writeOffStock(writeOffBatch.id, quantity, reason, notes);
+    if (success) {
+      setWriteOffBatch(null);
+    } else {
+      Alert.alert("Error", "Failed to write off stock. Please try again.");
+    }
+  };
+
   const categoryBreakdown = useMemo(() => {
     const breakdown: Record<string, { count: number; value: number }> = {};
 
@@ -119,6 +155,58 @@ export default function InventoryReportScreen() {
         />
       </View>
 
+      <View style={styles.metricsRow}>
+        <MetricCard
+          title="Shrinkage"
+          value={formatCurrency(shrinkage)}
+          icon="trash-2"
+          iconColor={shrinkage > 0 ? Colors.accent.error : Colors.accent.success}
+        />
+        <View style={{ width: Spacing.md }} />
+        <MetricCard
+          title="Quarantined"
+          value={quarantinedBatches.length.toString()}
+          icon="slash"
+          iconColor={quarantinedBatches.length > 0 ? Colors.accent.error : Colors.accent.success}
+        />
+      </View>
+
+      {quarantinedBatches.length > 0 ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Quarantined Stock ({quarantinedBatches.length})
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {quarantinedBatches.map((batch, index) => (
+              <View
+                key={batch.id}
+                style={[
+                  styles.productRow,
+                  index < quarantinedBatches.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.divider },
+                ]}
+              >
+                <View style={styles.productInfo}>
+                  <ThemedText type="body" numberOfLines={1}>
+                    {batch.productName}
+                  </ThemedText>
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    Batch: {batch.batchNumber} - {batch.quantity} units
+                  </ThemedText>
+                  {batch.expiryDate ? (
+                    <ThemedText type="caption" style={{ color: Colors.accent.error }}>
+                      Expired {formatDate(batch.expiryDate)}
+                    </ThemedText>
+                  ) : null}
+                </View>
+                <Button onPress={() => setWriteOffBatch(batch)} variant="outline" style={styles.writeOffButton}>
+                  Write Off
+                </Button>
+              </View>
+            ))}
+          </View>
+        </>
+      ) : null}
+
       {categoryBreakdown.length > 0 ? (
         <>
           <ThemedText type="h4" style={styles.sectionTitle}>
@@ -222,6 +310,53 @@ export default function InventoryReportScreen() {
           </View>
         </>
       ) : null}
+
+      {writeOffs.length > 0 ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Recent Write-offs
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {writeOffs.slice(0, 5).map((writeOff, index) => (
+              <View
+                key={writeOff.id}
+                style={[
+                  styles.productRow,
+                  index < Math.min(writeOffs.length, 5) - 1 && {
+                    borderBottomWidth: 1,
+                    borderBottomColor: theme.divider,
+                  },
+                ]}
+              >
+                <View style={styles.productInfo}>
+                  <ThemedText type="body" numberOfLines={1}>
+                    {writeOff.productName}
+                  </ThemedText>
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    {WRITE_OFF_REASON_LABELS[writeOff.reason]} - {writeOff.quantity} units - {formatDate(writeOff.createdAt)}
+                  </ThemedText>
+                  {writeOff.notes ? (
+                    <ThemedText type="caption" style={{ color: theme.textSecondary }} numberOfLines={1}>
+                      {writeOff.notes}
+                    </ThemedText>
+                  ) : null}
+                </View>
+                <ThemedText type="body" style={{ fontWeight: "600", color: Colors.accent.error }}>
+                  -{formatCurrency(writeOff.totalCost)}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      <WriteOffModal
+        visible={!!writeOffBatch}
+        batch={writeOffBatch}
+        productName={products.find((p) => p.id === writeOffBatch?.productId)?.name}
+        onSubmit={handleWriteOff}
+        onClose={() => setWriteOffBatch(null)}
+      />
     </ScreenScrollView>
   );
 }
@@ -264,6 +399,9 @@ const styles = StyleSheet.create({
   productInfo: {
     flex: 1,
   },
+  writeOffButton: {
+    paddingHorizontal: Spacing.md,
+  },
   stockBadge: {
     paddingHorizontal: Spacing.sm,
     paddingVertical: 2,
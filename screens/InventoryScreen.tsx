@@ -373,6 +373,23 @@ export default function InventoryScreen({ navigation }: InventoryScreenProps) {
         )}
       </View>
 
+      <Pressable
+        onPress={() => navigation.navigate("StockTakes")}
+        style={({ pressed }) => [
+          styles.fab,
+          styles.fabSecondary,
+          {
+            backgroundColor: theme.surface,
+            borderWidth: 2,
+            borderColor: Colors.primary.main,
+            bottom: tabBarHeight + Spacing.xl + 140,
+            opacity: pressed ? 0.9 : 1,
+          },
+        ]}
+      >
+        <Feather name="clipboard" size={24} color={Colors.primary.main} />
+      </Pressable>
+
       <Pressable
         onPress={() => navigation.navigate("ReceiptUpload")}
         style={({ pressed }) => [
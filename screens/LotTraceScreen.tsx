@@ -0,0 +1,382 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Share, Alert, TextInput } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { formatDate, formatDateTime } from "@/utils/format";
+import { traceLot, formatLotTraceCsv } from "@/utils/lotTrace";
+
+export default function LotTraceScreen() {
+  const { theme } = useTheme();
+  const { batches, products, suppliers, transactions, customers } = useApp();
+
+  const [query, setQuery] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+
+  const result = useMemo(
+    () =>
+      submittedQuery
+        ? traceLot(submittedQuery, {
+            batches,
+            products,
+            suppliers,
+            transactions,
+            customers,
+          })
+        : null,
+    [submittedQuery, batches, products, suppliers, transactions, customers],
+  );
+
+  const totals = useMemo(() => {
+    if (!result) return null;
+    const sold = result.sales.reduce((sum, s) => sum + s.quantity, 0);
+    const returned = result.sales.reduce(
+      (sum, s) => sum + s.returnedQuantity,
+      0,
+    );
+    const remaining = result.batches.reduce(
+      (sum, b) => sum + b.batch.quantity,
+      0,
+    );
+    const customersReached = new Set(
+      result.sales
+        .filter((s) => s.quantity > s.returnedQuantity)
+        .map((s) => s.customerName || s.transactionId),
+    ).size;
+    return { sold, returned, remaining, customersReached };
+  }, [result]);
+
+  const handleTrace = () => {
+    setSubmittedQuery(query.trim());
+  };
+
+  const handleExport = async () => {
+    if (!result) return;
+    try {
+      await Share.share({
+        title: `Lot trace ${result.query}`,
+        message: formatLotTraceCsv(result),
+      });
+    } catch {
+      Alert.alert("Error", "Failed to export the lot trace");
+    }
+  };
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText
+        type="small"
+        style={[styles.intro, { color: theme.textSecondary }]}
+      >
+        Enter a batch number or supplier invoice number to see the stock left
+        and every customer who bought from that lot.
+      </ThemedText>
+
+      <View style={styles.searchRow}>
+        <TextInput
+          style={[
+            styles.searchInput,
+            {
+              backgroundColor: theme.surface,
+              borderColor: theme.divider,
+              color: theme.text,
+            },
+          ]}
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={handleTrace}
+          placeholder="Batch or invoice number"
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        <Button
+          onPress={handleTrace}
+          icon="search"
+          disabled={!query.trim()}
+          style={styles.traceButton}
+        >
+          Trace
+        </Button>
+      </View>
+
+      {result && result.batches.length === 0 ? (
+        <EmptyState
+          icon="search"
+          title="No matching lot"
+          description={`No batch or invoice matches "${result.query}"`}
+        />
+      ) : null}
+
+      {result && totals && result.batches.length > 0 ? (
+        <>
+          <View
+            style={[
+              styles.summaryCard,
+              { backgroundColor: Colors.primary.main },
+            ]}
+          >
+            <View style={styles.summaryItem}>
+              <ThemedText type="h3" style={styles.summaryValue}>
+                {totals.remaining}
+              </ThemedText>
+              <ThemedText type="caption" style={styles.summaryLabel}>
+                In stock
+              </ThemedText>
+            </View>
+            <View style={styles.summaryItem}>
+              <ThemedText type="h3" style={styles.summaryValue}>
+                {totals.sold - totals.returned}
+              </ThemedText>
+              <ThemedText type="caption" style={styles.summaryLabel}>
+                Sold
+              </ThemedText>
+            </View>
+            <View style={styles.summaryItem}>
+              <ThemedText type="h3" style={styles.summaryValue}>
+                {totals.customersReached}
+              </ThemedText>
+              <ThemedText type="caption" style={styles.summaryLabel}>
+                Buyers
+              </ThemedText>
+            </View>
+          </View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Batches ({result.batches.length})
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {result.batches.map(
+              ({ batch, productName, supplierName }, index) => (
+                <View
+                  key={batch.id}
+                  style={[
+                    styles.row,
+                    index < result.batches.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.divider,
+                    },
+                  ]}
+                >
+                  <View style={styles.rowInfo}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {productName}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      Batch {batch.batchNumber}
+                      {batch.invoiceNumber
+                        ? ` · Invoice ${batch.invoiceNumber}`
+                        : ""}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {supplierName || "Unknown supplier"}
+                      {batch.expiryDate
+                        ? ` · Expires ${formatDate(batch.expiryDate)}`
+                        : ""}
+                    </ThemedText>
+                  </View>
+                  <ThemedText type="body" style={{ fontWeight: "600" }}>
+                    {batch.quantity} left
+                  </ThemedText>
+                </View>
+              ),
+            )}
+          </View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Sales ({result.sales.length})
+          </ThemedText>
+          {result.sales.length > 0 ? (
+            <View style={[styles.card, { backgroundColor: theme.surface }]}>
+              {result.sales.map((sale, index) => (
+                <View
+                  key={`${sale.transactionId}-${sale.batchNumber}-${index}`}
+                  style={[
+                    styles.row,
+                    index < result.sales.length - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.divider,
+                    },
+                  ]}
+                >
+                  <View style={styles.rowInfo}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {sale.customerName || "Walk-in customer"}
+                    </ThemedText>
+                    {sale.customerPhone ? (
+                      <View style={styles.phoneRow}>
+                        <Feather
+                          name="phone"
+                          size={12}
+                          color={theme.textSecondary}
+                        />
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary, marginLeft: 4 }}
+                        >
+                          {sale.customerPhone}
+                        </ThemedText>
+                      </View>
+                    ) : null}
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {sale.transactionNumber} ·{" "}
+                      {formatDateTime(sale.transactionDate)}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.quantity}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {sale.quantity}
+                    </ThemedText>
+                    {sale.returnedQuantity > 0 ? (
+                      <ThemedText
+                        type="caption"
+                        style={{ color: Colors.accent.error }}
+                      >
+                        {sale.returnedQuantity} returned
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                </View>
+              ))}
+            </View>
+          ) : (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Nothing from this lot has been sold.
+            </ThemedText>
+          )}
+
+          {result.untracedSales > 0 ? (
+            <View
+              style={[
+                styles.warning,
+                { backgroundColor: Colors.badges.lowStock.bg },
+              ]}
+            >
+              <Feather
+                name="alert-triangle"
+                size={16}
+                color={Colors.accent.warning}
+              />
+              <ThemedText
+                type="small"
+                style={[
+                  styles.warningText,
+                  { color: Colors.badges.lowStock.text },
+                ]}
+              >
+                {result.untracedSales} earlier sale line(s) of these products
+                were recorded without batch details and may also include this
+                lot.
+              </ThemedText>
+            </View>
+          ) : null}
+
+          <Button
+            onPress={handleExport}
+            icon="share"
+            variant="outline"
+            style={styles.exportButton}
+          >
+            Export CSV
+          </Button>
+        </>
+      ) : null}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  intro: {
+    marginBottom: Spacing.lg,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  searchInput: {
+    flex: 1,
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  traceButton: {
+    paddingHorizontal: Spacing.lg,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryValue: {
+    color: "#FFFFFF",
+  },
+  summaryLabel: {
+    color: "rgba(255,255,255,0.8)",
+    marginTop: 2,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  phoneRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 2,
+  },
+  quantity: {
+    alignItems: "flex-end",
+  },
+  warning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xl,
+  },
+  warningText: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+  },
+  exportButton: {
+    marginBottom: Spacing.xl,
+  },
+});
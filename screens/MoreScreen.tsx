@@ -12,7 +12,8 @@ import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { useAuth } from "@/context/AuthContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { getGreeting } from "@/utils/format";
+import { formatTime, getGreeting } from "@/utils/format";
+import { getPromotionStatus } from "@/utils/promotions";
 import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
 
 type MoreScreenProps = {
@@ -23,10 +24,12 @@ export default function MoreScreen({ navigation }: MoreScreenProps) {
   const { theme } = useTheme();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
-  const { customers, suppliers, transactions, getTotalOutstandingDebt, getCustomersWithDebt } = useApp();
+  const { customers, suppliers, transactions, purchaseOrders, promotions, currentShift, getTotalOutstandingDebt, getCustomersWithDebt } = useApp();
   const { user, shop, logout, hasPermission } = useAuth();
   const customersWithDebt = getCustomersWithDebt();
   const totalDebt = getTotalOutstandingDebt();
+  const openOrders = purchaseOrders.filter((o) => o.status === "sent" || o.status === "partially_received").length;
+  const runningPromotions = promotions.filter((p) => getPromotionStatus(p) === "running").length;
 
   const handleLogout = () => {
     Alert.alert(
@@ -69,6 +72,13 @@ export default function MoreScreen({ navigation }: MoreScreenProps) {
         <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
           Management
         </ThemedText>
+        <MenuListItem
+          title="Cash Drawer"
+          subtitle={currentShift ? `Shift open since ${formatTime(currentShift.openedAt)}` : "Open a shift with your float"}
+          icon="inbox"
+          iconColor={currentShift ? Colors.accent.success : Colors.accent.warning}
+          onPress={() => navigation.navigate("Shift")}
+        />
         <MenuListItem
           title="Customers"
           subtitle="Manage customer accounts"
@@ -85,6 +95,13 @@ export default function MoreScreen({ navigation }: MoreScreenProps) {
           badge={customersWithDebt.length > 0 ? customersWithDebt.length : undefined}
           onPress={() => navigation.navigate("CustomerCredits")}
         />
+        <MenuListItem
+          title="Debtor Aging"
+          subtitle="Overdue credit and customer statements"
+          icon="clock"
+          iconColor={Colors.accent.warning}
+          onPress={() => navigation.navigate("DebtorAging")}
+        />
         <MenuListItem
           title="Suppliers"
           subtitle="Manage supplier information"
@@ -93,6 +110,23 @@ export default function MoreScreen({ navigation }: MoreScreenProps) {
           badge={suppliers.length}
           onPress={() => navigation.navigate("Suppliers")}
         />
+        <MenuListItem
+          title="Purchase Orders"
+          subtitle="Order stock and receive deliveries"
+          icon="shopping-bag"
+          iconColor={Colors.secondary.main}
+          badge={openOrders > 0 ? openOrders : undefined}
+          onPress={() => navigation.navigate("PurchaseOrders")}
+        />
+        {hasPermission("manager") && (
+          <MenuListItem
+            title="Promotions"
+            subtitle={runningPromotions > 0 ? `${runningPromotions} running now` : "Discounts, multi-buys and happy hours"}
+            icon="tag"
+            iconColor={Colors.accent.success}
+            onPress={() => navigation.navigate("Promotions")}
+          />
+        )}
         <MenuListItem
           title="All Transactions"
           subtitle="View complete transaction history"
@@ -121,6 +155,13 @@ export default function MoreScreen({ navigation }: MoreScreenProps) {
               iconColor={Colors.accent.warning}
               onPress={() => navigation.navigate("UserManagement")}
             />
+            <MenuListItem
+              title="Tax Settings"
+              subtitle={shop?.taxId ? `KRA PIN ${shop.taxId}` : "VAT classes and KRA PIN"}
+              icon="percent"
+              iconColor={Colors.accent.warning}
+              onPress={() => navigation.navigate("TaxSettings")}
+            />
           </>
         )}
 
@@ -133,6 +174,12 @@ export default function MoreScreen({ navigation }: MoreScreenProps) {
           icon="settings"
           onPress={() => navigation.navigate("Settings")}
         />
+        <MenuListItem
+          title="Receipt Printer"
+          subtitle="Paper width, printer and auto-print"
+          icon="printer"
+          onPress={() => navigation.navigate("PrinterSettings")}
+        />
         <MenuListItem
           title="Logout"
           subtitle={`Signed in as ${user?.email || "guest"}`}
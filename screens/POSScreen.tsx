@@ -18,6 +18,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { formatCurrency } from "@/utils/format";
+import { getPriceRuleLabel, resolvePrice } from "@/utils/pricing";
 import { CATEGORIES } from "@/constants/categories";
 import { POSStackParamList } from "@/navigation/POSStackNavigator";
 
@@ -25,12 +26,21 @@ type POSScreenProps = {
   navigation: NativeStackNavigationProp<POSStackParamList, "POS">;
 };
 
+function alertNotEnoughStock(product: { name: string }, available: number) {
+  Alert.alert(
+    "Not Enough Stock",
+    available > 0
+      ? `Only ${available} more of ${product.name} can be sold. The rest is expired or already in the cart.`
+      : `No more sellable stock of ${product.name} is left.`,
+  );
+}
+
 export default function POSScreen({ navigation }: POSScreenProps) {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
-  const { products, cart, addToCart, removeFromCart, updateCartQuantity, getCartTotal, getProductStock } = useApp();
+  const { products, customers, cart, cartCustomer, setCartCustomer, addToCart, removeFromCart, updateCartQuantity, getCartTotal, getSellableStock, getQuarantinedStock } = useApp();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
@@ -39,6 +49,8 @@ export default function POSScreen({ navigation }: POSScreenProps) {
   const [showBulkSaleSelector, setShowBulkSaleSelector] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
   const [quantity, setQuantity] = useState("1");
+  const [showCustomerPicker, setShowCustomerPicker] = useState(false);
+  const [customerQuery, setCustomerQuery] = useState("");
 
   const filteredProducts = useMemo(() => {
     let result = products.filter((p) => p.active);
@@ -61,6 +73,19 @@ export default function POSScreen({ navigation }: POSScreenProps) {
   }, [products, selectedCategory, searchQuery]);
 
 
+  const pickerCustomers = useMemo(() => {
+    const query = customerQuery.trim().toLowerCase();
+    if (!query) return customers;
+    return customers.filter(
+      (c) => c.name.toLowerCase().includes(query) || c.phone.includes(customerQuery.trim())
+    );
+  }, [customers, customerQuery]);
+
+  // Price for the quantity being added, at the attached customer's tier
+  const modalPrice = selectedProduct
+    ? resolvePrice(selectedProduct, parseInt(quantity || "1", 10) || 1, cartCustomer)
+    : null;
+
   const bulkSaleProducts = useMemo(() => {
     return products.filter((p) => p.active && (p.itemType === 'bulk' || p.isBulkItem));
   }, [products]);
@@ -70,6 +95,13 @@ export default function POSScreen({ navigation }: POSScreenProps) {
   }, []);
 
   const handleProductPress = useCallback((product: any) => {
+    if (getSellableStock(product.id) <= 0 && getQuarantinedStock(product.id) > 0) {
+      Alert.alert(
+        "Expired Stock",
+        `All remaining stock of ${product.name} has expired and is quarantined. Write it off from the Inventory Report.`
+      );
+      return;
+    }
     setSelectedProduct(product);
     const isBulkProduct = product.itemType === 'bulk' || product.isBulkItem;
     if (isBulkProduct) {
@@ -78,7 +110,28 @@ export default function POSScreen({ navigation }: POSScreenProps) {
       setQuantity("1");
       setShowQuantityModal(true);
     }
-  }, []);
+  }, [getSellableStock, getQuarantinedStock]);
+
+  // Sellable stock of a product not yet in the cart, leaving out one cart line
+  // when that line's own quantity is being changed. Expired batches never count.
+  const getUncartedStock = useCallback(
+    (productId: string, exceptItemId?: string) => {
+      const inCart = cart
+        .filter(
+          (item) => item.product.id === productId && item.id !== exceptItemId,
+        )
+        .reduce(
+          (total, item) =>
+            total +
+            (item.isFractionalSale && item.actualWeight
+              ? item.actualWeight
+              : item.quantity),
+          0,
+        );
+      return getSellableStock(productId) - inCart;
+    },
+    [cart, getSellableStock],
+  );
 
   const handleAddToCart = useCallback(() => {
     const qty = parseInt(quantity, 10);
@@ -87,20 +140,45 @@ export default function POSScreen({ navigation }: POSScreenProps) {
       return;
     }
     if (selectedProduct) {
+      const available = getUncartedStock(selectedProduct.id);
+      if (qty > available) {
+        alertNotEnoughStock(selectedProduct, available);
+        return;
+      }
       addToCart(selectedProduct, qty);
       setShowQuantityModal(false);
       setSelectedProduct(null);
       setQuantity("1");
     }
-  }, [quantity, selectedProduct, addToCart]);
+  }, [quantity, selectedProduct, addToCart, getUncartedStock]);
 
-  const handleBulkSaleAddToCart = useCallback((weight: number, totalPrice: number) => {
-    if (selectedProduct) {
-      addToCart(selectedProduct, 1, { weight, totalPrice });
-      setShowBulkSaleModal(false);
-      setSelectedProduct(null);
-    }
-  }, [selectedProduct, addToCart]);
+  const handleBulkSaleAddToCart = useCallback(
+    (weight: number, totalPrice: number) => {
+      if (selectedProduct) {
+        const available = getUncartedStock(selectedProduct.id);
+        if (weight > available) {
+          alertNotEnoughStock(selectedProduct, available);
+          return;
+        }
+        addToCart(selectedProduct, 1, { weight, totalPrice });
+        setShowBulkSaleModal(false);
+        setSelectedProduct(null);
+      }
+    },
+    [selectedProduct, addToCart, getUncartedStock],
+  );
+
+  const handleUpdateQuantity = useCallback(
+    (item: (typeof cart)[number], qty: number) => {
+      const available = getUncartedStock(item.product.id, item.id);
+      if (qty > item.quantity && qty > available) {
+        alertNotEnoughStock(item.product, available - item.quantity);
+        return;
+      }
+      updateCartQuantity(item.id, qty);
+    },
+    [updateCartQuantity, getUncartedStock],
+  );
 
   const cartTotal = getCartTotal();
 
@@ -130,6 +208,40 @@ export default function POSScreen({ navigation }: POSScreenProps) {
           </Pressable>
         </View>
 
+        <Pressable
+          onPress={() => {
+            setCustomerQuery("");
+            setShowCustomerPicker(true);
+          }}
+          style={({ pressed }) => [
+            styles.customerBar,
+            {
+              backgroundColor: cartCustomer ? Colors.primary.main + "15" : theme.surface,
+              borderColor: cartCustomer ? Colors.primary.main : theme.divider,
+              opacity: pressed ? 0.8 : 1,
+            },
+          ]}
+        >
+          <Feather name={cartCustomer ? "user-check" : "user-plus"} size={18} color={Colors.primary.main} />
+          <ThemedText type="small" style={styles.customerBarText} numberOfLines={1}>
+            {cartCustomer ? cartCustomer.name : "Walk-in customer"}
+          </ThemedText>
+          {cartCustomer && cartCustomer.customerType !== "retail" ? (
+            <View style={styles.tierBadge}>
+              <ThemedText type="caption" style={styles.tierBadgeText}>
+                {cartCustomer.customerType === "vip" ? "VIP" : "Wholesale"}
+              </ThemedText>
+            </View>
+          ) : null}
+          {cartCustomer ? (
+            <Pressable onPress={() => setCartCustomer(null)} hitSlop={8}>
+              <Feather name="x" size={18} color={theme.textSecondary} />
+            </Pressable>
+          ) : (
+            <Feather name="chevron-right" size={18} color={theme.textSecondary} />
+          )}
+        </Pressable>
+
         <View style={styles.categoriesSection}>
           <ScrollView
             horizontal
@@ -180,7 +292,7 @@ export default function POSScreen({ navigation }: POSScreenProps) {
                 renderItem={({ item }) => (
                   <ProductListItem
                     product={item}
-                    stock={getProductStock(item.id)}
+                    stock={getSellableStock(item.id)}
                     onPress={() => handleProductPress(item)}
                   />
                 )}
@@ -211,7 +323,9 @@ export default function POSScreen({ navigation }: POSScreenProps) {
                     <CartItemComponent
                       key={item.id}
                       item={item}
-                      onUpdateQuantity={(qty) => updateCartQuantity(item.id, qty)}
+                      onUpdateQuantity={(qty) =>
+                        handleUpdateQuantity(item, qty)
+                      }
                       onRemove={() => removeFromCart(item.id)}
                     />
                   ))}
@@ -279,7 +393,8 @@ export default function POSScreen({ navigation }: POSScreenProps) {
                   {selectedProduct.name}
                 </ThemedText>
                 <ThemedText type="caption" style={[styles.modalPrice, { color: theme.textSecondary }]}>
-                  {formatCurrency(selectedProduct.retailPrice)} each
+                  {formatCurrency(modalPrice?.unitPrice ?? selectedProduct.retailPrice)} each
+                  {modalPrice ? ` · ${getPriceRuleLabel(modalPrice.rule, selectedProduct)}` : ""}
                 </ThemedText>
                 
                 <View style={styles.quantityInputContainer}>
@@ -326,7 +441,7 @@ export default function POSScreen({ navigation }: POSScreenProps) {
                     Total:
                   </ThemedText>
                   <ThemedText type="h3" style={{ color: Colors.primary.main }}>
-                    {formatCurrency(selectedProduct.retailPrice * (parseInt(quantity || "0", 10)))}
+                    {formatCurrency((modalPrice?.unitPrice ?? selectedProduct.retailPrice) * (parseInt(quantity || "0", 10) || 0))}
                   </ThemedText>
                 </View>
               </>
@@ -353,6 +468,80 @@ export default function POSScreen({ navigation }: POSScreenProps) {
         </Pressable>
       </Modal>
 
+      <Modal
+        visible={showCustomerPicker}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowCustomerPicker(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setShowCustomerPicker(false)}>
+          <Pressable
+            style={[styles.bulkSelectorModal, { backgroundColor: theme.surface }]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <View style={styles.bulkSelectorHeader}>
+              <View>
+                <ThemedText type="h4">Attach Customer</ThemedText>
+                <ThemedText type="caption" style={{ color: theme.textSecondary, marginTop: 4 }}>
+                  Wholesale and VIP customers get their tier price
+                </ThemedText>
+              </View>
+              <Pressable onPress={() => setShowCustomerPicker(false)}>
+                <Feather name="x" size={24} color={theme.text} />
+              </Pressable>
+            </View>
+            <View style={styles.customerSearch}>
+              <SearchBar value={customerQuery} onChangeText={setCustomerQuery} placeholder="Search name or phone..." />
+            </View>
+            <ScrollView style={styles.bulkProductsList} showsVerticalScrollIndicator={false}>
+              <Pressable
+                onPress={() => {
+                  setCartCustomer(null);
+                  setShowCustomerPicker(false);
+                }}
+                style={({ pressed }) => [
+                  styles.bulkProductItem,
+                  { backgroundColor: theme.backgroundSecondary, opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  Walk-in customer
+                </ThemedText>
+                {cartCustomer === null ? <Feather name="check" size={20} color={Colors.primary.main} /> : null}
+              </Pressable>
+              {pickerCustomers.map((customer) => (
+                <Pressable
+                  key={customer.id}
+                  onPress={() => {
+                    setCartCustomer(customer.id);
+                    setShowCustomerPicker(false);
+                  }}
+                  style={({ pressed }) => [
+                    styles.bulkProductItem,
+                    { backgroundColor: theme.backgroundSecondary, opacity: pressed ? 0.7 : 1 },
+                  ]}
+                >
+                  <View style={styles.bulkProductInfo}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {customer.name}
+                    </ThemedText>
+                    <ThemedText type="caption" style={{ color: theme.textSecondary, marginTop: 2 }}>
+                      {customer.phone}
+                      {customer.customerType !== "retail"
+                        ? ` • ${customer.customerType === "vip" ? "VIP" : "Wholesale"} pricing`
+                        : ""}
+                    </ThemedText>
+                  </View>
+                  {cartCustomer?.id === customer.id ? (
+                    <Feather name="check" size={20} color={Colors.primary.main} />
+                  ) : null}
+                </Pressable>
+              ))}
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
       <BulkSaleModal
         visible={showBulkSaleModal}
         product={selectedProduct}
@@ -418,7 +607,7 @@ export default function POSScreen({ navigation }: POSScreenProps) {
                       <View style={styles.bulkProductBadge}>
                         <Feather name="info" size={12} color={Colors.primary.main} />
                         <ThemedText type="caption" style={{ color: Colors.primary.main, marginLeft: 4 }}>
-                          Stock: {getProductStock(product.id)} units
+                          Stock: {getSellableStock(product.id)} units
                         </ThemedText>
                       </View>
                     </View>
@@ -539,6 +728,33 @@ const styles = StyleSheet.create({
     marginTop: Spacing.md,
     textAlign: "center",
   },
+  customerBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  customerBarText: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  tierBadge: {
+    backgroundColor: Colors.primary.main,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+  },
+  tierBadgeText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  customerSearch: {
+    marginBottom: Spacing.md,
+  },
   categoriesSection: {
     marginBottom: Spacing.md,
   },
@@ -0,0 +1,336 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Switch,
+  Alert,
+  Platform,
+  TextInput,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { PrinterSettings } from "@/types";
+import {
+  getPrinterTransports,
+  NETWORK_PRINTER_PORT,
+  NetworkPrinterTransport,
+  printTestPage,
+} from "@/utils/printer";
+import { buildTestPageBlocks } from "@/utils/receipt";
+import { renderReceiptText } from "@/utils/escpos";
+
+type PrinterSettingsScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "PrinterSettings">;
+};
+
+const PAPER_WIDTHS: PrinterSettings["paperWidth"][] = [58, 80];
+
+export default function PrinterSettingsScreen({
+  navigation,
+}: PrinterSettingsScreenProps) {
+  const { theme } = useTheme();
+  const { printerSettings, savePrinterSettings } = useApp();
+  const { shop } = useAuth();
+
+  const [settings, setSettings] = useState<PrinterSettings>(printerSettings);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const preview = useMemo(
+    () =>
+      shop
+        ? renderReceiptText(
+            buildTestPageBlocks(shop, settings),
+            settings.paperWidth,
+          )
+        : "",
+    [shop, settings],
+  );
+
+  const update = (changes: Partial<PrinterSettings>) =>
+    setSettings((prev) => ({ ...prev, ...changes }));
+
+  const handleTestPrint = async () => {
+    if (!shop) return;
+    setIsPrinting(true);
+    try {
+      await printTestPage(shop, settings);
+      Alert.alert("Test Page Sent", "Check the printer for the test page.");
+    } catch (error) {
+      Alert.alert(
+        "Print Failed",
+        error instanceof Error ? error.message : "Unable to reach the printer.",
+      );
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (
+      settings.transportId === NetworkPrinterTransport.id &&
+      !settings.networkHost.trim()
+    ) {
+      Alert.alert("Printer Address", "Enter the network printer's IP address.");
+      return;
+    }
+    setIsSaving(true);
+    const success = await savePrinterSettings(settings);
+    setIsSaving(false);
+    if (success) {
+      navigation.goBack();
+    } else {
+      Alert.alert(
+        "Error",
+        "Failed to save printer settings. Please try again.",
+      );
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.option,
+        {
+          backgroundColor: selected ? Colors.primary.main : theme.surface,
+          borderColor: selected ? Colors.primary.main : theme.divider,
+        },
+      ]}
+    >
+      <ThemedText
+        type="caption"
+        style={{ color: selected ? "#FFFFFF" : theme.text }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Printer
+      </ThemedText>
+      <View style={styles.options}>
+        {getPrinterTransports().map((transport) =>
+          renderOption(
+            transport.id,
+            transport.name,
+            settings.transportId === transport.id,
+            () => update({ transportId: transport.id }),
+          ),
+        )}
+      </View>
+      {settings.transportId === NetworkPrinterTransport.id ? (
+        <>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.surface,
+                borderColor: theme.divider,
+                color: theme.text,
+              },
+            ]}
+            value={settings.networkHost}
+            onChangeText={(networkHost) => update({ networkHost })}
+            placeholder="Printer IP address, e.g. 192.168.1.50"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+          />
+          <ThemedText
+            type="caption"
+            style={[styles.hint, { color: theme.textSecondary }]}
+          >
+            Receipts are sent to port {NETWORK_PRINTER_PORT}. The printer and
+            this device must be on the same network.
+          </ThemedText>
+        </>
+      ) : (
+        <ThemedText
+          type="caption"
+          style={[styles.hint, { color: theme.textSecondary }]}
+        >
+          Bluetooth printers are not supported yet. Saved receipt files can be
+          sent to the printer with its own app.
+        </ThemedText>
+      )}
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Paper Width
+      </ThemedText>
+      <View style={styles.options}>
+        {PAPER_WIDTHS.map((width) =>
+          renderOption(
+            String(width),
+            `${width}mm`,
+            settings.paperWidth === width,
+            () => update({ paperWidth: width }),
+          ),
+        )}
+      </View>
+
+      <View
+        style={[
+          styles.card,
+          styles.switchRow,
+          { backgroundColor: theme.surface },
+        ]}
+      >
+        <View style={styles.flex}>
+          <ThemedText type="body">Print after each sale</ThemedText>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Sales sent to KRA eTIMS print once they are signed
+          </ThemedText>
+        </View>
+        <Switch
+          value={settings.autoPrint}
+          onValueChange={(autoPrint) => update({ autoPrint })}
+          trackColor={{ true: Colors.primary.main }}
+        />
+      </View>
+      <View
+        style={[
+          styles.card,
+          styles.switchRow,
+          { backgroundColor: theme.surface },
+        ]}
+      >
+        <View style={styles.flex}>
+          <ThemedText type="body">Print shop logo</ThemedText>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {shop?.logo
+              ? "Prints the logo from the shop's profile"
+              : "This shop has no logo in its profile"}
+          </ThemedText>
+        </View>
+        <Switch
+          value={settings.printShopLogo}
+          onValueChange={(printShopLogo) => update({ printShopLogo })}
+          trackColor={{ true: Colors.primary.main }}
+        />
+      </View>
+      <View
+        style={[
+          styles.card,
+          styles.switchRow,
+          { backgroundColor: theme.surface },
+        ]}
+      >
+        <View style={styles.flex}>
+          <ThemedText type="body">Print stored logo</ThemedText>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Uses the logo saved on the printer with its setup utility when the
+            shop logo is not printed
+          </ThemedText>
+        </View>
+        <Switch
+          value={settings.printStoredLogo}
+          onValueChange={(printStoredLogo) => update({ printStoredLogo })}
+          trackColor={{ true: Colors.primary.main }}
+        />
+      </View>
+
+      {preview ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Test Page
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            <ThemedText type="caption" style={styles.preview}>
+              {preview}
+            </ThemedText>
+          </View>
+        </>
+      ) : null}
+
+      <Button
+        onPress={handleTestPrint}
+        icon="printer"
+        variant="outline"
+        loading={isPrinting}
+        disabled={!shop}
+        style={styles.button}
+      >
+        Print Test Page
+      </Button>
+      <Button
+        onPress={handleSave}
+        icon="save"
+        loading={isSaving}
+        style={styles.saveButton}
+      >
+        Save Printer Settings
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  sectionTitle: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+    marginTop: Spacing.md,
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  option: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginTop: Spacing.md,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  preview: {
+    fontFamily: Platform.select({ ios: "Menlo", default: "monospace" }),
+  },
+  button: {
+    marginTop: Spacing.xl,
+  },
+  saveButton: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+});
@@ -7,10 +7,15 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { StockAdjustmentModal, ADJUSTMENT_REASONS } from "@/components/StockAdjustmentModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { formatCurrency, formatDate } from "@/utils/format";
+import { formatCurrency, formatDate, formatDateTime } from "@/utils/format";
+import { isBatchSellable } from "@/utils/batches";
+import { deriveProductQuantity } from "@/utils/stockLedger";
+import { getWholesaleMinQuantity } from "@/utils/pricing";
+import { InventoryBatch, StockAdjustmentReason, StockMovement, StockMovementType } from "@/types";
 import { CATEGORIES, UNITS } from "@/constants/categories";
 import { InventoryStackParamList } from "@/navigation/InventoryStackNavigator";
 
@@ -19,10 +24,40 @@ type ProductDetailScreenProps = {
   route: RouteProp<InventoryStackParamList, "ProductDetail">;
 };
 
+const MOVEMENT_LABELS: Record<StockMovementType, { label: string; icon: keyof typeof Feather.glyphMap }> = {
+  opening: { label: "Opening Balance", icon: "flag" },
+  sale: { label: "Sale", icon: "shopping-cart" },
+  restock: { label: "Restock", icon: "plus-circle" },
+  receipt: { label: "Supplier Receipt", icon: "file-text" },
+  adjustment: { label: "Adjustment", icon: "sliders" },
+  write_off: { label: "Write-off", icon: "trash-2" },
+  return: { label: "Customer Return", icon: "rotate-ccw" },
+  void: { label: "Voided Sale", icon: "x-circle" },
+  transfer: { label: "Transfer", icon: "repeat" },
+};
+
+const HISTORY_LIMIT = 20;
+
+const describeReason = (movement: StockMovement): string | undefined => {
+  if (!movement.reason) return undefined;
+  const adjustment = ADJUSTMENT_REASONS.find((r) => r.id === movement.reason);
+  return adjustment ? adjustment.label : movement.reason.charAt(0).toUpperCase() + movement.reason.slice(1);
+};
+
 export default function ProductDetailScreen({ route, navigation }: ProductDetailScreenProps) {
   const { productId } = route.params;
   const { theme } = useTheme();
-  const { products, batches, getProductStock, addToCart, addStockEntry } = useApp();
+  const {
+    products,
+    batches,
+    getProductStock,
+    getSellableStock,
+    addToCart,
+    addStockEntry,
+    adjustStock,
+    getProductMovements,
+  } = useApp();
+  const [adjustingBatch, setAdjustingBatch] = useState<InventoryBatch | null>(null);
   const [stockQuantity, setStockQuantity] = useState("");
   const [stockCostPrice, setStockCostPrice] = useState("");
   const [isAddingStock, setIsAddingStock] = useState(false);
@@ -35,12 +70,27 @@ export default function ProductDetailScreen({ route, navigation }: ProductDetail
     return batches.filter((b) => b.productId === route.params.productId);
   }, [batches, route.params.productId]);
 
+  const movements = useMemo(() => getProductMovements(route.params.productId), [getProductMovements, route.params.productId]);
+  const ledgerStock = deriveProductQuantity(movements, route.params.productId);
+
   const stock = product ? getProductStock(product.id) : 0;
+  const sellableStock = product ? getSellableStock(product.id) : 0;
   const category = CATEGORIES.find((c) => c.id === product?.category);
   const unit = UNITS.find((u) => u.id === product?.unit);
 
   const isLowStock = product && stock <= product.reorderLevel && stock > 0;
   const isOutOfStock = stock === 0;
+  const isQuarantined = stock > 0 && sellableStock <= 0;
+
+  const handleAdjustStock = async (quantityChange: number, reason: StockAdjustmentReason, notes?: string) => {
+    if (!adjustingBatch) return;
+    const success = await adjustStock(adjustingBatch.id, quantityChange, reason, notes);
+    if (success) {
+      setAdjustingBatch(null);
+    } else {
+      Alert.alert("Error", "Failed to adjust stock. Please try again.");
+    }
+  };
 
   const handleAddStock = useCallback(async () => {
     if (!stockQuantity || parseFloat(stockQuantity) <= 0) {
@@ -95,6 +145,9 @@ export default function ProductDetailScreen({ route, navigation }: ProductDetail
     if (isOutOfStock) {
       return { bg: Colors.badges.outOfStock.bg, text: Colors.badges.outOfStock.text, label: "Out of Stock" };
     }
+    if (isQuarantined) {
+      return { bg: Colors.badges.expiringSoon.bg, text: Colors.badges.expiringSoon.text, label: "Expired" };
+    }
     if (isLowStock) {
       return { bg: Colors.badges.lowStock.bg, text: Colors.badges.lowStock.text, label: "Low Stock" };
     }
@@ -150,6 +203,11 @@ export default function ProductDetailScreen({ route, navigation }: ProductDetail
               <ThemedText type="h4" style={{ color: Colors.secondary.main }}>
                 {formatCurrency(product.wholesalePrice)}
               </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {getWholesaleMinQuantity(product) > 0
+                  ? `From ${getWholesaleMinQuantity(product)} units`
+                  : "Wholesale/VIP only"}
+              </ThemedText>
             </View>
             <View style={styles.priceItem}>
               <ThemedText type="caption" style={{ color: theme.textSecondary }}>
@@ -227,7 +285,10 @@ export default function ProductDetailScreen({ route, navigation }: ProductDetail
                 <ThemedText type="body" style={{ fontWeight: "600" }}>
                   {batch.batchNumber}
                 </ThemedText>
-                <ThemedText type="body" style={{ color: Colors.primary.main, fontWeight: "600" }}>
+                <ThemedText
+                  type="body"
+                  style={{ color: isBatchSellable(batch) ? Colors.primary.main : Colors.accent.error, fontWeight: "600" }}
+                >
                   {batch.quantity} {unit?.abbr}
                 </ThemedText>
               </View>
@@ -246,12 +307,89 @@ export default function ProductDetailScreen({ route, navigation }: ProductDetail
                     </ThemedText>
                   </View>
                 ) : null}
+                {!isBatchSellable(batch) && batch.quantity > 0 ? (
+                  <View style={styles.batchDetail}>
+                    <Feather name="slash" size={12} color={Colors.accent.error} />
+                    <ThemedText type="caption" style={{ color: Colors.accent.error, marginLeft: 4 }}>
+                      Quarantined - cannot be sold
+                    </ThemedText>
+                  </View>
+                ) : null}
               </View>
+              <Pressable onPress={() => setAdjustingBatch(batch)} style={styles.adjustLink}>
+                <Feather name="sliders" size={14} color={Colors.primary.main} />
+                <ThemedText type="small" style={{ color: Colors.primary.main, marginLeft: 4 }}>
+                  Adjust
+                </ThemedText>
+              </Pressable>
             </View>
           ))}
         </View>
       ) : null}
 
+      {movements.length > 0 ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Stock History
+          </ThemedText>
+          {Math.abs(ledgerStock - stock) > 0.0005 ? (
+            <View style={[styles.ledgerWarning, { backgroundColor: Colors.badges.lowStock.bg }]}>
+              <Feather name="alert-triangle" size={14} color={Colors.accent.warning} />
+              <ThemedText type="caption" style={{ color: Colors.badges.lowStock.text, marginLeft: Spacing.xs, flex: 1 }}>
+                Ledger total is {ledgerStock} {unit?.abbr} but {stock} {unit?.abbr} is on hand. Some stock changed
+                without a recorded movement.
+              </ThemedText>
+            </View>
+          ) : null}
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {movements.slice(0, HISTORY_LIMIT).map((movement, index) => {
+              const info = MOVEMENT_LABELS[movement.type];
+              const reason = describeReason(movement);
+              return (
+                <View
+                  key={movement.id}
+                  style={[
+                    styles.movementRow,
+                    index < Math.min(movements.length, HISTORY_LIMIT) - 1 && {
+                      borderBottomWidth: 1,
+                      borderBottomColor: theme.divider,
+                    },
+                  ]}
+                >
+                  <Feather name={info.icon} size={16} color={theme.textSecondary} />
+                  <View style={styles.movementInfo}>
+                    <ThemedText type="body">
+                      {info.label}
+                      {reason ? ` - ${reason}` : ""}
+                    </ThemedText>
+                    <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                      {formatDateTime(movement.createdAt)}
+                      {movement.batchNumber ? ` | ${movement.batchNumber}` : ""}
+                      {movement.userName ? ` | ${movement.userName}` : ""}
+                    </ThemedText>
+                    {movement.notes ? (
+                      <ThemedText type="caption" style={{ color: theme.textSecondary }} numberOfLines={2}>
+                        {movement.notes}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                  <ThemedText
+                    type="body"
+                    style={{
+                      fontWeight: "600",
+                      color: movement.quantity < 0 ? Colors.accent.error : Colors.accent.success,
+                    }}
+                  >
+                    {movement.quantity > 0 ? "+" : ""}
+                    {movement.quantity}
+                  </ThemedText>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      ) : null}
+
       <View style={[styles.stockAdjustment, { backgroundColor: theme.surface }]}>
         <ThemedText type="h4" style={styles.sectionTitle}>
           Add Stock
@@ -301,11 +439,18 @@ export default function ProductDetailScreen({ route, navigation }: ProductDetail
           }
         }}
         icon="shopping-cart"
-        disabled={isOutOfStock}
+        disabled={isOutOfStock || isQuarantined}
         style={styles.addToCartButton}
       >
-        {isOutOfStock ? "Out of Stock" : "Add to Cart"}
+        {isOutOfStock ? "Out of Stock" : isQuarantined ? "Expired Stock Only" : "Add to Cart"}
       </Button>
+
+      <StockAdjustmentModal
+        visible={!!adjustingBatch}
+        batch={adjustingBatch}
+        onSubmit={handleAdjustStock}
+        onClose={() => setAdjustingBatch(null)}
+      />
     </ScreenScrollView>
   );
 }
@@ -406,6 +551,28 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  adjustLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    marginTop: Spacing.sm,
+  },
+  ledgerWarning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.sm,
+  },
+  movementRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+  },
+  movementInfo: {
+    flex: 1,
+    marginHorizontal: Spacing.md,
+  },
   addToCartButton: {
     marginTop: Spacing.xl,
     marginBottom: Spacing.xl,
@@ -0,0 +1,425 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { CategoryChip } from "@/components/CategoryChip";
+import { SearchBar } from "@/components/SearchBar";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { CATEGORIES, CategoryId } from "@/constants/categories";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { addDaysToDateKey, toLocalDateKey } from "@/utils/format";
+import { PromotionType } from "@/types";
+
+type PromotionEditScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "PromotionEdit">;
+  route: RouteProp<MoreStackParamList, "PromotionEdit">;
+};
+
+const PROMOTION_TYPES: { id: PromotionType; name: string; icon: string }[] = [
+  { id: "percent_off", name: "% Off", icon: "percent" },
+  { id: "amount_off", name: "Amount Off", icon: "minus-circle" },
+  { id: "buy_x_get_y", name: "Buy X Get Y", icon: "gift" },
+  { id: "bundle_price", name: "Bundle Price", icon: "package" },
+];
+
+const VALUE_LABELS: Record<PromotionType, string> = {
+  percent_off: "Percent Off",
+  amount_off: "Amount Off Each Unit (KES)",
+  buy_x_get_y: "",
+  bundle_price: "Bundle Price (KES)",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function PromotionEditScreen({
+  navigation,
+  route,
+}: PromotionEditScreenProps) {
+  const { theme } = useTheme();
+  const { products, promotions, searchProducts, savePromotion } = useApp();
+  const { promotionId } = route.params;
+  const existing = promotions.find((p) => p.id === promotionId);
+  const today = toLocalDateKey(new Date());
+
+  const [name, setName] = useState(existing?.name || "");
+  const [type, setType] = useState<PromotionType>(
+    existing?.type || "percent_off",
+  );
+  const [value, setValue] = useState(existing?.value.toString() || "");
+  const [buyQuantity, setBuyQuantity] = useState(
+    existing?.buyQuantity?.toString() || "",
+  );
+  const [getQuantity, setGetQuantity] = useState(
+    existing?.getQuantity?.toString() || "",
+  );
+  const [productIds, setProductIds] = useState<string[]>(
+    existing?.productIds || [],
+  );
+  const [categoryIds, setCategoryIds] = useState<CategoryId[]>(
+    existing?.categoryIds || [],
+  );
+  const [startDate, setStartDate] = useState(existing?.startDate || today);
+  const [endDate, setEndDate] = useState(
+    existing?.endDate || addDaysToDateKey(today, 7),
+  );
+  const [happyHourStart, setHappyHourStart] = useState(
+    existing?.happyHourStart || "",
+  );
+  const [happyHourEnd, setHappyHourEnd] = useState(
+    existing?.happyHourEnd || "",
+  );
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedProducts = products.filter((p) => productIds.includes(p.id));
+
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    return searchProducts(searchQuery)
+      .filter((p) => p.active && !productIds.includes(p.id))
+      .slice(0, 5);
+  }, [searchQuery, searchProducts, productIds]);
+
+  const toggleCategory = (categoryId: CategoryId) => {
+    setCategoryIds((prev) =>
+      prev.includes(categoryId)
+        ? prev.filter((id) => id !== categoryId)
+        : [...prev, categoryId],
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please give the promotion a name");
+      return;
+    }
+    const amount = parseFloat(value) || 0;
+    const buy = parseInt(buyQuantity, 10) || 0;
+    const get = parseInt(getQuantity, 10) || 0;
+    if (type === "percent_off" && !(amount > 0 && amount <= 100)) {
+      Alert.alert("Error", "Enter a percentage between 1 and 100");
+      return;
+    }
+    if (type === "amount_off" && !(amount > 0)) {
+      Alert.alert("Error", "Enter the amount to take off each unit");
+      return;
+    }
+    if (type === "buy_x_get_y" && !(buy > 0 && get > 0)) {
+      Alert.alert("Error", "Enter how many to buy and how many are free");
+      return;
+    }
+    if (type === "bundle_price" && !(buy > 1 && amount > 0)) {
+      Alert.alert("Error", "Enter a bundle size above 1 and a bundle price");
+      return;
+    }
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      Alert.alert("Error", "Enter dates as YYYY-MM-DD");
+      return;
+    }
+    if (endDate < startDate) {
+      Alert.alert("Error", "The end date is before the start date");
+      return;
+    }
+    const hasHappyHour = !!(happyHourStart || happyHourEnd);
+    if (
+      hasHappyHour &&
+      (!TIME_PATTERN.test(happyHourStart) || !TIME_PATTERN.test(happyHourEnd))
+    ) {
+      Alert.alert("Error", "Enter both happy hour times as HH:MM");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await savePromotion({
+      id: existing?.id,
+      name: name.trim(),
+      type,
+      productIds,
+      categoryIds,
+      value: type === "buy_x_get_y" ? 0 : amount,
+      buyQuantity:
+        type === "buy_x_get_y" || type === "bundle_price" ? buy : undefined,
+      getQuantity: type === "buy_x_get_y" ? get : undefined,
+      startDate,
+      endDate,
+      happyHourStart: hasHappyHour ? happyHourStart : undefined,
+      happyHourEnd: hasHappyHour ? happyHourEnd : undefined,
+      active: existing?.active ?? true,
+    });
+    setIsSaving(false);
+    if (saved) {
+      navigation.goBack();
+    } else {
+      Alert.alert("Error", "Failed to save the promotion. Please try again.");
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.surface,
+      borderColor: theme.divider,
+      color: theme.text,
+    },
+  ];
+
+  const renderLabel = (label: string) => (
+    <ThemedText
+      type="small"
+      style={[styles.label, { color: theme.textSecondary }]}
+    >
+      {label}
+    </ThemedText>
+  );
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      {renderLabel("Name")}
+      <TextInput
+        style={inputStyle}
+        value={name}
+        onChangeText={setName}
+        placeholder="e.g. Layers Mash Weekend Offer"
+        placeholderTextColor={theme.textSecondary}
+      />
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Deal
+      </ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {PROMOTION_TYPES.map((option) => (
+          <CategoryChip
+            key={option.id}
+            id={option.id}
+            name={option.name}
+            icon={option.icon}
+            isSelected={type === option.id}
+            onPress={() => setType(option.id)}
+          />
+        ))}
+      </ScrollView>
+
+      <View style={styles.row}>
+        {type === "buy_x_get_y" || type === "bundle_price" ? (
+          <View style={styles.flex}>
+            {renderLabel(type === "bundle_price" ? "Bundle Size" : "Buy")}
+            <TextInput
+              style={inputStyle}
+              value={buyQuantity}
+              onChangeText={(text) => setBuyQuantity(text.replace(/\D/g, ""))}
+              keyboardType="number-pad"
+            />
+          </View>
+        ) : null}
+        {type === "buy_x_get_y" ? (
+          <View style={styles.flex}>
+            {renderLabel("Get Free")}
+            <TextInput
+              style={inputStyle}
+              value={getQuantity}
+              onChangeText={(text) => setGetQuantity(text.replace(/\D/g, ""))}
+              keyboardType="number-pad"
+            />
+          </View>
+        ) : (
+          <View style={styles.flex}>
+            {renderLabel(VALUE_LABELS[type])}
+            <TextInput
+              style={inputStyle}
+              value={value}
+              onChangeText={(text) => setValue(text.replace(/[^0-9.]/g, ""))}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        )}
+      </View>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Applies To
+      </ThemedText>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        Leave products and categories empty to cover everything in the shop.
+      </ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {CATEGORIES.map((category) => (
+          <CategoryChip
+            key={category.id}
+            id={category.id}
+            name={category.name}
+            icon={category.icon}
+            isSelected={categoryIds.includes(category.id)}
+            onPress={() => toggleCategory(category.id)}
+          />
+        ))}
+      </ScrollView>
+      <SearchBar
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+        placeholder="Add a product..."
+        showBarcode={false}
+      />
+      {searchResults.map((product) => (
+        <Pressable
+          key={product.id}
+          onPress={() => {
+            setProductIds((prev) => [...prev, product.id]);
+            setSearchQuery("");
+          }}
+          style={({ pressed }) => [
+            styles.listRow,
+            { backgroundColor: theme.surface, opacity: pressed ? 0.8 : 1 },
+          ]}
+        >
+          <ThemedText type="body" style={styles.flex} numberOfLines={1}>
+            {product.name}
+          </ThemedText>
+          <Feather name="plus" size={18} color={Colors.primary.main} />
+        </Pressable>
+      ))}
+      {selectedProducts.map((product) => (
+        <View
+          key={product.id}
+          style={[styles.listRow, { backgroundColor: theme.surface }]}
+        >
+          <ThemedText type="body" style={styles.flex} numberOfLines={1}>
+            {product.name}
+          </ThemedText>
+          <Pressable
+            onPress={() =>
+              setProductIds((prev) => prev.filter((id) => id !== product.id))
+            }
+            hitSlop={8}
+          >
+            <Feather name="x" size={18} color={Colors.accent.error} />
+          </Pressable>
+        </View>
+      ))}
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        When
+      </ThemedText>
+      <View style={styles.row}>
+        <View style={styles.flex}>
+          {renderLabel("Start Date")}
+          <TextInput
+            style={inputStyle}
+            value={startDate}
+            onChangeText={setStartDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={theme.textSecondary}
+          />
+        </View>
+        <View style={styles.flex}>
+          {renderLabel("End Date")}
+          <TextInput
+            style={inputStyle}
+            value={endDate}
+            onChangeText={setEndDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={theme.textSecondary}
+          />
+        </View>
+      </View>
+      <View style={styles.row}>
+        <View style={styles.flex}>
+          {renderLabel("Happy Hour From (Optional)")}
+          <TextInput
+            style={inputStyle}
+            value={happyHourStart}
+            onChangeText={setHappyHourStart}
+            placeholder="HH:MM"
+            placeholderTextColor={theme.textSecondary}
+          />
+        </View>
+        <View style={styles.flex}>
+          {renderLabel("Until")}
+          <TextInput
+            style={inputStyle}
+            value={happyHourEnd}
+            onChangeText={setHappyHourEnd}
+            placeholder="HH:MM"
+            placeholderTextColor={theme.textSecondary}
+          />
+        </View>
+      </View>
+
+      <Button
+        onPress={handleSave}
+        icon="save"
+        loading={isSaving}
+        style={styles.saveButton}
+      >
+        Save Promotion
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  sectionTitle: {
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.md,
+  },
+  hint: {
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chips: {
+    paddingRight: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  listRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing.xs,
+  },
+  label: {
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  saveButton: {
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.xl,
+  },
+});
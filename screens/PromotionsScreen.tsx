@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { View, StyleSheet, Pressable, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatDate } from "@/utils/format";
+import {
+  PromotionStatus,
+  describePromotion,
+  getPromotionStatus,
+} from "@/utils/promotions";
+import { Promotion } from "@/types";
+
+type PromotionsScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "Promotions">;
+};
+
+const STATUS_STYLES: Record<
+  PromotionStatus,
+  { label: string; bg: string; text: string }
+> = {
+  running: {
+    label: "Running",
+    bg: Colors.badges.inStock.bg,
+    text: Colors.badges.inStock.text,
+  },
+  scheduled: {
+    label: "Scheduled",
+    bg: Colors.badges.expiringSoon.bg,
+    text: Colors.badges.expiringSoon.text,
+  },
+  paused: {
+    label: "Paused",
+    bg: Colors.badges.lowStock.bg,
+    text: Colors.badges.lowStock.text,
+  },
+  ended: {
+    label: "Ended",
+    bg: Colors.badges.outOfStock.bg,
+    text: Colors.badges.outOfStock.text,
+  },
+};
+
+export default function PromotionsScreen({
+  navigation,
+}: PromotionsScreenProps) {
+  const { theme } = useTheme();
+  const { promotions, savePromotion } = useApp();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const handleToggle = async (promotion: Promotion) => {
+    setUpdatingId(promotion.id);
+    const saved = await savePromotion({
+      ...promotion,
+      active: !promotion.active,
+    });
+    setUpdatingId(null);
+    if (!saved) {
+      Alert.alert("Error", "Failed to update the promotion.");
+    }
+  };
+
+  return (
+    <ScreenScrollView>
+      <Button
+        onPress={() => navigation.navigate("PromotionEdit", {})}
+        icon="plus"
+      >
+        New Promotion
+      </Button>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        Running promotions are applied at the till automatically. Each cart line
+        gets the one that saves the customer most.
+      </ThemedText>
+
+      {promotions.length === 0 ? (
+        <EmptyState
+          icon="tag"
+          title="No promotions yet"
+          description="Set up discounts, multi-buy deals and happy hours"
+        />
+      ) : (
+        promotions.map((promotion) => {
+          const status = STATUS_STYLES[getPromotionStatus(promotion)];
+          return (
+            <Pressable
+              key={promotion.id}
+              onPress={() =>
+                navigation.navigate("PromotionEdit", {
+                  promotionId: promotion.id,
+                })
+              }
+              style={({ pressed }) => [
+                styles.card,
+                { backgroundColor: theme.surface, opacity: pressed ? 0.8 : 1 },
+              ]}
+            >
+              <View style={styles.cardHeader}>
+                <ThemedText
+                  type="body"
+                  style={[styles.flex, { fontWeight: "600" }]}
+                  numberOfLines={1}
+                >
+                  {promotion.name}
+                </ThemedText>
+                <View style={[styles.badge, { backgroundColor: status.bg }]}>
+                  <ThemedText type="caption" style={{ color: status.text }}>
+                    {status.label}
+                  </ThemedText>
+                </View>
+              </View>
+              <ThemedText type="small">
+                {describePromotion(promotion)}
+              </ThemedText>
+              <View style={styles.cardFooter}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {formatDate(promotion.startDate)} –{" "}
+                  {formatDate(promotion.endDate)}
+                </ThemedText>
+                <Pressable
+                  onPress={() => handleToggle(promotion)}
+                  disabled={updatingId === promotion.id}
+                  hitSlop={8}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: Colors.primary.main, fontWeight: "600" }}
+                  >
+                    {promotion.active ? "Pause" : "Resume"}
+                  </ThemedText>
+                </Pressable>
+              </View>
+            </Pressable>
+          );
+        })
+      )}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  cardFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+});
@@ -0,0 +1,363 @@
+import React, { useState } from "react";
+import { View, StyleSheet, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { PurchaseOrderStatusBadge } from "@/components/PurchaseOrderStatusBadge";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatCurrency, formatDate, formatDateTime } from "@/utils/format";
+import {
+  getOutstandingQuantity,
+  getPurchaseOrderTotal,
+} from "@/utils/purchaseOrders";
+import { GoodsReceivedLine } from "@/types";
+
+type PurchaseOrderDetailScreenProps = {
+  navigation: NativeStackNavigationProp<
+    MoreStackParamList,
+    "PurchaseOrderDetail"
+  >;
+  route: RouteProp<MoreStackParamList, "PurchaseOrderDetail">;
+};
+
+// The differences a delivered line had against the order, for display.
+function getLineFlags(line: GoodsReceivedLine): string[] {
+  const flags: string[] = [];
+  if (line.quantityVariance < 0) {
+    flags.push(`Short by ${-line.quantityVariance}`);
+  } else if (line.quantityVariance > 0) {
+    flags.push(`Over by ${line.quantityVariance}`);
+  }
+  if (Math.abs(line.unitCost - line.expectedCost) >= 0.01) {
+    flags.push(
+      `Price ${formatCurrency(line.unitCost)} vs ${formatCurrency(line.expectedCost)} ordered`,
+    );
+  }
+  return flags;
+}
+
+export default function PurchaseOrderDetailScreen({
+  navigation,
+  route,
+}: PurchaseOrderDetailScreenProps) {
+  const { theme } = useTheme();
+  const { purchaseOrders, sendPurchaseOrder, deletePurchaseOrder } = useApp();
+  const order = purchaseOrders.find(
+    (o) => o.id === route.params.purchaseOrderId,
+  );
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  if (!order) {
+    return (
+      <ScreenScrollView>
+        <EmptyState
+          icon="shopping-bag"
+          title="Order not found"
+          description="This purchase order may have been deleted"
+        />
+      </ScreenScrollView>
+    );
+  }
+
+  const canReceive =
+    order.status === "sent" || order.status === "partially_received";
+  const receivedValue = order.receipts.reduce(
+    (sum, receipt) =>
+      sum +
+      receipt.lines.reduce((s, line) => s + line.quantity * line.unitCost, 0),
+    0,
+  );
+
+  const handleSend = () => {
+    Alert.alert(
+      "Mark as Sent",
+      `Mark ${order.orderNumber} as sent to ${order.supplierName}? It can no longer be edited.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Mark Sent",
+          onPress: async () => {
+            setIsUpdating(true);
+            const success = await sendPurchaseOrder(order.id);
+            setIsUpdating(false);
+            if (!success) {
+              Alert.alert("Error", "Failed to update the order.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDelete = () => {
+    Alert.alert("Delete Draft", `Delete ${order.orderNumber}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          const success = await deletePurchaseOrder(order.id);
+          if (success) {
+            navigation.goBack();
+          } else {
+            Alert.alert("Error", "Failed to delete the order.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScreenScrollView>
+      <View style={[styles.card, { backgroundColor: theme.surface }]}>
+        <View style={styles.row}>
+          <ThemedText type="h4">{order.orderNumber}</ThemedText>
+          <PurchaseOrderStatusBadge status={order.status} />
+        </View>
+        <ThemedText type="body">{order.supplierName}</ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Created {formatDate(order.createdAt)}
+          {order.createdByName ? ` by ${order.createdByName}` : ""}
+          {order.sentAt ? ` · sent ${formatDate(order.sentAt)}` : ""}
+        </ThemedText>
+        {order.notes ? (
+          <ThemedText
+            type="small"
+            style={[styles.notes, { color: theme.textSecondary }]}
+          >
+            {order.notes}
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Items
+      </ThemedText>
+      <View style={[styles.card, { backgroundColor: theme.surface }]}>
+        {order.lines.map((line, index) => {
+          const outstanding = getOutstandingQuantity(line);
+          return (
+            <View
+              key={line.productId}
+              style={[
+                styles.lineRow,
+                index > 0 && {
+                  borderTopWidth: 1,
+                  borderTopColor: theme.divider,
+                },
+              ]}
+            >
+              <View style={styles.flex}>
+                <ThemedText type="body" numberOfLines={1}>
+                  {line.productName}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {line.quantityOrdered} × {formatCurrency(line.expectedCost)}
+                  {order.status !== "draft"
+                    ? ` · ${line.quantityReceived} received`
+                    : ""}
+                </ThemedText>
+              </View>
+              {order.status !== "draft" ? (
+                outstanding > 0 ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: Colors.accent.warning }}
+                  >
+                    {outstanding} due
+                  </ThemedText>
+                ) : (
+                  <Feather
+                    name="check-circle"
+                    size={18}
+                    color={Colors.accent.success}
+                  />
+                )
+              ) : null}
+            </View>
+          );
+        })}
+        <View style={[styles.row, styles.totalRow]}>
+          <ThemedText type="body">Ordered</ThemedText>
+          <ThemedText type="body" style={{ fontWeight: "600" }}>
+            {formatCurrency(getPurchaseOrderTotal(order))}
+          </ThemedText>
+        </View>
+        {order.receipts.length > 0 ? (
+          <View style={styles.row}>
+            <ThemedText type="body">Received</ThemedText>
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              {formatCurrency(receivedValue)}
+            </ThemedText>
+          </View>
+        ) : null}
+      </View>
+
+      {order.status === "draft" ? (
+        <View style={styles.actions}>
+          <Button
+            onPress={() =>
+              navigation.navigate("PurchaseOrderEdit", {
+                purchaseOrderId: order.id,
+              })
+            }
+            icon="edit-2"
+            variant="outline"
+          >
+            Edit Order
+          </Button>
+          <Button onPress={handleSend} icon="send" loading={isUpdating}>
+            Mark as Sent
+          </Button>
+          <Button onPress={handleDelete} icon="trash-2" variant="text">
+            Delete Draft
+          </Button>
+        </View>
+      ) : null}
+
+      {canReceive ? (
+        <Button
+          onPress={() =>
+            navigation.navigate("ReceiveGoods", { purchaseOrderId: order.id })
+          }
+          icon="package"
+          style={styles.actions}
+        >
+          Receive Goods
+        </Button>
+      ) : null}
+
+      {order.receipts.length > 0 ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Deliveries
+          </ThemedText>
+          {[...order.receipts].reverse().map((receipt) => (
+            <View
+              key={receipt.id}
+              style={[styles.card, { backgroundColor: theme.surface }]}
+            >
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {formatDateTime(receipt.receivedAt)}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {receipt.invoiceNumber
+                  ? `Invoice ${receipt.invoiceNumber}`
+                  : "No invoice number"}
+                {receipt.receivedByName
+                  ? ` · received by ${receipt.receivedByName}`
+                  : ""}
+              </ThemedText>
+              {receipt.lines.map((line) => {
+                const flags = getLineFlags(line);
+                const name =
+                  order.lines.find((l) => l.productId === line.productId)
+                    ?.productName || line.productId;
+                return (
+                  <View key={line.batchId} style={styles.receivedLine}>
+                    <ThemedText type="small">
+                      {name}: {line.quantity} × {formatCurrency(line.unitCost)}
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      Batch {line.batchNumber}
+                      {line.expiryDate
+                        ? ` · expires ${formatDate(line.expiryDate)}`
+                        : ""}
+                    </ThemedText>
+                    {flags.map((flag) => (
+                      <View key={flag} style={styles.flag}>
+                        <Feather
+                          name="alert-triangle"
+                          size={12}
+                          color={Colors.accent.warning}
+                        />
+                        <ThemedText
+                          type="caption"
+                          style={[
+                            styles.flagText,
+                            { color: Colors.accent.warning },
+                          ]}
+                        >
+                          {flag}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                );
+              })}
+              {receipt.notes ? (
+                <ThemedText
+                  type="caption"
+                  style={[styles.notes, { color: theme.textSecondary }]}
+                >
+                  {receipt.notes}
+                </ThemedText>
+              ) : null}
+            </View>
+          ))}
+        </>
+      ) : null}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.xs,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  notes: {
+    marginTop: Spacing.sm,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  lineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  totalRow: {
+    marginTop: Spacing.sm,
+  },
+  actions: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  receivedLine: {
+    marginTop: Spacing.sm,
+  },
+  flag: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 2,
+  },
+  flagText: {
+    marginLeft: Spacing.xs,
+  },
+});
@@ -0,0 +1,416 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { CategoryChip } from "@/components/CategoryChip";
+import { SearchBar } from "@/components/SearchBar";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatCurrency } from "@/utils/format";
+import { suggestOrderLines } from "@/utils/purchaseOrders";
+import { PurchaseOrderLine } from "@/types";
+
+type PurchaseOrderEditScreenProps = {
+  navigation: NativeStackNavigationProp<
+    MoreStackParamList,
+    "PurchaseOrderEdit"
+  >;
+  route: RouteProp<MoreStackParamList, "PurchaseOrderEdit">;
+};
+
+interface DraftLine {
+  productId: string;
+  productName: string;
+  quantity: string;
+  cost: string;
+}
+
+const toDraftLine = (line: PurchaseOrderLine): DraftLine => ({
+  productId: line.productId,
+  productName: line.productName,
+  quantity: line.quantityOrdered.toString(),
+  cost: line.expectedCost.toString(),
+});
+
+export default function PurchaseOrderEditScreen({
+  navigation,
+  route,
+}: PurchaseOrderEditScreenProps) {
+  const { theme } = useTheme();
+  const {
+    suppliers,
+    purchaseOrders,
+    getLowStockProducts,
+    getProductStock,
+    searchProducts,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+  } = useApp();
+  const { purchaseOrderId, suggest } = route.params;
+  const existing = purchaseOrders.find((o) => o.id === purchaseOrderId);
+
+  const [supplierId, setSupplierId] = useState<string | null>(
+    existing?.supplierId ?? null,
+  );
+  const [lines, setLines] = useState<DraftLine[]>(() => {
+    if (existing) return existing.lines.map(toDraftLine);
+    if (suggest) {
+      return suggestOrderLines(getLowStockProducts(), getProductStock).map(
+        toDraftLine,
+      );
+    }
+    return [];
+  });
+  const [notes, setNotes] = useState(existing?.notes || "");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeSuppliers = suppliers.filter(
+    (s) => s.active || s.id === supplierId,
+  );
+
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    return searchProducts(searchQuery)
+      .filter((p) => p.active && !lines.some((l) => l.productId === p.id))
+      .slice(0, 5);
+  }, [searchQuery, searchProducts, lines]);
+
+  const total = lines.reduce(
+    (sum, line) =>
+      sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.cost) || 0),
+    0,
+  );
+
+  const updateLine = (productId: string, changes: Partial<DraftLine>) => {
+    setLines((prev) =>
+      prev.map((l) => (l.productId === productId ? { ...l, ...changes } : l)),
+    );
+  };
+
+  const addProduct = (productId: string) => {
+    const product = searchResults.find((p) => p.id === productId);
+    if (!product) return;
+    setLines((prev) => [
+      ...prev,
+      {
+        productId: product.id,
+        productName: product.name,
+        quantity: Math.max(product.reorderLevel, 1).toString(),
+        cost: product.costPrice.toString(),
+      },
+    ]);
+    setSearchQuery("");
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      Alert.alert("Error", "Please choose a supplier");
+      return;
+    }
+    if (lines.length === 0) {
+      Alert.alert("Error", "Add at least one product to the order");
+      return;
+    }
+    const invalid = lines.find(
+      (l) => !(parseFloat(l.quantity) > 0) || !(parseFloat(l.cost) >= 0),
+    );
+    if (invalid) {
+      Alert.alert(
+        "Error",
+        `Enter a quantity and cost for ${invalid.productName}`,
+      );
+      return;
+    }
+
+    const orderLines: PurchaseOrderLine[] = lines.map((l) => ({
+      productId: l.productId,
+      productName: l.productName,
+      quantityOrdered: parseFloat(l.quantity),
+      expectedCost: parseFloat(l.cost),
+      quantityReceived: 0,
+    }));
+    const trimmedNotes = notes.trim() || undefined;
+
+    setIsSaving(true);
+    if (existing) {
+      const success = await updatePurchaseOrder({
+        ...existing,
+        supplierId,
+        lines: orderLines,
+        notes: trimmedNotes,
+      });
+      setIsSaving(false);
+      if (success) {
+        navigation.goBack();
+      } else {
+        Alert.alert("Error", "Failed to save the order. Please try again.");
+      }
+      return;
+    }
+
+    const order = await createPurchaseOrder(
+      supplierId,
+      orderLines,
+      trimmedNotes,
+    );
+    setIsSaving(false);
+    if (order) {
+      navigation.replace("PurchaseOrderDetail", { purchaseOrderId: order.id });
+    } else {
+      Alert.alert("Error", "Failed to save the order. Please try again.");
+    }
+  };
+
+  if (existing && existing.status !== "draft") {
+    return (
+      <ScreenKeyboardAwareScrollView>
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          This order has been sent and can no longer be edited.
+        </ThemedText>
+      </ScreenKeyboardAwareScrollView>
+    );
+  }
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Supplier
+      </ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.suppliers}
+      >
+        {activeSuppliers.map((supplier) => (
+          <CategoryChip
+            key={supplier.id}
+            id={supplier.id}
+            name={supplier.name}
+            icon="truck"
+            isSelected={supplierId === supplier.id}
+            onPress={() => setSupplierId(supplier.id)}
+          />
+        ))}
+      </ScrollView>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Items
+      </ThemedText>
+      <SearchBar
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+        placeholder="Add a product..."
+        showBarcode={false}
+      />
+      {searchResults.map((product) => (
+        <Pressable
+          key={product.id}
+          onPress={() => addProduct(product.id)}
+          style={({ pressed }) => [
+            styles.searchResult,
+            { backgroundColor: theme.surface, opacity: pressed ? 0.8 : 1 },
+          ]}
+        >
+          <ThemedText type="body" style={styles.flex} numberOfLines={1}>
+            {product.name}
+          </ThemedText>
+          <Feather name="plus" size={18} color={Colors.primary.main} />
+        </Pressable>
+      ))}
+
+      <View style={styles.lines}>
+        {lines.length === 0 ? (
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            No items yet. Search for a product to add it.
+          </ThemedText>
+        ) : null}
+        {lines.map((line) => (
+          <View
+            key={line.productId}
+            style={[styles.lineCard, { backgroundColor: theme.surface }]}
+          >
+            <View style={styles.lineHeader}>
+              <ThemedText
+                type="body"
+                style={[styles.flex, { fontWeight: "600" }]}
+                numberOfLines={1}
+              >
+                {line.productName}
+              </ThemedText>
+              <Pressable
+                onPress={() =>
+                  setLines((prev) =>
+                    prev.filter((l) => l.productId !== line.productId),
+                  )
+                }
+                hitSlop={8}
+              >
+                <Feather name="trash-2" size={18} color={Colors.accent.error} />
+              </Pressable>
+            </View>
+            <View style={styles.lineInputs}>
+              <View style={styles.flex}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Quantity
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      borderColor: theme.divider,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={line.quantity}
+                  onChangeText={(text) =>
+                    updateLine(line.productId, {
+                      quantity: text.replace(/[^0-9.]/g, ""),
+                    })
+                  }
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.flex}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Unit cost
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      borderColor: theme.divider,
+                      color: theme.text,
+                    },
+                  ]}
+                  value={line.cost}
+                  onChangeText={(text) =>
+                    updateLine(line.productId, {
+                      cost: text.replace(/[^0-9.]/g, ""),
+                    })
+                  }
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <ThemedText
+        type="small"
+        style={[styles.label, { color: theme.textSecondary }]}
+      >
+        Notes (Optional)
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.input,
+          styles.notesInput,
+          {
+            backgroundColor: theme.surface,
+            borderColor: theme.divider,
+            color: theme.text,
+          },
+        ]}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Delivery instructions, terms..."
+        placeholderTextColor={theme.textSecondary}
+        multiline
+      />
+
+      <View style={styles.totalRow}>
+        <ThemedText type="body">Expected total</ThemedText>
+        <ThemedText type="h4" style={{ color: Colors.primary.main }}>
+          {formatCurrency(total)}
+        </ThemedText>
+      </View>
+
+      <Button onPress={handleSave} icon="save" loading={isSaving}>
+        Save Draft
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  suppliers: {
+    paddingRight: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+  searchResult: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing.xs,
+  },
+  lines: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  lineCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+  },
+  lineHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  lineInputs: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  label: {
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+    marginTop: Spacing.xs,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginVertical: Spacing.xl,
+  },
+});
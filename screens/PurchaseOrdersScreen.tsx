@@ -0,0 +1,143 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { PurchaseOrderStatusBadge } from "@/components/PurchaseOrderStatusBadge";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatCurrency, formatDate } from "@/utils/format";
+import { getPurchaseOrderTotal } from "@/utils/purchaseOrders";
+
+type PurchaseOrdersScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "PurchaseOrders">;
+};
+
+export default function PurchaseOrdersScreen({
+  navigation,
+}: PurchaseOrdersScreenProps) {
+  const { theme } = useTheme();
+  const { purchaseOrders, getLowStockProducts } = useApp();
+  const lowStockCount = getLowStockProducts().filter((p) => p.active).length;
+
+  return (
+    <ScreenScrollView>
+      <View style={styles.actions}>
+        <Button
+          onPress={() => navigation.navigate("PurchaseOrderEdit", {})}
+          icon="plus"
+          style={styles.actionButton}
+        >
+          New Order
+        </Button>
+        <Button
+          onPress={() =>
+            navigation.navigate("PurchaseOrderEdit", { suggest: true })
+          }
+          icon="zap"
+          variant="outline"
+          disabled={lowStockCount === 0}
+          style={styles.actionButton}
+        >
+          Suggest ({lowStockCount})
+        </Button>
+      </View>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        Suggest fills an order with every product at or below its reorder level.
+      </ThemedText>
+
+      {purchaseOrders.length === 0 ? (
+        <EmptyState
+          icon="shopping-bag"
+          title="No purchase orders yet"
+          description="Raise an order to a supplier and receive it when it arrives"
+        />
+      ) : (
+        purchaseOrders.map((order) => {
+          const receivedLines = order.lines.filter(
+            (l) => l.quantityReceived >= l.quantityOrdered,
+          ).length;
+          return (
+            <Pressable
+              key={order.id}
+              onPress={() =>
+                navigation.navigate("PurchaseOrderDetail", {
+                  purchaseOrderId: order.id,
+                })
+              }
+              style={({ pressed }) => [
+                styles.orderCard,
+                { backgroundColor: theme.surface, opacity: pressed ? 0.8 : 1 },
+              ]}
+            >
+              <View style={styles.orderHeader}>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {order.orderNumber}
+                </ThemedText>
+                <PurchaseOrderStatusBadge status={order.status} />
+              </View>
+              <ThemedText type="small">{order.supplierName}</ThemedText>
+              <View style={styles.orderFooter}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {formatDate(order.createdAt)} · {order.lines.length} item
+                  {order.lines.length !== 1 ? "s" : ""}
+                  {order.status === "partially_received"
+                    ? ` · ${receivedLines}/${order.lines.length} received`
+                    : ""}
+                </ThemedText>
+                <ThemedText
+                  type="small"
+                  style={{ color: Colors.primary.main, fontWeight: "600" }}
+                >
+                  {formatCurrency(getPurchaseOrderTotal(order))}
+                </ThemedText>
+              </View>
+            </Pressable>
+          );
+        })
+      )}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  orderCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  orderHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  orderFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+});
@@ -182,7 +182,7 @@ export default function ReceiptUploadScreen({ navigation, route }: ReceiptUpload
           onPress: async () => {
             setIsAddingToInventory(true);
             try {
-              const result = await processReceiptData(extractedData, processingMode);
+              const result = await processReceiptData(extractedData, processingMode, currentReceiptId || undefined);
 
               const stockMessage = processingMode === "current_stock" 
                 ? `\nStock added: ${result.stockAdded} units`
@@ -0,0 +1,358 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, TextInput, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatCurrency } from "@/utils/format";
+import {
+  findReceiptDiscrepancies,
+  getOutstandingQuantity,
+  PurchaseOrderDiscrepancy,
+  ReceiveLineInput,
+} from "@/utils/purchaseOrders";
+
+type ReceiveGoodsScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "ReceiveGoods">;
+  route: RouteProp<MoreStackParamList, "ReceiveGoods">;
+};
+
+interface LineInput {
+  quantity: string;
+  cost: string;
+  expiryDate: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function describeDiscrepancy(discrepancy: PurchaseOrderDiscrepancy): string {
+  switch (discrepancy.kind) {
+    case "short":
+      return `Short by ${discrepancy.expected - discrepancy.actual}`;
+    case "over":
+      return `Over by ${discrepancy.actual - discrepancy.expected}`;
+    case "price":
+      return `Price ${formatCurrency(discrepancy.actual)} vs ${formatCurrency(discrepancy.expected)} ordered`;
+  }
+}
+
+export default function ReceiveGoodsScreen({
+  navigation,
+  route,
+}: ReceiveGoodsScreenProps) {
+  const { theme } = useTheme();
+  const { purchaseOrders, receivePurchaseOrder } = useApp();
+  const order = purchaseOrders.find(
+    (o) => o.id === route.params.purchaseOrderId,
+  );
+  const outstandingLines = (order?.lines || []).filter(
+    (l) => getOutstandingQuantity(l) > 0,
+  );
+
+  const [inputs, setInputs] = useState<Record<string, LineInput>>(() =>
+    Object.fromEntries(
+      outstandingLines.map((line) => [
+        line.productId,
+        {
+          quantity: getOutstandingQuantity(line).toString(),
+          cost: line.expectedCost.toString(),
+          expiryDate: "",
+        },
+      ]),
+    ),
+  );
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const received: ReceiveLineInput[] = useMemo(
+    () =>
+      Object.entries(inputs).map(([productId, input]) => ({
+        productId,
+        quantity: parseFloat(input.quantity) || 0,
+        unitCost: parseFloat(input.cost) || 0,
+        expiryDate: input.expiryDate.trim() || undefined,
+      })),
+    [inputs],
+  );
+
+  const discrepancies = useMemo(
+    () => (order ? findReceiptDiscrepancies(order, received) : []),
+    [order, received],
+  );
+
+  if (!order || outstandingLines.length === 0) {
+    return (
+      <ScreenKeyboardAwareScrollView>
+        <EmptyState
+          icon="package"
+          title="Nothing to receive"
+          description="Every item on this order has been received"
+        />
+      </ScreenKeyboardAwareScrollView>
+    );
+  }
+
+  const updateInput = (productId: string, changes: Partial<LineInput>) => {
+    setInputs((prev) => ({
+      ...prev,
+      [productId]: { ...prev[productId], ...changes },
+    }));
+  };
+
+  const submit = async () => {
+    setIsSaving(true);
+    const receipt = await receivePurchaseOrder(order.id, received, {
+      invoiceNumber: invoiceNumber.trim() || undefined,
+      notes: notes.trim() || undefined,
+    });
+    setIsSaving(false);
+    if (receipt) {
+      navigation.goBack();
+    } else {
+      Alert.alert("Error", "Failed to record the delivery. Please try again.");
+    }
+  };
+
+  const handleReceive = () => {
+    if (!received.some((r) => r.quantity > 0)) {
+      Alert.alert("Error", "Enter the quantity received for at least one item");
+      return;
+    }
+    const badDate = received.find(
+      (r) => r.expiryDate && !DATE_PATTERN.test(r.expiryDate),
+    );
+    if (badDate) {
+      Alert.alert("Error", "Enter expiry dates as YYYY-MM-DD");
+      return;
+    }
+    if (discrepancies.length === 0) {
+      submit();
+      return;
+    }
+    Alert.alert(
+      "Delivery Differs From Order",
+      `${discrepancies.length} difference${discrepancies.length !== 1 ? "s" : ""} will be recorded against ${order.orderNumber}. Receive anyway?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Receive", onPress: submit },
+      ],
+    );
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.backgroundDefault,
+      borderColor: theme.divider,
+      color: theme.text,
+    },
+  ];
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText type="h4">{order.orderNumber}</ThemedText>
+      <ThemedText
+        type="small"
+        style={[styles.subtitle, { color: theme.textSecondary }]}
+      >
+        {order.supplierName} · quantities default to what is still due
+      </ThemedText>
+
+      {outstandingLines.map((line) => {
+        const input = inputs[line.productId];
+        const flags = discrepancies.filter(
+          (d) => d.productId === line.productId,
+        );
+        return (
+          <View
+            key={line.productId}
+            style={[styles.lineCard, { backgroundColor: theme.surface }]}
+          >
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              {line.productName}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {getOutstandingQuantity(line)} due at{" "}
+              {formatCurrency(line.expectedCost)}
+            </ThemedText>
+            <View style={styles.lineInputs}>
+              <View style={styles.flex}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Received
+                </ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  value={input.quantity}
+                  onChangeText={(text) =>
+                    updateInput(line.productId, {
+                      quantity: text.replace(/[^0-9.]/g, ""),
+                    })
+                  }
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.flex}>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Unit cost
+                </ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  value={input.cost}
+                  onChangeText={(text) =>
+                    updateInput(line.productId, {
+                      cost: text.replace(/[^0-9.]/g, ""),
+                    })
+                  }
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+            <ThemedText
+              type="caption"
+              style={[styles.label, { color: theme.textSecondary }]}
+            >
+              Expiry date (Optional)
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={input.expiryDate}
+              onChangeText={(text) =>
+                updateInput(line.productId, { expiryDate: text })
+              }
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={theme.textSecondary}
+            />
+            {flags.map((flag) => (
+              <View key={flag.kind} style={styles.flag}>
+                <Feather
+                  name="alert-triangle"
+                  size={12}
+                  color={Colors.accent.warning}
+                />
+                <ThemedText
+                  type="caption"
+                  style={[styles.flagText, { color: Colors.accent.warning }]}
+                >
+                  {describeDiscrepancy(flag)}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        );
+      })}
+
+      <ThemedText
+        type="small"
+        style={[styles.label, { color: theme.textSecondary }]}
+      >
+        Supplier Invoice / Delivery Note
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.surface,
+            borderColor: theme.divider,
+            color: theme.text,
+          },
+        ]}
+        value={invoiceNumber}
+        onChangeText={setInvoiceNumber}
+        placeholder="e.g., INV-2041"
+        placeholderTextColor={theme.textSecondary}
+      />
+
+      <ThemedText
+        type="small"
+        style={[styles.label, { color: theme.textSecondary }]}
+      >
+        Notes (Optional)
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.input,
+          styles.notesInput,
+          {
+            backgroundColor: theme.surface,
+            borderColor: theme.divider,
+            color: theme.text,
+          },
+        ]}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Damaged cartons, missing items..."
+        placeholderTextColor={theme.textSecondary}
+        multiline
+      />
+
+      <Button
+        onPress={handleReceive}
+        icon="check"
+        loading={isSaving}
+        style={styles.button}
+      >
+        Receive Into Stock
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  subtitle: {
+    marginBottom: Spacing.lg,
+  },
+  lineCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  lineInputs: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  label: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+    marginTop: Spacing.xs,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  flag: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.xs,
+  },
+  flagText: {
+    marginLeft: Spacing.xs,
+  },
+  button: {
+    marginTop: Spacing.xl,
+  },
+});
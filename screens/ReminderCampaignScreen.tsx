@@ -0,0 +1,414 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  Alert,
+  ScrollView,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { CategoryChip } from "@/components/CategoryChip";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { formatCurrency, formatDate, formatDateTime } from "@/utils/format";
+import {
+  buildReminderMessage,
+  DEFAULT_REMINDER_TEMPLATE,
+  REMINDER_COOLDOWN_DAYS,
+  REMINDER_PLACEHOLDERS,
+  selectReminderTargets,
+} from "@/utils/reminders";
+import { getSmsGateway } from "@/utils/sms";
+
+const AGE_FILTERS = [
+  { days: 0, label: "Any age" },
+  { days: 30, label: "30+ days" },
+  { days: 60, label: "60+ days" },
+  { days: 90, label: "90+ days" },
+];
+
+export default function ReminderCampaignScreen() {
+  const { theme } = useTheme();
+  const {
+    customers,
+    creditTransactions,
+    paymentReminders,
+    sendPaymentReminders,
+  } = useApp();
+  const { shop } = useAuth();
+
+  const [minBalance, setMinBalance] = useState("");
+  const [minDays, setMinDays] = useState(0);
+  const [template, setTemplate] = useState(DEFAULT_REMINDER_TEMPLATE);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isSending, setIsSending] = useState(false);
+
+  const targets = useMemo(
+    () =>
+      selectReminderTargets(customers, creditTransactions, paymentReminders, {
+        minBalance: parseFloat(minBalance) || 0,
+        minDaysOverdue: minDays,
+      }),
+    [customers, creditTransactions, paymentReminders, minBalance, minDays],
+  );
+  const selected = targets.filter(
+    (t) => !t.nextReminderAt && !excluded.has(t.customer.id),
+  );
+  const preview = selected[0] || targets[0];
+  const previewMessage = preview
+    ? buildReminderMessage(template, preview, shop)
+    : null;
+  const recent = paymentReminders.slice(0, 20);
+
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [minBalance, minDays]);
+
+  const toggleCustomer = (customerId: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(customerId)) {
+        next.delete(customerId);
+      } else {
+        next.add(customerId);
+      }
+      return next;
+    });
+  };
+
+  const insertPlaceholder = (key: string) => {
+    setTemplate((prev) => `${prev}${prev.endsWith(" ") ? "" : " "}{${key}}`);
+  };
+
+  const handleSend = () => {
+    if (!template.trim()) {
+      Alert.alert("Message Required", "Please write the reminder message.");
+      return;
+    }
+    if (selected.length === 0) {
+      Alert.alert("No Customers", "Select at least one customer to remind.");
+      return;
+    }
+    const total = selected.reduce((sum, t) => sum + t.balance, 0);
+    Alert.alert(
+      "Send Reminders",
+      `Send ${selected.length} reminder${selected.length !== 1 ? "s" : ""} for ${formatCurrency(total)} owed, via ${getSmsGateway().name}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Send",
+          onPress: async () => {
+            setIsSending(true);
+            const result = await sendPaymentReminders(
+              selected.map((t) => t.customer.id),
+              template,
+            );
+            setIsSending(false);
+            Alert.alert(
+              "Reminders Sent",
+              [
+                `${result.sent} sent`,
+                result.failed > 0 ? `${result.failed} failed` : null,
+                result.skipped > 0
+                  ? `${result.skipped} skipped (reminded recently or paid up)`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join("\n"),
+            );
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Who to Remind
+      </ThemedText>
+      <ThemedText type="small" style={styles.inputLabel}>
+        Minimum balance (KES)
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.textInput,
+          {
+            backgroundColor: theme.surface,
+            borderColor: theme.divider,
+            color: theme.text,
+          },
+        ]}
+        value={minBalance}
+        onChangeText={setMinBalance}
+        placeholder="0"
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="numeric"
+      />
+      <ThemedText type="small" style={styles.inputLabel}>
+        Oldest unpaid sale
+      </ThemedText>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chips}
+      >
+        {AGE_FILTERS.map((filter) => (
+          <CategoryChip
+            key={filter.days}
+            id={String(filter.days)}
+            name={filter.label}
+            icon="clock"
+            isSelected={minDays === filter.days}
+            onPress={() => setMinDays(filter.days)}
+          />
+        ))}
+      </ScrollView>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Message
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.textInput,
+          styles.templateInput,
+          {
+            backgroundColor: theme.surface,
+            borderColor: theme.divider,
+            color: theme.text,
+          },
+        ]}
+        value={template}
+        onChangeText={setTemplate}
+        multiline
+        textAlignVertical="top"
+      />
+      <View style={styles.placeholders}>
+        {REMINDER_PLACEHOLDERS.map((placeholder) => (
+          <Pressable
+            key={placeholder.key}
+            onPress={() => insertPlaceholder(placeholder.key)}
+            style={[styles.placeholder, { borderColor: theme.divider }]}
+          >
+            <ThemedText type="caption" style={{ color: Colors.primary.main }}>
+              {`{${placeholder.key}}`}
+            </ThemedText>
+          </Pressable>
+        ))}
+        <Pressable onPress={() => setTemplate(DEFAULT_REMINDER_TEMPLATE)}>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Reset
+          </ThemedText>
+        </Pressable>
+      </View>
+      {previewMessage ? (
+        <View style={[styles.card, { backgroundColor: theme.surface }]}>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Preview for {preview.customer.name} · {previewMessage.length}{" "}
+            characters
+          </ThemedText>
+          <ThemedText type="small">{previewMessage}</ThemedText>
+        </View>
+      ) : null}
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Customers ({selected.length} of {targets.length})
+      </ThemedText>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        Customers are reminded at most once every {REMINDER_COOLDOWN_DAYS} days.
+      </ThemedText>
+      {targets.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[styles.hint, { color: theme.textSecondary }]}
+        >
+          No debtors match these filters.
+        </ThemedText>
+      ) : (
+        targets.map((target) => {
+          const coolingDown = !!target.nextReminderAt;
+          const isSelected = !coolingDown && !excluded.has(target.customer.id);
+          return (
+            <Pressable
+              key={target.customer.id}
+              onPress={() => toggleCustomer(target.customer.id)}
+              disabled={coolingDown}
+              style={[
+                styles.row,
+                {
+                  backgroundColor: theme.surface,
+                  opacity: coolingDown ? 0.6 : 1,
+                },
+              ]}
+            >
+              <Feather
+                name={isSelected ? "check-square" : "square"}
+                size={20}
+                color={isSelected ? Colors.primary.main : theme.textSecondary}
+              />
+              <View style={[styles.flex, styles.rowInfo]}>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {target.customer.name}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {target.daysOverdue} day{target.daysOverdue !== 1 ? "s" : ""}{" "}
+                  since oldest unpaid sale
+                </ThemedText>
+                {target.lastRemindedAt ? (
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      color: coolingDown
+                        ? Colors.accent.warning
+                        : theme.textSecondary,
+                    }}
+                  >
+                    Reminded {formatDate(target.lastRemindedAt)}
+                    {target.nextReminderAt
+                      ? ` · next after ${formatDate(target.nextReminderAt)}`
+                      : ""}
+                  </ThemedText>
+                ) : null}
+              </View>
+              <ThemedText
+                type="body"
+                style={{ fontWeight: "600", color: Colors.accent.error }}
+              >
+                {formatCurrency(target.balance)}
+              </ThemedText>
+            </Pressable>
+          );
+        })
+      )}
+
+      <Button
+        onPress={handleSend}
+        icon="send"
+        loading={isSending}
+        disabled={isSending || selected.length === 0}
+        style={styles.sendButton}
+      >
+        Send {selected.length} Reminder{selected.length !== 1 ? "s" : ""}
+      </Button>
+
+      {recent.length > 0 ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Recently Sent
+          </ThemedText>
+          {recent.map((reminder) => (
+            <View
+              key={reminder.id}
+              style={[styles.row, { backgroundColor: theme.surface }]}
+            >
+              <Feather
+                name={reminder.status === "sent" ? "check-circle" : "x-circle"}
+                size={18}
+                color={
+                  reminder.status === "sent"
+                    ? Colors.accent.success
+                    : Colors.accent.error
+                }
+              />
+              <View style={[styles.flex, styles.rowInfo]}>
+                <ThemedText type="small" style={{ fontWeight: "600" }}>
+                  {reminder.customerName}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {formatDateTime(reminder.sentAt)} ·{" "}
+                  {formatCurrency(reminder.balance)}
+                </ThemedText>
+                {reminder.error ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: Colors.accent.error }}
+                  >
+                    {reminder.error}
+                  </ThemedText>
+                ) : null}
+              </View>
+            </View>
+          ))}
+        </>
+      ) : null}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  inputLabel: {
+    marginBottom: Spacing.xs,
+    fontWeight: "500",
+  },
+  textInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+    marginBottom: Spacing.md,
+  },
+  templateInput: {
+    minHeight: 120,
+  },
+  chips: {
+    marginBottom: Spacing.xl,
+  },
+  placeholders: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  placeholder: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+    gap: Spacing.xs,
+  },
+  hint: {
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  rowInfo: {
+    marginLeft: Spacing.md,
+  },
+  sendButton: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+});
@@ -11,7 +11,8 @@ import { MenuListItem } from "@/components/MenuListItem";
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, Colors } from "@/constants/theme";
-import { formatCurrency } from "@/utils/format";
+import { addDaysToDateKey, formatCurrency, toLocalDateKey } from "@/utils/format";
+import { combineDailySummaries, getSummariesSince } from "@/utils/dailySummaries";
 import { ReportsStackParamList } from "@/navigation/ReportsStackNavigator";
 
 type ReportsScreenProps = {
@@ -22,27 +23,34 @@ export default function ReportsScreen({ navigation }: ReportsScreenProps) {
   const { theme } = useTheme();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
-  const { transactions, products, getLowStockProducts, getTodaySales, getTodayTransactionCount, batches } = useApp();
+  const { transactions, products, getLowStockProducts, getTodaySales, getTodayTransactionCount, batches, dailySummaries } = useApp();
 
   const todaySales = getTodaySales();
   const todayTransactions = getTodayTransactionCount();
   const lowStockCount = getLowStockProducts().length;
 
-  const weekSales = useMemo(() => {
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-    return transactions
-      .filter((t) => new Date(t.transactionDate) >= oneWeekAgo)
-      .reduce((sum, t) => sum + t.total, 0);
-  }, [transactions]);
+  // Past days come from their closed-out summaries; only today is worked out
+  // from transactions, so these stay quick however much history there is.
+  const today = toLocalDateKey(new Date());
+  const weekSummary = useMemo(
+    () =>
+      combineDailySummaries(
+        getSummariesSince(addDaysToDateKey(today, -7), dailySummaries, transactions, batches, products, today)
+      ),
+    [today, dailySummaries, transactions, batches, products]
+  );
 
-  const monthSales = useMemo(() => {
+  const monthSummary = useMemo(() => {
     const oneMonthAgo = new Date();
     oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-    return transactions
-      .filter((t) => new Date(t.transactionDate) >= oneMonthAgo)
-      .reduce((sum, t) => sum + t.total, 0);
-  }, [transactions]);
+    return combineDailySummaries(
+      getSummariesSince(toLocalDateKey(oneMonthAgo), dailySummaries, transactions, batches, products, today)
+    );
+  }, [today, dailySummaries, transactions, batches, products]);
+
+  const monthMarginPercent =
+    monthSummary.totalSales > 0 ? Math.round((monthSummary.grossMargin / monthSummary.totalSales) * 100) : 0;
+  const topProducts = monthSummary.topProducts;
 
   const totalInventoryValue = useMemo(() => {
     return batches.reduce((sum, batch) => {
@@ -54,23 +62,6 @@ export default function ReportsScreen({ navigation }: ReportsScreenProps) {
     }, 0);
   }, [batches, products]);
 
-  const topProducts = useMemo(() => {
-    const productSales: Record<string, number> = {};
-    transactions.forEach((t) => {
-      t.items.forEach((item) => {
-        productSales[item.productId] = (productSales[item.productId] || 0) + item.quantity;
-      });
-    });
-    return Object.entries(productSales)
-      .map(([productId, quantity]) => ({
-        productId,
-        name: products.find((p) => p.id === productId)?.name || "Unknown",
-        quantity,
-      }))
-      .sort((a, b) => b.quantity - a.quantity)
-      .slice(0, 5);
-  }, [transactions, products]);
-
   return (
     <ThemedView style={styles.container}>
       <ScrollView
@@ -106,19 +97,36 @@ export default function ReportsScreen({ navigation }: ReportsScreenProps) {
         <View style={styles.metricsRow}>
           <MetricCard
             title="This Week"
-            value={formatCurrency(weekSales)}
+            value={formatCurrency(weekSummary.totalSales)}
             icon="calendar"
             iconColor={Colors.primary.main}
           />
           <View style={{ width: Spacing.md }} />
           <MetricCard
             title="This Month"
-            value={formatCurrency(monthSales)}
+            value={formatCurrency(monthSummary.totalSales)}
             icon="trending-up"
             iconColor={Colors.accent.success}
           />
         </View>
 
+        <View style={styles.metricsRow}>
+          <MetricCard
+            title="Month Gross Margin"
+            value={formatCurrency(monthSummary.grossMargin)}
+            subtitle={`${monthMarginPercent}% of sales`}
+            icon="percent"
+            iconColor={monthSummary.grossMargin < 0 ? Colors.accent.error : Colors.accent.success}
+          />
+          <View style={{ width: Spacing.md }} />
+          <MetricCard
+            title="Month Cost of Sales"
+            value={formatCurrency(monthSummary.costOfSales)}
+            icon="shopping-bag"
+            iconColor={Colors.secondary.main}
+          />
+        </View>
+
         <View style={styles.metricsRow}>
           <MetricCard
             title="Low Stock Items"
@@ -138,7 +146,7 @@ export default function ReportsScreen({ navigation }: ReportsScreenProps) {
         {topProducts.length > 0 ? (
           <>
             <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
-              Top Selling Products
+              Top Selling This Month
             </ThemedText>
             <View style={[styles.topProductsCard, { backgroundColor: theme.surface }]}>
               {topProducts.map((product, index) => (
@@ -183,6 +191,20 @@ export default function ReportsScreen({ navigation }: ReportsScreenProps) {
           iconColor={Colors.secondary.main}
           onPress={() => navigation.navigate("InventoryReport")}
         />
+        <MenuListItem
+          title="VAT Report"
+          subtitle="Output VAT by tax class for monthly filing"
+          icon="percent"
+          iconColor={Colors.accent.warning}
+          onPress={() => navigation.navigate("VatReport")}
+        />
+        <MenuListItem
+          title="Trace Lot"
+          subtitle="Find who bought a batch for recalls"
+          icon="crosshair"
+          iconColor={Colors.accent.error}
+          onPress={() => navigation.navigate("LotTrace")}
+        />
       </ScrollView>
     </ThemedView>
   );
@@ -0,0 +1,424 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Pressable, Alert, TextInput } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { formatCurrency } from "@/utils/format";
+import { PAYMENT_METHODS, PaymentMethodId } from "@/constants/categories";
+import { POSStackParamList } from "@/navigation/POSStackNavigator";
+import { getCreditPortion, getPaymentTotal } from "@/utils/payments";
+
+type ReturnItemsScreenProps = {
+  navigation: NativeStackNavigationProp<POSStackParamList, "ReturnItems">;
+  route: RouteProp<POSStackParamList, "ReturnItems">;
+};
+
+const REFUND_METHODS = PAYMENT_METHODS.filter((m) => m.id !== "credit");
+
+export default function ReturnItemsScreen({
+  navigation,
+  route,
+}: ReturnItemsScreenProps) {
+  const { theme } = useTheme();
+  const { transactions, currentShift, processRefund } = useApp();
+
+  const transaction = useMemo(
+    () => transactions.find((t) => t.id === route.params.transactionId),
+    [transactions, route.params.transactionId],
+  );
+  const creditPortion =
+    transaction?.customerId ? getCreditPortion(transaction) : 0;
+  const isCreditSale = !!transaction && creditPortion >= transaction.total;
+  const isPartCredit = creditPortion > 0 && !isCreditSale;
+
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethodId>(
+    transaction?.paymentMethod && transaction.paymentMethod !== "credit"
+      ? transaction.paymentMethod
+      : transaction?.payments?.find((p) => p.method !== "credit")?.method ||
+          "cash",
+  );
+  const [reason, setReason] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const returnableItems = useMemo(
+    () =>
+      (transaction?.items || [])
+        .map((item) => ({
+          item,
+          returnable: item.quantity - (item.returnedQuantity || 0),
+        }))
+        .filter(({ returnable }) => returnable > 0),
+    [transaction],
+  );
+
+  const refundTotal = useMemo(() => {
+    if (!transaction) return 0;
+    const lineTotal = returnableItems.reduce(
+      (sum, { item }) =>
+        sum + (item.total * (quantities[item.id] || 0)) / item.quantity,
+      0,
+    );
+    const discountRatio =
+      transaction.subtotal > 0
+        ? transaction.discount / transaction.subtotal
+        : 0;
+    return lineTotal * (1 - discountRatio);
+  }, [transaction, returnableItems, quantities]);
+
+  const setQuantity = (itemId: string, quantity: number, max: number) => {
+    setQuantities((prev) => ({
+      ...prev,
+      [itemId]: Math.max(0, Math.min(quantity, max)),
+    }));
+  };
+
+  const handleReturnAll = () => {
+    setQuantities(
+      Object.fromEntries(
+        returnableItems.map(({ item, returnable }) => [item.id, returnable]),
+      ),
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!transaction || isProcessing) return;
+    const lines = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([itemId, quantity]) => ({ itemId, quantity }));
+    if (lines.length === 0) {
+      Alert.alert("Nothing to return", "Select at least one item to return.");
+      return;
+    }
+    if (!currentShift) {
+      Alert.alert(
+        "No Open Shift",
+        "Open a shift from Cash Drawer before giving a refund.",
+      );
+      return;
+    }
+
+    setIsProcessing(true);
+    const refund = await processRefund(
+      transaction.id,
+      lines,
+      refundMethod,
+      reason.trim() || undefined,
+    );
+    setIsProcessing(false);
+
+    if (!refund) {
+      Alert.alert("Error", "Failed to process the return. Please try again.");
+      return;
+    }
+    const creditRefund = -getPaymentTotal(refund.payments || [], "credit");
+    const paidOut = -refund.total - creditRefund;
+    Alert.alert(
+      "Return Processed",
+      [
+        creditRefund > 0
+          ? `${formatCurrency(creditRefund)} was taken off ${transaction.customerName || "the customer"}'s balance.`
+          : null,
+        paidOut > 0
+          ? `Refund ${formatCurrency(paidOut)} to the customer.`
+          : null,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      [{ text: "OK", onPress: () => navigation.goBack() }],
+    );
+  };
+
+  if (!transaction) {
+    return (
+      <ScreenKeyboardAwareScrollView>
+        <View style={styles.notFound}>
+          <Feather name="alert-circle" size={48} color={theme.textSecondary} />
+          <ThemedText type="h4" style={{ marginTop: Spacing.md }}>
+            Transaction not found
+          </ThemedText>
+        </View>
+      </ScreenKeyboardAwareScrollView>
+    );
+  }
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h4">Items to Return</ThemedText>
+          <Pressable onPress={handleReturnAll}>
+            <ThemedText type="link">Return All</ThemedText>
+          </Pressable>
+        </View>
+        <View style={[styles.card, { backgroundColor: theme.surface }]}>
+          {returnableItems.map(({ item, returnable }, index) => {
+            const quantity = quantities[item.id] || 0;
+            return (
+              <View
+                key={item.id}
+                style={[
+                  styles.itemRow,
+                  index < returnableItems.length - 1 && {
+                    borderBottomWidth: 1,
+                    borderBottomColor: theme.divider,
+                  },
+                ]}
+              >
+                <View style={styles.itemInfo}>
+                  <ThemedText type="body">{item.productName}</ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {returnable} of {item.quantity} returnable ·{" "}
+                    {formatCurrency(item.unitPrice)} each
+                  </ThemedText>
+                </View>
+                <View style={styles.stepper}>
+                  <Pressable
+                    onPress={() =>
+                      setQuantity(item.id, quantity - 1, returnable)
+                    }
+                    style={[styles.stepButton, { borderColor: theme.divider }]}
+                  >
+                    <Feather name="minus" size={16} color={theme.text} />
+                  </Pressable>
+                  <ThemedText type="body" style={styles.stepValue}>
+                    {quantity}
+                  </ThemedText>
+                  <Pressable
+                    onPress={() =>
+                      setQuantity(item.id, quantity + 1, returnable)
+                    }
+                    style={[styles.stepButton, { borderColor: theme.divider }]}
+                  >
+                    <Feather name="plus" size={16} color={theme.text} />
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText type="h4" style={styles.sectionTitle}>
+          Refund Method
+        </ThemedText>
+        {isPartCredit ? (
+          <View
+            style={[
+              styles.card,
+              styles.creditNote,
+              styles.partCreditNote,
+              { backgroundColor: Colors.accent.success + "15" },
+            ]}
+          >
+            <Feather name="file-text" size={18} color={Colors.accent.success} />
+            <ThemedText type="small" style={styles.creditNoteText}>
+              {formatCurrency(creditPortion)} of this sale was on credit. That
+              share of the refund is deducted from the balance of{" "}
+              {transaction.customerName || "the customer"}; choose how to pay
+              out the rest.
+            </ThemedText>
+          </View>
+        ) : null}
+        {isCreditSale ? (
+          <View
+            style={[
+              styles.card,
+              styles.creditNote,
+              { backgroundColor: Colors.accent.success + "15" },
+            ]}
+          >
+            <Feather name="file-text" size={18} color={Colors.accent.success} />
+            <ThemedText type="small" style={styles.creditNoteText}>
+              This was a credit sale. The refund is deducted from the balance of{" "}
+              {transaction.customerName || "the customer"}.
+            </ThemedText>
+          </View>
+        ) : (
+          <View style={styles.methodGrid}>
+            {REFUND_METHODS.map((method) => {
+              const selected = refundMethod === method.id;
+              return (
+                <Pressable
+                  key={method.id}
+                  onPress={() => setRefundMethod(method.id)}
+                  style={[
+                    styles.methodOption,
+                    {
+                      backgroundColor: selected
+                        ? Colors.primary.main
+                        : theme.surface,
+                      borderColor: selected
+                        ? Colors.primary.main
+                        : theme.divider,
+                    },
+                  ]}
+                >
+                  <Feather
+                    name={method.icon as any}
+                    size={20}
+                    color={selected ? "#FFFFFF" : Colors.primary.main}
+                  />
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: selected ? "#FFFFFF" : theme.text,
+                      marginTop: 4,
+                      textAlign: "center",
+                    }}
+                  >
+                    {method.name}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText type="h4" style={styles.sectionTitle}>
+          Reason
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.reasonInput,
+            {
+              backgroundColor: theme.surface,
+              borderColor: theme.divider,
+              color: theme.text,
+            },
+          ]}
+          value={reason}
+          onChangeText={setReason}
+          placeholder="e.g. Damaged packaging, wrong product..."
+          placeholderTextColor={theme.textSecondary}
+          multiline
+          numberOfLines={3}
+        />
+      </View>
+
+      <View style={[styles.card, { backgroundColor: theme.surface }]}>
+        <View style={styles.totalRow}>
+          <ThemedText type="h4">Refund Total</ThemedText>
+          <ThemedText type="h3" style={{ color: Colors.accent.error }}>
+            {formatCurrency(refundTotal)}
+          </ThemedText>
+        </View>
+      </View>
+
+      <Button
+        onPress={handleSubmit}
+        icon="rotate-ccw"
+        loading={isProcessing}
+        disabled={isProcessing || refundTotal <= 0}
+        style={styles.submitButton}
+      >
+        Process Return
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepValue: {
+    minWidth: 36,
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  methodGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.md,
+  },
+  methodOption: {
+    width: "30%",
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.md,
+  },
+  creditNote: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  partCreditNote: {
+    marginBottom: Spacing.md,
+  },
+  creditNoteText: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+  },
+  reasonInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  submitButton: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+  notFound: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing["3xl"],
+  },
+});
@@ -10,6 +10,9 @@ import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { formatCurrency, formatDate } from "@/utils/format";
+import { getPaymentBreakdown } from "@/utils/payments";
+import { getPromotionReport } from "@/utils/promotions";
+import { PAYMENT_METHODS } from "@/constants/categories";
 
 type Period = "today" | "week" | "month" | "all";
 
@@ -44,17 +47,34 @@ export default function SalesReportScreen() {
   }, [transactions, period]);
 
   const summary = useMemo(() => {
-    const totalSales = filteredTransactions.reduce((sum, t) => sum + t.total, 0);
-    const totalTransactions = filteredTransactions.length;
-    const averageTransaction = totalTransactions > 0 ? totalSales / totalTransactions : 0;
-    const totalItems = filteredTransactions.reduce(
+    const counted = filteredTransactions.filter((t) => t.paymentStatus !== "voided");
+    const sales = counted.filter((t) => t.kind !== "refund");
+    const grossSales = sales.reduce((sum, t) => sum + t.total, 0);
+    const totalRefunds = counted
+      .filter((t) => t.kind === "refund")
+      .reduce((sum, t) => sum - t.total, 0);
+    const totalSales = grossSales - totalRefunds;
+    const totalTransactions = sales.length;
+    const averageTransaction = totalTransactions > 0 ? grossSales / totalTransactions : 0;
+    const totalItems = counted.reduce(
       (sum, t) => sum + t.items.reduce((s, i) => s + i.quantity, 0),
       0
     );
 
-    return { totalSales, totalTransactions, averageTransaction, totalItems };
+    return { totalSales, totalRefunds, totalTransactions, averageTransaction, totalItems };
   }, [filteredTransactions]);
 
+  // Split sales count each line against its own method
+  const paymentBreakdown = useMemo(
+    () => getPaymentBreakdown(filteredTransactions),
+    [filteredTransactions]
+  );
+
+  const promotionReport = useMemo(
+    () => getPromotionReport(filteredTransactions),
+    [filteredTransactions]
+  );
+
   const periods: { key: Period; label: string }[] = [
     { key: "today", label: "Today" },
     { key: "week", label: "This Week" },
@@ -117,8 +137,67 @@ export default function SalesReportScreen() {
             {formatCurrency(summary.averageTransaction)}
           </ThemedText>
         </View>
+        {summary.totalRefunds > 0 ? (
+          <View style={[styles.averageRow, { marginTop: Spacing.sm }]}>
+            <ThemedText type="small" style={{ color: "rgba(255,255,255,0.8)" }}>
+              Refunds
+            </ThemedText>
+            <ThemedText type="h4" style={{ color: "#FFFFFF" }}>
+              -{formatCurrency(summary.totalRefunds)}
+            </ThemedText>
+          </View>
+        ) : null}
       </View>
 
+      {paymentBreakdown.length > 0 ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            By Payment Method
+          </ThemedText>
+          <View style={[styles.breakdownCard, { backgroundColor: theme.surface }]}>
+            {paymentBreakdown.map(({ method, amount }) => {
+              const info = PAYMENT_METHODS.find((p) => p.id === method);
+              return (
+                <View key={method} style={styles.breakdownRow}>
+                  <View style={styles.summaryItem}>
+                    <Feather name={info?.icon as any || "credit-card"} size={16} color={Colors.primary.main} />
+                    <ThemedText type="body" style={{ marginLeft: Spacing.sm }}>
+                      {info?.name || method}
+                    </ThemedText>
+                  </View>
+                  <ThemedText type="body" style={{ fontWeight: "600" }}>
+                    {formatCurrency(amount)}
+                  </ThemedText>
+                </View>
+              );
+            })}
+          </View>
+        </>
+      ) : null}
+
+      {promotionReport.length > 0 ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            By Promotion
+          </ThemedText>
+          <View style={[styles.breakdownCard, { backgroundColor: theme.surface }]}>
+            {promotionReport.map((promotion) => (
+              <View key={promotion.promotionId} style={styles.breakdownRow}>
+                <View style={{ flex: 1 }}>
+                  <ThemedText type="body">{promotion.name}</ThemedText>
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    {promotion.lines} {promotion.lines === 1 ? "line" : "lines"} · {promotion.quantity} units
+                  </ThemedText>
+                </View>
+                <ThemedText type="body" style={{ fontWeight: "600", color: Colors.accent.success }}>
+                  -{formatCurrency(promotion.discount)}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        </>
+      ) : null}
+
       <ThemedText type="h4" style={styles.sectionTitle}>
         Transactions ({filteredTransactions.length})
       </ThemedText>
@@ -189,4 +268,15 @@ const styles = StyleSheet.create({
   sectionTitle: {
     marginBottom: Spacing.md,
   },
+  breakdownCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  breakdownRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
 });
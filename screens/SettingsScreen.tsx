@@ -12,6 +12,8 @@ import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { clearAllData } from "@/utils/storage";
+import { SyncQueue } from "@/utils/syncQueue";
+import { formatDateTime } from "@/utils/format";
 import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
 
 type SettingsScreenProps = {
@@ -20,7 +22,7 @@ type SettingsScreenProps = {
 
 export default function SettingsScreen({ navigation }: SettingsScreenProps) {
   const { theme } = useTheme();
-  const { user, logout, loadData } = useApp();
+  const { user, logout, loadData, syncStatus, syncNow } = useApp();
 
   const [isClearing, setIsClearing] = useState(false);
 
@@ -38,6 +40,17 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
     ]);
   };
 
+  const handleDiscardFailed = () => {
+    Alert.alert(
+      "Discard Failed Changes",
+      `${syncStatus.failedCount} change(s) were rejected by the cloud database. Discarding them keeps them on this device only.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => SyncQueue.discardFailed() },
+      ]
+    );
+  };
+
   const handleClearData = async () => {
     if (Platform.OS === 'web') {
       const firstConfirm = window.confirm(
@@ -162,6 +175,81 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
         </View>
       </View>
 
+      <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+        Cloud Sync
+      </ThemedText>
+      <View style={[styles.section, { backgroundColor: theme.surface }]}>
+        <View style={styles.aboutRow}>
+          <ThemedText type="body" style={{ color: theme.textSecondary }}>
+            Pending changes
+          </ThemedText>
+          <ThemedText
+            type="body"
+            style={{ color: syncStatus.pendingCount > 0 ? Colors.accent.warning : theme.text }}
+          >
+            {syncStatus.pendingCount}
+          </ThemedText>
+        </View>
+        {syncStatus.failedCount > 0 ? (
+          <View style={styles.aboutRow}>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              Failed changes
+            </ThemedText>
+            <ThemedText type="body" style={{ color: Colors.accent.error }}>
+              {syncStatus.failedCount}
+            </ThemedText>
+          </View>
+        ) : null}
+        <View style={styles.aboutRow}>
+          <ThemedText type="body" style={{ color: theme.textSecondary }}>
+            Last synced
+          </ThemedText>
+          <ThemedText type="body">
+            {syncStatus.lastSyncedAt ? formatDateTime(syncStatus.lastSyncedAt) : "Never"}
+          </ThemedText>
+        </View>
+        {syncStatus.conflictCount > 0 ? (
+          <View style={styles.aboutRow}>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              Conflicts to review
+            </ThemedText>
+            <ThemedText type="body" style={{ color: Colors.accent.warning }}>
+              {syncStatus.conflictCount}
+            </ThemedText>
+          </View>
+        ) : null}
+        {syncStatus.lastError && syncStatus.pendingCount + syncStatus.failedCount > 0 ? (
+          <ThemedText type="caption" style={{ color: Colors.accent.error, marginTop: Spacing.xs }}>
+            {syncStatus.lastError}
+          </ThemedText>
+        ) : null}
+        <Button
+          onPress={syncNow}
+          variant="outline"
+          icon="refresh-cw"
+          loading={syncStatus.isSyncing}
+          disabled={syncStatus.isSyncing}
+          style={{ marginTop: Spacing.md }}
+        >
+          Sync Now
+        </Button>
+        {syncStatus.conflictCount > 0 ? (
+          <Button
+            onPress={() => navigation.navigate("SyncConflicts")}
+            variant="outline"
+            icon="git-merge"
+            style={{ marginTop: Spacing.sm }}
+          >
+            Review Conflicts
+          </Button>
+        ) : null}
+        {syncStatus.failedCount > 0 ? (
+          <Button onPress={handleDiscardFailed} variant="text" style={{ marginTop: Spacing.sm }}>
+            Discard Failed Changes
+          </Button>
+        ) : null}
+      </View>
+
       <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
         About
       </ThemedText>
@@ -0,0 +1,451 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, TextInput, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import {
+  formatCurrency,
+  formatDateTime,
+  formatTime,
+  toLocalDateKey,
+} from "@/utils/format";
+import {
+  calculateShiftTotals,
+  formatOverShort,
+  getPaymentMethodName,
+} from "@/utils/shifts";
+
+type ShiftScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "Shift">;
+};
+
+export default function ShiftScreen({ navigation }: ShiftScreenProps) {
+  const { theme } = useTheme();
+  const {
+    shifts,
+    currentShift,
+    transactions,
+    creditTransactions,
+    openShift,
+    recordPaidOut,
+    closeShift,
+  } = useApp();
+  const { user, hasPermission } = useAuth();
+
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [paidOutAmount, setPaidOutAmount] = useState("");
+  const [paidOutReason, setPaidOutReason] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totals = useMemo(
+    () =>
+      currentShift
+        ? calculateShiftTotals(currentShift, transactions, creditTransactions)
+        : null,
+    [currentShift, transactions, creditTransactions],
+  );
+  const counted = parseFloat(countedCash);
+  const overShort =
+    totals && countedCash
+      ? Math.round((counted - totals.expectedCash) * 100) / 100
+      : null;
+  const recentShifts = shifts
+    .filter(
+      (s) =>
+        s.status === "closed" &&
+        (hasPermission("manager") || s.userId === user?.id),
+    )
+    .slice(0, 10);
+
+  const inputStyle = [
+    styles.textInput,
+    {
+      backgroundColor: theme.surface,
+      borderColor: theme.divider,
+      color: theme.text,
+    },
+  ];
+
+  const handleOpen = async () => {
+    const amount = parseFloat(openingFloat) || 0;
+    if (amount < 0) {
+      Alert.alert("Invalid Float", "The opening float cannot be negative.");
+      return;
+    }
+    setIsSaving(true);
+    const shift = await openShift(amount);
+    setIsSaving(false);
+    if (!shift) {
+      Alert.alert("Error", "Unable to open a shift. Please try again.");
+      return;
+    }
+    setOpeningFloat("");
+  };
+
+  const handlePaidOut = async () => {
+    const amount = parseFloat(paidOutAmount);
+    if (!amount || amount <= 0) {
+      Alert.alert("Invalid Amount", "Enter the amount taken from the drawer.");
+      return;
+    }
+    if (!paidOutReason.trim()) {
+      Alert.alert("Reason Required", "Say what the cash was paid out for.");
+      return;
+    }
+    setIsSaving(true);
+    const success = await recordPaidOut(amount, paidOutReason.trim());
+    setIsSaving(false);
+    if (!success) {
+      Alert.alert("Error", "Unable to record the paid-out.");
+      return;
+    }
+    setPaidOutAmount("");
+    setPaidOutReason("");
+  };
+
+  const handleClose = () => {
+    if (!totals || isNaN(counted) || counted < 0) {
+      Alert.alert("Count Required", "Enter the cash counted in the drawer.");
+      return;
+    }
+    Alert.alert(
+      "Close Shift",
+      `Counted ${formatCurrency(counted)} against ${formatCurrency(totals.expectedCash)} expected (${formatOverShort(overShort || 0).toLowerCase()}). The shift cannot be reopened.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Close Shift",
+          style: "destructive",
+          onPress: async () => {
+            setIsSaving(true);
+            const closed = await closeShift(
+              counted,
+              closingNotes.trim() || undefined,
+            );
+            setIsSaving(false);
+            if (!closed?.closedAt) {
+              Alert.alert("Error", "Unable to close the shift.");
+              return;
+            }
+            setCountedCash("");
+            setClosingNotes("");
+            navigation.navigate("ZReport", {
+              date: toLocalDateKey(closed.closedAt),
+            });
+          },
+        },
+      ],
+    );
+  };
+
+  const renderRow = (label: string, amount: number, color?: string) => (
+    <View key={label} style={styles.row}>
+      <ThemedText type="body" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+      <ThemedText type="body" style={{ fontWeight: "600", color }}>
+        {formatCurrency(amount)}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      {!currentShift || !totals ? (
+        <View style={[styles.card, { backgroundColor: theme.surface }]}>
+          <View style={styles.cardHeader}>
+            <Feather name="lock" size={20} color={theme.textSecondary} />
+            <ThemedText type="h4" style={styles.cardTitle}>
+              No shift open
+            </ThemedText>
+          </View>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Count the float in the drawer and open a shift before selling.
+          </ThemedText>
+          <ThemedText type="small" style={styles.inputLabel}>
+            Opening float (KES)
+          </ThemedText>
+          <TextInput
+            style={inputStyle}
+            value={openingFloat}
+            onChangeText={setOpeningFloat}
+            placeholder="0"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="numeric"
+          />
+          <Button
+            onPress={handleOpen}
+            icon="unlock"
+            loading={isSaving}
+            disabled={isSaving}
+          >
+            Open Shift
+          </Button>
+        </View>
+      ) : (
+        <>
+          <View style={[styles.card, { backgroundColor: Colors.primary.main }]}>
+            <ThemedText type="caption" style={styles.onPrimaryMuted}>
+              {currentShift.userName} · open since{" "}
+              {formatTime(currentShift.openedAt)}
+            </ThemedText>
+            <ThemedText type="h2" style={styles.onPrimary}>
+              {formatCurrency(totals.expectedCash)}
+            </ThemedText>
+            <ThemedText type="small" style={styles.onPrimaryMuted}>
+              Expected in drawer
+            </ThemedText>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {renderRow("Opening float", currentShift.openingFloat)}
+            {renderRow("Cash sales", totals.cashSales)}
+            {renderRow("Cash refunds", -totals.cashRefunds)}
+            {renderRow("Cash account payments", totals.cashPayments)}
+            {renderRow("Paid out", -totals.paidOuts)}
+            <View
+              style={[styles.divider, { backgroundColor: theme.divider }]}
+            />
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {totals.salesCount} sale{totals.salesCount !== 1 ? "s" : ""},{" "}
+              {totals.refundCount} refund{totals.refundCount !== 1 ? "s" : ""}
+            </ThemedText>
+            {totals.byMethod.map((m) =>
+              renderRow(getPaymentMethodName(m.method), m.amount),
+            )}
+          </View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Paid Out
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {currentShift.paidOuts.map((p) => (
+              <View key={p.id} style={styles.row}>
+                <View style={styles.flex}>
+                  <ThemedText type="body">{p.reason}</ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {formatTime(p.createdAt)}
+                  </ThemedText>
+                </View>
+                <ThemedText
+                  type="body"
+                  style={{ fontWeight: "600", color: Colors.accent.error }}
+                >
+                  -{formatCurrency(p.amount)}
+                </ThemedText>
+              </View>
+            ))}
+            <View style={styles.paidOutInputs}>
+              <TextInput
+                style={[inputStyle, styles.amountInput]}
+                value={paidOutAmount}
+                onChangeText={setPaidOutAmount}
+                placeholder="Amount"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[inputStyle, styles.flex]}
+                value={paidOutReason}
+                onChangeText={setPaidOutReason}
+                placeholder="Reason, e.g. transport"
+                placeholderTextColor={theme.textSecondary}
+              />
+            </View>
+            <Button
+              onPress={handlePaidOut}
+              icon="minus-circle"
+              variant="outline"
+              disabled={isSaving}
+            >
+              Record Paid-Out
+            </Button>
+          </View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Close Shift
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            <ThemedText type="small" style={styles.inputLabel}>
+              Cash counted in drawer (KES)
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={countedCash}
+              onChangeText={setCountedCash}
+              placeholder={String(totals.expectedCash)}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="numeric"
+            />
+            {overShort !== null && !isNaN(overShort) ? (
+              <View style={styles.row}>
+                <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                  Over / short
+                </ThemedText>
+                <ThemedText
+                  type="h4"
+                  style={{
+                    color:
+                      overShort === 0
+                        ? Colors.accent.success
+                        : overShort > 0
+                          ? Colors.accent.warning
+                          : Colors.accent.error,
+                  }}
+                >
+                  {formatOverShort(overShort)}
+                </ThemedText>
+              </View>
+            ) : null}
+            <TextInput
+              style={[inputStyle, styles.notesInput]}
+              value={closingNotes}
+              onChangeText={setClosingNotes}
+              placeholder="Notes (optional)"
+              placeholderTextColor={theme.textSecondary}
+              multiline
+            />
+            <Button
+              onPress={handleClose}
+              icon="lock"
+              loading={isSaving}
+              disabled={isSaving}
+            >
+              Close Shift
+            </Button>
+          </View>
+        </>
+      )}
+
+      <View style={styles.historyHeader}>
+        <ThemedText type="h4">Recent Shifts</ThemedText>
+        {hasPermission("manager") ? (
+          <Button
+            onPress={() => navigation.navigate("ZReport", {})}
+            icon="file-text"
+            variant="outline"
+            size="small"
+          >
+            Z-Report
+          </Button>
+        ) : null}
+      </View>
+      {recentShifts.length === 0 ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          No closed shifts yet.
+        </ThemedText>
+      ) : (
+        recentShifts.map((shift) => (
+          <View
+            key={shift.id}
+            style={[
+              styles.card,
+              styles.row,
+              { backgroundColor: theme.surface },
+            ]}
+          >
+            <View style={styles.flex}>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {shift.userName}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {formatDateTime(shift.openedAt)} –{" "}
+                {shift.closedAt ? formatTime(shift.closedAt) : ""}
+              </ThemedText>
+            </View>
+            <ThemedText
+              type="small"
+              style={{
+                fontWeight: "600",
+                color:
+                  (shift.overShort || 0) < 0
+                    ? Colors.accent.error
+                    : Colors.accent.success,
+              }}
+            >
+              {formatOverShort(shift.overShort || 0)}
+            </ThemedText>
+          </View>
+        ))
+      )}
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  cardTitle: {
+    marginLeft: Spacing.sm,
+  },
+  onPrimary: {
+    color: "#FFFFFF",
+  },
+  onPrimaryMuted: {
+    color: "rgba(255,255,255,0.8)",
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  inputLabel: {
+    marginTop: Spacing.sm,
+    fontWeight: "500",
+  },
+  textInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  amountInput: {
+    width: 110,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  divider: {
+    height: 1,
+    marginVertical: Spacing.xs,
+  },
+  paidOutInputs: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  historyHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+});
@@ -0,0 +1,553 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { SearchBar } from "@/components/SearchBar";
+import { CategoryChip } from "@/components/CategoryChip";
+import { EmptyState } from "@/components/EmptyState";
+import { ManagerPinModal } from "@/components/ManagerPinModal";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { PinApprover } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { CATEGORIES } from "@/constants/categories";
+import { InventoryStackParamList } from "@/navigation/InventoryStackNavigator";
+import { formatCurrency, formatDateTime } from "@/utils/format";
+import { getStockTakeVariance, summarizeStockTake } from "@/utils/stockTake";
+import { StockTake, StockTakeItem } from "@/types";
+
+type StockTakeScreenProps = {
+  navigation: NativeStackNavigationProp<InventoryStackParamList, "StockTake">;
+  route: RouteProp<InventoryStackParamList, "StockTake">;
+};
+
+const parseCount = (text: string): number | undefined => {
+  const value = parseFloat(text);
+  return isNaN(value) || value < 0 ? undefined : value;
+};
+
+export default function StockTakeScreen({
+  navigation,
+  route,
+}: StockTakeScreenProps) {
+  const { theme } = useTheme();
+  const { stockTakes, saveStockTakeCounts, approveStockTake, cancelStockTake } =
+    useApp();
+
+  const stored = stockTakes.find((s) => s.id === route.params.stockTakeId);
+  const [draft, setDraft] = useState<StockTake | undefined>(stored);
+  const draftRef = useRef(draft);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showApproval, setShowApproval] = useState(false);
+
+  useEffect(() => {
+    if (!isDirty) setDraft(stored);
+  }, [stored, isDirty]);
+
+  useEffect(() => {
+    draftRef.current = draft;
+  }, [draft]);
+
+  const isCounting = draft?.status === "counting";
+
+  const categories = useMemo(() => {
+    const ids = new Set(draft?.items.map((i) => i.category));
+    return CATEGORIES.filter((c) => ids.has(c.id));
+  }, [draft]);
+
+  const visibleItems = useMemo(() => {
+    if (!draft) return [];
+    const query = searchQuery.trim().toLowerCase();
+    return draft.items.filter(
+      (item) =>
+        (!categoryId || item.category === categoryId) &&
+        (!query || item.productName.toLowerCase().includes(query)),
+    );
+  }, [draft, searchQuery, categoryId]);
+
+  const summary = useMemo(
+    () => (draft ? summarizeStockTake(draft) : null),
+    [draft],
+  );
+
+  if (!draft || !summary) {
+    return (
+      <ScreenKeyboardAwareScrollView>
+        <EmptyState
+          icon="clipboard"
+          title="Stock take not found"
+          description="It may have been removed from this device"
+        />
+      </ScreenKeyboardAwareScrollView>
+    );
+  }
+
+  const updateItem = (
+    productId: string,
+    update: (item: StockTakeItem) => StockTakeItem,
+  ) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((i) =>
+              i.productId === productId ? update(i) : i,
+            ),
+          }
+        : prev,
+    );
+    setIsDirty(true);
+  };
+
+  const handleProductCount = (item: StockTakeItem, text: string) => {
+    setInputs((prev) => ({ ...prev, [item.productId]: text }));
+    updateItem(item.productId, (i) => ({
+      ...i,
+      countedQuantity: parseCount(text),
+    }));
+  };
+
+  const handleBatchCount = (
+    item: StockTakeItem,
+    batchId: string,
+    text: string,
+  ) => {
+    setInputs((prev) => ({ ...prev, [`${item.productId}:${batchId}`]: text }));
+    updateItem(item.productId, (i) => ({
+      ...i,
+      batches: i.batches.map((b) =>
+        b.batchId === batchId ? { ...b, countedQuantity: parseCount(text) } : b,
+      ),
+    }));
+  };
+
+  const persist = async (): Promise<boolean> => {
+    const current = draftRef.current;
+    if (!current || !isDirty) return true;
+    setIsSaving(true);
+    const success = await saveStockTakeCounts(current);
+    setIsSaving(false);
+    if (success) setIsDirty(false);
+    return success;
+  };
+
+  // Approval stores the counts as they stand, saved or not
+  const handleApprove = async (approver: PinApprover) => {
+    const success = await approveStockTake(draft, approver);
+    setShowApproval(false);
+    if (success) {
+      setIsDirty(false);
+      Alert.alert(
+        "Stock Take Approved",
+        "The counted quantities have been applied to inventory.",
+      );
+    } else {
+      Alert.alert("Error", "Failed to apply the stock take. Please try again.");
+    }
+  };
+
+  const handleCancel = () => {
+    Alert.alert(
+      "Cancel Stock Take",
+      "The counts will be kept for reference but nothing is applied to inventory.",
+      [
+        { text: "Keep Counting", style: "cancel" },
+        {
+          text: "Cancel Session",
+          style: "destructive",
+          onPress: async () => {
+            setIsDirty(false);
+            if (await cancelStockTake(draft.id)) navigation.goBack();
+          },
+        },
+      ],
+    );
+  };
+
+  const renderVariance = (item: StockTakeItem) => {
+    const variance = getStockTakeVariance(item);
+    if (!variance) {
+      return (
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Not counted
+        </ThemedText>
+      );
+    }
+    const color =
+      variance.quantity < 0
+        ? Colors.accent.error
+        : variance.quantity > 0
+          ? Colors.accent.success
+          : theme.textSecondary;
+    return (
+      <ThemedText type="caption" style={{ color }}>
+        {variance.quantity > 0 ? "+" : ""}
+        {variance.quantity} ({formatCurrency(variance.value)})
+      </ThemedText>
+    );
+  };
+
+  const renderCountInput = (
+    key: string,
+    counted: number | undefined,
+    onChange: (text: string) => void,
+    editable: boolean,
+  ) => (
+    <TextInput
+      style={[
+        styles.countInput,
+        {
+          backgroundColor: editable ? theme.backgroundDefault : theme.surface,
+          borderColor: theme.divider,
+          color: theme.text,
+        },
+      ]}
+      value={
+        editable && inputs[key] !== undefined
+          ? inputs[key]
+          : counted !== undefined
+            ? String(counted)
+            : ""
+      }
+      onChangeText={(text) => onChange(text.replace(/[^0-9.]/g, ""))}
+      onEndEditing={persist}
+      placeholder="-"
+      placeholderTextColor={theme.textSecondary}
+      keyboardType="decimal-pad"
+      editable={editable}
+    />
+  );
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <View
+        style={[styles.summaryCard, { backgroundColor: Colors.primary.main }]}
+      >
+        <ThemedText type="h4" style={styles.summaryTitle}>
+          {draft.reference}
+        </ThemedText>
+        <ThemedText type="caption" style={styles.summaryCaption}>
+          Started {formatDateTime(draft.startedAt)}
+          {draft.startedByName ? ` by ${draft.startedByName}` : ""}
+        </ThemedText>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <ThemedText type="h4" style={styles.summaryTitle}>
+              {summary.countedItems}/{summary.totalItems}
+            </ThemedText>
+            <ThemedText type="caption" style={styles.summaryCaption}>
+              Counted
+            </ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText type="h4" style={styles.summaryTitle}>
+              {formatCurrency(summary.shortageValue)}
+            </ThemedText>
+            <ThemedText type="caption" style={styles.summaryCaption}>
+              Shortage
+            </ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText type="h4" style={styles.summaryTitle}>
+              {formatCurrency(summary.surplusValue)}
+            </ThemedText>
+            <ThemedText type="caption" style={styles.summaryCaption}>
+              Surplus
+            </ThemedText>
+          </View>
+        </View>
+      </View>
+
+      {draft.status !== "counting" ? (
+        <View style={[styles.statusCard, { backgroundColor: theme.surface }]}>
+          <Feather
+            name={draft.status === "completed" ? "check-circle" : "x-circle"}
+            size={18}
+            color={
+              draft.status === "completed"
+                ? Colors.accent.success
+                : Colors.accent.error
+            }
+          />
+          <View style={styles.statusInfo}>
+            <ThemedText type="body" style={{ fontWeight: "600" }}>
+              {draft.status === "completed" ? "Approved" : "Cancelled"}
+            </ThemedText>
+            {draft.countedByName ? (
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Counted by {draft.countedByName}
+              </ThemedText>
+            ) : null}
+            {draft.approvedByName && draft.completedAt ? (
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Approved by {draft.approvedByName} on{" "}
+                {formatDateTime(draft.completedAt)}
+              </ThemedText>
+            ) : null}
+          </View>
+        </View>
+      ) : null}
+
+      <View style={styles.searchSection}>
+        <SearchBar
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search products..."
+          showBarcode={false}
+        />
+      </View>
+      {categories.length > 1 ? (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.categories}
+          style={styles.categoriesRow}
+        >
+          <CategoryChip
+            id="all"
+            name="All"
+            icon="grid"
+            isSelected={categoryId === null}
+            onPress={() => setCategoryId(null)}
+          />
+          {categories.map((category) => (
+            <CategoryChip
+              key={category.id}
+              id={category.id}
+              name={category.name}
+              icon={category.icon}
+              isSelected={categoryId === category.id}
+              onPress={() => setCategoryId(category.id)}
+            />
+          ))}
+        </ScrollView>
+      ) : null}
+
+      {visibleItems.map((item) => {
+        const batchCounted = item.batches.some(
+          (b) => b.countedQuantity !== undefined,
+        );
+        const showBatches =
+          item.batches.length > 1 && (expanded[item.productId] || batchCounted);
+        return (
+          <View
+            key={item.productId}
+            style={[styles.itemCard, { backgroundColor: theme.surface }]}
+          >
+            <View style={styles.itemRow}>
+              <View style={styles.itemInfo}>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {item.productName}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Expected {item.expectedQuantity}
+                </ThemedText>
+                {renderVariance(item)}
+              </View>
+              {renderCountInput(
+                item.productId,
+                batchCounted
+                  ? getStockTakeVariance(item)?.counted
+                  : item.countedQuantity,
+                (text) => handleProductCount(item, text),
+                isCounting && !batchCounted,
+              )}
+            </View>
+
+            {item.batches.length > 1 && isCounting ? (
+              <Pressable
+                onPress={() =>
+                  setExpanded((prev) => ({
+                    ...prev,
+                    [item.productId]: !prev[item.productId],
+                  }))
+                }
+                style={styles.expandLink}
+              >
+                <Feather
+                  name={showBatches ? "chevron-up" : "chevron-down"}
+                  size={14}
+                  color={Colors.primary.main}
+                />
+                <ThemedText
+                  type="small"
+                  style={{ color: Colors.primary.main, marginLeft: 4 }}
+                >
+                  Count by batch ({item.batches.length})
+                </ThemedText>
+              </Pressable>
+            ) : null}
+
+            {showBatches
+              ? item.batches.map((batch) => (
+                  <View
+                    key={batch.batchId}
+                    style={[styles.batchRow, { borderTopColor: theme.divider }]}
+                  >
+                    <View style={styles.itemInfo}>
+                      <ThemedText type="small">{batch.batchNumber}</ThemedText>
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        Expected {batch.expectedQuantity}
+                      </ThemedText>
+                    </View>
+                    {renderCountInput(
+                      `${item.productId}:${batch.batchId}`,
+                      batch.countedQuantity,
+                      (text) => handleBatchCount(item, batch.batchId, text),
+                      isCounting,
+                    )}
+                  </View>
+                ))
+              : null}
+          </View>
+        );
+      })}
+
+      {visibleItems.length === 0 ? (
+        <EmptyState
+          icon="search"
+          title="No products found"
+          description="Try adjusting your search or category filter"
+        />
+      ) : null}
+
+      {isCounting ? (
+        <View style={styles.actions}>
+          <Button
+            onPress={persist}
+            icon="save"
+            variant="outline"
+            loading={isSaving}
+            disabled={!isDirty}
+          >
+            Save Progress
+          </Button>
+          <Button
+            onPress={() => setShowApproval(true)}
+            icon="check-circle"
+            disabled={summary.countedItems === 0}
+          >
+            Approve & Apply
+          </Button>
+          <Button onPress={handleCancel} variant="text">
+            Cancel Stock Take
+          </Button>
+        </View>
+      ) : null}
+
+      <ManagerPinModal
+        visible={showApproval}
+        title="Approve Stock Take"
+        description={`Apply ${summary.countedItems} counted product(s) to inventory. Net variance ${formatCurrency(summary.netValue)}.`}
+        confirmLabel="Approve & Apply"
+        onApprove={handleApprove}
+        onClose={() => setShowApproval(false)}
+      />
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  summaryCard: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  summaryTitle: {
+    color: "#FFFFFF",
+  },
+  summaryCaption: {
+    color: "rgba(255,255,255,0.8)",
+    marginTop: 2,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    marginTop: Spacing.lg,
+  },
+  summaryItem: {
+    flex: 1,
+  },
+  statusCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  statusInfo: {
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  searchSection: {
+    marginBottom: Spacing.md,
+  },
+  categoriesRow: {
+    marginBottom: Spacing.md,
+  },
+  categories: {
+    paddingRight: Spacing.lg,
+  },
+  itemCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  countInput: {
+    width: 80,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.sm,
+    fontSize: 16,
+    textAlign: "center",
+  },
+  expandLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+  batchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderTopWidth: 1,
+    paddingTop: Spacing.sm,
+    marginTop: Spacing.sm,
+    paddingLeft: Spacing.md,
+  },
+  actions: {
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+});
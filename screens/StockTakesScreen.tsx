@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import { View, StyleSheet, Pressable, ScrollView, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { CategoryChip } from "@/components/CategoryChip";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { CATEGORIES } from "@/constants/categories";
+import { InventoryStackParamList } from "@/navigation/InventoryStackNavigator";
+import { formatCurrency, formatDateTime } from "@/utils/format";
+import { summarizeStockTake } from "@/utils/stockTake";
+import { StockTakeStatus } from "@/types";
+
+type StockTakesScreenProps = {
+  navigation: NativeStackNavigationProp<InventoryStackParamList, "StockTakes">;
+};
+
+const STATUS_STYLES: Record<
+  StockTakeStatus,
+  { label: string; bg: string; text: string }
+> = {
+  counting: {
+    label: "Counting",
+    bg: Colors.badges.lowStock.bg,
+    text: Colors.badges.lowStock.text,
+  },
+  completed: {
+    label: "Completed",
+    bg: Colors.badges.inStock.bg,
+    text: Colors.badges.inStock.text,
+  },
+  cancelled: {
+    label: "Cancelled",
+    bg: Colors.badges.outOfStock.bg,
+    text: Colors.badges.outOfStock.text,
+  },
+};
+
+export default function StockTakesScreen({
+  navigation,
+}: StockTakesScreenProps) {
+  const { theme } = useTheme();
+  const { stockTakes, startStockTake } = useApp();
+
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const inProgress = stockTakes.filter((s) => s.status === "counting");
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    const stockTake = await startStockTake(categoryId || undefined);
+    setIsStarting(false);
+    if (!stockTake) {
+      Alert.alert("Error", "Failed to start the stock take. Please try again.");
+      return;
+    }
+    navigation.navigate("StockTake", { stockTakeId: stockTake.id });
+  };
+
+  return (
+    <ScreenScrollView>
+      <View style={[styles.startCard, { backgroundColor: theme.surface }]}>
+        <ThemedText type="h4">New Stock Take</ThemedText>
+        <ThemedText
+          type="small"
+          style={[styles.startHint, { color: theme.textSecondary }]}
+        >
+          Expected quantities are frozen when the count starts. Count the whole
+          shop or a single category.
+        </ThemedText>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.categories}
+        >
+          <CategoryChip
+            id="all"
+            name="All"
+            icon="grid"
+            isSelected={categoryId === null}
+            onPress={() => setCategoryId(null)}
+          />
+          {CATEGORIES.map((category) => (
+            <CategoryChip
+              key={category.id}
+              id={category.id}
+              name={category.name}
+              icon={category.icon}
+              isSelected={categoryId === category.id}
+              onPress={() => setCategoryId(category.id)}
+            />
+          ))}
+        </ScrollView>
+        <Button onPress={handleStart} icon="clipboard" loading={isStarting}>
+          Start Counting
+        </Button>
+        {inProgress.length > 0 ? (
+          <ThemedText
+            type="caption"
+            style={[styles.startHint, { color: Colors.accent.warning }]}
+          >
+            {inProgress.length} stock take
+            {inProgress.length !== 1 ? "s are" : " is"} still being counted.
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Sessions
+      </ThemedText>
+      {stockTakes.length === 0 ? (
+        <EmptyState
+          icon="clipboard"
+          title="No stock takes yet"
+          description="Start a count to compare the shelves with the system"
+        />
+      ) : (
+        stockTakes.map((stockTake) => {
+          const summary = summarizeStockTake(stockTake);
+          const status = STATUS_STYLES[stockTake.status];
+          const category = CATEGORIES.find(
+            (c) => c.id === stockTake.categoryId,
+          );
+          return (
+            <Pressable
+              key={stockTake.id}
+              onPress={() =>
+                navigation.navigate("StockTake", { stockTakeId: stockTake.id })
+              }
+              style={({ pressed }) => [
+                styles.sessionCard,
+                { backgroundColor: theme.surface, opacity: pressed ? 0.8 : 1 },
+              ]}
+            >
+              <View style={styles.sessionHeader}>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {stockTake.reference}
+                </ThemedText>
+                <View style={[styles.badge, { backgroundColor: status.bg }]}>
+                  <ThemedText type="caption" style={{ color: status.text }}>
+                    {status.label}
+                  </ThemedText>
+                </View>
+              </View>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {category?.name || "All categories"} ·{" "}
+                {formatDateTime(stockTake.startedAt)}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {summary.countedItems}/{summary.totalItems} counted
+                {stockTake.countedByName
+                  ? ` by ${stockTake.countedByName}`
+                  : ""}
+                {stockTake.approvedByName
+                  ? ` · approved by ${stockTake.approvedByName}`
+                  : ""}
+              </ThemedText>
+              {summary.countedItems > 0 ? (
+                <View style={styles.sessionFooter}>
+                  <Feather
+                    name={
+                      summary.netValue < 0 ? "trending-down" : "trending-up"
+                    }
+                    size={14}
+                    color={
+                      summary.netValue < 0
+                        ? Colors.accent.error
+                        : Colors.accent.success
+                    }
+                  />
+                  <ThemedText
+                    type="small"
+                    style={{
+                      marginLeft: Spacing.xs,
+                      color:
+                        summary.netValue < 0
+                          ? Colors.accent.error
+                          : Colors.accent.success,
+                    }}
+                  >
+                    Net variance {formatCurrency(summary.netValue)}
+                  </ThemedText>
+                </View>
+              ) : null}
+            </Pressable>
+          );
+        })
+      )}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  startCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+    gap: Spacing.md,
+  },
+  startHint: {
+    marginTop: -Spacing.xs,
+  },
+  categories: {
+    paddingRight: Spacing.lg,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  sessionCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  sessionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+  sessionFooter: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+});
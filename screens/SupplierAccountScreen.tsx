@@ -0,0 +1,477 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Modal,
+  TextInput,
+  Alert,
+  ScrollView,
+} from "react-native";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { AgingSummary } from "@/components/AgingSummary";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { PAYMENT_METHODS } from "@/constants/categories";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { formatCurrency, formatDate, formatDateTime } from "@/utils/format";
+import {
+  agePayables,
+  getOpenInvoices,
+  getPaymentTermDays,
+} from "@/utils/payables";
+import { SupplierTransaction } from "@/types";
+
+type SupplierAccountScreenProps = {
+  route: RouteProp<MoreStackParamList, "SupplierAccount">;
+};
+
+const PAYMENT_OPTIONS = PAYMENT_METHODS.filter((m) => m.id !== "credit");
+
+function describeEntry(entry: SupplierTransaction): string {
+  if (entry.type === "invoice") {
+    return entry.invoiceNumber ? `Invoice ${entry.invoiceNumber}` : "Invoice";
+  }
+  const method = PAYMENT_METHODS.find((m) => m.id === entry.paymentMethod);
+  return method ? `Payment · ${method.name}` : "Payment";
+}
+
+export default function SupplierAccountScreen({
+  route,
+}: SupplierAccountScreenProps) {
+  const { theme } = useTheme();
+  const { suppliers, getSupplierTransactions, recordSupplierPayment } =
+    useApp();
+  const supplier = suppliers.find((s) => s.id === route.params.supplierId);
+  const history = useMemo(
+    () => getSupplierTransactions(route.params.supplierId),
+    [getSupplierTransactions, route.params.supplierId],
+  );
+
+  const aging = useMemo(() => agePayables(history), [history]);
+  const openInvoices = useMemo(() => getOpenInvoices(history), [history]);
+
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<string>("bank");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [paymentNotes, setPaymentNotes] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!supplier) {
+    return (
+      <ScreenScrollView>
+        <EmptyState
+          icon="truck"
+          title="Supplier not found"
+          description="This supplier may have been removed"
+        />
+      </ScreenScrollView>
+    );
+  }
+
+  const handleOpenPaymentModal = () => {
+    setPaymentAmount("");
+    setPaymentMethod("bank");
+    setReferenceNumber("");
+    setPaymentNotes("");
+    setShowPaymentModal(true);
+  };
+
+  const processPayment = async (amount: number) => {
+    setIsProcessing(true);
+    const success = await recordSupplierPayment(
+      supplier.id,
+      amount,
+      paymentMethod,
+      referenceNumber.trim() || undefined,
+      paymentNotes.trim() || undefined,
+    );
+    setIsProcessing(false);
+    if (success) {
+      setShowPaymentModal(false);
+      Alert.alert(
+        "Payment Recorded",
+        `Payment of ${formatCurrency(amount)} to ${supplier.name} has been recorded.`,
+      );
+    } else {
+      Alert.alert("Error", "Failed to record payment. Please try again.");
+    }
+  };
+
+  const handleRecordPayment = () => {
+    const amount = parseFloat(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert("Invalid Amount", "Please enter a valid payment amount.");
+      return;
+    }
+    if (amount > aging.total) {
+      Alert.alert(
+        "Amount Exceeds Balance",
+        `${formatCurrency(amount)} is more than the ${formatCurrency(aging.total)} owed to ${supplier.name}. The difference will be held as credit against future invoices.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Proceed", onPress: () => processPayment(amount) },
+        ],
+      );
+      return;
+    }
+    processPayment(amount);
+  };
+
+  return (
+    <ScreenScrollView>
+      <View style={[styles.card, { backgroundColor: theme.surface }]}>
+        <ThemedText type="h4">{supplier.name}</ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {supplier.paymentTerms || "No payment terms on file"} · invoices due{" "}
+          {getPaymentTermDays(supplier.paymentTerms)} days after issue
+        </ThemedText>
+      </View>
+
+      <AgingSummary title="Balance owed" aging={aging} />
+
+      <Button
+        onPress={handleOpenPaymentModal}
+        icon="dollar-sign"
+        style={styles.paymentButton}
+      >
+        Record Payment
+      </Button>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Open Invoices
+      </ThemedText>
+      {openInvoices.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }]}
+        >
+          Nothing owed to this supplier.
+        </ThemedText>
+      ) : (
+        openInvoices.map(({ invoice, outstanding, daysOverdue }) => (
+          <View
+            key={invoice.id}
+            style={[styles.row, { backgroundColor: theme.surface }]}
+          >
+            <View style={styles.flex}>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {invoice.invoiceNumber || "Invoice"}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {invoice.invoiceDate ? formatDate(invoice.invoiceDate) : ""}
+                {invoice.dueDate ? ` · due ${formatDate(invoice.dueDate)}` : ""}
+              </ThemedText>
+            </View>
+            <View style={styles.amount}>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {formatCurrency(outstanding)}
+              </ThemedText>
+              {daysOverdue > 0 ? (
+                <ThemedText
+                  type="caption"
+                  style={{ color: Colors.accent.error }}
+                >
+                  {daysOverdue} day{daysOverdue !== 1 ? "s" : ""} overdue
+                </ThemedText>
+              ) : null}
+            </View>
+          </View>
+        ))
+      )}
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        History
+      </ThemedText>
+      {history.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }]}
+        >
+          Invoices appear here when stock from this supplier is received.
+        </ThemedText>
+      ) : (
+        history.map((entry) => {
+          const isPayment = entry.type === "payment";
+          return (
+            <View
+              key={entry.id}
+              style={[styles.row, { backgroundColor: theme.surface }]}
+            >
+              <Feather
+                name={isPayment ? "arrow-up-right" : "file-text"}
+                size={18}
+                color={
+                  isPayment ? Colors.accent.success : Colors.accent.warning
+                }
+              />
+              <View style={[styles.flex, styles.historyInfo]}>
+                <ThemedText type="small" style={{ fontWeight: "600" }}>
+                  {describeEntry(entry)}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {formatDateTime(entry.createdAt)}
+                  {entry.referenceNumber ? ` · ${entry.referenceNumber}` : ""}
+                </ThemedText>
+                {entry.notes ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {entry.notes}
+                  </ThemedText>
+                ) : null}
+              </View>
+              <View style={styles.amount}>
+                <ThemedText
+                  type="small"
+                  style={{
+                    fontWeight: "600",
+                    color: isPayment ? Colors.accent.success : theme.text,
+                  }}
+                >
+                  {isPayment ? "-" : "+"}
+                  {formatCurrency(entry.amount)}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Bal {formatCurrency(entry.balanceAfter)}
+                </ThemedText>
+              </View>
+            </View>
+          );
+        })
+      )}
+
+      <Modal
+        visible={showPaymentModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowPaymentModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <ThemedText type="h4">Pay Supplier</ThemedText>
+              <Pressable onPress={() => setShowPaymentModal(false)}>
+                <Feather name="x" size={24} color={theme.text} />
+              </Pressable>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Owed to {supplier.name}: {formatCurrency(aging.total)}
+              </ThemedText>
+
+              <ThemedText type="body" style={styles.inputLabel}>
+                Amount
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: theme.surface,
+                    borderColor: theme.divider,
+                    color: theme.text,
+                  },
+                ]}
+                value={paymentAmount}
+                onChangeText={setPaymentAmount}
+                placeholder="0"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+              />
+
+              <ThemedText type="body" style={styles.inputLabel}>
+                Payment Method
+              </ThemedText>
+              <View style={styles.methodGrid}>
+                {PAYMENT_OPTIONS.map((method) => {
+                  const selected = paymentMethod === method.id;
+                  return (
+                    <Pressable
+                      key={method.id}
+                      onPress={() => setPaymentMethod(method.id)}
+                      style={[
+                        styles.methodOption,
+                        {
+                          backgroundColor: selected
+                            ? Colors.primary.main
+                            : theme.surface,
+                          borderColor: selected
+                            ? Colors.primary.main
+                            : theme.divider,
+                        },
+                      ]}
+                    >
+                      <Feather
+                        name={method.icon as any}
+                        size={20}
+                        color={selected ? "#FFFFFF" : Colors.primary.main}
+                      />
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: selected ? "#FFFFFF" : theme.text,
+                          marginTop: 4,
+                        }}
+                      >
+                        {method.name}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <ThemedText type="body" style={styles.inputLabel}>
+                Reference Number (Optional)
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: theme.surface,
+                    borderColor: theme.divider,
+                    color: theme.text,
+                  },
+                ]}
+                value={referenceNumber}
+                onChangeText={setReferenceNumber}
+                placeholder="e.g., cheque or transfer number"
+                placeholderTextColor={theme.textSecondary}
+              />
+
+              <ThemedText type="body" style={styles.inputLabel}>
+                Notes (Optional)
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  styles.notesInput,
+                  {
+                    backgroundColor: theme.surface,
+                    borderColor: theme.divider,
+                    color: theme.text,
+                  },
+                ]}
+                value={paymentNotes}
+                onChangeText={setPaymentNotes}
+                placeholder="Add any notes..."
+                placeholderTextColor={theme.textSecondary}
+                multiline
+              />
+
+              <Button
+                onPress={handleRecordPayment}
+                loading={isProcessing}
+                disabled={!paymentAmount || isProcessing}
+                icon="check"
+                size="large"
+                style={{ marginTop: Spacing.lg }}
+              >
+                Record Payment
+              </Button>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+    gap: Spacing.xs,
+  },
+  paymentButton: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    marginBottom: Spacing.xl,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  historyInfo: {
+    marginLeft: Spacing.md,
+  },
+  amount: {
+    alignItems: "flex-end",
+    marginLeft: Spacing.sm,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    maxHeight: "90%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  inputLabel: {
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+    fontWeight: "500",
+  },
+  textInput: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  methodGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  methodOption: {
+    width: "47%",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+});
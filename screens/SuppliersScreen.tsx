@@ -9,10 +9,13 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { SearchBar } from "@/components/SearchBar";
 import { EmptyState } from "@/components/EmptyState";
+import { AgingSummary } from "@/components/AgingSummary";
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { formatPhone } from "@/utils/format";
+import { formatCurrency, formatPhone } from "@/utils/format";
+import { agePayables } from "@/utils/payables";
+import { AgingBreakdown } from "@/utils/aging";
 import { Supplier } from "@/types";
 import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
 
@@ -24,7 +27,7 @@ export default function SuppliersScreen({ navigation }: SuppliersScreenProps) {
   const { theme } = useTheme();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
-  const { suppliers } = useApp();
+  const { suppliers, supplierTransactions } = useApp();
 
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -39,36 +42,65 @@ export default function SuppliersScreen({ navigation }: SuppliersScreenProps) {
     );
   }, [suppliers, searchQuery]);
 
-  const renderItem = ({ item }: { item: Supplier }) => (
-    <Pressable
-      style={({ pressed }) => [
-        styles.supplierCard,
-        { backgroundColor: theme.surface, opacity: pressed ? 0.9 : 1 },
-      ]}
-    >
-      <View style={[styles.avatar, { backgroundColor: Colors.secondary.light + "20" }]}>
-        <Feather name="truck" size={24} color={Colors.secondary.main} />
-      </View>
-      <View style={styles.supplierInfo}>
-        <ThemedText type="body" style={{ fontWeight: "600" }} numberOfLines={1}>
-          {item.name}
-        </ThemedText>
-        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
-          {item.contactPerson} | {formatPhone(item.phone)}
-        </ThemedText>
-        {item.paymentTerms ? (
-          <ThemedText type="caption" style={{ color: Colors.primary.main }}>
-            {item.paymentTerms}
+  const aging = useMemo(() => agePayables(supplierTransactions), [supplierTransactions]);
+
+  const supplierAging = useMemo(() => {
+    const bySupplier = new Map<string, AgingBreakdown>();
+    suppliers.forEach((s) => {
+      bySupplier.set(s.id, agePayables(supplierTransactions.filter((t) => t.supplierId === s.id)));
+    });
+    return bySupplier;
+  }, [suppliers, supplierTransactions]);
+
+  const renderItem = ({ item }: { item: Supplier }) => {
+    const owed = supplierAging.get(item.id);
+    const overdue = owed ? owed.total - owed.current : 0;
+    return (
+      <Pressable
+        onPress={() => navigation.navigate("SupplierAccount", { supplierId: item.id })}
+        style={({ pressed }) => [
+          styles.supplierCard,
+          { backgroundColor: theme.surface, opacity: pressed ? 0.9 : 1 },
+        ]}
+      >
+        <View style={[styles.avatar, { backgroundColor: Colors.secondary.light + "20" }]}>
+          <Feather name="truck" size={24} color={Colors.secondary.main} />
+        </View>
+        <View style={styles.supplierInfo}>
+          <ThemedText type="body" style={{ fontWeight: "600" }} numberOfLines={1}>
+            {item.name}
           </ThemedText>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {item.contactPerson} | {formatPhone(item.phone)}
+          </ThemedText>
+          {item.paymentTerms ? (
+            <ThemedText type="caption" style={{ color: Colors.primary.main }}>
+              {item.paymentTerms}
+            </ThemedText>
+          ) : null}
+        </View>
+        {owed && owed.total > 0 ? (
+          <View style={styles.owed}>
+            <ThemedText type="small" style={{ fontWeight: "600" }}>
+              {formatCurrency(owed.total)}
+            </ThemedText>
+            {overdue > 0 ? (
+              <ThemedText type="caption" style={{ color: Colors.accent.error }}>
+                {formatCurrency(overdue)} overdue
+              </ThemedText>
+            ) : null}
+          </View>
         ) : null}
-      </View>
-      <Feather name="chevron-right" size={20} color={theme.textSecondary} />
-    </Pressable>
-  );
+        <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+      </Pressable>
+    );
+  };
 
   return (
     <ThemedView style={styles.container}>
       <View style={[styles.content, { paddingTop: headerHeight + Spacing.lg }]}>
+        {aging.total > 0 ? <AgingSummary title="Owed to suppliers" aging={aging} /> : null}
+
         <View style={styles.searchSection}>
           <SearchBar
             value={searchQuery}
@@ -146,6 +178,10 @@ const styles = StyleSheet.create({
   supplierInfo: {
     flex: 1,
   },
+  owed: {
+    alignItems: "flex-end",
+    marginRight: Spacing.sm,
+  },
   fab: {
     position: "absolute",
     right: Spacing.lg,
@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, StyleSheet, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { EmptyState } from "@/components/EmptyState";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { ConflictStorage, SyncConflict } from "@/utils/conflictResolver";
+import { formatDateTime } from "@/utils/format";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+
+type SyncConflictsScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "SyncConflicts">;
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  products: "Product",
+  customers: "Customer",
+  suppliers: "Supplier",
+  inventory_batches: "Stock Batch",
+};
+
+const SOURCE_LABELS: Record<SyncConflict["keptSource"], string> = {
+  local: "this device",
+  remote: "cloud",
+};
+
+const otherSource = (source: SyncConflict["keptSource"]) =>
+  source === "local" ? "remote" : "local";
+
+const formatField = (field: string): string =>
+  field.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+export default function SyncConflictsScreen({
+  navigation,
+}: SyncConflictsScreenProps) {
+  const { theme } = useTheme();
+  const { resolveSyncConflict, syncStatus } = useApp();
+
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    setConflicts(await ConflictStorage.getUnreviewed());
+  }, []);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts, syncStatus.conflictCount]);
+
+  const handleResolve = async (
+    conflict: SyncConflict,
+    useDiscardedValue: boolean,
+  ) => {
+    setResolvingId(conflict.id);
+    const success = await resolveSyncConflict(conflict, useDiscardedValue);
+    setResolvingId(null);
+    if (!success) {
+      Alert.alert(
+        "Error",
+        "This record no longer exists on this device. The conflict was not changed.",
+      );
+      return;
+    }
+    await loadConflicts();
+  };
+
+  if (conflicts.length === 0) {
+    return (
+      <ScreenScrollView>
+        <EmptyState
+          icon="check-circle"
+          title="No conflicts"
+          description="All synced changes have been reviewed"
+          actionLabel="Back to Settings"
+          onAction={() => navigation.goBack()}
+        />
+      </ScreenScrollView>
+    );
+  }
+
+  return (
+    <ScreenScrollView>
+      <ThemedText
+        type="small"
+        style={[styles.intro, { color: theme.textSecondary }]}
+      >
+        These fields were edited on this device and on another device before
+        they synced. The most recent edit was kept; you can keep it or restore
+        the other value.
+      </ThemedText>
+
+      {conflicts.map((conflict) => (
+        <View
+          key={conflict.id}
+          style={[styles.card, { backgroundColor: theme.surface }]}
+        >
+          <View style={styles.cardHeader}>
+            <ThemedText type="h4" style={styles.recordLabel}>
+              {conflict.recordLabel}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {TABLE_LABELS[conflict.table] || conflict.table}
+            </ThemedText>
+          </View>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {formatField(conflict.field)} ·{" "}
+            {formatDateTime(conflict.detectedAt)}
+          </ThemedText>
+
+          <View style={styles.valueRow}>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              Kept ({SOURCE_LABELS[conflict.keptSource]})
+            </ThemedText>
+            <ThemedText type="body" style={{ color: Colors.accent.success }}>
+              {formatValue(conflict.keptValue)}
+            </ThemedText>
+          </View>
+          <View style={styles.valueRow}>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              Discarded ({SOURCE_LABELS[otherSource(conflict.keptSource)]})
+            </ThemedText>
+            <ThemedText type="body" style={{ color: Colors.accent.error }}>
+              {formatValue(conflict.discardedValue)}
+            </ThemedText>
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              onPress={() => handleResolve(conflict, false)}
+              variant="outline"
+              disabled={resolvingId !== null}
+              style={styles.actionButton}
+            >
+              Keep
+            </Button>
+            <Button
+              onPress={() => handleResolve(conflict, true)}
+              variant="primary"
+              loading={resolvingId === conflict.id}
+              disabled={resolvingId !== null}
+              style={styles.actionButton}
+            >
+              Use Discarded
+            </Button>
+          </View>
+        </View>
+      ))}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  intro: {
+    marginBottom: Spacing.lg,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  recordLabel: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  valueRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: Spacing.sm,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import {
+  CATEGORIES,
+  TAX_CLASSES,
+  CategoryId,
+  TaxClassId,
+} from "@/constants/categories";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import { DEFAULT_TAX_CLASS, pricesIncludeTax } from "@/utils/tax";
+
+type TaxSettingsScreenProps = {
+  navigation: NativeStackNavigationProp<MoreStackParamList, "TaxSettings">;
+};
+
+export default function TaxSettingsScreen({
+  navigation,
+}: TaxSettingsScreenProps) {
+  const { theme } = useTheme();
+  const { shop, updateShop } = useAuth();
+
+  const [taxId, setTaxId] = useState(shop?.taxId || "");
+  const [inclusive, setInclusive] = useState(pricesIncludeTax(shop));
+  const [categoryTaxClasses, setCategoryTaxClasses] = useState<
+    Partial<Record<CategoryId, TaxClassId>>
+  >(shop?.categoryTaxClasses || {});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const success = await updateShop({
+      taxId: taxId.trim().toUpperCase(),
+      pricesIncludeTax: inclusive,
+      categoryTaxClasses,
+    });
+    setIsSaving(false);
+    if (success) {
+      navigation.goBack();
+    } else {
+      Alert.alert("Error", "Failed to save tax settings. Please try again.");
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.option,
+        {
+          backgroundColor: selected ? Colors.primary.main : theme.surface,
+          borderColor: selected ? Colors.primary.main : theme.divider,
+        },
+      ]}
+    >
+      <ThemedText
+        type="caption"
+        style={{ color: selected ? "#FFFFFF" : theme.text }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ScreenKeyboardAwareScrollView>
+      <ThemedText
+        type="small"
+        style={[styles.label, { color: theme.textSecondary }]}
+      >
+        KRA PIN
+      </ThemedText>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.surface,
+            borderColor: theme.divider,
+            color: theme.text,
+          },
+        ]}
+        value={taxId}
+        onChangeText={setTaxId}
+        placeholder="e.g. P051234567X"
+        placeholderTextColor={theme.textSecondary}
+        autoCapitalize="characters"
+      />
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Shelf Prices
+      </ThemedText>
+      <View style={styles.options}>
+        {renderOption("inclusive", "Include VAT", inclusive, () =>
+          setInclusive(true),
+        )}
+        {renderOption("exclusive", "VAT added at till", !inclusive, () =>
+          setInclusive(false),
+        )}
+      </View>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        {inclusive
+          ? "Customers pay the shelf price and the VAT in it is shown on the receipt."
+          : "VAT is added on top of the shelf price when the sale is completed."}
+      </ThemedText>
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Tax Class by Category
+      </ThemedText>
+      <ThemedText
+        type="caption"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        A product can override its category on the product form.
+      </ThemedText>
+      {CATEGORIES.map((category) => {
+        const selected = categoryTaxClasses[category.id] || DEFAULT_TAX_CLASS;
+        return (
+          <View
+            key={category.id}
+            style={[styles.categoryCard, { backgroundColor: theme.surface }]}
+          >
+            <View style={styles.categoryHeader}>
+              <Feather
+                name={category.icon as any}
+                size={16}
+                color={Colors.primary.main}
+              />
+              <ThemedText type="body" style={styles.categoryName}>
+                {category.name}
+              </ThemedText>
+            </View>
+            <View style={styles.options}>
+              {TAX_CLASSES.map((taxClass) =>
+                renderOption(
+                  taxClass.id,
+                  taxClass.name,
+                  selected === taxClass.id,
+                  () =>
+                    setCategoryTaxClasses((prev) => ({
+                      ...prev,
+                      [category.id]: taxClass.id,
+                    })),
+                ),
+              )}
+            </View>
+          </View>
+        );
+      })}
+
+      <Button
+        onPress={handleSave}
+        icon="save"
+        loading={isSaving}
+        style={styles.saveButton}
+      >
+        Save Tax Settings
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  sectionTitle: {
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.md,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  option: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  categoryCard: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  categoryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.sm,
+  },
+  categoryName: {
+    marginLeft: Spacing.sm,
+    fontWeight: "600",
+  },
+  saveButton: {
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.xl,
+  },
+});
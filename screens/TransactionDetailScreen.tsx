@@ -1,5 +1,5 @@
-import React, { useMemo } from "react";
-import { View, StyleSheet, Share, Alert } from "react-native";
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Share, Alert, Pressable } from "react-native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RouteProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
@@ -7,45 +7,168 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ManagerPinModal } from "@/components/ManagerPinModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useApp } from "@/context/AppContext";
+import { PinApprover, useAuth } from "@/context/AuthContext";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { formatCurrency, formatDateTime } from "@/utils/format";
+import { formatCurrency, formatDateTime, toLocalDateKey } from "@/utils/format";
+import { getCashChange, getCreditPortion, getTransactionPayments, isSplitTender } from "@/utils/payments";
+import { getTaxClassName, getTaxSummary } from "@/utils/tax";
+import { isSentToEtims } from "@/utils/etims";
+import { isDayClosed } from "@/utils/dailySummaries";
+import { getOpenShiftOf } from "@/utils/shifts";
 import { PAYMENT_METHODS } from "@/constants/categories";
 import { POSStackParamList } from "@/navigation/POSStackNavigator";
+import { EtimsStatus } from "@/types";
 
 type TransactionDetailScreenProps = {
   navigation: NativeStackNavigationProp<POSStackParamList, "TransactionDetail">;
   route: RouteProp<POSStackParamList, "TransactionDetail">;
 };
 
-export default function TransactionDetailScreen({ route }: TransactionDetailScreenProps) {
+const ETIMS_STATUS_STYLES: Record<
+  EtimsStatus,
+  { label: string; bg: string; text: string }
+> = {
+  pending: {
+    label: "Waiting to send",
+    bg: Colors.badges.lowStock.bg,
+    text: Colors.badges.lowStock.text,
+  },
+  signed: {
+    label: "Signed",
+    bg: Colors.badges.inStock.bg,
+    text: Colors.badges.inStock.text,
+  },
+  rejected: {
+    label: "Rejected",
+    bg: Colors.badges.outOfStock.bg,
+    text: Colors.badges.outOfStock.text,
+  },
+  blocked: {
+    label: "Blocked",
+    bg: Colors.badges.outOfStock.bg,
+    text: Colors.badges.outOfStock.text,
+  },
+};
+
+export default function TransactionDetailScreen({ navigation, route }: TransactionDetailScreenProps) {
   const { theme } = useTheme();
-  const { transactions } = useApp();
+  const {
+    transactions,
+    dailySummaries,
+    shifts,
+    voidTransaction,
+    resubmitEtimsInvoice,
+    printReceipt,
+  } = useApp();
+  const { shop } = useAuth();
+  const [showVoidModal, setShowVoidModal] = useState(false);
 
   const transaction = useMemo(() => {
     return transactions.find((t) => t.id === route.params.transactionId);
   }, [transactions, route.params.transactionId]);
 
   const paymentMethod = PAYMENT_METHODS.find((p) => p.id === transaction?.paymentMethod);
+  const payments = transaction ? getTransactionPayments(transaction) : [];
+  const isSplit = !!transaction && isSplitTender(transaction);
+  const cashChange = getCashChange(payments);
+  const getMethodName = (method: string) => PAYMENT_METHODS.find((p) => p.id === method)?.name || method;
+  const isRefund = transaction?.kind === "refund";
+  const taxSummary = transaction && transaction.tax !== 0 ? getTaxSummary([transaction]) : [];
+
+  const originalTransaction = useMemo(() => {
+    if (!transaction?.originalTransactionId) return undefined;
+    return transactions.find((t) => t.id === transaction.originalTransactionId);
+  }, [transactions, transaction]);
+
+  const refunds = useMemo(() => {
+    if (!transaction || isRefund) return [];
+    return transactions.filter((t) => t.originalTransactionId === transaction.id);
+  }, [transactions, transaction, isRefund]);
+
+  const isVoided = transaction?.paymentStatus === "voided";
+  const canReturn =
+    !!transaction &&
+    !isRefund &&
+    (transaction.paymentStatus === "completed" || transaction.paymentStatus === "partial");
+  const canVoid = !!transaction && !isRefund && transaction.paymentStatus === "completed";
+  // Sales sent to KRA are reversed with a return, which issues a credit note
+  const voidBlockedByEtims = canVoid && isSentToEtims(transaction);
+  // A closed day's summary is kept as it was, so its sales are returned instead
+  const voidBlockedByClosedDay =
+    canVoid &&
+    isDayClosed(dailySummaries, toLocalDateKey(transaction.transactionDate));
+  // Voiding hands the money back from the drawer the sale was rung up in
+  const voidBlockedByShift = canVoid && !getOpenShiftOf(shifts, transaction);
+
+  const handleVoid = async (approver: PinApprover, reason: string) => {
+    if (!transaction) return;
+    const success = await voidTransaction(transaction.id, reason, approver);
+    setShowVoidModal(false);
+    if (!success) {
+      Alert.alert("Error", "Failed to void this sale. Please try again.");
+      return;
+    }
+    Alert.alert("Sale Voided", `${transaction.transactionNumber} was voided and its stock restored.`);
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "completed":
+        return Colors.badges.inStock;
+      case "refunded":
+      case "voided":
+        return Colors.badges.outOfStock;
+      default:
+        return Colors.badges.lowStock;
+    }
+  };
+
+  const handleResubmitEtims = async () => {
+    if (!transaction) return;
+    const success = await resubmitEtimsInvoice(transaction.id);
+    if (!success) {
+      Alert.alert("Error", "Failed to resend this invoice. Please try again.");
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!transaction) return;
+    const success = await printReceipt(transaction.id);
+    if (!success) {
+      Alert.alert("Print Failed", "Unable to print the receipt. Check the printer in Receipt Printer settings.");
+    }
+  };
 
   const handleShare = async () => {
     if (!transaction) return;
 
     const receipt = `
-AgroVet POS Receipt
--------------------
+${shop?.name || "AgroVet POS"} ${isRefund ? "Refund" : "Receipt"}
+${shop?.taxId ? `PIN: ${shop.taxId}\n` : ""}-------------------
 Transaction: ${transaction.transactionNumber}
+${originalTransaction ? `Refund of: ${originalTransaction.transactionNumber}` : ""}
 Date: ${formatDateTime(transaction.transactionDate)}
 
 Items:
-${transaction.items.map((item) => `${item.productName} x${item.quantity} - ${formatCurrency(item.total)}`).join("\n")}
+${transaction.items.map((item) => `${item.productName} x${item.quantity} - ${formatCurrency(item.total)}${item.promotionName ? `\n  ${item.promotionName}: -${formatCurrency(Math.abs(item.discount))}` : ""}`).join("\n")}
 
 Subtotal: ${formatCurrency(transaction.subtotal)}
 ${transaction.discount > 0 ? `Discount: -${formatCurrency(transaction.discount)}` : ""}
 Total: ${formatCurrency(transaction.total)}
+${taxSummary.length > 0
+  ? `\nTax Summary${transaction.pricesIncludeTax === false ? "" : " (included)"}:\n${taxSummary.map((t) => `${getTaxClassName(t.taxClass)}: ${formatCurrency(Math.abs(t.taxableAmount))} VAT ${formatCurrency(Math.abs(t.taxAmount))}`).join("\n")}`
+  : ""}
+${transaction.etims?.status === "signed"
+  ? `\nCU Invoice No: ${transaction.etims.invoiceNumber}\nReceipt Signature: ${transaction.etims.receiptSignature}\nVerify: ${transaction.etims.qrData}`
+  : ""}
 
-Payment: ${paymentMethod?.name || transaction.paymentMethod}
+${isSplit
+  ? `Payments:\n${payments.map((p) => `${getMethodName(p.method)}: ${formatCurrency(Math.abs(p.amount))}${p.reference ? ` (${p.reference})` : ""}`).join("\n")}`
+  : `Payment: ${paymentMethod?.name || transaction.paymentMethod}${transaction.referenceNumber ? ` (${transaction.referenceNumber})` : ""}`}
+${cashChange > 0 ? `Change: ${formatCurrency(cashChange)}` : ""}
 ${transaction.customerName ? `Customer: ${transaction.customerName}` : ""}
 
 Thank you for shopping with us!
@@ -73,9 +196,27 @@ Thank you for shopping with us!
 
   return (
     <ScreenScrollView>
-      <View style={[styles.header, { backgroundColor: Colors.primary.main }]}>
-        <Feather name="check-circle" size={48} color="#FFFFFF" />
-        <ThemedText type="h2" style={styles.headerTitle}>
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: isVoided
+              ? theme.textSecondary
+              : isRefund
+                ? Colors.accent.error
+                : Colors.primary.main,
+          },
+        ]}
+      >
+        <Feather
+          name={isVoided ? "x-circle" : isRefund ? "rotate-ccw" : "check-circle"}
+          size={48}
+          color="#FFFFFF"
+        />
+        <ThemedText
+          type="h2"
+          style={[styles.headerTitle, isVoided && { textDecorationLine: "line-through" }]}
+        >
           {formatCurrency(transaction.total)}
         </ThemedText>
         <ThemedText type="body" style={styles.headerSubtitle}>
@@ -83,6 +224,27 @@ Thank you for shopping with us!
         </ThemedText>
       </View>
 
+      {isVoided ? (
+        <View style={[styles.voidBanner, { backgroundColor: Colors.badges.outOfStock.bg }]}>
+          <Feather name="alert-triangle" size={18} color={Colors.accent.error} />
+          <View style={styles.voidBannerText}>
+            <ThemedText type="body" style={{ color: Colors.accent.error, fontWeight: "600" }}>
+              Voided{transaction.voidedByName ? ` by ${transaction.voidedByName}` : ""}
+            </ThemedText>
+            {transaction.voidedAt ? (
+              <ThemedText type="caption" style={{ color: Colors.badges.outOfStock.text }}>
+                {formatDateTime(transaction.voidedAt)}
+              </ThemedText>
+            ) : null}
+            {transaction.voidReason ? (
+              <ThemedText type="small" style={{ color: Colors.badges.outOfStock.text, marginTop: 2 }}>
+                {transaction.voidReason}
+              </ThemedText>
+            ) : null}
+          </View>
+        </View>
+      ) : null}
+
       <View style={styles.section}>
         <ThemedText type="h4" style={styles.sectionTitle}>
           Transaction Details
@@ -94,21 +256,75 @@ Thank you for shopping with us!
             </ThemedText>
             <ThemedText type="body">{formatDateTime(transaction.transactionDate)}</ThemedText>
           </View>
-          <View style={styles.detailRow}>
-            <ThemedText type="body" style={{ color: theme.textSecondary }}>
-              Payment Method
-            </ThemedText>
-            <View style={styles.paymentBadge}>
-              <Feather
-                name={paymentMethod?.icon as any || "credit-card"}
-                size={14}
-                color={Colors.primary.main}
-              />
-              <ThemedText type="body" style={{ marginLeft: 4 }}>
-                {paymentMethod?.name || transaction.paymentMethod}
+          {originalTransaction ? (
+            <View style={styles.detailRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                Refund Of
               </ThemedText>
+              <Pressable
+                onPress={() =>
+                  navigation.push("TransactionDetail", { transactionId: originalTransaction.id })
+                }
+              >
+                <ThemedText type="link">{originalTransaction.transactionNumber}</ThemedText>
+              </Pressable>
             </View>
-          </View>
+          ) : null}
+          {isSplit ? (
+            payments.map((payment) => (
+              <View key={payment.method} style={styles.detailRow}>
+                <View>
+                  <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                    {getMethodName(payment.method)}
+                  </ThemedText>
+                  {payment.reference ? (
+                    <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                      {payment.reference}
+                    </ThemedText>
+                  ) : null}
+                </View>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {formatCurrency(Math.abs(payment.amount))}
+                </ThemedText>
+              </View>
+            ))
+          ) : (
+            <View style={styles.detailRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                {isRefund ? "Refund Method" : "Payment Method"}
+              </ThemedText>
+              <View style={styles.paymentBadge}>
+                <Feather
+                  name={paymentMethod?.icon as any || "credit-card"}
+                  size={14}
+                  color={Colors.primary.main}
+                />
+                <ThemedText type="body" style={{ marginLeft: 4 }}>
+                  {paymentMethod?.name || transaction.paymentMethod}
+                </ThemedText>
+              </View>
+            </View>
+          )}
+          {cashChange > 0 ? (
+            <View style={styles.detailRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                Change Given
+              </ThemedText>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {formatCurrency(cashChange)}
+              </ThemedText>
+            </View>
+          ) : null}
+          {transaction.referenceNumber && !isSplit ? (
+            <View style={styles.detailRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                {transaction.paymentMethod === "mpesa" ? "M-Pesa Receipt" : "Reference"}
+              </ThemedText>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {transaction.referenceNumber}
+              </ThemedText>
+            </View>
+          ) : null}
           <View style={styles.detailRow}>
             <ThemedText type="body" style={{ color: theme.textSecondary }}>
               Status
@@ -116,21 +332,13 @@ Thank you for shopping with us!
             <View
               style={[
                 styles.statusBadge,
-                {
-                  backgroundColor:
-                    transaction.paymentStatus === "completed"
-                      ? Colors.badges.inStock.bg
-                      : Colors.badges.lowStock.bg,
-                },
+                { backgroundColor: getStatusBadge(transaction.paymentStatus).bg },
               ]}
             >
               <ThemedText
                 type="small"
                 style={{
-                  color:
-                    transaction.paymentStatus === "completed"
-                      ? Colors.badges.inStock.text
-                      : Colors.badges.lowStock.text,
+                  color: getStatusBadge(transaction.paymentStatus).text,
                   textTransform: "capitalize",
                 }}
               >
@@ -146,6 +354,21 @@ Thank you for shopping with us!
               <ThemedText type="body">{transaction.customerName}</ThemedText>
             </View>
           ) : null}
+          {transaction.creditOverrideBy ? (
+            <View style={styles.detailRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                Over Limit
+              </ThemedText>
+              <View style={styles.overrideInfo}>
+                <ThemedText type="body">Approved by {transaction.creditOverrideByName}</ThemedText>
+                {transaction.creditOverrideReason ? (
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    {transaction.creditOverrideReason}
+                  </ThemedText>
+                ) : null}
+              </View>
+            </View>
+          ) : null}
         </View>
       </View>
 
@@ -167,6 +390,24 @@ Thank you for shopping with us!
                 <ThemedText type="caption" style={{ color: theme.textSecondary }}>
                   {item.quantity} x {formatCurrency(item.unitPrice)}
                 </ThemedText>
+                {item.batchAllocations?.some((a) => a.batchNumber) ? (
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    Batch{" "}
+                    {item.batchAllocations
+                      .map((a) => `${a.batchNumber || "-"} (${Math.abs(a.quantity)})`)
+                      .join(", ")}
+                  </ThemedText>
+                ) : null}
+                {item.promotionName ? (
+                  <ThemedText type="caption" style={{ color: Colors.accent.success }}>
+                    {item.promotionName} -{formatCurrency(Math.abs(item.discount))}
+                  </ThemedText>
+                ) : null}
+                {item.returnedQuantity ? (
+                  <ThemedText type="caption" style={{ color: Colors.accent.error }}>
+                    {item.returnedQuantity} returned
+                  </ThemedText>
+                ) : null}
               </View>
               <ThemedText type="body" style={{ fontWeight: "600" }}>
                 {formatCurrency(item.total)}
@@ -200,13 +441,86 @@ Thank you for shopping with us!
           <View style={[styles.divider, { backgroundColor: theme.divider }]} />
           <View style={styles.summaryRow}>
             <ThemedText type="h4">Total</ThemedText>
-            <ThemedText type="h3" style={{ color: Colors.primary.main }}>
+            <ThemedText type="h3" style={{ color: isRefund ? Colors.accent.error : Colors.primary.main }}>
               {formatCurrency(transaction.total)}
             </ThemedText>
           </View>
+          {taxSummary.length > 0 ? (
+            <>
+              <View style={[styles.divider, { backgroundColor: theme.divider }]} />
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {transaction.pricesIncludeTax === false ? "Tax added" : "Tax included"}
+              </ThemedText>
+              {taxSummary.map((t) => (
+                <View key={t.taxClass} style={styles.summaryRow}>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    {getTaxClassName(t.taxClass)} on {formatCurrency(Math.abs(t.taxableAmount))}
+                  </ThemedText>
+                  <ThemedText type="small">{formatCurrency(Math.abs(t.taxAmount))}</ThemedText>
+                </View>
+              ))}
+            </>
+          ) : null}
         </View>
       </View>
 
+      {transaction.etims ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            KRA eTIMS
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            <View style={styles.summaryRow}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                Status
+              </ThemedText>
+              <View style={[styles.statusBadge, { backgroundColor: ETIMS_STATUS_STYLES[transaction.etims.status].bg }]}>
+                <ThemedText type="small" style={{ color: ETIMS_STATUS_STYLES[transaction.etims.status].text }}>
+                  {ETIMS_STATUS_STYLES[transaction.etims.status].label}
+                </ThemedText>
+              </View>
+            </View>
+            {transaction.etims.status === "signed" ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                    CU Invoice No
+                  </ThemedText>
+                  <ThemedText type="body">{transaction.etims.invoiceNumber}</ThemedText>
+                </View>
+                <View style={styles.summaryRow}>
+                  <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                    Signed
+                  </ThemedText>
+                  <ThemedText type="body">
+                    {transaction.etims.signedAt ? formatDateTime(transaction.etims.signedAt) : "-"}
+                  </ThemedText>
+                </View>
+              </>
+            ) : null}
+            {transaction.etims.lastError ? (
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {transaction.etims.status === "rejected"
+                  ? `Rejected: ${transaction.etims.lastError}`
+                  : transaction.etims.status === "blocked"
+                    ? `Blocked: ${transaction.etims.lastError}`
+                    : `Will retry: ${transaction.etims.lastError}`}
+              </ThemedText>
+            ) : null}
+          </View>
+          {transaction.etims.status === "rejected" ? (
+            <Button
+              onPress={handleResubmitEtims}
+              icon="refresh-cw"
+              variant="outline"
+              style={styles.etimsButton}
+            >
+              Resend to KRA
+            </Button>
+          ) : null}
+        </View>
+      ) : null}
+
       {transaction.notes ? (
         <View style={styles.section}>
           <ThemedText type="h4" style={styles.sectionTitle}>
@@ -220,9 +534,98 @@ Thank you for shopping with us!
         </View>
       ) : null}
 
+      {refunds.length > 0 ? (
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Returns ({refunds.length})
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {refunds.map((refund, index) => (
+              <Pressable
+                key={refund.id}
+                onPress={() => navigation.push("TransactionDetail", { transactionId: refund.id })}
+                style={[
+                  styles.itemRow,
+                  index < refunds.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.divider },
+                ]}
+              >
+                <View style={styles.itemInfo}>
+                  <ThemedText type="body">{refund.transactionNumber}</ThemedText>
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    {formatDateTime(refund.transactionDate)}
+                  </ThemedText>
+                </View>
+                <ThemedText type="body" style={{ fontWeight: "600", color: Colors.accent.error }}>
+                  {formatCurrency(refund.total)}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      ) : null}
+
+      {canReturn ? (
+        <Button
+          onPress={() => navigation.navigate("ReturnItems", { transactionId: transaction.id })}
+          icon="rotate-ccw"
+          variant="secondary"
+          style={styles.shareButton}
+        >
+          Return Items
+        </Button>
+      ) : null}
+
+      {voidBlockedByEtims ? (
+        <ThemedText type="caption" style={[styles.voidHint, { color: theme.textSecondary }]}>
+          This sale was sent to KRA eTIMS, so it cannot be voided. Return the items instead to issue a credit note.
+        </ThemedText>
+      ) : voidBlockedByClosedDay ? (
+        <ThemedText
+          type="caption"
+          style={[styles.voidHint, { color: theme.textSecondary }]}
+        >
+          This sale is from a day that has been closed, so it cannot be voided.
+          Return the items instead.
+        </ThemedText>
+      ) : voidBlockedByShift ? (
+        <ThemedText
+          type="caption"
+          style={[styles.voidHint, { color: theme.textSecondary }]}
+        >
+          The shift this sale was rung up in has been closed, so it cannot be
+          voided. Return the items instead.
+        </ThemedText>
+      ) : canVoid ? (
+        <Button
+          onPress={() => setShowVoidModal(true)}
+          icon="x-circle"
+          variant="outline"
+          style={styles.shareButton}
+        >
+          Void Sale
+        </Button>
+      ) : null}
+
+      <Button onPress={handlePrint} icon="printer" variant="outline" style={styles.shareButton}>
+        Print Receipt
+      </Button>
+
       <Button onPress={handleShare} icon="share" variant="outline" style={styles.shareButton}>
         Share Receipt
       </Button>
+
+      <ManagerPinModal
+        visible={showVoidModal}
+        title="Void Sale"
+        description={`Voiding ${transaction.transactionNumber} returns its items to stock${
+          getCreditPortion(transaction) > 0 ? " and removes it from the customer's balance" : ""
+        }. A manager or admin must approve.`}
+        confirmLabel="Void Sale"
+        reasonLabel="Reason for voiding"
+        requireReason
+        onApprove={handleVoid}
+        onClose={() => setShowVoidModal(false)}
+      />
     </ScreenScrollView>
   );
 }
@@ -242,6 +645,22 @@ const styles = StyleSheet.create({
     color: "rgba(255,255,255,0.8)",
     marginTop: Spacing.xs,
   },
+  voidBanner: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xl,
+  },
+  voidBannerText: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+  },
+  overrideInfo: {
+    flex: 1,
+    alignItems: "flex-end",
+    marginLeft: Spacing.md,
+  },
   section: {
     marginBottom: Spacing.xl,
   },
@@ -289,6 +708,12 @@ const styles = StyleSheet.create({
   shareButton: {
     marginBottom: Spacing.xl,
   },
+  voidHint: {
+    marginBottom: Spacing.xl,
+  },
+  etimsButton: {
+    marginTop: Spacing.md,
+  },
   notFound: {
     flex: 1,
     alignItems: "center",
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Pressable, Share, Alert } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { formatCurrency } from "@/utils/format";
+import {
+  addMonthsToMonthKey,
+  buildVatReport,
+  formatMonth,
+  formatVatReportText,
+  getMonthKey,
+  getTaxClassName,
+  pricesIncludeTax,
+} from "@/utils/tax";
+
+export default function VatReportScreen() {
+  const { theme } = useTheme();
+  const { transactions } = useApp();
+  const { shop } = useAuth();
+
+  const currentMonth = getMonthKey(new Date());
+  const [month, setMonth] = useState(currentMonth);
+  const report = useMemo(
+    () => buildVatReport(transactions, month),
+    [transactions, month],
+  );
+
+  const handleShare = async () => {
+    try {
+      await Share.share({
+        message: formatVatReportText(
+          report,
+          shop?.name || "AgroVet POS",
+          shop?.taxId,
+        ),
+      });
+    } catch {
+      Alert.alert("Error", "Unable to share the VAT report.");
+    }
+  };
+
+  return (
+    <ScreenScrollView>
+      <View style={styles.monthRow}>
+        <Pressable
+          onPress={() => setMonth(addMonthsToMonthKey(month, -1))}
+          hitSlop={8}
+        >
+          <Feather name="chevron-left" size={24} color={Colors.primary.main} />
+        </Pressable>
+        <ThemedText type="h4">{formatMonth(month)}</ThemedText>
+        <Pressable
+          onPress={() => setMonth(addMonthsToMonthKey(month, 1))}
+          disabled={month >= currentMonth}
+          hitSlop={8}
+        >
+          <Feather
+            name="chevron-right"
+            size={24}
+            color={
+              month >= currentMonth ? theme.textSecondary : Colors.primary.main
+            }
+          />
+        </Pressable>
+      </View>
+
+      {!shop?.taxId ? (
+        <View
+          style={[
+            styles.card,
+            styles.notice,
+            { backgroundColor: Colors.accent.warning + "15" },
+          ]}
+        >
+          <Feather
+            name="alert-triangle"
+            size={18}
+            color={Colors.accent.warning}
+          />
+          <ThemedText type="small" style={styles.noticeText}>
+            Add the shop&apos;s KRA PIN in Tax Settings so it prints on receipts
+            and reports.
+          </ThemedText>
+        </View>
+      ) : null}
+
+      {report.classes.length === 0 ? (
+        <EmptyState
+          icon="percent"
+          title="No sales this month"
+          description="VAT on sales made in the month will appear here"
+        />
+      ) : (
+        <>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Output VAT
+            </ThemedText>
+            <ThemedText type="h2" style={{ color: Colors.primary.main }}>
+              {formatCurrency(report.taxAmount)}
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {report.salesCount} sales · {report.refundCount} refunds · prices{" "}
+              {pricesIncludeTax(shop) ? "include" : "exclude"} VAT
+            </ThemedText>
+          </View>
+
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            By Tax Class
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            {report.classes.map((c) => (
+              <View key={c.taxClass} style={styles.row}>
+                <View style={styles.flex}>
+                  <ThemedText type="body">
+                    {getTaxClassName(c.taxClass)}
+                  </ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    Taxable value {formatCurrency(c.taxableAmount)}
+                  </ThemedText>
+                </View>
+                <ThemedText type="body" style={{ fontWeight: "600" }}>
+                  {formatCurrency(c.taxAmount)}
+                </ThemedText>
+              </View>
+            ))}
+            <View
+              style={[styles.divider, { backgroundColor: theme.divider }]}
+            />
+            <View style={styles.row}>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                Total
+              </ThemedText>
+              <ThemedText type="body" style={{ fontWeight: "600" }}>
+                {formatCurrency(report.taxAmount)}
+              </ThemedText>
+            </View>
+          </View>
+
+          <ThemedText
+            type="caption"
+            style={[styles.hint, { color: theme.textSecondary }]}
+          >
+            Voided sales are left out. Refunds given this month are taken off.
+          </ThemedText>
+
+          <Button
+            onPress={handleShare}
+            icon="share"
+            variant="outline"
+            style={styles.shareButton}
+          >
+            Share VAT Report
+          </Button>
+        </>
+      )}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  monthRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.xs,
+  },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+  },
+  divider: {
+    height: 1,
+    marginVertical: Spacing.xs,
+  },
+  hint: {
+    marginBottom: Spacing.lg,
+  },
+  shareButton: {
+    marginBottom: Spacing.xl,
+  },
+});
@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from "react";
+import { View, StyleSheet, Pressable, Share, Alert } from "react-native";
+import { RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { EmptyState } from "@/components/EmptyState";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { useTheme } from "@/hooks/useTheme";
+import { useApp } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { MoreStackParamList } from "@/navigation/MoreStackNavigator";
+import {
+  addDaysToDateKey,
+  formatCurrency,
+  formatDate,
+  formatTime,
+  toLocalDateKey,
+} from "@/utils/format";
+import {
+  buildZReport,
+  formatOverShort,
+  formatZReportText,
+  getPaymentMethodName,
+} from "@/utils/shifts";
+import { ShiftTotals } from "@/types";
+
+type ZReportScreenProps = {
+  route: RouteProp<MoreStackParamList, "ZReport">;
+};
+
+export default function ZReportScreen({ route }: ZReportScreenProps) {
+  const { theme } = useTheme();
+  const { shifts } = useApp();
+  const { shop } = useAuth();
+
+  const today = toLocalDateKey(new Date());
+  const [date, setDate] = useState(route.params?.date || today);
+  const report = useMemo(() => buildZReport(shifts, date), [shifts, date]);
+
+  const handleShare = async () => {
+    try {
+      await Share.share({
+        message: formatZReportText(report, shop?.name || "AgroVet POS"),
+      });
+    } catch {
+      Alert.alert("Error", "Unable to share the Z-report.");
+    }
+  };
+
+  const renderRow = (label: string, value: string, color?: string) => (
+    <View key={label} style={styles.row}>
+      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+      <ThemedText type="small" style={{ fontWeight: "600", color }}>
+        {value}
+      </ThemedText>
+    </View>
+  );
+
+  const renderTotals = (
+    totals: ShiftTotals,
+    openingFloat: number,
+    countedCash: number,
+    overShort: number,
+  ) => (
+    <>
+      {renderRow(
+        `Sales (${totals.salesCount})`,
+        formatCurrency(totals.grossSales),
+      )}
+      {renderRow(
+        `Refunds (${totals.refundCount})`,
+        `-${formatCurrency(totals.refunds)}`,
+      )}
+      <View style={[styles.divider, { backgroundColor: theme.divider }]} />
+      {totals.byMethod.map((m) =>
+        renderRow(getPaymentMethodName(m.method), formatCurrency(m.amount)),
+      )}
+      {totals.accountPayments.map((m) =>
+        renderRow(
+          `${getPaymentMethodName(m.method)} account payments`,
+          formatCurrency(m.amount),
+        ),
+      )}
+      <View style={[styles.divider, { backgroundColor: theme.divider }]} />
+      {renderRow("Opening float", formatCurrency(openingFloat))}
+      {renderRow("Paid out", `-${formatCurrency(totals.paidOuts)}`)}
+      {renderRow("Expected cash", formatCurrency(totals.expectedCash))}
+      {renderRow("Counted cash", formatCurrency(countedCash))}
+      {renderRow(
+        "Over / short",
+        formatOverShort(overShort),
+        overShort < 0
+          ? Colors.accent.error
+          : overShort > 0
+            ? Colors.accent.warning
+            : Colors.accent.success,
+      )}
+    </>
+  );
+
+  return (
+    <ScreenScrollView>
+      <View style={styles.dateRow}>
+        <Pressable
+          onPress={() => setDate(addDaysToDateKey(date, -1))}
+          hitSlop={8}
+        >
+          <Feather name="chevron-left" size={24} color={Colors.primary.main} />
+        </Pressable>
+        <ThemedText type="h4">{formatDate(date)}</ThemedText>
+        <Pressable
+          onPress={() => setDate(addDaysToDateKey(date, 1))}
+          disabled={date >= today}
+          hitSlop={8}
+        >
+          <Feather
+            name="chevron-right"
+            size={24}
+            color={date >= today ? theme.textSecondary : Colors.primary.main}
+          />
+        </Pressable>
+      </View>
+
+      {report.openShifts.length > 0 ? (
+        <View
+          style={[
+            styles.card,
+            styles.notice,
+            { backgroundColor: Colors.accent.warning + "15" },
+          ]}
+        >
+          <Feather
+            name="alert-triangle"
+            size={18}
+            color={Colors.accent.warning}
+          />
+          <ThemedText type="small" style={styles.noticeText}>
+            Still open: {report.openShifts.map((s) => s.userName).join(", ")}.
+            Close every shift before taking the final Z-report.
+          </ThemedText>
+        </View>
+      ) : null}
+
+      {report.cashiers.length === 0 ? (
+        <EmptyState
+          icon="file-text"
+          title="No closed shifts"
+          description="Shifts closed on this day will appear here"
+        />
+      ) : (
+        <>
+          <View style={[styles.card, { backgroundColor: theme.surface }]}>
+            <ThemedText type="h4" style={styles.cardTitle}>
+              All Cashiers
+            </ThemedText>
+            {renderTotals(
+              report.totals,
+              report.openingFloat,
+              report.countedCash,
+              report.overShort,
+            )}
+          </View>
+
+          {report.cashiers.map((cashier) => (
+            <View
+              key={cashier.userId}
+              style={[styles.card, { backgroundColor: theme.surface }]}
+            >
+              <ThemedText type="h4">{cashier.userName}</ThemedText>
+              <ThemedText
+                type="caption"
+                style={[styles.cardTitle, { color: theme.textSecondary }]}
+              >
+                {cashier.shifts
+                  .map(
+                    (s) =>
+                      `${formatTime(s.openedAt)} – ${s.closedAt ? formatTime(s.closedAt) : ""}`,
+                  )
+                  .join(", ")}
+              </ThemedText>
+              {renderTotals(
+                cashier.totals,
+                cashier.openingFloat,
+                cashier.countedCash,
+                cashier.overShort,
+              )}
+            </View>
+          ))}
+
+          <Button
+            onPress={handleShare}
+            icon="share"
+            variant="outline"
+            style={styles.shareButton}
+          >
+            Share Z-Report
+          </Button>
+        </>
+      )}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  dateRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.xs,
+  },
+  cardTitle: {
+    marginBottom: Spacing.sm,
+  },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  divider: {
+    height: 1,
+    marginVertical: Spacing.xs,
+  },
+  shareButton: {
+    marginBottom: Spacing.xl,
+  },
+});
@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const OSCU_URLS = {
+  sandbox: 'https://etims-api-sbx.kra.go.ke/etims-api',
+  production: 'https://etims-api.kra.go.ke/etims-api',
+}
+
+const RECEIPT_URLS = {
+  sandbox: 'https://etims-sbx.kra.go.ke',
+  production: 'https://etims.kra.go.ke',
+}
+
+interface OscuSaveSalesResponse {
+  resultCd: string
+  resultMsg: string
+  data?: {
+    curRcptNo: number
+    totRcptNo: number
+    intrlData: string
+    rcptSign: string
+    sdcDateTime: string
+  }
+}
+
+// A shop's control unit, kept where only the service role can read it
+interface EtimsSettings {
+  tin: string
+  bhf_id: string
+  cmc_key: string
+  sdc_id: string
+}
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const getEnv = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) throw new Error(`${name} is not configured in Supabase secrets`)
+  return value
+}
+
+const adminClient = () => createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_SERVICE_ROLE_KEY'))
+
+const environment = () => (Deno.env.get('ETIMS_ENVIRONMENT') === 'production' ? 'production' : 'sandbox')
+
+// sdcDateTime comes back as yyyyMMddHHmmss in East Africa Time
+const toIsoDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value || '')
+  if (!match) return new Date().toISOString()
+  const [, y, mo, d, h, mi, s] = match
+  return new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}+03:00`).toISOString()
+}
+
+// The next invoice number for the shop. A resent invoice keeps its number so
+// KRA sees it as the same sale.
+async function reserveInvoiceNumber(
+  supabase: ReturnType<typeof createClient>,
+  shopId: string,
+  transactionId: string,
+  userId: string,
+): Promise<{ invoiceNo: number; signature?: Record<string, unknown> }> {
+  const { data: existing, error } = await supabase
+    .from('etims_invoices')
+    .select('invoice_no, status, signature')
+    .eq('transaction_id', transactionId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (existing) {
+    return {
+      invoiceNo: existing.invoice_no,
+      signature: existing.status === 'signed' ? existing.signature : undefined,
+    }
+  }
+
+  // Two tills can race for the same number; the unique index makes the loser
+  // try the next one.
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { data: last } = await supabase
+      .from('etims_invoices')
+      .select('invoice_no')
+      .eq('shop_id', shopId)
+      .order('invoice_no', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    const invoiceNo = (last?.invoice_no || 0) + 1
+    const { error: insertError } = await supabase.from('etims_invoices').insert({
+      transaction_id: transactionId,
+      shop_id: shopId,
+      invoice_no: invoiceNo,
+      status: 'pending',
+      requested_by: userId,
+    })
+    if (!insertError) return { invoiceNo }
+    if (insertError.code !== '23505') throw new Error(insertError.message)
+  }
+  throw new Error('Could not reserve an invoice number')
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ success: false, error: 'Missing authorization header' }, 401)
+    }
+
+    // Requests run as the signed-in user, so row level security keeps each
+    // shop to its own invoices.
+    const supabase = createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_ANON_KEY'), {
+      global: { headers: { Authorization: authHeader } },
+    })
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return json({ success: false, error: 'Invalid or expired authentication token' }, 401)
+    }
+
+    const { transactionId, invoice } = await req.json()
+    if (!transactionId || !invoice) throw new Error('Missing invoice')
+
+    const { data: shopId, error: shopError } = await supabase.rpc('current_shop_id')
+    if (shopError || !shopId) throw new Error('No shop found for this user')
+
+    const { data: settings, error: settingsError } = await adminClient()
+      .from('etims_settings')
+      .select('tin, bhf_id, cmc_key, sdc_id')
+      .eq('shop_id', shopId)
+      .maybeSingle()
+    if (settingsError) throw new Error(settingsError.message)
+    if (!settings) throw new Error('eTIMS is not set up for this shop')
+
+    const { tin, bhf_id: bhfId, cmc_key: cmcKey, sdc_id: sdcId } = settings as EtimsSettings
+    if (invoice.tin !== tin) {
+      return json({
+        success: false,
+        rejected: true,
+        error: `The shop's KRA PIN does not match the control unit (${tin})`,
+      })
+    }
+
+    const { invoiceNo, signature } = await reserveInvoiceNumber(supabase, shopId, transactionId, user.id)
+    if (signature) {
+      return json({ success: true, signature: { ...signature, traderInvoiceNumber: invoiceNo } })
+    }
+
+    const response = await fetch(`${Deno.env.get('ETIMS_BASE_URL') || OSCU_URLS[environment()]}/trnsSales/saveSales`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        tin,
+        bhfId,
+        cmcKey,
+      },
+      body: JSON.stringify({ ...invoice, tin, bhfId, invcNo: invoiceNo }),
+    })
+    if (!response.ok) {
+      throw new Error(`eTIMS request failed: ${response.status}`)
+    }
+    const result: OscuSaveSalesResponse = await response.json()
+
+    if (result.resultCd !== '000' || !result.data) {
+      console.error('eTIMS invoice rejected:', result)
+      await supabase
+        .from('etims_invoices')
+        .update({
+          status: 'rejected',
+          result_code: result.resultCd,
+          result_message: result.resultMsg,
+        })
+        .eq('transaction_id', transactionId)
+      return json({
+        success: false,
+        rejected: true,
+        resultCode: result.resultCd,
+        error: result.resultMsg || 'eTIMS rejected the invoice',
+      })
+    }
+
+    const signedAt = toIsoDate(result.data.sdcDateTime)
+    const signed = {
+      invoiceNumber: `${sdcId}/${result.data.curRcptNo}`,
+      receiptNumber: result.data.curRcptNo,
+      traderInvoiceNumber: invoiceNo,
+      receiptSignature: result.data.rcptSign,
+      internalData: result.data.intrlData,
+      qrData: `${RECEIPT_URLS[environment()]}/common/link/etims/receipt/indexEtimsReceiptData?Data=${tin}${bhfId}${result.data.rcptSign}`,
+      signedAt,
+    }
+    const { error: updateError } = await supabase
+      .from('etims_invoices')
+      .update({
+        status: 'signed',
+        result_code: result.resultCd,
+        result_message: result.resultMsg,
+        signature: signed,
+        signed_at: signedAt,
+      })
+      .eq('transaction_id', transactionId)
+    if (updateError) {
+      console.error('Error recording eTIMS signature:', updateError)
+    }
+
+    return json({ success: true, signature: signed })
+  } catch (error) {
+    console.error('Edge function error:', error)
+    return json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }, 400)
+  }
+})
@@ -0,0 +1,234 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DARAJA_URLS = {
+  sandbox: 'https://sandbox.safaricom.co.ke',
+  production: 'https://api.safaricom.co.ke',
+}
+
+interface StkCallbackItem {
+  Name: string
+  Value?: string | number
+}
+
+// A shop's own paybill or till, kept where only the service role can read it
+interface MpesaSettings {
+  shortcode: string
+  passkey: string
+  transaction_type: string | null
+  party_b: string | null
+  consumer_key: string | null
+  consumer_secret: string | null
+}
+
+interface StkCallback {
+  MerchantRequestID: string
+  CheckoutRequestID: string
+  ResultCode: number
+  ResultDesc: string
+  CallbackMetadata?: { Item: StkCallbackItem[] }
+}
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const getEnv = (name: string) => {
+  const value = Deno.env.get(name)
+  if (!value) throw new Error(`${name} is not configured in Supabase secrets`)
+  return value
+}
+
+const darajaBaseUrl = () =>
+  Deno.env.get('MPESA_ENVIRONMENT') === 'production' ? DARAJA_URLS.production : DARAJA_URLS.sandbox
+
+// Daraja wants 2547XXXXXXXX
+const toDarajaPhone = (phone: string) => {
+  const digits = String(phone).replace(/[\s+-]/g, '')
+  if (!/^(?:254|0)(?:7|1)\d{8}$/.test(digits)) return null
+  return `254${digits.slice(-9)}`
+}
+
+const timestamp = () => {
+  const now = new Date(Date.now() + 3 * 60 * 60 * 1000) // Daraja expects East Africa Time
+  return now.toISOString().replace(/[-:T]/g, '').slice(0, 14)
+}
+
+const adminClient = () => createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_SERVICE_ROLE_KEY'))
+
+// A shop may bring its own Daraja app; otherwise the project's app is used
+async function getAccessToken(settings: MpesaSettings): Promise<string> {
+  const consumerKey = settings.consumer_key || getEnv('MPESA_CONSUMER_KEY')
+  const consumerSecret = settings.consumer_secret || getEnv('MPESA_CONSUMER_SECRET')
+  const credentials = btoa(`${consumerKey}:${consumerSecret}`)
+  const response = await fetch(`${darajaBaseUrl()}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+  })
+  if (!response.ok) {
+    throw new Error(`M-Pesa authentication failed: ${response.status}`)
+  }
+  const data = await response.json()
+  return data.access_token
+}
+
+// Safaricom posts the outcome of every STK push here. It carries no user
+// token, so the row is updated with the service role key.
+async function handleCallback(req: Request): Promise<Response> {
+  const admin = adminClient()
+  const payload = await req.json()
+  const callback: StkCallback | undefined = payload?.Body?.stkCallback
+  if (!callback) {
+    return json({ ResultCode: 1, ResultDesc: 'Missing stkCallback' }, 400)
+  }
+
+  const items = callback.CallbackMetadata?.Item || []
+  const receipt = items.find((item) => item.Name === 'MpesaReceiptNumber')?.Value
+  const status = callback.ResultCode === 0 ? 'completed' : callback.ResultCode === 1032 ? 'cancelled' : 'failed'
+
+  const { error } = await admin
+    .from('mpesa_payments')
+    .update({
+      status,
+      result_code: callback.ResultCode,
+      result_description: callback.ResultDesc,
+      receipt_number: receipt ? String(receipt) : null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('checkout_request_id', callback.CheckoutRequestID)
+    .eq('status', 'pending')
+  if (error) {
+    console.error('Error recording M-Pesa callback:', error)
+  }
+
+  // Safaricom only needs to know the callback was received
+  return json({ ResultCode: 0, ResultDesc: 'Accepted' })
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const url = new URL(req.url)
+    if (url.searchParams.get('callback') === getEnv('MPESA_CALLBACK_SECRET')) {
+      return await handleCallback(req)
+    }
+
+    const supabaseUrl = getEnv('SUPABASE_URL')
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ success: false, error: 'Missing authorization header' }, 401)
+    }
+
+    // Requests from the app run as the signed-in user, so row level security
+    // keeps each shop to its own payments.
+    const supabase = createClient(supabaseUrl, getEnv('SUPABASE_ANON_KEY'), {
+      global: { headers: { Authorization: authHeader } },
+    })
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return json({ success: false, error: 'Invalid or expired authentication token' }, 401)
+    }
+
+    const body = await req.json()
+
+    if (body.action === 'initiate') {
+      const phone = toDarajaPhone(body.phone)
+      const amount = Math.ceil(Number(body.amount))
+      if (!phone) throw new Error('Enter a valid Safaricom number')
+      if (!amount || amount < 1) throw new Error('Amount must be at least KES 1')
+
+      const { data: shopId, error: shopError } = await supabase.rpc('current_shop_id')
+      if (shopError || !shopId) throw new Error('No shop found for this user')
+
+      // Each shop is paid into its own paybill or till
+      const { data: settings, error: settingsError } = await adminClient()
+        .from('mpesa_settings')
+        .select('shortcode, passkey, transaction_type, party_b, consumer_key, consumer_secret')
+        .eq('shop_id', shopId)
+        .maybeSingle()
+      if (settingsError) throw new Error(settingsError.message)
+      if (!settings) throw new Error('M-Pesa is not set up for this shop')
+
+      const { shortcode, passkey } = settings as MpesaSettings
+      const time = timestamp()
+      const response = await fetch(`${darajaBaseUrl()}/mpesa/stkpush/v1/processrequest`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await getAccessToken(settings as MpesaSettings)}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          BusinessShortCode: shortcode,
+          Password: btoa(`${shortcode}${passkey}${time}`),
+          Timestamp: time,
+          TransactionType: settings.transaction_type || 'CustomerPayBillOnline',
+          Amount: amount,
+          PartyA: phone,
+          PartyB: settings.party_b || shortcode,
+          PhoneNumber: phone,
+          CallBackURL: `${supabaseUrl}/functions/v1/mpesa-stk?callback=${getEnv('MPESA_CALLBACK_SECRET')}`,
+          AccountReference: String(body.accountReference || 'Sale').slice(0, 12),
+          TransactionDesc: String(body.description || 'Payment').slice(0, 13),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok || data.ResponseCode !== '0') {
+        console.error('STK push rejected:', data)
+        throw new Error(data.errorMessage || data.ResponseDescription || 'M-Pesa request was rejected')
+      }
+
+      const { error: insertError } = await supabase.from('mpesa_payments').insert({
+        id: crypto.randomUUID(),
+        shop_id: shopId,
+        checkout_request_id: data.CheckoutRequestID,
+        merchant_request_id: data.MerchantRequestID,
+        phone,
+        amount,
+        account_reference: body.accountReference || null,
+        status: 'pending',
+        requested_by: user.id,
+      })
+      if (insertError) throw new Error(insertError.message)
+
+      return json({
+        success: true,
+        checkoutRequestId: data.CheckoutRequestID,
+        customerMessage: data.CustomerMessage,
+      })
+    }
+
+    if (body.action === 'status') {
+      const { data: payment, error } = await supabase
+        .from('mpesa_payments')
+        .select('status, receipt_number, result_description')
+        .eq('checkout_request_id', body.checkoutRequestId)
+        .maybeSingle()
+      if (error) throw new Error(error.message)
+      if (!payment) throw new Error('Payment request not found')
+
+      return json({
+        success: true,
+        status: payment.status,
+        receiptNumber: payment.receipt_number,
+        resultDescription: payment.result_description,
+      })
+    }
+
+    throw new Error(`Unknown action: ${body.action}`)
+  } catch (error) {
+    console.error('Edge function error:', error)
+    return json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    }, 400)
+  }
+})
@@ -1,4 +1,4 @@
-import { CategoryId, UnitId, PaymentMethodId } from "@/constants/categories";
+import { CategoryId, UnitId, PaymentMethodId, TaxClassId } from "@/constants/categories";
 
 export type ItemType = 'bulk' | 'unit';
 
@@ -12,8 +12,13 @@ export interface Product {
   unit: UnitId;
   retailPrice: number;
   wholesalePrice: number;
+  // Quantity from which any customer gets the wholesale price; 0 turns the
+  // quantity break off.
+  wholesaleMinQuantity?: number;
   costPrice: number;
   reorderLevel: number;
+  // Overrides the tax class the shop sets for the product's category
+  taxClass?: TaxClassId;
   imageUrl?: string;
   active: boolean;
   createdAt: string;
@@ -33,8 +38,98 @@ export interface InventoryBatch {
   quantity: number;
   expiryDate?: string;
   supplierId?: string;
+  invoiceNumber?: string;
   purchaseDate: string;
   costPerUnit: number;
+  quarantinedAt?: string;
+  updatedAt?: string;
+}
+
+export type WriteOffReason = "expired" | "damaged" | "recalled" | "other";
+
+export interface StockWriteOff {
+  id: string;
+  batchId: string;
+  productId: string;
+  productName: string;
+  batchNumber: string;
+  quantity: number;
+  costPerUnit: number;
+  totalCost: number;
+  reason: WriteOffReason;
+  notes?: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export type StockMovementType =
+  | "opening"
+  | "sale"
+  | "restock"
+  | "receipt"
+  | "adjustment"
+  | "write_off"
+  | "return"
+  | "void"
+  | "transfer";
+
+export type StockAdjustmentReason = "damage" | "theft" | "spillage" | "count_correction" | "other";
+
+// One append-only ledger entry. `quantity` is the signed change to the batch,
+// so summing a batch's movements gives its current quantity.
+export interface StockMovement {
+  id: string;
+  productId: string;
+  batchId: string;
+  batchNumber?: string;
+  type: StockMovementType;
+  quantity: number;
+  reason?: StockAdjustmentReason | WriteOffReason;
+  notes?: string;
+  referenceId?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string;
+}
+
+export type StockTakeStatus = "counting" | "completed" | "cancelled";
+
+export interface StockTakeBatchCount {
+  batchId: string;
+  batchNumber: string;
+  costPerUnit: number;
+  expectedQuantity: number;
+  countedQuantity?: number;
+}
+
+// Expected quantities are frozen when the session starts. A product is counted
+// either as a whole (`countedQuantity`) or batch by batch.
+export interface StockTakeItem {
+  productId: string;
+  productName: string;
+  category: string;
+  costPrice: number;
+  expectedQuantity: number;
+  countedQuantity?: number;
+  batches: StockTakeBatchCount[];
+}
+
+export interface StockTake {
+  id: string;
+  reference: string;
+  status: StockTakeStatus;
+  categoryId?: string;
+  items: StockTakeItem[];
+  startedAt: string;
+  startedBy?: string;
+  startedByName?: string;
+  countedBy?: string;
+  countedByName?: string;
+  completedAt?: string;
+  approvedBy?: string;
+  approvedByName?: string;
+  notes?: string;
+  updatedAt?: string;
 }
 
 export interface Supplier {
@@ -46,6 +141,62 @@ export interface Supplier {
   address?: string;
   paymentTerms?: string;
   active: boolean;
+  updatedAt?: string;
+}
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially_received"
+  | "received";
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  quantityOrdered: number;
+  expectedCost: number;
+  quantityReceived: number;
+}
+
+// Differences from the order are kept on each received line so they can be
+// taken up with the supplier. `quantityVariance` is against what was still
+// outstanding: negative for a short delivery, positive for an over-delivery.
+export interface GoodsReceivedLine {
+  productId: string;
+  batchId: string;
+  batchNumber: string;
+  quantity: number;
+  unitCost: number;
+  expectedCost: number;
+  quantityVariance: number;
+  expiryDate?: string;
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  invoiceNumber?: string;
+  receivedAt: string;
+  receivedBy?: string;
+  receivedByName?: string;
+  lines: GoodsReceivedLine[];
+  notes?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceivedNote[];
+  notes?: string;
+  createdAt: string;
+  createdBy?: string;
+  createdByName?: string;
+  sentAt?: string;
+  receivedAt?: string;
+  updatedAt?: string;
 }
 
 export interface Customer {
@@ -58,8 +209,38 @@ export interface Customer {
   creditLimit: number;
   currentBalance: number;
   loyaltyPoints: number;
+  updatedAt?: string;
 }
 
+export type PromotionType = "percent_off" | "amount_off" | "buy_x_get_y" | "bundle_price";
+
+// An automatic cart discount. With no products or categories it covers the
+// whole shop. Dates are local YYYY-MM-DD days, inclusive; a happy hour
+// further limits it to "HH:MM" times on those days.
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  productIds: string[];
+  categoryIds: CategoryId[];
+  // Percent off, KES off each unit, or the price of a bundle
+  value: number;
+  // Buy X get Y free, or X units for the bundle price
+  buyQuantity?: number;
+  getQuantity?: number;
+  startDate: string;
+  endDate: string;
+  happyHourStart?: string;
+  happyHourEnd?: string;
+  active: boolean;
+  createdAt: string;
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+// Which pricing rule set a cart line's unit price
+export type PriceRule = "retail" | "wholesale" | "vip" | "quantity_break";
+
 export interface CartItem {
   id: string;
   product: Product;
@@ -69,6 +250,11 @@ export interface CartItem {
   batchId?: string;
   actualWeight?: number;
   isFractionalSale?: boolean;
+  // Unset on weighed lines, which are priced by weight when added
+  priceRule?: PriceRule;
+  // Set with discount when a promotion applies to the line
+  promotionId?: string;
+  promotionName?: string;
 }
 
 export interface Transaction {
@@ -83,10 +269,67 @@ export interface Transaction {
   discount: number;
   tax: number;
   total: number;
+  // False when tax was added on top of the subtotal rather than included
+  pricesIncludeTax?: boolean;
   paymentMethod: PaymentMethodId;
-  paymentStatus: "pending" | "completed" | "refunded" | "partial";
+  paymentStatus: "pending" | "completed" | "refunded" | "partial" | "voided";
   referenceNumber?: string;
+  payments?: TransactionPayment[];
   notes?: string;
+  kind?: "sale" | "refund";
+  originalTransactionId?: string;
+  voidReason?: string;
+  voidedAt?: string;
+  voidedBy?: string;
+  voidedByName?: string;
+  creditOverrideBy?: string;
+  creditOverrideByName?: string;
+  creditOverrideReason?: string;
+  // Set on sales made while the shop is registered for eTIMS
+  etims?: EtimsRecord;
+}
+
+export type EtimsStatus = "pending" | "signed" | "rejected" | "blocked";
+
+// A sale's fiscal invoice with KRA. Pending invoices are retried until the
+// control unit signs them; rejected ones wait to be corrected and resent.
+// Blocked credit notes have no signed sale to quote, with the reason kept in
+// lastError, and go out by themselves if that sale is signed later.
+export interface EtimsRecord {
+  status: EtimsStatus;
+  // Control unit invoice number, e.g. KRACU0100000001/152
+  invoiceNumber?: string;
+  receiptNumber?: number;
+  // Trader invoice number (invcNo) assigned when the sale was sent
+  traderInvoiceNumber?: number;
+  receiptSignature?: string;
+  internalData?: string;
+  qrData?: string;
+  signedAt?: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+// One tender on a sale. paymentMethod holds the largest line when a sale is
+// split; sales made before split tender have no lines.
+export interface TransactionPayment {
+  method: PaymentMethodId;
+  amount: number;
+  reference?: string;
+  // Cash handed over, or what M-Pesa charged once rounded up to whole
+  // shillings; anything over the amount is given back as change
+  tendered?: number;
+}
+
+export interface BatchDeduction {
+  batchId: string;
+  quantity: number;
+}
+
+export interface BatchAllocation extends BatchDeduction {
+  batchNumber?: string;
+  expiryDate?: string;
 }
 
 export interface TransactionItem {
@@ -97,14 +340,36 @@ export interface TransactionItem {
   unitPrice: number;
   discount: number;
   total: number;
+  batchAllocations?: BatchAllocation[];
+  returnedQuantity?: number;
+  originalItemId?: string;
+  promotionId?: string;
+  promotionName?: string;
+  // Worked out after the line's share of the sale discount. Lines sold before
+  // tax classes have none.
+  taxClass?: TaxClassId;
+  taxRate?: number;
+  taxableAmount?: number;
+  taxAmount?: number;
+}
+
+export interface ReturnLine {
+  itemId: string;
+  quantity: number;
 }
 
+// Closed-out totals for one local day (YYYY-MM-DD). Written once the day is
+// over and never recalculated.
 export interface DailySummary {
   date: string;
   totalSales: number;
   transactionCount: number;
   topProducts: { productId: string; name: string; quantity: number }[];
   paymentBreakdown: { method: PaymentMethodId; amount: number }[];
+  costOfSales: number;
+  // Sales less the batch cost of the goods sold
+  grossMargin: number;
+  createdAt: string;
 }
 
 export interface User {
@@ -175,10 +440,94 @@ export interface CreditTransaction {
   id: string;
   customerId: string;
   transactionId?: string;
-  type: "credit_sale" | "payment" | "adjustment";
+  type: "credit_sale" | "payment" | "adjustment" | "refund" | "void";
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  paymentMethod?: string;
+  referenceNumber?: string;
+  notes?: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// One payment reminder sent (or attempted) to a debtor, kept so customers are
+// not reminded too often and staff can see who was contacted.
+export interface PaymentReminder {
+  id: string;
+  campaignId: string;
+  customerId: string;
+  customerName: string;
+  phone: string;
+  message: string;
+  balance: number;
+  status: "sent" | "failed";
+  gateway: string;
+  gatewayMessageId?: string;
+  error?: string;
+  sentAt: string;
+  sentBy?: string;
+}
+
+// Cash taken out of the drawer during a shift, e.g. to pay a casual worker.
+export interface CashPaidOut {
+  id: string;
+  amount: number;
+  reason: string;
+  createdAt: string;
+}
+
+export interface ShiftTotals {
+  salesCount: number;
+  refundCount: number;
+  grossSales: number;
+  refunds: number;
+  // Net sales and refunds per payment method
+  byMethod: { method: PaymentMethodId; amount: number }[];
+  // Customer credit repayments received, per payment method
+  accountPayments: { method: PaymentMethodId; amount: number }[];
+  cashSales: number;
+  cashRefunds: number;
+  cashPayments: number;
+  paidOuts: number;
+  expectedCash: number;
+}
+
+// A cashier's till session. Sales, refunds and account payments by the
+// cashier between openedAt and closedAt count against it; totals are frozen
+// when the shift is closed.
+export interface Shift {
+  id: string;
+  userId: string;
+  userName: string;
+  status: "open" | "closed";
+  openedAt: string;
+  openingFloat: number;
+  paidOuts: CashPaidOut[];
+  closedAt?: string;
+  closedBy?: string;
+  countedCash?: number;
+  overShort?: number;
+  totals?: ShiftTotals;
+  notes?: string;
+  updatedAt?: string;
+}
+
+// What the shop owes a supplier, mirroring CreditTransaction for customers.
+// Invoices raise the balance and carry the due date worked out from the
+// supplier's payment terms; payments lower it.
+export interface SupplierTransaction {
+  id: string;
+  supplierId: string;
+  type: "invoice" | "payment";
   amount: number;
   balanceBefore: number;
   balanceAfter: number;
+  invoiceNumber?: string;
+  invoiceDate?: string;
+  dueDate?: string;
+  source?: "purchase_order" | "scanned_receipt";
+  sourceId?: string;
   paymentMethod?: string;
   referenceNumber?: string;
   notes?: string;
@@ -188,6 +537,20 @@ export interface CreditTransaction {
 
 export type UserRole = "admin" | "manager" | "cashier";
 
+// Per-device receipt printer setup
+export interface PrinterSettings {
+  paperWidth: 58 | 80;
+  transportId: string;
+  // IP address or host name of a network printer, reached on port 9100
+  networkHost: string;
+  // Print the receipt as soon as a sale completes
+  autoPrint: boolean;
+  // Print the shop's logo at the top of receipts
+  printShopLogo: boolean;
+  // Print the logo saved in the printer's memory when the shop has none
+  printStoredLogo: boolean;
+}
+
 export interface Shop {
   id: string;
   name: string;
@@ -198,6 +561,9 @@ export interface Shop {
   taxId?: string;
   currency: string;
   receiptFooter?: string;
+  // Shelf prices include VAT unless this is false
+  pricesIncludeTax?: boolean;
+  categoryTaxClasses?: Partial<Record<CategoryId, TaxClassId>>;
   shopCode?: string;
   createdAt: string;
   updatedAt: string;
@@ -0,0 +1,42 @@
+export type AgingBucket = "current" | "days30" | "days60" | "days90" | "over90";
+
+export const AGING_BUCKETS: { id: AgingBucket; label: string }[] = [
+  { id: "current", label: "Current" },
+  { id: "days30", label: "1-30" },
+  { id: "days60", label: "31-60" },
+  { id: "days90", label: "61-90" },
+  { id: "over90", label: "90+" },
+];
+
+export type AgingBreakdown = Record<AgingBucket, number> & { total: number };
+
+export const createEmptyAging = (): AgingBreakdown => ({
+  current: 0,
+  days30: 0,
+  days60: 0,
+  days90: 0,
+  over90: 0,
+  total: 0,
+});
+
+// Buckets by days past due; anything not yet due is current.
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "days30";
+  if (daysOverdue <= 60) return "days60";
+  if (daysOverdue <= 90) return "days90";
+  return "over90";
+}
+
+export function addToAging(
+  aging: AgingBreakdown,
+  amount: number,
+  daysOverdue: number,
+): AgingBreakdown {
+  const bucket = getAgingBucket(daysOverdue);
+  return {
+    ...aging,
+    [bucket]: aging[bucket] + amount,
+    total: aging.total + amount,
+  };
+}
@@ -0,0 +1,67 @@
+import { InventoryBatch, BatchAllocation } from "@/types";
+
+export const isBatchExpired = (
+  batch: InventoryBatch,
+  now = new Date(),
+): boolean => !!batch.expiryDate && new Date(batch.expiryDate) < now;
+
+// Quarantined and expired batches stay on hand until written off but can never
+// be sold.
+export const isBatchSellable = (
+  batch: InventoryBatch,
+  now = new Date(),
+): boolean => !batch.quarantinedAt && !isBatchExpired(batch, now);
+
+// First-expiry-first-out: batches expiring soonest come first, batches without
+// an expiry date last, ties broken by purchase date.
+export const sortBatchesFefo = (batches: InventoryBatch[]): InventoryBatch[] =>
+  [...batches].sort((a, b) => {
+    if (a.expiryDate && b.expiryDate && a.expiryDate !== b.expiryDate) {
+      return (
+        new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime()
+      );
+    }
+    if (a.expiryDate && !b.expiryDate) return -1;
+    if (!a.expiryDate && b.expiryDate) return 1;
+    return (
+      new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime()
+    );
+  });
+
+// Picks the batches a sale of `quantity` draws from. `available` holds the
+// stock left per batch id and is decremented, so several cart lines of the same
+// product share it. A preferred batch is used first when it is still sellable.
+// Unsellable batches are never drawn from; any shortfall is left unallocated.
+export const allocateFefo = (
+  batches: InventoryBatch[],
+  productId: string,
+  quantity: number,
+  available: Map<string, number>,
+  preferredBatchId?: string,
+  now = new Date(),
+): BatchAllocation[] => {
+  const sellable = sortBatchesFefo(
+    batches.filter((b) => b.productId === productId && isBatchSellable(b, now)),
+  );
+  const preferred = sellable.find((b) => b.id === preferredBatchId);
+  const ordered = preferred
+    ? [preferred, ...sellable.filter((b) => b.id !== preferred.id)]
+    : sellable;
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const batch of ordered) {
+    if (remaining <= 0) break;
+    const take = Math.min(available.get(batch.id) || 0, remaining);
+    if (take <= 0) continue;
+    allocations.push({
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+      quantity: take,
+    });
+    available.set(batch.id, (available.get(batch.id) || 0) - take);
+    remaining -= take;
+  }
+  return allocations;
+};
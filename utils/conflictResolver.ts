@@ -0,0 +1,177 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { scopeKey } from "./shopScope";
+
+const CONFLICTS_KEY = "@agrovet_sync_conflicts";
+
+type DbRow = Record<string, unknown>;
+
+interface ConflictRule {
+  // Running totals merged as deltas against the common base rather than
+  // overwritten, so two tablets selling from one batch both count.
+  additiveFields?: string[];
+}
+
+export const VERSIONED_TABLES: Record<string, ConflictRule> = {
+  products: {},
+  customers: { additiveFields: ["current_balance", "loyalty_points"] },
+  suppliers: {},
+  inventory_batches: { additiveFields: ["quantity"] },
+};
+
+export interface SyncConflict {
+  id: string;
+  table: string;
+  recordId: string;
+  recordLabel: string;
+  field: string;
+  keptValue: unknown;
+  discardedValue: unknown;
+  keptSource: "local" | "remote";
+  detectedAt: string;
+  reviewed: boolean;
+}
+
+export interface MergeResult {
+  row: DbRow;
+  merged: boolean;
+  conflicts: SyncConflict[];
+}
+
+const toTime = (value: unknown): number => {
+  const time = new Date(value as string).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if ((a === null || a === undefined) && (b === null || b === undefined)) {
+    return true;
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    return Number(a) === Number(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Three-way merge of a queued write against the current cloud row, using the
+ * row as it was before the local edit as the common base. Fields changed on
+ * only one side take that side; fields changed on both sides are resolved
+ * last-writer-wins by updated_at and recorded for manual review.
+ */
+export async function mergeWithRemote(
+  client: SupabaseClient,
+  table: string,
+  recordId: string,
+  payload: DbRow,
+  base: DbRow,
+): Promise<MergeResult> {
+  const rule = VERSIONED_TABLES[table];
+  const { data: remote, error } = await client
+    .from(table)
+    .select("*")
+    .eq("id", recordId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!remote || toTime(remote.updated_at) === toTime(base.updated_at)) {
+    return { row: payload, merged: false, conflicts: [] };
+  }
+
+  const row: DbRow = { ...payload };
+  const conflicts: SyncConflict[] = [];
+  const localWins = toTime(payload.updated_at) >= toTime(remote.updated_at);
+  const recordLabel = String(
+    remote.name ?? remote.batch_number ?? payload.name ?? recordId,
+  );
+
+  for (const field of Object.keys(payload)) {
+    if (field === "id" || field === "updated_at") continue;
+
+    const localChanged = !isSameValue(payload[field], base[field]);
+    const remoteChanged = !isSameValue(remote[field], base[field]);
+    if (!remoteChanged) continue;
+    if (!localChanged || isSameValue(payload[field], remote[field])) {
+      row[field] = remote[field];
+      continue;
+    }
+
+    if (rule?.additiveFields?.includes(field)) {
+      row[field] =
+        Number(remote[field]) + (Number(payload[field]) - Number(base[field]));
+      continue;
+    }
+
+    row[field] = localWins ? payload[field] : remote[field];
+    conflicts.push({
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      table,
+      recordId,
+      recordLabel,
+      field,
+      keptValue: row[field],
+      discardedValue: localWins ? remote[field] : payload[field],
+      keptSource: localWins ? "local" : "remote",
+      detectedAt: new Date().toISOString(),
+      reviewed: false,
+    });
+  }
+
+  row.updated_at = new Date(
+    Math.max(Date.now(), toTime(payload.updated_at), toTime(remote.updated_at)),
+  ).toISOString();
+
+  if (conflicts.length > 0) {
+    await ConflictStorage.addMultiple(conflicts);
+  }
+
+  return { row, merged: true, conflicts };
+}
+
+export const ConflictStorage = {
+  async getAll(): Promise<SyncConflict[]> {
+    try {
+      const value = await AsyncStorage.getItem(scopeKey(CONFLICTS_KEY));
+      return value ? JSON.parse(value) : [];
+    } catch (error) {
+      console.error("Error reading sync conflicts:", error);
+      return [];
+    }
+  },
+  async save(conflicts: SyncConflict[]): Promise<boolean> {
+    try {
+      await AsyncStorage.setItem(
+        scopeKey(CONFLICTS_KEY),
+        JSON.stringify(conflicts),
+      );
+      return true;
+    } catch (error) {
+      console.error("Error saving sync conflicts:", error);
+      return false;
+    }
+  },
+  async addMultiple(newConflicts: SyncConflict[]): Promise<boolean> {
+    const conflicts = await this.getAll();
+    conflicts.unshift(...newConflicts);
+    return this.save(conflicts);
+  },
+  async getUnreviewed(): Promise<SyncConflict[]> {
+    const conflicts = await this.getAll();
+    return conflicts.filter((c) => !c.reviewed);
+  },
+  async markReviewed(id: string): Promise<boolean> {
+    const conflicts = await this.getAll();
+    return this.save(
+      conflicts.map((c) => (c.id === id ? { ...c, reviewed: true } : c)),
+    );
+  },
+  async clear(): Promise<boolean> {
+    try {
+      await AsyncStorage.removeItem(scopeKey(CONFLICTS_KEY));
+      return true;
+    } catch (error) {
+      console.error("Error clearing sync conflicts:", error);
+      return false;
+    }
+  },
+};
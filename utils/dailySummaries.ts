@@ -0,0 +1,191 @@
+import { PaymentMethodId } from "@/constants/categories";
+import {
+  DailySummary,
+  InventoryBatch,
+  Product,
+  Transaction,
+  TransactionItem,
+} from "@/types";
+import { addDaysToDateKey, toLocalDateKey } from "./format";
+import { getPaymentBreakdown } from "./payments";
+
+const TOP_PRODUCT_COUNT = 5;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+type TopProduct = DailySummary["topProducts"][number];
+
+export type SummaryTotals = Omit<DailySummary, "date" | "createdAt">;
+
+// What the goods on a line cost: the batches they came out of, or the
+// product's cost price for sales made before batch tracking. Refund lines
+// carry negative quantities, so their cost comes back off.
+function getItemCost(
+  item: TransactionItem,
+  batchCosts: Map<string, number>,
+  productCosts: Map<string, number>,
+): number {
+  const allocations = (item.batchAllocations || []).filter((a) =>
+    batchCosts.has(a.batchId),
+  );
+  if (allocations.length > 0) {
+    return allocations.reduce(
+      (sum, a) => sum + a.quantity * (batchCosts.get(a.batchId) || 0),
+      0,
+    );
+  }
+  return item.quantity * (productCosts.get(item.productId) || 0);
+}
+
+function rankProducts(lines: TopProduct[]): TopProduct[] {
+  const products = new Map<string, TopProduct>();
+  lines.forEach((line) => {
+    const entry = products.get(line.productId) || { ...line, quantity: 0 };
+    entry.quantity += line.quantity;
+    products.set(line.productId, entry);
+  });
+  return Array.from(products.values())
+    .filter((p) => p.quantity > 0)
+    .sort((a, b) => b.quantity - a.quantity)
+    .slice(0, TOP_PRODUCT_COUNT);
+}
+
+function mergeBreakdowns(
+  lines: DailySummary["paymentBreakdown"],
+): DailySummary["paymentBreakdown"] {
+  const totals = new Map<PaymentMethodId, number>();
+  lines.forEach(({ method, amount }) =>
+    totals.set(method, (totals.get(method) || 0) + amount),
+  );
+  return Array.from(totals, ([method, amount]) => ({
+    method,
+    amount: roundCents(amount),
+  }))
+    .filter((entry) => entry.amount !== 0)
+    .sort((a, b) => b.amount - a.amount);
+}
+
+// Summaries for the given local YYYY-MM-DD days. Voided sales are left out;
+// refunds count against the day they were given.
+export function buildDailySummaries(
+  transactions: Transaction[],
+  dates: string[],
+  batches: InventoryBatch[],
+  products: Product[],
+): DailySummary[] {
+  const wanted = new Set(dates);
+  const byDay = new Map<string, Transaction[]>();
+  transactions.forEach((t) => {
+    const date = toLocalDateKey(t.transactionDate);
+    if (!wanted.has(date)) return;
+    const day = byDay.get(date) || [];
+    day.push(t);
+    byDay.set(date, day);
+  });
+  const batchCosts = new Map(batches.map((b) => [b.id, b.costPerUnit]));
+  const productCosts = new Map(products.map((p) => [p.id, p.costPrice]));
+  const createdAt = new Date().toISOString();
+
+  return dates.map((date) => {
+    const day = byDay.get(date) || [];
+    const counted = day.filter((t) => t.paymentStatus !== "voided");
+    const items = counted.flatMap((t) => t.items);
+    const totalSales = roundCents(counted.reduce((sum, t) => sum + t.total, 0));
+    const costOfSales = roundCents(
+      items.reduce(
+        (sum, item) => sum + getItemCost(item, batchCosts, productCosts),
+        0,
+      ),
+    );
+    return {
+      date,
+      totalSales,
+      transactionCount: counted.filter((t) => t.kind !== "refund").length,
+      topProducts: rankProducts(
+        items.map((item) => ({
+          productId: item.productId,
+          name: item.productName,
+          quantity: item.quantity,
+        })),
+      ),
+      paymentBreakdown: getPaymentBreakdown(day),
+      costOfSales,
+      grossMargin: roundCents(totalSales - costOfSales),
+      createdAt,
+    };
+  });
+}
+
+// Days are closed in order, so every day up to the latest summary is closed.
+// A closed day's sales are reversed with returns, which count on the day they
+// are given, so its stored summary stays right.
+export const isDayClosed = (summaries: DailySummary[], date: string) =>
+  summaries.some((s) => s.date >= date);
+
+// Finished days that have no summary yet, from the day after the last one
+// closed (or the first sale) up to yesterday. Days without sales are closed
+// too, so they are not looked at again.
+export function getDaysToClose(
+  summaries: DailySummary[],
+  transactions: Transaction[],
+  today: string = toLocalDateKey(new Date()),
+): string[] {
+  const yesterday = addDaysToDateKey(today, -1);
+  const lastClosed = summaries.reduce<string | null>(
+    (latest, s) => (!latest || s.date > latest ? s.date : latest),
+    null,
+  );
+  if (lastClosed && lastClosed >= yesterday) return [];
+
+  let start: string;
+  if (lastClosed) {
+    start = addDaysToDateKey(lastClosed, 1);
+  } else {
+    if (transactions.length === 0) return [];
+    start = transactions.reduce((earliest, t) => {
+      const date = toLocalDateKey(t.transactionDate);
+      return date < earliest ? date : earliest;
+    }, today);
+  }
+
+  const days: string[] = [];
+  for (let date = start; date <= yesterday; date = addDaysToDateKey(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+// Totals across a range of days. Top products are ranked from each day's own
+// top five, which is close enough for a dashboard.
+export function combineDailySummaries(
+  summaries: DailySummary[],
+): SummaryTotals {
+  const sum = (pick: (s: DailySummary) => number) =>
+    roundCents(summaries.reduce((total, s) => total + pick(s), 0));
+  return {
+    totalSales: sum((s) => s.totalSales),
+    transactionCount: sum((s) => s.transactionCount),
+    topProducts: rankProducts(summaries.flatMap((s) => s.topProducts)),
+    paymentBreakdown: mergeBreakdowns(
+      summaries.flatMap((s) => s.paymentBreakdown),
+    ),
+    costOfSales: sum((s) => s.costOfSales),
+    grossMargin: sum((s) => s.grossMargin),
+  };
+}
+
+// Stored summaries for the days from `from` to yesterday, plus today worked
+// out live from its transactions.
+export function getSummariesSince(
+  from: string,
+  summaries: DailySummary[],
+  transactions: Transaction[],
+  batches: InventoryBatch[],
+  products: Product[],
+  today: string = toLocalDateKey(new Date()),
+): DailySummary[] {
+  return [
+    ...summaries.filter((s) => s.date >= from && s.date < today),
+    ...buildDailySummaries(transactions, [today], batches, products),
+  ];
+}
@@ -0,0 +1,219 @@
+// Low-level ESC/POS encoding. Receipts are laid out as blocks of text and
+// images (see utils/receipt.ts) and only turned into printer bytes here.
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font (font A, 12x24)
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Printable dots across the head at 203 dpi
+export const PAPER_DOTS: Record<PaperWidth, number> = {
+  58: 384,
+  80: 576,
+};
+
+export type ReceiptAlign = "left" | "center" | "right";
+
+// One bit per dot, rows padded to whole bytes, set bits print black
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type ReceiptBlock =
+  | {
+      type: "text";
+      text: string;
+      align?: ReceiptAlign;
+      bold?: boolean;
+      // Double width and height; halves the columns on the line
+      large?: boolean;
+    }
+  | { type: "divider" }
+  | { type: "feed"; lines: number }
+  | { type: "qr"; data: string; size?: number }
+  | { type: "image"; bitmap: MonochromeBitmap }
+  // Logo saved in the printer's memory with the maker's utility
+  | { type: "storedLogo" }
+  | { type: "cut" };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<ReceiptAlign, number> = {
+  left: 0,
+  center: 1,
+  right: 2,
+};
+
+// Printers ship with code page 437, so anything outside ASCII is reduced to
+// its closest plain letter or a question mark.
+export function encodeText(text: string): number[] {
+  return Array.from(
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[\u00a0\u202f]/g, " ")
+      .replace(/[\u2013\u2014]/g, "-")
+      .replace(/[\u2018\u2019]/g, "'")
+      .replace(/[\u201c\u201d]/g, '"'),
+  ).map((char) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+}
+
+// GS ( k: store the data in model 2 with medium error correction, then print
+function encodeQr(data: string, size: number): number[] {
+  const bytes = Array.from(new TextEncoder().encode(data));
+  const length = bytes.length + 3;
+  return [
+    ...[GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00],
+    ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, size],
+    ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31],
+    ...[GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30],
+    ...bytes,
+    ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30],
+  ];
+}
+
+// GS v 0: print a raster image at normal density
+function encodeImage(bitmap: MonochromeBitmap): number[] {
+  const widthBytes = Math.ceil(bitmap.width / 8);
+  return [
+    GS,
+    0x76,
+    0x30,
+    0x00,
+    widthBytes & 0xff,
+    widthBytes >> 8,
+    bitmap.height & 0xff,
+    bitmap.height >> 8,
+    ...Array.from(bitmap.data.subarray(0, widthBytes * bitmap.height)),
+  ];
+}
+
+export function encodeReceipt(
+  blocks: ReceiptBlock[],
+  width: PaperWidth,
+): Uint8Array {
+  const bytes: number[] = [ESC, 0x40];
+  const columns = PAPER_COLUMNS[width];
+
+  blocks.forEach((block) => {
+    switch (block.type) {
+      case "text":
+        bytes.push(ESC, 0x61, ALIGN_CODES[block.align || "left"]);
+        if (block.bold) bytes.push(ESC, 0x45, 1);
+        if (block.large) bytes.push(GS, 0x21, 0x11);
+        bytes.push(...encodeText(block.text), LF);
+        if (block.large) bytes.push(GS, 0x21, 0x00);
+        if (block.bold) bytes.push(ESC, 0x45, 0);
+        break;
+      case "divider":
+        bytes.push(ESC, 0x61, 0, ...encodeText("-".repeat(columns)), LF);
+        break;
+      case "feed":
+        bytes.push(ESC, 0x64, block.lines);
+        break;
+      case "qr":
+        bytes.push(ESC, 0x61, 1, ...encodeQr(block.data, block.size || 6), LF);
+        break;
+      case "image":
+        bytes.push(ESC, 0x61, 1, ...encodeImage(block.bitmap));
+        break;
+      case "storedLogo":
+        // FS p: print NV image 1 at normal size
+        bytes.push(ESC, 0x61, 1, FS, 0x70, 0x01, 0x00);
+        break;
+      case "cut":
+        // Feed past the cutter, then a partial cut
+        bytes.push(GS, 0x56, 0x42, 0x00);
+        break;
+    }
+  });
+
+  return new Uint8Array(bytes);
+}
+
+// Plain text rendering of the same blocks, for previews and logs
+export function renderReceiptText(
+  blocks: ReceiptBlock[],
+  width: PaperWidth,
+): string {
+  const columns = PAPER_COLUMNS[width];
+  const lines: string[] = [];
+  blocks.forEach((block) => {
+    switch (block.type) {
+      case "text": {
+        // Large text takes two columns per character on paper
+        const length = block.large ? block.text.length * 2 : block.text.length;
+        const padding = Math.max(columns - length, 0);
+        if (block.align === "center") {
+          lines.push(" ".repeat(Math.floor(padding / 2)) + block.text);
+        } else if (block.align === "right") {
+          lines.push(" ".repeat(padding) + block.text);
+        } else {
+          lines.push(block.text);
+        }
+        break;
+      }
+      case "divider":
+        lines.push("-".repeat(columns));
+        break;
+      case "feed":
+        for (let i = 0; i < block.lines; i++) lines.push("");
+        break;
+      case "qr":
+        lines.push(`[QR] ${block.data}`);
+        break;
+      case "image":
+      case "storedLogo":
+        lines.push("[LOGO]");
+        break;
+      case "cut":
+        break;
+    }
+  });
+  return lines.join("\n");
+}
+
+// Turns RGBA pixels (as decoded from a PNG or JPEG) into a printable bitmap,
+// scaled down to fit the paper. Transparent pixels print white.
+export function toMonochromeBitmap(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  maxWidth: number,
+): MonochromeBitmap {
+  const scale = Math.min(1, maxWidth / width);
+  const outWidth = Math.max(1, Math.floor(width * scale));
+  const outHeight = Math.max(1, Math.floor(height * scale));
+  const widthBytes = Math.ceil(outWidth / 8);
+  const data = new Uint8Array(widthBytes * outHeight);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const source =
+        (Math.floor(y / scale) * width + Math.floor(x / scale)) * 4;
+      const alpha = rgba[source + 3] / 255;
+      const luminance =
+        (0.299 * rgba[source] +
+          0.587 * rgba[source + 1] +
+          0.114 * rgba[source + 2]) *
+          alpha +
+        255 * (1 - alpha);
+      if (luminance < 128) {
+        data[y * widthBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data };
+}
@@ -0,0 +1,413 @@
+import Constants from "expo-constants";
+import { PaymentMethodId, TaxClassId } from "@/constants/categories";
+import { EtimsRecord, Shop, Transaction } from "@/types";
+import { getSupabase } from "./supabase";
+
+// Branch 00 is the head office, which is all a single-branch shop has.
+export const ETIMS_BRANCH_ID = "00";
+
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// KRA tax types: A exempt, B 16%, C zero-rated, D non-VAT, E 8%
+type EtimsTaxType = "A" | "B" | "C" | "D" | "E";
+
+const TAX_TYPES: Record<TaxClassId, EtimsTaxType> = {
+  exempt: "A",
+  standard: "B",
+  zero_rated: "C",
+};
+
+const TAX_RATES: Record<EtimsTaxType, number> = {
+  A: 0,
+  B: 16,
+  C: 0,
+  D: 0,
+  E: 8,
+};
+
+const PAYMENT_TYPES: Record<PaymentMethodId, string> = {
+  cash: "01",
+  credit: "02",
+  bank: "04",
+  mpesa: "06",
+  airtel: "06",
+};
+
+export interface EtimsInvoiceItem {
+  itemSeq: number;
+  itemCd: string;
+  itemNm: string;
+  qty: number;
+  prc: number;
+  splyAmt: number;
+  dcAmt: number;
+  taxTyCd: EtimsTaxType;
+  taxblAmt: number;
+  taxAmt: number;
+  totAmt: number;
+}
+
+// The trnsSales/saveSales request of KRA's OSCU/VSCU API. The invoice number
+// (invcNo) is given out by the provider so it runs in order across devices.
+export interface EtimsInvoice {
+  tin: string;
+  bhfId: string;
+  trdInvcNo: string;
+  orgInvcNo: number;
+  custNm: string | null;
+  salesTyCd: "N";
+  rcptTyCd: "S" | "R";
+  pmtTyCd: string;
+  salesSttsCd: "02";
+  cfmDt: string;
+  salesDt: string;
+  rfdDt: string | null;
+  totItemCnt: number;
+  taxblAmtA: number;
+  taxblAmtB: number;
+  taxblAmtC: number;
+  taxblAmtD: number;
+  taxblAmtE: number;
+  taxRtA: number;
+  taxRtB: number;
+  taxRtC: number;
+  taxRtD: number;
+  taxRtE: number;
+  taxAmtA: number;
+  taxAmtB: number;
+  taxAmtC: number;
+  taxAmtD: number;
+  taxAmtE: number;
+  totTaxblAmt: number;
+  totTaxAmt: number;
+  totAmt: number;
+  prchrAcptcYn: "N";
+  remark: string | null;
+  regrId: string;
+  regrNm: string;
+  modrId: string;
+  modrNm: string;
+  itemList: EtimsInvoiceItem[];
+}
+
+export interface EtimsSignature {
+  invoiceNumber: string;
+  receiptNumber: number;
+  // The shop's own invoice number (invcNo), quoted by credit notes
+  traderInvoiceNumber: number;
+  receiptSignature: string;
+  internalData: string;
+  qrData: string;
+  signedAt: string;
+}
+
+// KRA turned the invoice down. Sending it again unchanged will not help,
+// unlike a network error.
+export class EtimsRejectedError extends Error {
+  constructor(
+    message: string,
+    public resultCode?: string,
+  ) {
+    super(message);
+    this.name = "EtimsRejectedError";
+  }
+}
+
+// Signs invoices with a KRA control unit
+export interface EtimsProvider {
+  id: string;
+  name: string;
+  submitInvoice(
+    invoice: EtimsInvoice,
+    transactionId: string,
+  ): Promise<EtimsSignature>;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// eTIMS dates are local time: yyyyMMdd and yyyyMMddHHmmss
+const toEtimsDate = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const toEtimsDateTime = (date: Date) =>
+  `${toEtimsDate(date)}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+export const isEtimsEnabled = (shop?: Shop | null) => !!shop?.taxId;
+
+export const createEtimsRecord = (): EtimsRecord => ({
+  status: "pending",
+  attempts: 0,
+});
+
+// A sale KRA has signed, or may have signed on an attempt that got no answer,
+// can only be reversed with a credit note, so it is returned rather than voided.
+export const isSentToEtims = (transaction: Transaction) =>
+  transaction.etims?.status === "signed" ||
+  (transaction.etims?.status === "pending" && transaction.etims.attempts > 0);
+
+// Builds the invoice KRA receives for a sale, or the credit note for a
+// refund, which has to quote the invoice number of the sale it reverses.
+// Amounts are sent as positive values either way.
+export function buildEtimsInvoice(
+  transaction: Transaction,
+  shop: Shop,
+  original?: Transaction,
+): EtimsInvoice {
+  const isRefund = transaction.kind === "refund";
+  const date = new Date(transaction.transactionDate);
+  const discountShare =
+    transaction.subtotal !== 0
+      ? transaction.discount / transaction.subtotal
+      : 0;
+
+  const itemList = transaction.items.map((item, index) => {
+    const taxTyCd = TAX_TYPES[item.taxClass || "exempt"];
+    const supply = Math.abs(item.unitPrice * item.quantity);
+    const lineTotal = Math.abs(item.total) * (1 - discountShare);
+    const taxAmt = roundCents(Math.abs(item.taxAmount || 0));
+    // Tax-exclusive sales add the VAT to what the customer pays for the line
+    const taxblAmt = roundCents(
+      item.taxableAmount !== undefined
+        ? Math.abs(item.taxableAmount) + taxAmt
+        : lineTotal,
+    );
+    return {
+      itemSeq: index + 1,
+      itemCd: item.productId,
+      itemNm: item.productName,
+      qty: Math.abs(item.quantity),
+      prc: item.unitPrice,
+      splyAmt: roundCents(supply),
+      dcAmt: roundCents(supply - lineTotal),
+      taxTyCd,
+      taxblAmt,
+      taxAmt,
+      totAmt: taxblAmt,
+    };
+  });
+
+  const sumBy = (type: EtimsTaxType, pick: (i: EtimsInvoiceItem) => number) =>
+    roundCents(
+      itemList
+        .filter((i) => i.taxTyCd === type)
+        .reduce((sum, i) => sum + pick(i), 0),
+    );
+  const taxable = (type: EtimsTaxType) => sumBy(type, (i) => i.taxblAmt);
+  const tax = (type: EtimsTaxType) => sumBy(type, (i) => i.taxAmt);
+  const cashier = transaction.userId;
+
+  return {
+    tin: shop.taxId || "",
+    bhfId: ETIMS_BRANCH_ID,
+    trdInvcNo: transaction.transactionNumber,
+    orgInvcNo: isRefund ? original?.etims?.traderInvoiceNumber || 0 : 0,
+    custNm: transaction.customerName || null,
+    salesTyCd: "N",
+    rcptTyCd: isRefund ? "R" : "S",
+    pmtTyCd: PAYMENT_TYPES[transaction.paymentMethod],
+    salesSttsCd: "02",
+    cfmDt: toEtimsDateTime(date),
+    salesDt: toEtimsDate(date),
+    rfdDt: isRefund ? toEtimsDateTime(date) : null,
+    totItemCnt: itemList.length,
+    taxblAmtA: taxable("A"),
+    taxblAmtB: taxable("B"),
+    taxblAmtC: taxable("C"),
+    taxblAmtD: taxable("D"),
+    taxblAmtE: taxable("E"),
+    taxRtA: TAX_RATES.A,
+    taxRtB: TAX_RATES.B,
+    taxRtC: TAX_RATES.C,
+    taxRtD: TAX_RATES.D,
+    taxRtE: TAX_RATES.E,
+    taxAmtA: tax("A"),
+    taxAmtB: tax("B"),
+    taxAmtC: tax("C"),
+    taxAmtD: tax("D"),
+    taxAmtE: tax("E"),
+    totTaxblAmt: roundCents(itemList.reduce((sum, i) => sum + i.taxblAmt, 0)),
+    totTaxAmt: roundCents(itemList.reduce((sum, i) => sum + i.taxAmt, 0)),
+    totAmt: roundCents(Math.abs(transaction.total)),
+    prchrAcptcYn: "N",
+    remark: transaction.notes || null,
+    regrId: cashier,
+    regrNm: cashier,
+    modrId: cashier,
+    modrNm: cashier,
+    itemList,
+  };
+}
+
+export const getEtimsQrUrl = (
+  tin: string,
+  receiptSignature: string,
+  sandbox = false,
+) =>
+  `https://etims${sandbox ? "-sbx" : ""}.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData?Data=${tin}${ETIMS_BRANCH_ID}${receiptSignature}`;
+
+// Talks to KRA through the etims-submit Edge Function, which holds the
+// control unit's credentials and numbers the invoices.
+export const OscuEtimsProvider: EtimsProvider = {
+  id: "oscu",
+  name: "KRA eTIMS",
+  async submitInvoice(invoice, transactionId) {
+    const supabase = getSupabase();
+    if (!supabase) throw new Error("Supabase not configured");
+    const { data, error } = await supabase.functions.invoke("etims-submit", {
+      body: { transactionId, invoice },
+    });
+    if (error) throw new Error(`eTIMS request failed: ${error.message}`);
+    if (!data?.success) {
+      if (data?.rejected) {
+        throw new EtimsRejectedError(data.error, data.resultCode);
+      }
+      throw new Error(data?.error || "eTIMS request failed");
+    }
+    return data.signature as EtimsSignature;
+  },
+};
+
+const mockReceiptCounters = new Map<string, number>();
+
+const mockSignature = () => {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ0123456789";
+  let code = "";
+  for (let i = 0; i < 16; i++) {
+    code += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return code;
+};
+
+// Signs invoices locally, numbering them per PIN like a control unit does.
+// It rejects the same mistakes KRA would: a missing PIN, a credit note with
+// no original receipt, and totals that do not add up.
+export const EtimsMockProvider: EtimsProvider = {
+  id: "mock",
+  name: "eTIMS (mock)",
+  async submitInvoice(invoice) {
+    if (!invoice.tin) throw new EtimsRejectedError("Missing PIN", "910");
+    if (invoice.rcptTyCd === "R" && !invoice.orgInvcNo) {
+      throw new EtimsRejectedError("Original invoice not found", "924");
+    }
+    const itemTax = invoice.itemList.reduce((sum, i) => sum + i.taxAmt, 0);
+    if (Math.abs(itemTax - invoice.totTaxAmt) > 0.01) {
+      throw new EtimsRejectedError("Tax amount does not match items", "921");
+    }
+    if (Math.abs(invoice.totTaxblAmt - invoice.totAmt) > 0.01) {
+      throw new EtimsRejectedError("Total amount does not match items", "921");
+    }
+
+    const receiptNumber = (mockReceiptCounters.get(invoice.tin) || 0) + 1;
+    mockReceiptCounters.set(invoice.tin, receiptNumber);
+    const controlUnitId = `KRACU0${invoice.tin.slice(1, 10)}`;
+    const receiptSignature = mockSignature();
+    return {
+      invoiceNumber: `${controlUnitId}/${receiptNumber}`,
+      receiptNumber,
+      traderInvoiceNumber: receiptNumber,
+      receiptSignature,
+      internalData: mockSignature() + mockSignature(),
+      qrData: getEtimsQrUrl(invoice.tin, receiptSignature, true),
+      signedAt: new Date().toISOString(),
+    };
+  },
+};
+
+let activeProvider: EtimsProvider =
+  Constants.expoConfig?.extra?.etimsProvider === "oscu"
+    ? OscuEtimsProvider
+    : EtimsMockProvider;
+
+export const getEtimsProvider = (): EtimsProvider => activeProvider;
+
+export const setEtimsProvider = (provider: EtimsProvider) => {
+  activeProvider = provider;
+};
+
+// Why a credit note cannot be sent, or null if its sale is signed or may still
+// be. A sale KRA rejected or never received has no invoice number to quote.
+export function getCreditNoteBlock(original?: Transaction): string | null {
+  if (!original) return "The original sale is not on this device.";
+  if (!original.etims) {
+    return "The original sale was made before eTIMS, so it has no KRA invoice to credit.";
+  }
+  if (original.etims.status === "rejected") {
+    return "KRA rejected the original sale. This credit note is sent once the sale is resent and signed.";
+  }
+  return null;
+}
+
+// Sales and refunds waiting to be signed whose retry time has come. A credit
+// note waits for its sale, since it must quote the sale's invoice number, and
+// is handed over to be blocked if that sale cannot be signed.
+export function getDueEtimsInvoices(
+  transactions: Transaction[],
+  now: Date = new Date(),
+): Transaction[] {
+  const byId = new Map(transactions.map((t) => [t.id, t]));
+  const originalOf = (t: Transaction) =>
+    t.originalTransactionId ? byId.get(t.originalTransactionId) : undefined;
+  return transactions
+    .filter((t) => {
+      if (t.paymentStatus === "voided") return false;
+      if (t.etims?.status === "blocked") {
+        return originalOf(t)?.etims?.status === "signed";
+      }
+      return (
+        t.etims?.status === "pending" &&
+        (!t.etims.nextAttemptAt || new Date(t.etims.nextAttemptAt) <= now)
+      );
+    })
+    .filter((t) => {
+      if (t.kind !== "refund") return true;
+      const original = originalOf(t);
+      return (
+        original?.etims?.status === "signed" ||
+        getCreditNoteBlock(original) !== null
+      );
+    })
+    .sort((a, b) => a.transactionDate.localeCompare(b.transactionDate));
+}
+
+// Submits one invoice and returns its new record. Network failures stay
+// pending and back off; rejections stop until the invoice is resent. A credit
+// note whose sale cannot be signed is blocked without being sent.
+export async function submitEtimsInvoice(
+  transaction: Transaction,
+  shop: Shop,
+  original?: Transaction,
+  provider: EtimsProvider = getEtimsProvider(),
+): Promise<EtimsRecord> {
+  const record = transaction.etims || createEtimsRecord();
+  const block =
+    transaction.kind === "refund" ? getCreditNoteBlock(original) : null;
+  if (block) {
+    return { status: "blocked", attempts: record.attempts, lastError: block };
+  }
+  const attempts = record.attempts + 1;
+  try {
+    const signature = await provider.submitInvoice(
+      buildEtimsInvoice(transaction, shop, original),
+      transaction.id,
+    );
+    return { ...signature, status: "signed", attempts };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof EtimsRejectedError) {
+      return { status: "rejected", attempts, lastError: message };
+    }
+    const delay = Math.min(
+      BASE_RETRY_DELAY * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY,
+    );
+    return {
+      status: "pending",
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      lastError: message,
+    };
+  }
+}
@@ -61,3 +61,17 @@ export const getGreeting = (): string => {
   if (hour < 17) return "Good afternoon";
   return "Good evening";
 };
+
+// YYYY-MM-DD for the device's local day, so sales just after midnight in
+// Nairobi are not filed under the previous UTC day.
+export const toLocalDateKey = (date: Date | string): string => {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+export const addDaysToDateKey = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return toLocalDateKey(new Date(year, month - 1, day + days));
+};
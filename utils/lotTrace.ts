@@ -0,0 +1,199 @@
+import {
+  InventoryBatch,
+  Product,
+  Supplier,
+  Transaction,
+  Customer,
+} from "@/types";
+
+export interface TracedBatch {
+  batch: InventoryBatch;
+  productName: string;
+  supplierName?: string;
+}
+
+export interface LotSale {
+  transactionId: string;
+  transactionNumber: string;
+  transactionDate: string;
+  customerName?: string;
+  customerPhone?: string;
+  productName: string;
+  batchNumber: string;
+  quantity: number;
+  returnedQuantity: number;
+}
+
+export interface LotTraceResult {
+  query: string;
+  batches: TracedBatch[];
+  sales: LotSale[];
+  // Sales of the traced products recorded before sale lines kept their
+  // batches; they may include the lot but cannot be attributed to it.
+  untracedSales: number;
+}
+
+interface LotTraceSources {
+  batches: InventoryBatch[];
+  products: Product[];
+  suppliers: Supplier[];
+  transactions: Transaction[];
+  customers: Customer[];
+}
+
+const normalize = (value?: string) => (value || "").trim().toLowerCase();
+
+// Finds the batches matching a batch number or supplier invoice number and
+// every sale that drew from them, net of returns. Voided sales are left out
+// since their stock went back on the shelf.
+export function traceLot(
+  query: string,
+  { batches, products, suppliers, transactions, customers }: LotTraceSources,
+): LotTraceResult {
+  const needle = normalize(query);
+  const matched = needle
+    ? batches.filter(
+        (b) =>
+          normalize(b.batchNumber) === needle ||
+          normalize(b.invoiceNumber) === needle,
+      )
+    : [];
+  const batchById = new Map(matched.map((b) => [b.id, b]));
+
+  const counted = transactions.filter((t) => t.paymentStatus !== "voided");
+  const returnedByItem = new Map<string, number>();
+  counted
+    .filter((t) => t.kind === "refund")
+    .forEach((refund) =>
+      refund.items.forEach((item) => {
+        if (!item.originalItemId) return;
+        (item.batchAllocations || [])
+          .filter((a) => batchById.has(a.batchId))
+          .forEach((a) => {
+            const key = `${item.originalItemId}:${a.batchId}`;
+            returnedByItem.set(
+              key,
+              (returnedByItem.get(key) || 0) - a.quantity,
+            );
+          });
+      }),
+    );
+
+  const sales: LotSale[] = [];
+  const productIds = new Set(matched.map((b) => b.productId));
+  const earliestPurchase = matched.reduce<string | undefined>(
+    (earliest, b) =>
+      !earliest || b.purchaseDate < earliest ? b.purchaseDate : earliest,
+    undefined,
+  );
+  let untracedSales = 0;
+
+  counted
+    .filter((t) => t.kind !== "refund")
+    .forEach((transaction) => {
+      const customer = customers.find((c) => c.id === transaction.customerId);
+      transaction.items.forEach((item) => {
+        if (!item.batchAllocations) {
+          if (
+            productIds.has(item.productId) &&
+            earliestPurchase &&
+            transaction.transactionDate >= earliestPurchase
+          ) {
+            untracedSales++;
+          }
+          return;
+        }
+        item.batchAllocations
+          .filter((a) => batchById.has(a.batchId))
+          .forEach((allocation) => {
+            sales.push({
+              transactionId: transaction.id,
+              transactionNumber: transaction.transactionNumber,
+              transactionDate: transaction.transactionDate,
+              customerName: transaction.customerName || customer?.name,
+              customerPhone: customer?.phone,
+              productName: item.productName,
+              batchNumber:
+                batchById.get(allocation.batchId)?.batchNumber ||
+                allocation.batchNumber ||
+                "",
+              quantity: allocation.quantity,
+              returnedQuantity:
+                returnedByItem.get(`${item.id}:${allocation.batchId}`) || 0,
+            });
+          });
+      });
+    });
+
+  return {
+    query: query.trim(),
+    batches: matched.map((batch) => ({
+      batch,
+      productName:
+        products.find((p) => p.id === batch.productId)?.name || "Unknown",
+      supplierName: suppliers.find((s) => s.id === batch.supplierId)?.name,
+    })),
+    sales: sales.sort((a, b) =>
+      b.transactionDate.localeCompare(a.transactionDate),
+    ),
+    untracedSales,
+  };
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: (string | number | undefined)[]) =>
+  values.map(csvCell).join(",");
+
+export function formatLotTraceCsv(result: LotTraceResult): string {
+  const lines = [
+    csvRow(["Lot trace", result.query]),
+    "",
+    csvRow(["Batch", "Product", "Supplier", "Invoice", "Expiry", "Remaining"]),
+    ...result.batches.map(({ batch, productName, supplierName }) =>
+      csvRow([
+        batch.batchNumber,
+        productName,
+        supplierName,
+        batch.invoiceNumber,
+        batch.expiryDate?.split("T")[0],
+        batch.quantity,
+      ]),
+    ),
+    "",
+    csvRow([
+      "Date",
+      "Transaction",
+      "Customer",
+      "Phone",
+      "Product",
+      "Batch",
+      "Quantity",
+      "Returned",
+    ]),
+    ...result.sales.map((sale) =>
+      csvRow([
+        sale.transactionDate.split("T")[0],
+        sale.transactionNumber,
+        sale.customerName,
+        sale.customerPhone,
+        sale.productName,
+        sale.batchNumber,
+        sale.quantity,
+        sale.returnedQuantity,
+      ]),
+    ),
+  ];
+  if (result.untracedSales > 0) {
+    lines.push(
+      "",
+      csvRow([
+        `${result.untracedSales} earlier sale line(s) of these products have no batch record`,
+      ]),
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,173 @@
+import Constants from "expo-constants";
+import { getSupabase } from "./supabase";
+import { normalizeKenyanPhone } from "./sms";
+
+export interface StkPushRequest {
+  phone: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+}
+
+export interface StkPushResponse {
+  checkoutRequestId: string;
+  customerMessage?: string;
+}
+
+export type MpesaPaymentStatus =
+  | "pending"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface MpesaPaymentResult {
+  status: MpesaPaymentStatus;
+  receiptNumber?: string;
+  resultDescription?: string;
+}
+
+// A Daraja-style Lipa na M-Pesa Online provider: ask the customer's phone for
+// their PIN, then report whether they paid.
+export interface MpesaProvider {
+  id: string;
+  name: string;
+  requestPayment(request: StkPushRequest): Promise<StkPushResponse>;
+  getPaymentStatus(checkoutRequestId: string): Promise<MpesaPaymentResult>;
+}
+
+// Daraja only accepts whole shillings and 2547XXXXXXXX numbers.
+export const toDarajaPhone = (phone: string): string | null =>
+  normalizeKenyanPhone(phone)?.slice(1) ?? null;
+
+// Talks to Safaricom through the mpesa-stk Edge Function, which holds the
+// Daraja credentials and receives the payment callback.
+export const DarajaMpesaProvider: MpesaProvider = {
+  id: "daraja",
+  name: "M-Pesa",
+  async requestPayment(request) {
+    const supabase = getSupabase();
+    if (!supabase) throw new Error("Supabase not configured");
+    const { data, error } = await supabase.functions.invoke("mpesa-stk", {
+      body: { action: "initiate", ...request },
+    });
+    if (error) throw new Error(`M-Pesa request failed: ${error.message}`);
+    if (!data?.success) {
+      throw new Error(data?.error || "M-Pesa request was not accepted");
+    }
+    return {
+      checkoutRequestId: data.checkoutRequestId,
+      customerMessage: data.customerMessage,
+    };
+  },
+  async getPaymentStatus(checkoutRequestId) {
+    const supabase = getSupabase();
+    if (!supabase) throw new Error("Supabase not configured");
+    const { data, error } = await supabase.functions.invoke("mpesa-stk", {
+      body: { action: "status", checkoutRequestId },
+    });
+    if (error) throw new Error(`M-Pesa status check failed: ${error.message}`);
+    if (!data?.success) {
+      throw new Error(data?.error || "M-Pesa status check failed");
+    }
+    return {
+      status: data.status,
+      receiptNumber: data.receiptNumber ?? undefined,
+      resultDescription: data.resultDescription ?? undefined,
+    };
+  },
+};
+
+const SIMULATED_CONFIRMATION_MS = 5000;
+
+const simulatedPayments = new Map<
+  string,
+  { request: StkPushRequest; startedAt: number }
+>();
+
+const simulateReceiptNumber = () => {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ0123456789";
+  let code = "S";
+  for (let i = 0; i < 9; i++) {
+    code += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return code;
+};
+
+// Confirms every request a few seconds after it is made. Amounts whose last
+// digit is 1 (KES 101, 2,351, ...) are declined as if the customer cancelled,
+// so the failure path can be tried too.
+export const MpesaSimulator: MpesaProvider = {
+  id: "simulator",
+  name: "M-Pesa (simulator)",
+  async requestPayment(request) {
+    if (!toDarajaPhone(request.phone)) {
+      throw new Error(`Invalid M-Pesa number: ${request.phone}`);
+    }
+    const checkoutRequestId = `ws_CO_SIM_${Date.now().toString(36)}`;
+    simulatedPayments.set(checkoutRequestId, {
+      request,
+      startedAt: Date.now(),
+    });
+    return {
+      checkoutRequestId,
+      customerMessage: "Success. Request accepted for processing",
+    };
+  },
+  async getPaymentStatus(checkoutRequestId) {
+    const payment = simulatedPayments.get(checkoutRequestId);
+    if (!payment) {
+      return { status: "failed", resultDescription: "Unknown request" };
+    }
+    if (Date.now() - payment.startedAt < SIMULATED_CONFIRMATION_MS) {
+      return { status: "pending" };
+    }
+    simulatedPayments.delete(checkoutRequestId);
+    if (Math.round(payment.request.amount) % 10 === 1) {
+      return {
+        status: "cancelled",
+        resultDescription: "Request cancelled by user",
+      };
+    }
+    return {
+      status: "completed",
+      receiptNumber: simulateReceiptNumber(),
+      resultDescription: "The service request is processed successfully.",
+    };
+  },
+};
+
+let activeProvider: MpesaProvider =
+  Constants.expoConfig?.extra?.mpesaProvider === "daraja"
+    ? DarajaMpesaProvider
+    : MpesaSimulator;
+
+export const getMpesaProvider = (): MpesaProvider => activeProvider;
+
+export const setMpesaProvider = (provider: MpesaProvider) => {
+  activeProvider = provider;
+};
+
+const POLL_INTERVAL_MS = 3000;
+// Safaricom gives up on an unanswered prompt after about a minute.
+const CONFIRMATION_TIMEOUT_MS = 90 * 1000;
+
+// Polls until the payment settles, the wait times out or isCancelled() turns
+// true. A timed-out payment comes back as pending: it may still go through.
+export async function waitForMpesaConfirmation(
+  checkoutRequestId: string,
+  isCancelled: () => boolean = () => false,
+  provider: MpesaProvider = getMpesaProvider(),
+): Promise<MpesaPaymentResult> {
+  const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS;
+  while (Date.now() < deadline && !isCancelled()) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    if (isCancelled()) break;
+    try {
+      const result = await provider.getPaymentStatus(checkoutRequestId);
+      if (result.status !== "pending") return result;
+    } catch (error) {
+      console.error("Error checking M-Pesa payment:", error);
+    }
+  }
+  return { status: "pending" };
+}
@@ -0,0 +1,86 @@
+import { SupplierTransaction } from "@/types";
+import { addToAging, AgingBreakdown, createEmptyAging } from "./aging";
+import { addDaysToDateKey, toLocalDateKey } from "./format";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when a supplier has no terms on file or they cannot be read.
+export const DEFAULT_PAYMENT_TERM_DAYS = 30;
+
+export interface OpenInvoice {
+  invoice: SupplierTransaction;
+  outstanding: number;
+  daysOverdue: number;
+}
+
+// Reads free-text terms such as "Net 30", "14 days" or "COD".
+export function getPaymentTermDays(terms?: string): number {
+  if (!terms?.trim()) return DEFAULT_PAYMENT_TERM_DAYS;
+  const days = terms.match(/\d+/);
+  if (days) return parseInt(days[0], 10);
+  return /cod|cash|delivery|immediate|receipt|advance/i.test(terms)
+    ? 0
+    : DEFAULT_PAYMENT_TERM_DAYS;
+}
+
+// The local YYYY-MM-DD day of an entry. Invoice and due dates are already
+// days; parsing one as a date would read it as midnight UTC.
+const getDay = (date: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toLocalDateKey(date);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export function getDueDate(invoiceDate: string, terms?: string): string {
+  return addDaysToDateKey(getDay(invoiceDate), getPaymentTermDays(terms));
+}
+
+export const getPayableBalance = (entries: SupplierTransaction[]) =>
+  entries.reduce((sum, e) => sum + (e.balanceAfter - e.balanceBefore), 0);
+
+// Each supplier's payments settle their invoices that fall due first.
+export function getOpenInvoices(
+  entries: SupplierTransaction[],
+  asOf: Date = new Date(),
+): OpenInvoice[] {
+  const today = toLocalDateKey(asOf);
+  const paid = new Map<string, number>();
+  entries
+    .filter((e) => e.type === "payment")
+    .forEach((e) =>
+      paid.set(e.supplierId, (paid.get(e.supplierId) || 0) + e.amount),
+    );
+
+  return entries
+    .filter((e) => e.type === "invoice")
+    .sort((a, b) =>
+      (a.dueDate || a.createdAt).localeCompare(b.dueDate || b.createdAt),
+    )
+    .reduce<OpenInvoice[]>((open, invoice) => {
+      const available = paid.get(invoice.supplierId) || 0;
+      const settled = Math.min(available, invoice.amount);
+      paid.set(invoice.supplierId, available - settled);
+      const outstanding = invoice.amount - settled;
+      if (outstanding <= 0) return open;
+      const due = getDay(invoice.dueDate || invoice.createdAt);
+      return [
+        ...open,
+        {
+          invoice,
+          outstanding,
+          daysOverdue: Math.max(daysBetween(due, today), 0),
+        },
+      ];
+    }, []);
+}
+
+export function agePayables(
+  entries: SupplierTransaction[],
+  asOf: Date = new Date(),
+): AgingBreakdown {
+  return getOpenInvoices(entries, asOf).reduce(
+    (aging, { outstanding, daysOverdue }) =>
+      addToAging(aging, outstanding, daysOverdue),
+    createEmptyAging(),
+  );
+}
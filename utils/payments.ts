@@ -0,0 +1,84 @@
+import { PaymentMethodId } from "@/constants/categories";
+import { DailySummary, Transaction, TransactionPayment } from "@/types";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// The tenders on a transaction. Sales made before split tender are read as a
+// single line for the whole total.
+export function getTransactionPayments(
+  transaction: Transaction,
+): TransactionPayment[] {
+  if (transaction.payments && transaction.payments.length > 0) {
+    return transaction.payments;
+  }
+  return [
+    {
+      method: transaction.paymentMethod,
+      amount: transaction.total,
+      reference: transaction.referenceNumber,
+    },
+  ];
+}
+
+export const isSplitTender = (transaction: Transaction) =>
+  (transaction.payments?.length || 0) > 1;
+
+export function getPaymentTotal(
+  payments: TransactionPayment[],
+  method?: PaymentMethodId,
+): number {
+  return roundCents(
+    payments
+      .filter((p) => !method || p.method === method)
+      .reduce((sum, p) => sum + p.amount, 0),
+  );
+}
+
+// The part of a transaction that went on (or came off) the customer's account.
+export const getCreditPortion = (transaction: Transaction) =>
+  getPaymentTotal(getTransactionPayments(transaction), "credit");
+
+// Change is given in cash, for what was handed over on the cash lines and for
+// the cents M-Pesa rounded up on its lines.
+export function getCashChange(payments: TransactionPayment[]): number {
+  return roundCents(
+    payments
+      .filter(
+        (p) =>
+          (p.method === "cash" || p.method === "mpesa") &&
+          p.tendered !== undefined,
+      )
+      .reduce((sum, p) => sum + Math.max(0, (p.tendered || 0) - p.amount), 0),
+  );
+}
+
+// The method recorded as Transaction.paymentMethod: the largest line. Refund
+// lines are negative, so size is compared without sign.
+export function getPrimaryPaymentMethod(
+  payments: TransactionPayment[],
+): PaymentMethodId {
+  return payments.reduce((largest, p) =>
+    Math.abs(p.amount) > Math.abs(largest.amount) ? p : largest,
+  ).method;
+}
+
+// Net takings per method, largest first. Voided sales are left out and
+// refunds count against the method they were paid out on.
+export function getPaymentBreakdown(
+  transactions: Transaction[],
+): DailySummary["paymentBreakdown"] {
+  const totals = new Map<PaymentMethodId, number>();
+  transactions
+    .filter((t) => t.paymentStatus !== "voided")
+    .forEach((t) => {
+      getTransactionPayments(t).forEach((p) => {
+        totals.set(p.method, (totals.get(p.method) || 0) + p.amount);
+      });
+    });
+  return Array.from(totals, ([method, amount]) => ({
+    method,
+    amount: roundCents(amount),
+  }))
+    .filter((entry) => entry.amount !== 0)
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,67 @@
+import { CartItem, Customer, PriceRule, Product } from "@/types";
+
+// Quantity break for products that do not set their own
+export const DEFAULT_WHOLESALE_MIN_QUANTITY = 10;
+
+export interface ResolvedPrice {
+  unitPrice: number;
+  rule: PriceRule;
+}
+
+export const getWholesaleMinQuantity = (product: Product) =>
+  product.wholesaleMinQuantity ?? DEFAULT_WHOLESALE_MIN_QUANTITY;
+
+// A wholesale price at or above retail is treated as not set.
+const hasWholesalePrice = (product: Product) =>
+  product.wholesalePrice > 0 && product.wholesalePrice < product.retailPrice;
+
+// Unit price for a quantity of a product sold to a customer. Wholesale and
+// VIP customers always pay the wholesale price; anyone else gets it once the
+// line reaches the product's quantity break.
+export function resolvePrice(
+  product: Product,
+  quantity: number,
+  customer?: Customer | null,
+): ResolvedPrice {
+  if (hasWholesalePrice(product)) {
+    if (customer?.customerType === "vip") {
+      return { unitPrice: product.wholesalePrice, rule: "vip" };
+    }
+    if (customer?.customerType === "wholesale") {
+      return { unitPrice: product.wholesalePrice, rule: "wholesale" };
+    }
+    const minQuantity = getWholesaleMinQuantity(product);
+    if (minQuantity > 0 && quantity >= minQuantity) {
+      return { unitPrice: product.wholesalePrice, rule: "quantity_break" };
+    }
+  }
+  return { unitPrice: product.retailPrice, rule: "retail" };
+}
+
+// Weighed lines keep the price worked out when they were added.
+export function priceCartItem(
+  item: CartItem,
+  customer?: Customer | null,
+): CartItem {
+  if (item.isFractionalSale) return item;
+  const { unitPrice, rule } = resolvePrice(
+    item.product,
+    item.quantity,
+    customer,
+  );
+  return { ...item, unitPrice, priceRule: rule };
+}
+
+export function getPriceRuleLabel(rule: PriceRule, product: Product): string {
+  switch (rule) {
+    case "vip":
+      return "VIP price";
+    case "wholesale":
+      return "Wholesale customer";
+    case "quantity_break":
+      return `Wholesale ${getWholesaleMinQuantity(product)}+`;
+    case "retail":
+    default:
+      return "Retail price";
+  }
+}
@@ -0,0 +1,218 @@
+import { decode } from "base64-arraybuffer";
+import { Directory, File, Paths } from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as UPNG from "upng-js";
+import { PrinterSettings, Shop, Transaction } from "@/types";
+import {
+  encodeReceipt,
+  MonochromeBitmap,
+  PAPER_DOTS,
+  PaperWidth,
+  ReceiptBlock,
+  toMonochromeBitmap,
+} from "./escpos";
+import { buildReceiptBlocks, buildTestPageBlocks } from "./receipt";
+
+// Anything that can take ESC/POS bytes to a printer. Bluetooth printers need
+// a native driver, which implements this and is added with
+// registerPrinterTransport.
+export interface PrinterTransport {
+  id: string;
+  name: string;
+  print(data: Uint8Array, settings: PrinterSettings): Promise<void>;
+}
+
+// The raw printing port network receipt printers listen on
+export const NETWORK_PRINTER_PORT = 9100;
+const NETWORK_TIMEOUT = 10 * 1000;
+
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  paperWidth: 58,
+  transportId: "file",
+  networkHost: "",
+  autoPrint: false,
+  printShopLogo: true,
+  printStoredLogo: false,
+};
+
+// Writes each job to a .bin file under documents/receipts, which can be sent
+// to a printer app or checked with a hex viewer.
+export const FilePrinterTransport: PrinterTransport & {
+  lastFileUri: string | null;
+} = {
+  id: "file",
+  name: "Save to file",
+  lastFileUri: null,
+  async print(data) {
+    const directory = new Directory(Paths.document, "receipts");
+    directory.create({ intermediates: true, idempotent: true });
+    const file = new File(directory, `receipt-${Date.now()}.bin`);
+    file.create();
+    file.write(data);
+    this.lastFileUri = file.uri;
+  },
+};
+
+// Keeps jobs in memory, for trying the print flow without a printer
+export const BufferPrinterTransport: PrinterTransport & {
+  jobs: Uint8Array[];
+} = {
+  id: "buffer",
+  name: "Test printer (nothing printed)",
+  jobs: [],
+  async print(data) {
+    this.jobs.push(data);
+    console.log(`[Printer buffer] ${data.length} bytes`);
+  },
+};
+
+// Sends each job over raw TCP, which Wi-Fi and Ethernet receipt printers
+// print as it arrives. The socket module is native, so it is only loaded
+// when a job is sent and the app still starts where it is missing.
+export const NetworkPrinterTransport: PrinterTransport = {
+  id: "network",
+  name: "Network printer",
+  async print(data, settings) {
+    const host = settings.networkHost.trim();
+    if (!host) throw new Error("Enter the network printer's IP address.");
+    const { default: TcpSocket } = await import("react-native-tcp-socket");
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = TcpSocket.createConnection(
+        { host, port: NETWORK_PRINTER_PORT },
+        () => {
+          socket.write(data, undefined, (error) => {
+            if (error) {
+              socket.destroy();
+              reject(error);
+            } else {
+              socket.end();
+            }
+          });
+        },
+      );
+      socket.setTimeout(NETWORK_TIMEOUT, () => {
+        socket.destroy();
+        reject(new Error(`No answer from the printer at ${host}.`));
+      });
+      socket.on("error", (error) => {
+        socket.destroy();
+        reject(error);
+      });
+      socket.on("close", () => resolve());
+    });
+  },
+};
+
+const transports: PrinterTransport[] = [
+  NetworkPrinterTransport,
+  FilePrinterTransport,
+  BufferPrinterTransport,
+];
+
+export const getPrinterTransports = (): PrinterTransport[] => transports;
+
+export const getPrinterTransport = (id: string): PrinterTransport =>
+  transports.find((t) => t.id === id) || FilePrinterTransport;
+
+export const registerPrinterTransport = (transport: PrinterTransport) => {
+  const index = transports.findIndex((t) => t.id === transport.id);
+  if (index === -1) {
+    transports.push(transport);
+  } else {
+    transports[index] = transport;
+  }
+};
+
+const logoCache = new Map<string, MonochromeBitmap>();
+
+// Loads the shop's logo (a web address, file or data URI) and turns it into a
+// bitmap no wider than the paper. Decoded logos are kept for later receipts.
+async function loadShopLogo(
+  logo: string,
+  width: PaperWidth,
+): Promise<MonochromeBitmap> {
+  const key = `${width}:${logo}`;
+  const cached = logoCache.get(key);
+  if (cached) return cached;
+
+  let source = logo;
+  if (/^https?:/i.test(logo)) {
+    const directory = new Directory(Paths.cache, "logos");
+    directory.create({ intermediates: true, idempotent: true });
+    const file = await File.downloadFileAsync(logo, directory, {
+      idempotent: true,
+    });
+    source = file.uri;
+  }
+  const image = await ImageManipulator.manipulate(source).renderAsync();
+  const fitted =
+    image.width > PAPER_DOTS[width]
+      ? await ImageManipulator.manipulate(image)
+          .resize({ width: PAPER_DOTS[width] })
+          .renderAsync()
+      : image;
+  const { base64 } = await fitted.saveAsync({
+    format: SaveFormat.PNG,
+    base64: true,
+  });
+  if (!base64) throw new Error("The logo could not be read.");
+
+  const png = UPNG.decode(decode(base64));
+  const bitmap = toMonochromeBitmap(
+    new Uint8Array(UPNG.toRGBA8(png)[0]),
+    png.width,
+    png.height,
+    PAPER_DOTS[width],
+  );
+  logoCache.set(key, bitmap);
+  return bitmap;
+}
+
+// A receipt is still printed when the logo cannot be loaded, just without it
+async function getReceiptLogo(
+  shop: Shop,
+  settings: PrinterSettings,
+): Promise<MonochromeBitmap | undefined> {
+  if (!settings.printShopLogo || !shop.logo) return undefined;
+  try {
+    return await loadShopLogo(shop.logo, settings.paperWidth);
+  } catch (error) {
+    console.error("Error loading shop logo:", error);
+    return undefined;
+  }
+}
+
+async function printBlocks(blocks: ReceiptBlock[], settings: PrinterSettings) {
+  await getPrinterTransport(settings.transportId).print(
+    encodeReceipt(blocks, settings.paperWidth),
+    settings,
+  );
+}
+
+export async function printTransactionReceipt(
+  transaction: Transaction,
+  shop: Shop,
+  settings: PrinterSettings,
+  options: { original?: Transaction; reprint?: boolean } = {},
+): Promise<void> {
+  await printBlocks(
+    buildReceiptBlocks(transaction, shop, {
+      ...options,
+      width: settings.paperWidth,
+      logo: await getReceiptLogo(shop, settings),
+      printStoredLogo: settings.printStoredLogo,
+    }),
+    settings,
+  );
+}
+
+export async function printTestPage(
+  shop: Shop,
+  settings: PrinterSettings,
+): Promise<void> {
+  await printBlocks(
+    buildTestPageBlocks(shop, settings, await getReceiptLogo(shop, settings)),
+    settings,
+  );
+}
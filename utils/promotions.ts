@@ -0,0 +1,174 @@
+import { CartItem, Product, Promotion, Transaction } from "@/types";
+import { formatCurrency, toLocalDateKey } from "./format";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const toTimeKey = (date: Date) =>
+  `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+
+export type PromotionStatus = "running" | "scheduled" | "ended" | "paused";
+
+export function getPromotionStatus(
+  promotion: Promotion,
+  now: Date = new Date(),
+): PromotionStatus {
+  if (!promotion.active) return "paused";
+  const today = toLocalDateKey(now);
+  if (today < promotion.startDate) return "scheduled";
+  if (today > promotion.endDate) return "ended";
+  return "running";
+}
+
+// Whether the promotion applies at this moment. A happy hour that ends
+// before it starts runs over midnight.
+export function isPromotionRunning(
+  promotion: Promotion,
+  now: Date = new Date(),
+): boolean {
+  if (getPromotionStatus(promotion, now) !== "running") return false;
+  const { happyHourStart: start, happyHourEnd: end } = promotion;
+  if (!start || !end) return true;
+  const time = toTimeKey(now);
+  return start <= end
+    ? time >= start && time < end
+    : time >= start || time < end;
+}
+
+export function promotionCovers(
+  promotion: Promotion,
+  product: Product,
+): boolean {
+  if (promotion.productIds.length === 0 && promotion.categoryIds.length === 0) {
+    return true;
+  }
+  return (
+    promotion.productIds.includes(product.id) ||
+    promotion.categoryIds.includes(product.category)
+  );
+}
+
+// What a promotion takes off a cart line. Quantity deals need whole units,
+// so weighed lines only get percentage and amount-off promotions.
+export function getPromotionDiscount(
+  promotion: Promotion,
+  item: CartItem,
+): number {
+  const lineTotal = item.unitPrice * item.quantity;
+  let discount = 0;
+  switch (promotion.type) {
+    case "percent_off":
+      discount = (lineTotal * promotion.value) / 100;
+      break;
+    case "amount_off":
+      discount = promotion.value * item.quantity;
+      break;
+    case "buy_x_get_y": {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (item.isFractionalSale || buy <= 0 || get <= 0) break;
+      const freeUnits = Math.floor(item.quantity / (buy + get)) * get;
+      discount = freeUnits * item.unitPrice;
+      break;
+    }
+    case "bundle_price": {
+      const size = promotion.buyQuantity || 0;
+      if (item.isFractionalSale || size <= 0) break;
+      const bundles = Math.floor(item.quantity / size);
+      discount = bundles * (size * item.unitPrice - promotion.value);
+      break;
+    }
+  }
+  return roundCents(Math.min(Math.max(discount, 0), lineTotal));
+}
+
+// Gives each cart line the running promotion that saves the most on it.
+// Promotions do not stack: a line carries at most one.
+export function applyPromotions(
+  cart: CartItem[],
+  promotions: Promotion[],
+  now: Date = new Date(),
+): CartItem[] {
+  const running = promotions.filter((p) => isPromotionRunning(p, now));
+  return cart.map((item) => {
+    let best: { promotion: Promotion; discount: number } | null = null;
+    for (const promotion of running) {
+      if (!promotionCovers(promotion, item.product)) continue;
+      const discount = getPromotionDiscount(promotion, item);
+      if (discount > 0 && (!best || discount > best.discount)) {
+        best = { promotion, discount };
+      }
+    }
+    if (!best) {
+      return {
+        ...item,
+        discount: 0,
+        promotionId: undefined,
+        promotionName: undefined,
+      };
+    }
+    return {
+      ...item,
+      discount: best.discount,
+      promotionId: best.promotion.id,
+      promotionName: best.promotion.name,
+    };
+  });
+}
+
+export function describePromotion(promotion: Promotion): string {
+  let deal: string;
+  switch (promotion.type) {
+    case "percent_off":
+      deal = `${promotion.value}% off`;
+      break;
+    case "amount_off":
+      deal = `${formatCurrency(promotion.value)} off each`;
+      break;
+    case "buy_x_get_y":
+      deal = `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+      break;
+    case "bundle_price":
+      deal = `${promotion.buyQuantity} for ${formatCurrency(promotion.value)}`;
+      break;
+  }
+  return promotion.happyHourStart && promotion.happyHourEnd
+    ? `${deal}, ${promotion.happyHourStart}–${promotion.happyHourEnd}`
+    : deal;
+}
+
+export interface PromotionResult {
+  promotionId: string;
+  name: string;
+  lines: number;
+  quantity: number;
+  discount: number;
+}
+
+// Discount given per promotion, largest first. Voided sales are left out and
+// returned lines take their share of the discount back off.
+export function getPromotionReport(
+  transactions: Transaction[],
+): PromotionResult[] {
+  const results = new Map<string, PromotionResult>();
+  transactions
+    .filter((t) => t.paymentStatus !== "voided")
+    .forEach((t) =>
+      t.items.forEach((item) => {
+        if (!item.promotionId) return;
+        const result = results.get(item.promotionId) || {
+          promotionId: item.promotionId,
+          name: item.promotionName || "Promotion",
+          lines: 0,
+          quantity: 0,
+          discount: 0,
+        };
+        if (t.kind !== "refund") result.lines += 1;
+        result.quantity += item.quantity;
+        result.discount = roundCents(result.discount + item.discount);
+        results.set(item.promotionId, result);
+      }),
+    );
+  return Array.from(results.values())
+    .filter((r) => r.discount !== 0)
+    .sort((a, b) => b.discount - a.discount);
+}
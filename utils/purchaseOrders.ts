@@ -0,0 +1,103 @@
+import {
+  Product,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from "@/types";
+
+export interface ReceiveLineInput {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+  expiryDate?: string;
+}
+
+export type PurchaseOrderDiscrepancyKind = "short" | "over" | "price";
+
+export interface PurchaseOrderDiscrepancy {
+  productId: string;
+  productName: string;
+  kind: PurchaseOrderDiscrepancyKind;
+  expected: number;
+  actual: number;
+}
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine) =>
+  Math.max(line.quantityOrdered - line.quantityReceived, 0);
+
+export const getPurchaseOrderTotal = (order: Pick<PurchaseOrder, "lines">) =>
+  order.lines.reduce(
+    (sum, line) => sum + line.quantityOrdered * line.expectedCost,
+    0,
+  );
+
+// Tops each low-stock product back up to twice its reorder level, at its
+// current cost price.
+export function suggestOrderLines(
+  lowStockProducts: Product[],
+  getStock: (productId: string) => number,
+): PurchaseOrderLine[] {
+  return lowStockProducts
+    .filter((p) => p.active)
+    .map((product) => ({
+      productId: product.id,
+      productName: product.name,
+      quantityOrdered: Math.max(
+        product.reorderLevel * 2 - getStock(product.id),
+        1,
+      ),
+      expectedCost: product.costPrice,
+      quantityReceived: 0,
+    }))
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
+
+// Compares a delivery with what is still outstanding on the order. Lines
+// left out of the delivery count as short.
+export function findReceiptDiscrepancies(
+  order: PurchaseOrder,
+  received: ReceiveLineInput[],
+): PurchaseOrderDiscrepancy[] {
+  const discrepancies: PurchaseOrderDiscrepancy[] = [];
+  order.lines.forEach((line) => {
+    const outstanding = getOutstandingQuantity(line);
+    const input = received.find((r) => r.productId === line.productId);
+    const quantity = input?.quantity ?? 0;
+    if (outstanding === 0 && quantity === 0) return;
+
+    if (quantity !== outstanding) {
+      discrepancies.push({
+        productId: line.productId,
+        productName: line.productName,
+        kind: quantity < outstanding ? "short" : "over",
+        expected: outstanding,
+        actual: quantity,
+      });
+    }
+    if (
+      input &&
+      quantity > 0 &&
+      Math.abs(input.unitCost - line.expectedCost) >= 0.01
+    ) {
+      discrepancies.push({
+        productId: line.productId,
+        productName: line.productName,
+        kind: "price",
+        expected: line.expectedCost,
+        actual: input.unitCost,
+      });
+    }
+  });
+  return discrepancies;
+}
+
+export function getReceivingStatus(
+  lines: PurchaseOrderLine[],
+): PurchaseOrderStatus {
+  if (lines.every((line) => getOutstandingQuantity(line) === 0)) {
+    return "received";
+  }
+  return lines.some((line) => line.quantityReceived > 0)
+    ? "partially_received"
+    : "sent";
+}
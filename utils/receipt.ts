@@ -0,0 +1,287 @@
+import { PAYMENT_METHODS } from "@/constants/categories";
+import { PrinterSettings, Shop, Transaction } from "@/types";
+import {
+  MonochromeBitmap,
+  PAPER_COLUMNS,
+  PaperWidth,
+  ReceiptBlock,
+} from "./escpos";
+import { formatCurrency, formatDateTime } from "./format";
+import { getCashChange, getTransactionPayments } from "./payments";
+import { getTaxClassName, getTaxSummary } from "./tax";
+
+export interface ReceiptOptions {
+  width: PaperWidth;
+  // The sale a refund reverses, named on the credit note
+  original?: Transaction;
+  // Marks the receipt as a copy of one already printed
+  reprint?: boolean;
+  // The shop's own logo; printed instead of one stored on the printer
+  logo?: MonochromeBitmap;
+  printStoredLogo?: boolean;
+}
+
+export const DEFAULT_RECEIPT_FOOTER = "Thank you for shopping with us!";
+
+// Breaks text on spaces to fit the line; words longer than a line are split.
+export function wrapText(text: string, columns: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      while (word.length > columns) {
+        if (line) {
+          lines.push(line);
+          line = "";
+        }
+        lines.push(word.slice(0, columns));
+        word = word.slice(columns);
+      }
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= columns) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Left text and right-aligned amount on one line; the left side is cut short
+// rather than pushing the amount onto the next line.
+export function twoColumns(left: string, right: string, columns: number) {
+  const space = columns - right.length - 1;
+  const shown = left.length > space ? left.slice(0, Math.max(space, 0)) : left;
+  return `${shown}${" ".repeat(Math.max(columns - shown.length - right.length, 1))}${right}`;
+}
+
+const getMethodName = (method: string) =>
+  PAYMENT_METHODS.find((p) => p.id === method)?.name || method;
+
+function headerBlocks(
+  shop: Shop,
+  columns: number,
+  options: Pick<ReceiptOptions, "logo" | "printStoredLogo">,
+): ReceiptBlock[] {
+  const blocks: ReceiptBlock[] = [];
+  if (options.logo) {
+    blocks.push({ type: "image", bitmap: options.logo });
+  } else if (options.printStoredLogo) {
+    blocks.push({ type: "storedLogo" });
+  }
+  // Large text is double width, so half as many characters fit
+  wrapText(shop.name, Math.floor(columns / 2)).forEach((text) =>
+    blocks.push({
+      type: "text",
+      text,
+      align: "center",
+      bold: true,
+      large: true,
+    }),
+  );
+  [shop.address, shop.phone ? `Tel: ${shop.phone}` : undefined, shop.email]
+    .filter((text): text is string => !!text)
+    .forEach((detail) =>
+      wrapText(detail, columns).forEach((text) =>
+        blocks.push({ type: "text", text, align: "center" }),
+      ),
+    );
+  if (shop.taxId) {
+    blocks.push({ type: "text", text: `PIN: ${shop.taxId}`, align: "center" });
+  }
+  return blocks;
+}
+
+// Lays out a sale or refund receipt for a thermal printer of the given width.
+export function buildReceiptBlocks(
+  transaction: Transaction,
+  shop: Shop,
+  options: ReceiptOptions,
+): ReceiptBlock[] {
+  const columns = PAPER_COLUMNS[options.width];
+  const isRefund = transaction.kind === "refund";
+  const line = (left: string, right = ""): ReceiptBlock => ({
+    type: "text",
+    text: right ? twoColumns(left, right, columns) : left,
+  });
+  const blocks = headerBlocks(shop, columns, options);
+
+  blocks.push({ type: "divider" });
+  blocks.push({
+    type: "text",
+    text: isRefund ? "CREDIT NOTE" : "SALES RECEIPT",
+    align: "center",
+    bold: true,
+  });
+  if (options.reprint) {
+    blocks.push({ type: "text", text: "*** COPY ***", align: "center" });
+  }
+  if (transaction.paymentStatus === "voided") {
+    blocks.push({
+      type: "text",
+      text: "*** VOID ***",
+      align: "center",
+      bold: true,
+    });
+  }
+  blocks.push(line("Receipt:", transaction.transactionNumber));
+  if (options.original) {
+    blocks.push(line("Refund of:", options.original.transactionNumber));
+  }
+  blocks.push(line("Date:", formatDateTime(transaction.transactionDate)));
+  if (transaction.customerName) {
+    blocks.push(line("Customer:", transaction.customerName));
+  }
+  blocks.push({ type: "divider" });
+
+  transaction.items.forEach((item) => {
+    wrapText(item.productName, columns).forEach((text) =>
+      blocks.push({ type: "text", text }),
+    );
+    blocks.push(
+      line(
+        `  ${Math.abs(item.quantity)} x ${formatCurrency(item.unitPrice)}`,
+        formatCurrency(Math.abs(item.quantity * item.unitPrice)),
+      ),
+    );
+    if (item.discount !== 0) {
+      blocks.push(
+        line(
+          `  ${item.promotionName || "Discount"}`,
+          `-${formatCurrency(Math.abs(item.discount))}`,
+        ),
+      );
+    }
+  });
+  blocks.push({ type: "divider" });
+
+  blocks.push(line("Subtotal", formatCurrency(Math.abs(transaction.subtotal))));
+  if (transaction.discount !== 0) {
+    blocks.push(
+      line("Discount", `-${formatCurrency(Math.abs(transaction.discount))}`),
+    );
+  }
+  // Tax added at the till is part of the total; included tax is shown below
+  if (transaction.pricesIncludeTax === false && transaction.tax !== 0) {
+    blocks.push(line("VAT", formatCurrency(Math.abs(transaction.tax))));
+  }
+  blocks.push({
+    type: "text",
+    text: twoColumns(
+      isRefund ? "REFUND TOTAL" : "TOTAL",
+      formatCurrency(Math.abs(transaction.total)),
+      columns,
+    ),
+    bold: true,
+  });
+
+  const payments = getTransactionPayments(transaction);
+  payments.forEach((p) =>
+    blocks.push(
+      line(
+        p.reference
+          ? `${getMethodName(p.method)} ${p.reference}`
+          : getMethodName(p.method),
+        formatCurrency(Math.abs(p.tendered ?? p.amount)),
+      ),
+    ),
+  );
+  const change = getCashChange(payments);
+  if (change > 0) {
+    blocks.push(line("Change", formatCurrency(change)));
+  }
+
+  const taxSummary = transaction.tax !== 0 ? getTaxSummary([transaction]) : [];
+  if (taxSummary.length > 0) {
+    blocks.push({ type: "divider" });
+    taxSummary.forEach((t) => {
+      blocks.push(line(getTaxClassName(t.taxClass)));
+      blocks.push(
+        line(
+          `  Taxable ${formatCurrency(Math.abs(t.taxableAmount))}`,
+          `VAT ${formatCurrency(Math.abs(t.taxAmount))}`,
+        ),
+      );
+    });
+  }
+
+  const etims = transaction.etims;
+  if (etims?.status === "signed") {
+    blocks.push({ type: "divider" });
+    blocks.push({
+      type: "text",
+      text: "KRA eTIMS",
+      align: "center",
+      bold: true,
+    });
+    blocks.push(line("CU Invoice No:"));
+    blocks.push({ type: "text", text: etims.invoiceNumber || "" });
+    if (etims.internalData) {
+      blocks.push(line("Internal Data:"));
+      wrapText(etims.internalData, columns).forEach((text) =>
+        blocks.push({ type: "text", text }),
+      );
+    }
+    if (etims.receiptSignature) {
+      blocks.push(line("Receipt Signature:"));
+      blocks.push({ type: "text", text: etims.receiptSignature });
+    }
+    if (etims.signedAt) {
+      blocks.push(line("Signed:", formatDateTime(etims.signedAt)));
+    }
+    if (etims.qrData) {
+      blocks.push({
+        type: "qr",
+        data: etims.qrData,
+        size: options.width === 58 ? 5 : 6,
+      });
+    }
+  } else if (etims) {
+    blocks.push({ type: "divider" });
+    wrapText(
+      "eTIMS invoice pending. Ask for a copy once it has been sent to KRA.",
+      columns,
+    ).forEach((text) => blocks.push({ type: "text", text, align: "center" }));
+  }
+
+  blocks.push({ type: "divider" });
+  wrapText(shop.receiptFooter || DEFAULT_RECEIPT_FOOTER, columns).forEach(
+    (text) => blocks.push({ type: "text", text, align: "center" }),
+  );
+  blocks.push({ type: "feed", lines: 3 }, { type: "cut" });
+  return blocks;
+}
+
+// A short page to check the paper width and the connection to the printer
+export function buildTestPageBlocks(
+  shop: Shop,
+  settings: PrinterSettings,
+  logo?: MonochromeBitmap,
+): ReceiptBlock[] {
+  const columns = PAPER_COLUMNS[settings.paperWidth];
+  return [
+    ...headerBlocks(shop, columns, {
+      logo,
+      printStoredLogo: settings.printStoredLogo,
+    }),
+    { type: "divider" },
+    { type: "text", text: "PRINTER TEST", align: "center", bold: true },
+    {
+      type: "text",
+      text: `${settings.paperWidth}mm paper, ${columns} characters`,
+    },
+    {
+      type: "text",
+      text: "1234567890".repeat(Math.ceil(columns / 10)).slice(0, columns),
+    },
+    { type: "text", text: twoColumns("Left", "Right", columns) },
+    { type: "divider" },
+    { type: "feed", lines: 3 },
+    { type: "cut" },
+  ];
+}
@@ -0,0 +1,262 @@
+import { CreditTransaction, Customer } from "@/types";
+import { addToAging, AgingBreakdown, createEmptyAging } from "./aging";
+import { formatCurrency, formatDate, toLocalDateKey } from "./format";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OpenCreditSale {
+  entry: CreditTransaction;
+  outstanding: number;
+  daysOld: number;
+}
+
+export interface CustomerAging {
+  customer: Customer;
+  aging: AgingBreakdown;
+}
+
+export interface CustomerStatement {
+  customer: Customer;
+  from: string;
+  to: string;
+  openingBalance: number;
+  sales: number;
+  returns: number;
+  payments: number;
+  adjustments: number;
+  closingBalance: number;
+  entries: CreditTransaction[];
+}
+
+const getChange = (entry: CreditTransaction) =>
+  entry.balanceAfter - entry.balanceBefore;
+
+// The local YYYY-MM-DD day an entry falls on
+const getDay = (date: Date | string) => toLocalDateKey(date);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Anything that raised a customer's balance is a debt aged from the day it was
+// recorded. Payments, returns, voids and write-downs settle the oldest first.
+export function getOpenCreditSales(
+  entries: CreditTransaction[],
+  asOf: Date = new Date(),
+): OpenCreditSale[] {
+  const today = getDay(asOf);
+  const settled = new Map<string, number>();
+  entries
+    .filter((e) => getChange(e) < 0)
+    .forEach((e) =>
+      settled.set(
+        e.customerId,
+        (settled.get(e.customerId) || 0) - getChange(e),
+      ),
+    );
+
+  return entries
+    .filter((e) => getChange(e) > 0)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .reduce<OpenCreditSale[]>((open, entry) => {
+      const available = settled.get(entry.customerId) || 0;
+      const applied = Math.min(available, getChange(entry));
+      settled.set(entry.customerId, available - applied);
+      const outstanding = getChange(entry) - applied;
+      if (outstanding <= 0) return open;
+      return [
+        ...open,
+        {
+          entry,
+          outstanding,
+          daysOld: Math.max(daysBetween(getDay(entry.createdAt), today), 0),
+        },
+      ];
+    }, []);
+}
+
+export function ageReceivables(
+  entries: CreditTransaction[],
+  asOf: Date = new Date(),
+): AgingBreakdown {
+  return getOpenCreditSales(entries, asOf).reduce(
+    (aging, { outstanding, daysOld }) =>
+      addToAging(aging, outstanding, daysOld),
+    createEmptyAging(),
+  );
+}
+
+// One row per customer who still owes, oldest debt first.
+export function ageReceivablesByCustomer(
+  customers: Customer[],
+  entries: CreditTransaction[],
+  asOf: Date = new Date(),
+): CustomerAging[] {
+  return customers
+    .map((customer) => ({
+      customer,
+      aging: ageReceivables(
+        entries.filter((e) => e.customerId === customer.id),
+        asOf,
+      ),
+    }))
+    .filter(({ aging }) => aging.total > 0)
+    .sort(
+      (a, b) =>
+        b.aging.over90 - a.aging.over90 ||
+        b.aging.days90 - a.aging.days90 ||
+        b.aging.days60 - a.aging.days60 ||
+        b.aging.days30 - a.aging.days30 ||
+        b.aging.total - a.aging.total,
+    );
+}
+
+// `from` and `to` are inclusive YYYY-MM-DD days. The opening balance is read
+// from the ledger either side of the range, so it holds even when the
+// customer's history starts with an imported balance.
+export function buildCustomerStatement(
+  customer: Customer,
+  entries: CreditTransaction[],
+  from: string,
+  to: string,
+): CustomerStatement {
+  const ledger = entries
+    .filter((e) => e.customerId === customer.id)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const before = ledger.filter((e) => getDay(e.createdAt) < from);
+  const inRange = ledger.filter(
+    (e) => getDay(e.createdAt) >= from && getDay(e.createdAt) <= to,
+  );
+  const after = ledger.find((e) => getDay(e.createdAt) > to);
+
+  const openingBalance = before.length
+    ? before[before.length - 1].balanceAfter
+    : (inRange[0]?.balanceBefore ??
+      after?.balanceBefore ??
+      customer.currentBalance);
+
+  const sumOf = (types: CreditTransaction["type"][]) =>
+    inRange
+      .filter((e) => types.includes(e.type))
+      .reduce((sum, e) => sum + getChange(e), 0);
+  const sales = sumOf(["credit_sale"]);
+  const returns = -sumOf(["refund", "void"]);
+  const payments = -sumOf(["payment"]);
+  const adjustments = sumOf(["adjustment"]);
+
+  return {
+    customer,
+    from,
+    to,
+    openingBalance,
+    sales,
+    returns,
+    payments,
+    adjustments,
+    closingBalance: openingBalance + sales - returns - payments + adjustments,
+    entries: inRange,
+  };
+}
+
+export const STATEMENT_ENTRY_LABELS: Record<CreditTransaction["type"], string> =
+  {
+    credit_sale: "Credit Sale",
+    payment: "Payment Received",
+    adjustment: "Balance Adjustment",
+    refund: "Returned Goods",
+    void: "Voided Sale",
+  };
+
+export function formatStatementText(
+  statement: CustomerStatement,
+  shopName = "AgroVet POS",
+): string {
+  const lines = statement.entries.map((e) => {
+    const change = getChange(e);
+    return `${formatDate(e.createdAt)}  ${STATEMENT_ENTRY_LABELS[e.type]}  ${
+      change < 0 ? "-" : "+"
+    }${formatCurrency(Math.abs(change))}  Bal ${formatCurrency(e.balanceAfter)}`;
+  });
+
+  return `
+${shopName}
+Statement of Account
+-------------------
+${statement.customer.name}
+${statement.customer.phone}
+${formatDate(statement.from)} - ${formatDate(statement.to)}
+-------------------
+Opening balance: ${formatCurrency(statement.openingBalance)}
+Credit sales: ${formatCurrency(statement.sales)}
+Returns: -${formatCurrency(statement.returns)}
+Payments: -${formatCurrency(statement.payments)}
+Adjustments: ${formatCurrency(statement.adjustments)}
+Closing balance: ${formatCurrency(statement.closingBalance)}
+-------------------
+${lines.length ? lines.join("\n") : "No activity in this period"}
+-------------------
+  `.trim();
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Markup for expo-print to turn into a PDF.
+export function formatStatementHtml(
+  statement: CustomerStatement,
+  shopName = "AgroVet POS",
+): string {
+  const summary: [string, number][] = [
+    ["Opening balance", statement.openingBalance],
+    ["Credit sales", statement.sales],
+    ["Returns", -statement.returns],
+    ["Payments", -statement.payments],
+    ["Adjustments", statement.adjustments],
+  ];
+  const rows = statement.entries
+    .map((e) => {
+      const change = getChange(e);
+      return `<tr><td>${formatDate(e.createdAt)}</td><td>${
+        STATEMENT_ENTRY_LABELS[e.type]
+      }${e.notes ? `<br/><small>${escapeHtml(e.notes)}</small>` : ""}</td><td class="num">${
+        change < 0 ? "-" : ""
+      }${formatCurrency(Math.abs(change))}</td><td class="num">${formatCurrency(
+        e.balanceAfter,
+      )}</td></tr>`;
+    })
+    .join("");
+
+  return `<html><head><meta charset="utf-8"/><style>
+body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #222; padding: 24px; }
+h1 { font-size: 18px; margin: 0; }
+h2 { font-size: 14px; margin: 4px 0 16px; font-weight: normal; }
+table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+td, th { padding: 6px 4px; border-bottom: 1px solid #ddd; text-align: left; }
+.num { text-align: right; }
+.total td { font-weight: bold; border-top: 2px solid #222; }
+</style></head><body>
+<h1>${escapeHtml(shopName)}</h1>
+<h2>Statement of Account</h2>
+<p><strong>${escapeHtml(statement.customer.name)}</strong><br/>${escapeHtml(
+    statement.customer.phone,
+  )}<br/>${formatDate(statement.from)} - ${formatDate(statement.to)}</p>
+<table>${summary
+    .map(
+      ([label, amount]) =>
+        `<tr><td>${label}</td><td class="num">${
+          amount < 0 ? "-" : ""
+        }${formatCurrency(Math.abs(amount))}</td></tr>`,
+    )
+    .join(
+      "",
+    )}<tr class="total"><td>Closing balance</td><td class="num">${formatCurrency(
+    statement.closingBalance,
+  )}</td></tr></table>
+<table><tr><th>Date</th><th>Details</th><th class="num">Amount</th><th class="num">Balance</th></tr>${
+    rows || '<tr><td colspan="4">No activity in this period</td></tr>'
+  }</table>
+</body></html>`;
+}
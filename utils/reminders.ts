@@ -0,0 +1,121 @@
+import { CreditTransaction, Customer, PaymentReminder } from "@/types";
+import { formatCurrency, formatDate } from "./format";
+import { getOpenCreditSales } from "./receivables";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A customer is not reminded again within this many days of a reminder that
+// reached them.
+export const REMINDER_COOLDOWN_DAYS = 7;
+
+export const REMINDER_PLACEHOLDERS = [
+  { key: "name", description: "Customer name" },
+  { key: "balance", description: "Amount owed" },
+  { key: "oldestDueDate", description: "Date of the oldest unpaid sale" },
+  { key: "shopName", description: "Your shop name" },
+  { key: "shopPhone", description: "Your shop phone" },
+] as const;
+
+export type ReminderPlaceholder = (typeof REMINDER_PLACEHOLDERS)[number]["key"];
+
+export const DEFAULT_REMINDER_TEMPLATE =
+  "Hello {name}, your balance at {shopName} is {balance}, unpaid since {oldestDueDate}. Please arrange payment at your earliest convenience. Call {shopPhone} with any questions. Thank you!";
+
+export interface ReminderCriteria {
+  minBalance: number;
+  minDaysOverdue: number;
+}
+
+export interface ReminderCampaignResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ReminderTarget {
+  customer: Customer;
+  balance: number;
+  oldestDueDate?: string;
+  daysOverdue: number;
+  lastRemindedAt?: string;
+  // Set when the customer was reminded inside the cooldown window.
+  nextReminderAt?: string;
+}
+
+export function renderReminderTemplate(
+  template: string,
+  values: Record<ReminderPlaceholder, string>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key as ReminderPlaceholder] : match,
+  );
+}
+
+export function buildReminderMessage(
+  template: string,
+  target: ReminderTarget,
+  shop: { name?: string; phone?: string } | null,
+): string {
+  return renderReminderTemplate(template, {
+    name: target.customer.name,
+    balance: formatCurrency(target.balance),
+    oldestDueDate: target.oldestDueDate
+      ? formatDate(target.oldestDueDate)
+      : "recently",
+    shopName: shop?.name || "our shop",
+    shopPhone: shop?.phone || "",
+  }).trim();
+}
+
+export function getLastReminder(
+  reminders: PaymentReminder[],
+  customerId: string,
+): PaymentReminder | undefined {
+  return reminders
+    .filter((r) => r.customerId === customerId && r.status === "sent")
+    .reduce<
+      PaymentReminder | undefined
+    >((latest, r) => (!latest || r.sentAt > latest.sentAt ? r : latest), undefined);
+}
+
+export function getNextReminderAt(
+  reminders: PaymentReminder[],
+  customerId: string,
+  now: Date = new Date(),
+): string | undefined {
+  const last = getLastReminder(reminders, customerId);
+  if (!last) return undefined;
+  const next = Date.parse(last.sentAt) + REMINDER_COOLDOWN_DAYS * DAY_MS;
+  return next > now.getTime() ? new Date(next).toISOString() : undefined;
+}
+
+// Debtors matching the criteria, most overdue first. Customers still inside
+// the cooldown are included with nextReminderAt set so they can be shown but
+// not sent to.
+export function selectReminderTargets(
+  customers: Customer[],
+  creditTransactions: CreditTransaction[],
+  reminders: PaymentReminder[],
+  criteria: ReminderCriteria,
+  now: Date = new Date(),
+): ReminderTarget[] {
+  const openSales = getOpenCreditSales(creditTransactions, now);
+
+  return customers
+    .filter(
+      (c) => c.currentBalance > 0 && c.currentBalance >= criteria.minBalance,
+    )
+    .map((customer) => {
+      const oldest = openSales.find((s) => s.entry.customerId === customer.id);
+      return {
+        customer,
+        balance: customer.currentBalance,
+        oldestDueDate: oldest?.entry.createdAt,
+        daysOverdue: oldest?.daysOld ?? 0,
+        lastRemindedAt: getLastReminder(reminders, customer.id)?.sentAt,
+        nextReminderAt: getNextReminderAt(reminders, customer.id, now),
+      };
+    })
+    .filter((t) => t.daysOverdue >= criteria.minDaysOverdue)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue || b.balance - a.balance);
+}
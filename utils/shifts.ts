@@ -0,0 +1,267 @@
+import { PaymentMethodId, PAYMENT_METHODS } from "@/constants/categories";
+import { CreditTransaction, Shift, ShiftTotals, Transaction } from "@/types";
+import { formatCurrency, formatDateTime, toLocalDateKey } from "./format";
+import {
+  getCashChange,
+  getPaymentTotal,
+  getTransactionPayments,
+} from "./payments";
+
+type MethodAmount = { method: PaymentMethodId; amount: number };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const isInShift = (shift: Shift, date: string, until: string) =>
+  date >= shift.openedAt && date <= until;
+
+function addByMethod(lines: MethodAmount[]): MethodAmount[] {
+  const totals = new Map<PaymentMethodId, number>();
+  lines.forEach(({ method, amount }) =>
+    totals.set(method, (totals.get(method) || 0) + amount),
+  );
+  return Array.from(totals, ([method, amount]) => ({
+    method,
+    amount: roundCents(amount),
+  }))
+    .filter((entry) => entry.amount !== 0)
+    .sort((a, b) => b.amount - a.amount);
+}
+
+// The open shift a sale was rung up in. Once it is closed its totals are
+// kept as counted, so the sale can only be reversed with a return.
+export const getOpenShiftOf = (shifts: Shift[], transaction: Transaction) =>
+  shifts.find(
+    (s) =>
+      s.status === "open" &&
+      s.userId === transaction.userId &&
+      transaction.transactionDate >= s.openedAt,
+  );
+
+// Sales and refunds rung up by the shift's cashier while it was open. Voided
+// sales are left out: voiding hands the money back.
+export function getShiftTransactions(
+  shift: Shift,
+  transactions: Transaction[],
+  until: string = shift.closedAt || new Date().toISOString(),
+): Transaction[] {
+  return transactions.filter(
+    (t) =>
+      t.userId === shift.userId &&
+      t.paymentStatus !== "voided" &&
+      isInShift(shift, t.transactionDate, until),
+  );
+}
+
+export function getShiftAccountPayments(
+  shift: Shift,
+  creditTransactions: CreditTransaction[],
+  until: string = shift.closedAt || new Date().toISOString(),
+): CreditTransaction[] {
+  return creditTransactions.filter(
+    (t) =>
+      t.type === "payment" &&
+      t.createdBy === shift.userId &&
+      isInShift(shift, t.createdAt, until),
+  );
+}
+
+export function calculateShiftTotals(
+  shift: Shift,
+  transactions: Transaction[],
+  creditTransactions: CreditTransaction[],
+  until: string = shift.closedAt || new Date().toISOString(),
+): ShiftTotals {
+  const shiftTransactions = getShiftTransactions(shift, transactions, until);
+  const sales = shiftTransactions.filter((t) => t.kind !== "refund");
+  const refunds = shiftTransactions.filter((t) => t.kind === "refund");
+  const payments = shiftTransactions.flatMap(getTransactionPayments);
+  const accountPayments = getShiftAccountPayments(
+    shift,
+    creditTransactions,
+    until,
+  ).map((t) => ({
+    method: (t.paymentMethod || "cash") as PaymentMethodId,
+    amount: t.amount,
+  }));
+
+  // Change for M-Pesa rounded up to whole shillings comes out of the drawer
+  const salePayments = sales.flatMap(getTransactionPayments);
+  const cashSales = roundCents(
+    getPaymentTotal(salePayments, "cash") -
+      getCashChange(salePayments.filter((p) => p.method === "mpesa")),
+  );
+  const cashRefunds = -getPaymentTotal(
+    refunds.flatMap(getTransactionPayments),
+    "cash",
+  );
+  const cashPayments = getPaymentTotal(accountPayments, "cash");
+  const paidOuts = roundCents(
+    shift.paidOuts.reduce((sum, p) => sum + p.amount, 0),
+  );
+
+  return {
+    salesCount: sales.length,
+    refundCount: refunds.length,
+    grossSales: roundCents(sales.reduce((sum, t) => sum + t.total, 0)),
+    refunds: roundCents(-refunds.reduce((sum, t) => sum + t.total, 0)),
+    byMethod: addByMethod(payments),
+    accountPayments: addByMethod(accountPayments),
+    cashSales,
+    cashRefunds,
+    cashPayments,
+    paidOuts,
+    expectedCash: roundCents(
+      shift.openingFloat + cashSales - cashRefunds + cashPayments - paidOuts,
+    ),
+  };
+}
+
+export interface ZReportCashier {
+  userId: string;
+  userName: string;
+  shifts: Shift[];
+  openingFloat: number;
+  totals: ShiftTotals;
+  countedCash: number;
+  overShort: number;
+}
+
+export interface ZReport {
+  date: string;
+  cashiers: ZReportCashier[];
+  totals: ShiftTotals;
+  openingFloat: number;
+  countedCash: number;
+  overShort: number;
+  openShifts: Shift[];
+}
+
+function sumTotals(list: ShiftTotals[]): ShiftTotals {
+  const sum = (pick: (t: ShiftTotals) => number) =>
+    roundCents(list.reduce((total, t) => total + pick(t), 0));
+  return {
+    salesCount: sum((t) => t.salesCount),
+    refundCount: sum((t) => t.refundCount),
+    grossSales: sum((t) => t.grossSales),
+    refunds: sum((t) => t.refunds),
+    byMethod: addByMethod(list.flatMap((t) => t.byMethod)),
+    accountPayments: addByMethod(list.flatMap((t) => t.accountPayments)),
+    cashSales: sum((t) => t.cashSales),
+    cashRefunds: sum((t) => t.cashRefunds),
+    cashPayments: sum((t) => t.cashPayments),
+    paidOuts: sum((t) => t.paidOuts),
+    expectedCash: sum((t) => t.expectedCash),
+  };
+}
+
+// End-of-day report from the shifts closed on a local YYYY-MM-DD day, per
+// cashier. Shifts still open that day are listed so the report is not taken
+// as final while a till is running.
+export function buildZReport(shifts: Shift[], date: string): ZReport {
+  const closed = shifts.filter(
+    (s) =>
+      s.status === "closed" &&
+      s.closedAt &&
+      s.totals &&
+      toLocalDateKey(s.closedAt) === date,
+  );
+  const byCashier = new Map<string, Shift[]>();
+  closed.forEach((s) =>
+    byCashier.set(s.userId, [...(byCashier.get(s.userId) || []), s]),
+  );
+
+  const cashiers: ZReportCashier[] = Array.from(byCashier.values())
+    .map((cashierShifts) => ({
+      userId: cashierShifts[0].userId,
+      userName: cashierShifts[0].userName,
+      shifts: cashierShifts,
+      openingFloat: roundCents(
+        cashierShifts.reduce((sum, s) => sum + s.openingFloat, 0),
+      ),
+      totals: sumTotals(cashierShifts.map((s) => s.totals as ShiftTotals)),
+      countedCash: roundCents(
+        cashierShifts.reduce((sum, s) => sum + (s.countedCash || 0), 0),
+      ),
+      overShort: roundCents(
+        cashierShifts.reduce((sum, s) => sum + (s.overShort || 0), 0),
+      ),
+    }))
+    .sort((a, b) => a.userName.localeCompare(b.userName));
+
+  return {
+    date,
+    cashiers,
+    totals: sumTotals(cashiers.map((c) => c.totals)),
+    openingFloat: roundCents(
+      cashiers.reduce((sum, c) => sum + c.openingFloat, 0),
+    ),
+    countedCash: roundCents(
+      cashiers.reduce((sum, c) => sum + c.countedCash, 0),
+    ),
+    overShort: roundCents(cashiers.reduce((sum, c) => sum + c.overShort, 0)),
+    openShifts: shifts.filter(
+      (s) => s.status === "open" && toLocalDateKey(s.openedAt) <= date,
+    ),
+  };
+}
+
+export const getPaymentMethodName = (method: string) =>
+  PAYMENT_METHODS.find((m) => m.id === method)?.name || method;
+
+export const formatOverShort = (amount: number) =>
+  amount === 0
+    ? "Balanced"
+    : amount > 0
+      ? `Over ${formatCurrency(amount)}`
+      : `Short ${formatCurrency(-amount)}`;
+
+function formatTotalsLines(totals: ShiftTotals): string[] {
+  return [
+    `Sales (${totals.salesCount}): ${formatCurrency(totals.grossSales)}`,
+    `Refunds (${totals.refundCount}): -${formatCurrency(totals.refunds)}`,
+    ...totals.byMethod.map(
+      (m) => `  ${getPaymentMethodName(m.method)}: ${formatCurrency(m.amount)}`,
+    ),
+    ...(totals.accountPayments.length > 0
+      ? [
+          "Account payments received:",
+          ...totals.accountPayments.map(
+            (m) =>
+              `  ${getPaymentMethodName(m.method)}: ${formatCurrency(m.amount)}`,
+          ),
+        ]
+      : []),
+    `Paid out: -${formatCurrency(totals.paidOuts)}`,
+    `Expected cash: ${formatCurrency(totals.expectedCash)}`,
+  ];
+}
+
+export function formatZReportText(report: ZReport, shopName: string): string {
+  return [
+    shopName,
+    `Z-REPORT ${report.date}`,
+    "-------------------",
+    ...report.cashiers.flatMap((cashier) => [
+      `${cashier.userName} (${cashier.shifts.length} shift${cashier.shifts.length !== 1 ? "s" : ""})`,
+      ...cashier.shifts.map(
+        (s) =>
+          `  ${formatDateTime(s.openedAt)} - ${s.closedAt ? formatDateTime(s.closedAt) : "open"}`,
+      ),
+      `Float: ${formatCurrency(cashier.openingFloat)}`,
+      ...formatTotalsLines(cashier.totals),
+      `Counted cash: ${formatCurrency(cashier.countedCash)}`,
+      formatOverShort(cashier.overShort),
+      "-------------------",
+    ]),
+    "ALL CASHIERS",
+    ...formatTotalsLines(report.totals),
+    `Counted cash: ${formatCurrency(report.countedCash)}`,
+    formatOverShort(report.overShort),
+    ...(report.openShifts.length > 0
+      ? [
+          "",
+          `Still open: ${report.openShifts.map((s) => s.userName).join(", ")}`,
+        ]
+      : []),
+  ].join("\n");
+}
@@ -0,0 +1,15 @@
+let currentShopId: string | null = null;
+
+export function setCurrentShopId(shopId: string | null) {
+  currentShopId = shopId;
+}
+
+export function getCurrentShopId(): string | null {
+  return currentShopId;
+}
+
+// Suffixes a local storage key with the signed-in shop so several shops using
+// one device never read each other's cached data.
+export function scopeKey(key: string): string {
+  return currentShopId ? `${key}:${currentShopId}` : key;
+}
@@ -0,0 +1,46 @@
+export interface SmsSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+// Anything that can deliver a text message. Real providers (Africa's Talking,
+// an Edge Function, ...) implement this and are installed with
+// setSmsGateway; until then messages go to the mock below.
+export interface SmsGateway {
+  id: string;
+  name: string;
+  send(to: string, message: string): Promise<SmsSendResult>;
+}
+
+const KENYAN_MOBILE = /^(?:\+?254|0)(?:7|1)\d{8}$/;
+
+export const normalizeKenyanPhone = (phone: string): string | null => {
+  const digits = phone.replace(/[\s-]/g, "");
+  if (!KENYAN_MOBILE.test(digits)) return null;
+  return `+254${digits.slice(-9)}`;
+};
+
+// Accepts every valid Kenyan mobile number without sending anything, so
+// campaigns can be tried out end to end.
+export const MockSmsGateway: SmsGateway = {
+  id: "mock",
+  name: "Test gateway (no messages sent)",
+  async send(to, message) {
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    const recipient = normalizeKenyanPhone(to);
+    if (!recipient) {
+      return { success: false, error: `Invalid phone number: ${to}` };
+    }
+    console.log(`[SMS mock] to ${recipient}: ${message}`);
+    return { success: true, messageId: `mock-${Date.now().toString(36)}` };
+  },
+};
+
+let activeGateway: SmsGateway = MockSmsGateway;
+
+export const getSmsGateway = (): SmsGateway => activeGateway;
+
+export const setSmsGateway = (gateway: SmsGateway) => {
+  activeGateway = gateway;
+};
@@ -0,0 +1,48 @@
+import { InventoryBatch, StockMovement } from "@/types";
+
+export interface StockDiscrepancy {
+  batchId: string;
+  productId: string;
+  batchNumber: string;
+  recorded: number;
+  derived: number;
+}
+
+// Quantities are stored to three decimals; anything smaller is float noise.
+const EPSILON = 0.0005;
+
+export const deriveBatchQuantities = (
+  movements: StockMovement[],
+): Map<string, number> => {
+  const quantities = new Map<string, number>();
+  movements.forEach((m) => {
+    quantities.set(m.batchId, (quantities.get(m.batchId) || 0) + m.quantity);
+  });
+  return quantities;
+};
+
+export const deriveProductQuantity = (
+  movements: StockMovement[],
+  productId: string,
+): number =>
+  movements
+    .filter((m) => m.productId === productId)
+    .reduce((sum, m) => sum + m.quantity, 0);
+
+// Batches whose stored quantity differs from the sum of their ledger entries,
+// i.e. stock that changed without a recorded reason.
+export const reconcileStock = (
+  batches: InventoryBatch[],
+  movements: StockMovement[],
+): StockDiscrepancy[] => {
+  const derived = deriveBatchQuantities(movements);
+  return batches
+    .map((batch) => ({
+      batchId: batch.id,
+      productId: batch.productId,
+      batchNumber: batch.batchNumber,
+      recorded: batch.quantity,
+      derived: derived.get(batch.id) || 0,
+    }))
+    .filter((d) => Math.abs(d.recorded - d.derived) > EPSILON);
+};
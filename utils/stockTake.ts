@@ -0,0 +1,208 @@
+import { InventoryBatch, Product, StockTake, StockTakeItem } from "@/types";
+import { sortBatchesFefo } from "./batches";
+
+export interface StockTakeVariance {
+  counted: number;
+  quantity: number;
+  value: number;
+}
+
+export interface StockTakeSummary {
+  totalItems: number;
+  countedItems: number;
+  shortageValue: number;
+  surplusValue: number;
+  netValue: number;
+}
+
+export interface StockCorrection {
+  productId: string;
+  batchId: string;
+  batchNumber: string;
+  quantity: number;
+}
+
+// Counted stock of a product that has no batch left to put it in.
+export interface UnbatchedSurplus {
+  productId: string;
+  quantity: number;
+  costPerUnit: number;
+}
+
+export interface StockTakePlan {
+  corrections: StockCorrection[];
+  unbatchedSurplus: UnbatchedSurplus[];
+}
+
+// Snapshots the expected quantity of every active product (optionally one
+// category), with its batches so they can be counted individually.
+export function createStockTakeItems(
+  products: Product[],
+  batches: InventoryBatch[],
+  categoryId?: string,
+): StockTakeItem[] {
+  return products
+    .filter((p) => p.active && (!categoryId || p.category === categoryId))
+    .map((product) => {
+      const productBatches = sortBatchesFefo(
+        batches.filter((b) => b.productId === product.id && b.quantity > 0),
+      );
+      return {
+        productId: product.id,
+        productName: product.name,
+        category: product.category,
+        costPrice: product.costPrice,
+        expectedQuantity: productBatches.reduce(
+          (sum, b) => sum + b.quantity,
+          0,
+        ),
+        batches: productBatches.map((b) => ({
+          batchId: b.id,
+          batchNumber: b.batchNumber,
+          costPerUnit: b.costPerUnit,
+          expectedQuantity: b.quantity,
+        })),
+      };
+    })
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
+
+const isBatchCounted = (item: StockTakeItem) =>
+  item.batches.some((b) => b.countedQuantity !== undefined);
+
+// Average cost of the frozen stock, falling back to the product cost price.
+const averageCost = (item: StockTakeItem) =>
+  item.expectedQuantity > 0
+    ? item.batches.reduce(
+        (sum, b) => sum + b.expectedQuantity * b.costPerUnit,
+        0,
+      ) / item.expectedQuantity
+    : item.costPrice;
+
+// Batches left blank in a batch-by-batch count are taken as matching.
+export function getStockTakeVariance(
+  item: StockTakeItem,
+): StockTakeVariance | null {
+  if (isBatchCounted(item)) {
+    return item.batches.reduce<StockTakeVariance>(
+      (total, b) => {
+        const counted = b.countedQuantity ?? b.expectedQuantity;
+        const quantity = counted - b.expectedQuantity;
+        return {
+          counted: total.counted + counted,
+          quantity: total.quantity + quantity,
+          value: total.value + quantity * b.costPerUnit,
+        };
+      },
+      { counted: 0, quantity: 0, value: 0 },
+    );
+  }
+  if (item.countedQuantity === undefined) return null;
+  const quantity = item.countedQuantity - item.expectedQuantity;
+  return {
+    counted: item.countedQuantity,
+    quantity,
+    value: quantity * averageCost(item),
+  };
+}
+
+export function summarizeStockTake(stockTake: StockTake): StockTakeSummary {
+  return stockTake.items.reduce<StockTakeSummary>(
+    (summary, item) => {
+      const variance = getStockTakeVariance(item);
+      if (!variance) return summary;
+      return {
+        ...summary,
+        countedItems: summary.countedItems + 1,
+        shortageValue: summary.shortageValue - Math.min(variance.value, 0),
+        surplusValue: summary.surplusValue + Math.max(variance.value, 0),
+        netValue: summary.netValue + variance.value,
+      };
+    },
+    {
+      totalItems: stockTake.items.length,
+      countedItems: 0,
+      shortageValue: 0,
+      surplusValue: 0,
+      netValue: 0,
+    },
+  );
+}
+
+// Turns the counted variances into batch corrections. Variances are applied
+// to the current quantities rather than overwriting them, so stock sold since
+// the count started is not lost. A whole-product shortfall comes off the
+// batches first-expiry-first-out; a surplus goes to the newest batch.
+export function planStockTakeCorrections(
+  stockTake: StockTake,
+  batches: InventoryBatch[],
+): StockTakePlan {
+  const corrections: StockCorrection[] = [];
+  const unbatchedSurplus: UnbatchedSurplus[] = [];
+  const current = new Map(batches.map((b) => [b.id, b]));
+
+  stockTake.items.forEach((item) => {
+    if (isBatchCounted(item)) {
+      item.batches.forEach((count) => {
+        const batch = current.get(count.batchId);
+        if (!batch || count.countedQuantity === undefined) return;
+        const quantity = Math.max(
+          count.countedQuantity - count.expectedQuantity,
+          -batch.quantity,
+        );
+        if (quantity !== 0) {
+          corrections.push({
+            productId: item.productId,
+            batchId: batch.id,
+            batchNumber: batch.batchNumber,
+            quantity,
+          });
+        }
+      });
+      return;
+    }
+
+    const variance = getStockTakeVariance(item);
+    if (!variance || variance.quantity === 0) return;
+    const productBatches = batches.filter(
+      (b) => b.productId === item.productId,
+    );
+
+    if (variance.quantity > 0) {
+      const newest = [...productBatches].sort((a, b) =>
+        b.purchaseDate.localeCompare(a.purchaseDate),
+      )[0];
+      if (newest) {
+        corrections.push({
+          productId: item.productId,
+          batchId: newest.id,
+          batchNumber: newest.batchNumber,
+          quantity: variance.quantity,
+        });
+      } else {
+        unbatchedSurplus.push({
+          productId: item.productId,
+          quantity: variance.quantity,
+          costPerUnit: item.costPrice,
+        });
+      }
+      return;
+    }
+
+    let shortfall = -variance.quantity;
+    for (const batch of sortBatchesFefo(productBatches)) {
+      if (shortfall <= 0) break;
+      const take = Math.min(batch.quantity, shortfall);
+      if (take <= 0) continue;
+      corrections.push({
+        productId: item.productId,
+        batchId: batch.id,
+        batchNumber: batch.batchNumber,
+        quantity: -take,
+      });
+      shortfall -= take;
+    }
+  });
+
+  return { corrections, unbatchedSurplus };
+}
@@ -1,8 +1,41 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as FileSystem from "expo-file-system";
 import { decode } from "base64-arraybuffer";
-import { supabase, isSupabaseConfigured, getSupabaseUrl } from "./supabase";
-import { Product, Customer, Supplier, Transaction, InventoryBatch, User, ScannedReceipt, PurchasePriceRecord, CreditTransaction } from "@/types";
+import {
+  supabase,
+  isSupabaseConfigured,
+  getSupabaseUrl,
+  getSupabase,
+} from "./supabase";
+import { SyncQueue } from "./syncQueue";
+import { ConflictStorage } from "./conflictResolver";
+import { getCurrentShopId, scopeKey, setCurrentShopId } from "./shopScope";
+import {
+  Product,
+  Customer,
+  Supplier,
+  Transaction,
+  InventoryBatch,
+  User,
+  ScannedReceipt,
+  PurchasePriceRecord,
+  CreditTransaction,
+  BatchDeduction,
+  ReturnLine,
+  StockWriteOff,
+  StockMovement,
+  StockTake,
+  PurchaseOrder,
+  SupplierTransaction,
+  PaymentReminder,
+  TransactionPayment,
+  Shift,
+  DailySummary,
+  Promotion,
+  EtimsRecord,
+  PrinterSettings,
+} from "@/types";
+import { isBatchExpired } from "./batches";
 
 const STORAGE_KEYS = {
   PRODUCTS: "@agrovet_products",
@@ -16,12 +49,22 @@ const STORAGE_KEYS = {
   SETTINGS: "@agrovet_settings",
   PRICE_HISTORY: "@agrovet_price_history",
   CREDIT_TRANSACTIONS: "@agrovet_credit_transactions",
+  WRITE_OFFS: "@agrovet_write_offs",
+  STOCK_MOVEMENTS: "@agrovet_stock_movements",
+  STOCK_TAKES: "@agrovet_stock_takes",
+  PURCHASE_ORDERS: "@agrovet_purchase_orders",
+  SUPPLIER_TRANSACTIONS: "@agrovet_supplier_transactions",
+  PAYMENT_REMINDERS: "@agrovet_payment_reminders",
+  SHIFTS: "@agrovet_shifts",
+  DAILY_SUMMARIES: "@agrovet_daily_summaries",
+  PROMOTIONS: "@agrovet_promotions",
+  PRINTER_SETTINGS: "@agrovet_printer_settings",
   DATA_CLEARED: "@agrovet_data_cleared",
 };
 
 async function getItem<T>(key: string): Promise<T | null> {
   try {
-    const value = await AsyncStorage.getItem(key);
+    const value = await AsyncStorage.getItem(scopeKey(key));
     return value ? JSON.parse(value) : null;
   } catch (error) {
     console.error(`Error reading ${key}:`, error);
@@ -31,7 +74,7 @@ async function getItem<T>(key: string): Promise<T | null> {
 
 async function setItem<T>(key: string, value: T): Promise<boolean> {
   try {
-    await AsyncStorage.setItem(key, JSON.stringify(value));
+    await AsyncStorage.setItem(scopeKey(key), JSON.stringify(value));
     return true;
   } catch (error) {
     console.error(`Error saving ${key}:`, error);
@@ -39,9 +82,95 @@ async function setItem<T>(key: string, value: T): Promise<boolean> {
   }
 }
 
+async function setItems(entries: [string, unknown][]): Promise<boolean> {
+  try {
+    await AsyncStorage.multiSet(
+      entries.map(([key, value]) => [scopeKey(key), JSON.stringify(value)]),
+    );
+    return true;
+  } catch (error) {
+    console.error("Error saving multiple items:", error);
+    return false;
+  }
+}
+
+// Cloud reads only replace the local cache when nothing for the table is still
+// waiting in the sync queue, otherwise unsynced local edits would be lost.
+async function canRefreshFromCloud(table: string): Promise<boolean> {
+  return (
+    isSupabaseConfigured() &&
+    !!getCurrentShopId() &&
+    !(await SyncQueue.hasPending(table))
+  );
+}
+
+type DbRow = Record<string, unknown>;
+type Versioned = { id: string; updatedAt?: string };
+
+function stampUpdatedAt<T extends Versioned>(record: T): T {
+  return { ...record, updatedAt: new Date().toISOString() };
+}
+
+// Keeps a cached record over its cloud copy when the local edit is newer.
+async function mergeByUpdatedAt<T extends Versioned>(
+  key: string,
+  remote: T[],
+): Promise<T[]> {
+  const cached = new Map(
+    ((await getItem<T[]>(key)) || []).map((r) => [r.id, r]),
+  );
+  return remote.map((record) => {
+    const local = cached.get(record.id);
+    if (
+      local?.updatedAt &&
+      record.updatedAt &&
+      new Date(local.updatedAt) > new Date(record.updatedAt)
+    ) {
+      return local;
+    }
+    return record;
+  });
+}
+
+// Saves a whole collection but only queues the records that actually changed,
+// each carrying its previous cached row as the base for conflict merging.
+async function saveVersioned<T extends Versioned>(
+  key: string,
+  table: string,
+  records: T[],
+  toDb: (record: T) => DbRow,
+): Promise<boolean> {
+  const previous = new Map(
+    ((await getItem<T[]>(key)) || []).map((r) => [r.id, r]),
+  );
+  const changes: { record: T; base?: DbRow }[] = [];
+  const stamped = records.map((record) => {
+    const cached = previous.get(record.id);
+    if (
+      cached &&
+      JSON.stringify(toDb(cached)) === JSON.stringify(toDb(record))
+    ) {
+      return record;
+    }
+    const updated = stampUpdatedAt(record);
+    changes.push({ record: updated, base: cached ? toDb(cached) : undefined });
+    return updated;
+  });
+  const localSave = await setItem(key, stamped);
+  for (const { record, base } of changes) {
+    await SyncQueue.enqueue({
+      table,
+      operation: "upsert",
+      payload: toDb(record),
+      base,
+    });
+  }
+  return localSave;
+}
+
 async function removeItem(key: string): Promise<boolean> {
   try {
-    await AsyncStorage.removeItem(key);
+    await AsyncStorage.removeItem(scopeKey(key));
     return true;
   } catch (error) {
     console.error(`Error removing ${key}:`, error);
@@ -51,15 +180,19 @@ async function removeItem(key: string): Promise<boolean> {
 
 export const ProductStorage = {
   async getAll(): Promise<Product[]> {
-    if (isSupabaseConfigured()) {
+    if (await canRefreshFromCloud("products")) {
       try {
         const { data, error } = await supabase
           .from('products')
           .select('*')
+          .eq("shop_id", getCurrentShopId())
           .order('created_at', { ascending: false });
         if (error) throw error;
         if (data && data.length > 0) {
-          const products = data.map(mapDbToProduct);
+          const products = await mergeByUpdatedAt<Product>(
+            STORAGE_KEYS.PRODUCTS,
+            data.map(mapDbToProduct),
+          );
           await setItem(STORAGE_KEYS.PRODUCTS, products);
           return products;
         }
@@ -70,63 +203,51 @@ export const ProductStorage = {
     return (await getItem<Product[]>(STORAGE_KEYS.PRODUCTS)) || [];
   },
   async save(products: Product[]): Promise<boolean> {
-    const localSave = await setItem(STORAGE_KEYS.PRODUCTS, products);
-    if (isSupabaseConfigured()) {
-      try {
-        for (const product of products) {
-          await supabase.from('products').upsert(mapProductToDb(product));
-        }
-      } catch (error) {
-        console.error('Error syncing products to Supabase:', error);
-      }
-    }
-    return localSave;
+    return saveVersioned(
+      STORAGE_KEYS.PRODUCTS,
+      "products",
+      products,
+      mapProductToDb,
+    );
   },
   async add(product: Product): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('products').insert(mapProductToDb(product));
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error adding product to Supabase:', error);
-      }
-    }
     const products = await this.getAll();
-    products.push(product);
-    return setItem(STORAGE_KEYS.PRODUCTS, products);
+    const stamped = stampUpdatedAt(product);
+    products.push(stamped);
+    const localSave = await setItem(STORAGE_KEYS.PRODUCTS, products);
+    await SyncQueue.enqueue({
+      table: "products",
+      operation: "upsert",
+      payload: mapProductToDb(stamped),
+    });
+    return localSave;
   },
   async update(product: Product): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase
-          .from('products')
-          .update(mapProductToDb(product))
-          .eq('id', product.id);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error updating product in Supabase:', error);
-      }
-    }
     const products = await this.getAll();
     const index = products.findIndex((p) => p.id === product.id);
-    if (index !== -1) {
-      products[index] = product;
-      return setItem(STORAGE_KEYS.PRODUCTS, products);
-    }
-    return false;
+    if (index === -1) return false;
+    const base = mapProductToDb(products[index]);
+    products[index] = stampUpdatedAt(product);
+    const localSave = await setItem(STORAGE_KEYS.PRODUCTS, products);
+    await SyncQueue.enqueue({
+      table: "products",
+      operation: "update",
+      payload: mapProductToDb(products[index]),
+      match: { column: "id", value: product.id },
+      base,
+    });
+    return localSave;
   },
   async delete(id: string): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('products').delete().eq('id', id);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error deleting product from Supabase:', error);
-      }
-    }
     const products = await this.getAll();
     const filtered = products.filter((p) => p.id !== id);
-    return setItem(STORAGE_KEYS.PRODUCTS, filtered);
+    const localSave = await setItem(STORAGE_KEYS.PRODUCTS, filtered);
+    await SyncQueue.enqueue({
+      table: "products",
+      operation: "delete",
+      match: { column: "id", value: id },
+    });
+    return localSave;
   },
   async getById(id: string): Promise<Product | null> {
     const products = await this.getAll();
@@ -146,15 +267,19 @@ export const ProductStorage = {
 
 export const CustomerStorage = {
   async getAll(): Promise<Customer[]> {
-    if (isSupabaseConfigured()) {
+    if (await canRefreshFromCloud("customers")) {
       try {
         const { data, error } = await supabase
           .from('customers')
           .select('*')
+          .eq("shop_id", getCurrentShopId())
           .order('name', { ascending: true });
         if (error) throw error;
         if (data && data.length > 0) {
-          const customers = data.map(mapDbToCustomer);
+          const customers = await mergeByUpdatedAt<Customer>(
+            STORAGE_KEYS.CUSTOMERS,
+            data.map(mapDbToCustomer),
+          );
           await setItem(STORAGE_KEYS.CUSTOMERS, customers);
           return customers;
         }
@@ -165,63 +290,51 @@ export const CustomerStorage = {
     return (await getItem<Customer[]>(STORAGE_KEYS.CUSTOMERS)) || [];
   },
   async save(customers: Customer[]): Promise<boolean> {
-    const localSave = await setItem(STORAGE_KEYS.CUSTOMERS, customers);
-    if (isSupabaseConfigured()) {
-      try {
-        for (const customer of customers) {
-          await supabase.from('customers').upsert(mapCustomerToDb(customer));
-        }
-      } catch (error) {
-        console.error('Error syncing customers to Supabase:', error);
-      }
-    }
-    return localSave;
+    return saveVersioned(
+      STORAGE_KEYS.CUSTOMERS,
+      "customers",
+      customers,
+      mapCustomerToDb,
+    );
   },
   async add(customer: Customer): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('customers').insert(mapCustomerToDb(customer));
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error adding customer to Supabase:', error);
-      }
-    }
     const customers = await this.getAll();
-    customers.push(customer);
-    return setItem(STORAGE_KEYS.CUSTOMERS, customers);
+    const stamped = stampUpdatedAt(customer);
+    customers.push(stamped);
+    const localSave = await setItem(STORAGE_KEYS.CUSTOMERS, customers);
+    await SyncQueue.enqueue({
+      table: "customers",
+      operation: "upsert",
+      payload: mapCustomerToDb(stamped),
+    });
+    return localSave;
   },
   async update(customer: Customer): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase
-          .from('customers')
-          .update(mapCustomerToDb(customer))
-          .eq('id', customer.id);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error updating customer in Supabase:', error);
-      }
-    }
     const customers = await this.getAll();
     const index = customers.findIndex((c) => c.id === customer.id);
-    if (index !== -1) {
-      customers[index] = customer;
-      return setItem(STORAGE_KEYS.CUSTOMERS, customers);
-    }
-    return false;
+    if (index === -1) return false;
+    const base = mapCustomerToDb(customers[index]);
+    customers[index] = stampUpdatedAt(customer);
+    const localSave = await setItem(STORAGE_KEYS.CUSTOMERS, customers);
+    await SyncQueue.enqueue({
+      table: "customers",
+      operation: "update",
+      payload: mapCustomerToDb(customers[index]),
+      match: { column: "id", value: customer.id },
+      base,
+    });
+    return localSave;
   },
   async delete(id: string): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('customers').delete().eq('id', id);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error deleting customer from Supabase:', error);
-      }
-    }
     const customers = await this.getAll();
     const filtered = customers.filter((c) => c.id !== id);
-    return setItem(STORAGE_KEYS.CUSTOMERS, filtered);
+    const localSave = await setItem(STORAGE_KEYS.CUSTOMERS, filtered);
+    await SyncQueue.enqueue({
+      table: "customers",
+      operation: "delete",
+      match: { column: "id", value: id },
+    });
+    return localSave;
   },
   async getById(id: string): Promise<Customer | null> {
     const customers = await this.getAll();
@@ -231,15 +344,19 @@ export const CustomerStorage = {
 
 export const SupplierStorage = {
   async getAll(): Promise<Supplier[]> {
-    if (isSupabaseConfigured()) {
+    if (await canRefreshFromCloud("suppliers")) {
       try {
         const { data, error } = await supabase
           .from('suppliers')
           .select('*')
+          .eq("shop_id", getCurrentShopId())
           .order('name', { ascending: true });
         if (error) throw error;
         if (data && data.length > 0) {
-          const suppliers = data.map(mapDbToSupplier);
+          const suppliers = await mergeByUpdatedAt<Supplier>(
+            STORAGE_KEYS.SUPPLIERS,
+            data.map(mapDbToSupplier),
+          );
           await setItem(STORAGE_KEYS.SUPPLIERS, suppliers);
           return suppliers;
         }
@@ -250,73 +367,114 @@ export const SupplierStorage = {
     return (await getItem<Supplier[]>(STORAGE_KEYS.SUPPLIERS)) || [];
   },
   async save(suppliers: Supplier[]): Promise<boolean> {
-    const localSave = await setItem(STORAGE_KEYS.SUPPLIERS, suppliers);
-    if (isSupabaseConfigured()) {
-      try {
-        for (const supplier of suppliers) {
-          await supabase.from('suppliers').upsert(mapSupplierToDb(supplier));
-        }
-      } catch (error) {
-        console.error('Error syncing suppliers to Supabase:', error);
-      }
-    }
-    return localSave;
+    return saveVersioned(
+      STORAGE_KEYS.SUPPLIERS,
+      "suppliers",
+      suppliers,
+      mapSupplierToDb,
+    );
   },
   async add(supplier: Supplier): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('suppliers').insert(mapSupplierToDb(supplier));
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error adding supplier to Supabase:', error);
-      }
-    }
     const suppliers = await this.getAll();
-    suppliers.push(supplier);
-    return setItem(STORAGE_KEYS.SUPPLIERS, suppliers);
+    const stamped = stampUpdatedAt(supplier);
+    suppliers.push(stamped);
+    const localSave = await setItem(STORAGE_KEYS.SUPPLIERS, suppliers);
+    await SyncQueue.enqueue({
+      table: "suppliers",
+      operation: "upsert",
+      payload: mapSupplierToDb(stamped),
+    });
+    return localSave;
   },
   async update(supplier: Supplier): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase
-          .from('suppliers')
-          .update(mapSupplierToDb(supplier))
-          .eq('id', supplier.id);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error updating supplier in Supabase:', error);
-      }
-    }
     const suppliers = await this.getAll();
     const index = suppliers.findIndex((s) => s.id === supplier.id);
-    if (index !== -1) {
-      suppliers[index] = supplier;
-      return setItem(STORAGE_KEYS.SUPPLIERS, suppliers);
-    }
-    return false;
+    if (index === -1) return false;
+    const base = mapSupplierToDb(suppliers[index]);
+    suppliers[index] = stampUpdatedAt(supplier);
+    const localSave = await setItem(STORAGE_KEYS.SUPPLIERS, suppliers);
+    await SyncQueue.enqueue({
+      table: "suppliers",
+      operation: "update",
+      payload: mapSupplierToDb(suppliers[index]),
+      match: { column: "id", value: supplier.id },
+      base,
+    });
+    return localSave;
   },
   async delete(id: string): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('suppliers').delete().eq('id', id);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error deleting supplier from Supabase:', error);
-      }
-    }
     const suppliers = await this.getAll();
     const filtered = suppliers.filter((s) => s.id !== id);
-    return setItem(STORAGE_KEYS.SUPPLIERS, filtered);
+    const localSave = await setItem(STORAGE_KEYS.SUPPLIERS, filtered);
+    await SyncQueue.enqueue({
+      table: "suppliers",
+      operation: "delete",
+      match: { column: "id", value: id },
+    });
+    return localSave;
   },
 };
 
+export interface SaleCommit {
+  transaction: Transaction;
+  batchDeductions: BatchDeduction[];
+  creditTransaction?: CreditTransaction;
+  stockMovements: StockMovement[];
+}
+
+export interface RefundCommit {
+  refund: Transaction;
+  original: Transaction;
+  returnLines: ReturnLine[];
+  batchRestocks: BatchDeduction[];
+  creditTransaction?: CreditTransaction;
+  stockMovements: StockMovement[];
+}
+
+export interface VoidCommit {
+  transaction: Transaction;
+  batchRestocks: BatchDeduction[];
+  creditTransaction?: CreditTransaction;
+  stockMovements: StockMovement[];
+}
+
+// Ledger entries ride along with the commit that moved the stock, so the
+// ledger and the batch quantities are always written together.
+async function withStockMovements(
+  entries: [string, unknown][],
+  movements: StockMovement[],
+): Promise<[string, unknown][]> {
+  if (movements.length === 0) return entries;
+  const existing =
+    (await getItem<StockMovement[]>(STORAGE_KEYS.STOCK_MOVEMENTS)) || [];
+  return [
+    ...entries,
+    [STORAGE_KEYS.STOCK_MOVEMENTS, [...movements, ...existing]],
+  ];
+}
+
+export function applyBatchDeductions(
+  batches: InventoryBatch[],
+  deductions: BatchDeduction[],
+): InventoryBatch[] {
+  return batches.map((batch) => {
+    const deducted = deductions
+      .filter((d) => d.batchId === batch.id)
+      .reduce((sum, d) => sum + d.quantity, 0);
+    return deducted !== 0
+      ? { ...batch, quantity: batch.quantity - deducted }
+      : batch;
+  });
+}
+
 export const TransactionStorage = {
   async getAll(): Promise<Transaction[]> {
-    if (isSupabaseConfigured()) {
+    if (await canRefreshFromCloud("transactions")) {
       try {
         const { data, error } = await supabase
           .from('transactions')
           .select('*, transaction_items(*)')
+          .eq("shop_id", getCurrentShopId())
           .order('transaction_date', { ascending: false });
         if (error) throw error;
         if (data && data.length > 0) {
@@ -334,22 +492,295 @@ export const TransactionStorage = {
     return setItem(STORAGE_KEYS.TRANSACTIONS, transactions);
   },
   async add(transaction: Transaction): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { transactionData, itemsData } = mapTransactionToDb(transaction);
-        const { error: txError } = await supabase.from('transactions').insert(transactionData);
-        if (txError) throw txError;
-        if (itemsData.length > 0) {
-          const { error: itemsError } = await supabase.from('transaction_items').insert(itemsData);
-          if (itemsError) throw itemsError;
-        }
-      } catch (error) {
-        console.error('Error adding transaction to Supabase:', error);
-      }
-    }
     const transactions = await this.getAll();
     transactions.unshift(transaction);
-    return setItem(STORAGE_KEYS.TRANSACTIONS, transactions);
+    const localSave = await setItem(STORAGE_KEYS.TRANSACTIONS, transactions);
+    const { transactionData, itemsData } = mapTransactionToDb(transaction);
+    await SyncQueue.enqueue({
+      table: "transactions",
+      operation: "upsert",
+      payload: transactionData,
+    });
+    for (const item of itemsData) {
+      await SyncQueue.enqueue({
+        table: "transaction_items",
+        operation: "upsert",
+        payload: item,
+      });
+    }
+    return localSave;
+  },
+  // Applies every effect of a sale to the local cache in one write and queues
+  // them as a single complete_sale call, so the sale, stock and customer
+  // balance are never left half-updated on either side.
+  async commitSale({
+    transaction,
+    batchDeductions,
+    creditTransaction,
+    stockMovements,
+  }: SaleCommit): Promise<boolean> {
+    const transactions =
+      (await getItem<Transaction[]>(STORAGE_KEYS.TRANSACTIONS)) || [];
+    if (transactions.some((t) => t.id === transaction.id)) return true;
+    transactions.unshift(transaction);
+
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
+    const entries: [string, unknown][] = [
+      [STORAGE_KEYS.TRANSACTIONS, transactions],
+      [STORAGE_KEYS.BATCHES, applyBatchDeductions(batches, batchDeductions)],
+    ];
+
+    if (creditTransaction) {
+      const customers =
+        (await getItem<Customer[]>(STORAGE_KEYS.CUSTOMERS)) || [];
+      const credits =
+        (await getItem<CreditTransaction[]>(
+          STORAGE_KEYS.CREDIT_TRANSACTIONS,
+        )) || [];
+      entries.push(
+        [
+          STORAGE_KEYS.CUSTOMERS,
+          customers.map((c) =>
+            c.id === creditTransaction.customerId
+              ? {
+                  ...c,
+                  currentBalance: c.currentBalance + creditTransaction.amount,
+                }
+              : c,
+          ),
+        ],
+        [STORAGE_KEYS.CREDIT_TRANSACTIONS, [creditTransaction, ...credits]],
+      );
+    }
+
+    const localSave = await setItems(
+      await withStockMovements(entries, stockMovements),
+    );
+    if (!localSave) return false;
+
+    const { transactionData, itemsData } = mapTransactionToDb(transaction);
+    await SyncQueue.enqueue({
+      table: "transactions",
+      operation: "rpc",
+      rpc: "complete_sale",
+      affects: [
+        "transaction_items",
+        "inventory_batches",
+        "customers",
+        "credit_transactions",
+        "stock_movements",
+      ],
+      payload: {
+        p_transaction: transactionData,
+        p_items: itemsData,
+        p_batch_deductions: batchDeductions.map((d) => ({
+          batch_id: d.batchId,
+          quantity: d.quantity,
+        })),
+        p_credit_transaction: creditTransaction
+          ? mapCreditTransactionToDb(creditTransaction)
+          : null,
+        p_stock_movements: stockMovements.map(mapStockMovementToDb),
+      },
+    });
+    return true;
+  },
+  // Counterpart of commitSale for returns: records the refund, marks the
+  // returned lines on the original sale, restocks and reverses credit together.
+  async commitRefund({
+    refund,
+    original,
+    returnLines,
+    batchRestocks,
+    creditTransaction,
+    stockMovements,
+  }: RefundCommit): Promise<boolean> {
+    const transactions =
+      (await getItem<Transaction[]>(STORAGE_KEYS.TRANSACTIONS)) || [];
+    if (transactions.some((t) => t.id === refund.id)) return true;
+    const updatedTransactions = [
+      refund,
+      ...transactions.map((t) => (t.id === original.id ? original : t)),
+    ];
+
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
+    const entries: [string, unknown][] = [
+      [STORAGE_KEYS.TRANSACTIONS, updatedTransactions],
+      [
+        STORAGE_KEYS.BATCHES,
+        applyBatchDeductions(
+          batches,
+          batchRestocks.map((r) => ({ ...r, quantity: -r.quantity })),
+        ),
+      ],
+    ];
+
+    if (creditTransaction) {
+      const customers =
+        (await getItem<Customer[]>(STORAGE_KEYS.CUSTOMERS)) || [];
+      const credits =
+        (await getItem<CreditTransaction[]>(
+          STORAGE_KEYS.CREDIT_TRANSACTIONS,
+        )) || [];
+      entries.push(
+        [
+          STORAGE_KEYS.CUSTOMERS,
+          customers.map((c) =>
+            c.id === creditTransaction.customerId
+              ? {
+                  ...c,
+                  currentBalance: c.currentBalance - creditTransaction.amount,
+                }
+              : c,
+          ),
+        ],
+        [STORAGE_KEYS.CREDIT_TRANSACTIONS, [creditTransaction, ...credits]],
+      );
+    }
+
+    const localSave = await setItems(
+      await withStockMovements(entries, stockMovements),
+    );
+    if (!localSave) return false;
+
+    const { transactionData, itemsData } = mapTransactionToDb(refund);
+    await SyncQueue.enqueue({
+      table: "transactions",
+      operation: "rpc",
+      rpc: "complete_refund",
+      affects: [
+        "transaction_items",
+        "inventory_batches",
+        "customers",
+        "credit_transactions",
+        "stock_movements",
+      ],
+      payload: {
+        p_refund: transactionData,
+        p_items: itemsData,
+        p_original_id: original.id,
+        p_returned_items: returnLines.map((l) => ({
+          id: l.itemId,
+          quantity: l.quantity,
+        })),
+        p_batch_restocks: batchRestocks.map((r) => ({
+          batch_id: r.batchId,
+          quantity: r.quantity,
+        })),
+        p_credit_transaction: creditTransaction
+          ? mapCreditTransactionToDb(creditTransaction)
+          : null,
+        p_stock_movements: stockMovements.map(mapStockMovementToDb),
+      },
+    });
+    return true;
+  },
+  // Marks a sale voided, puts its stock back and reverses its credit entry in
+  // one local write, queued as a single void_sale call.
+  async commitVoid({
+    transaction,
+    batchRestocks,
+    creditTransaction,
+    stockMovements,
+  }: VoidCommit): Promise<boolean> {
+    const transactions =
+      (await getItem<Transaction[]>(STORAGE_KEYS.TRANSACTIONS)) || [];
+    const existing = transactions.find((t) => t.id === transaction.id);
+    if (!existing) return false;
+    if (existing.paymentStatus === "voided") return true;
+
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
+    const entries: [string, unknown][] = [
+      [
+        STORAGE_KEYS.TRANSACTIONS,
+        transactions.map((t) => (t.id === transaction.id ? transaction : t)),
+      ],
+      [
+        STORAGE_KEYS.BATCHES,
+        applyBatchDeductions(
+          batches,
+          batchRestocks.map((r) => ({ ...r, quantity: -r.quantity })),
+        ),
+      ],
+    ];
+
+    if (creditTransaction) {
+      const customers =
+        (await getItem<Customer[]>(STORAGE_KEYS.CUSTOMERS)) || [];
+      const credits =
+        (await getItem<CreditTransaction[]>(
+          STORAGE_KEYS.CREDIT_TRANSACTIONS,
+        )) || [];
+      entries.push(
+        [
+          STORAGE_KEYS.CUSTOMERS,
+          customers.map((c) =>
+            c.id === creditTransaction.customerId
+              ? {
+                  ...c,
+                  currentBalance: c.currentBalance - creditTransaction.amount,
+                }
+              : c,
+          ),
+        ],
+        [STORAGE_KEYS.CREDIT_TRANSACTIONS, [creditTransaction, ...credits]],
+      );
+    }
+
+    const localSave = await setItems(
+      await withStockMovements(entries, stockMovements),
+    );
+    if (!localSave) return false;
+
+    await SyncQueue.enqueue({
+      table: "transactions",
+      operation: "rpc",
+      rpc: "void_sale",
+      affects: [
+        "inventory_batches",
+        "customers",
+        "credit_transactions",
+        "stock_movements",
+      ],
+      payload: {
+        p_transaction_id: transaction.id,
+        p_void_reason: transaction.voidReason || null,
+        p_voided_at: transaction.voidedAt,
+        p_voided_by: transaction.voidedBy || null,
+        p_voided_by_name: transaction.voidedByName || null,
+        p_batch_restocks: batchRestocks.map((r) => ({
+          batch_id: r.batchId,
+          quantity: r.quantity,
+        })),
+        p_credit_transaction: creditTransaction
+          ? mapCreditTransactionToDb(creditTransaction)
+          : null,
+        p_stock_movements: stockMovements.map(mapStockMovementToDb),
+      },
+    });
+    return true;
+  },
+  // Records the outcome of an eTIMS submission on the sale
+  async updateEtims(
+    transactionId: string,
+    etims: EtimsRecord,
+  ): Promise<boolean> {
+    const transactions =
+      (await getItem<Transaction[]>(STORAGE_KEYS.TRANSACTIONS)) || [];
+    const index = transactions.findIndex((t) => t.id === transactionId);
+    if (index === -1) return false;
+    transactions[index] = { ...transactions[index], etims };
+    const localSave = await setItem(STORAGE_KEYS.TRANSACTIONS, transactions);
+    await SyncQueue.enqueue({
+      table: "transactions",
+      operation: "update",
+      payload: { etims },
+      match: { column: "id", value: transactionId },
+    });
+    return localSave;
   },
   async getById(id: string): Promise<Transaction | null> {
     const transactions = await this.getAll();
@@ -370,15 +801,19 @@ export const TransactionStorage = {
 
 export const BatchStorage = {
   async getAll(): Promise<InventoryBatch[]> {
-    if (isSupabaseConfigured()) {
+    if (await canRefreshFromCloud("inventory_batches")) {
       try {
         const { data, error } = await supabase
           .from('inventory_batches')
           .select('*')
+          .eq("shop_id", getCurrentShopId())
           .order('purchase_date', { ascending: false });
         if (error) throw error;
         if (data && data.length > 0) {
-          const batches = data.map(mapDbToBatch);
+          const batches = await mergeByUpdatedAt<InventoryBatch>(
+            STORAGE_KEYS.BATCHES,
+            data.map(mapDbToBatch),
+          );
           await setItem(STORAGE_KEYS.BATCHES, batches);
           return batches;
         }
@@ -389,54 +824,90 @@ export const BatchStorage = {
     return (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
   },
   async save(batches: InventoryBatch[]): Promise<boolean> {
+    return saveVersioned(
+      STORAGE_KEYS.BATCHES,
+      "inventory_batches",
+      batches,
+      mapBatchToDb,
+    );
+  },
+  async add(batch: InventoryBatch): Promise<boolean> {
+    const batches = await this.getAll();
+    const stamped = stampUpdatedAt(batch);
+    batches.push(stamped);
     const localSave = await setItem(STORAGE_KEYS.BATCHES, batches);
-    if (isSupabaseConfigured()) {
-      try {
-        for (const batch of batches) {
-          await supabase.from('inventory_batches').upsert(mapBatchToDb(batch));
-        }
-      } catch (error) {
-        console.error('Error syncing batches to Supabase:', error);
-      }
-    }
+    await SyncQueue.enqueue({
+      table: "inventory_batches",
+      operation: "upsert",
+      payload: mapBatchToDb(stamped),
+    });
     return localSave;
   },
-  async add(batch: InventoryBatch): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase.from('inventory_batches').insert(mapBatchToDb(batch));
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error adding batch to Supabase:', error);
-      }
-    }
+  async update(batch: InventoryBatch): Promise<boolean> {
     const batches = await this.getAll();
-    batches.push(batch);
-    return setItem(STORAGE_KEYS.BATCHES, batches);
+    const index = batches.findIndex((b) => b.id === batch.id);
+    if (index === -1) return false;
+    const base = mapBatchToDb(batches[index]);
+    batches[index] = stampUpdatedAt(batch);
+    const localSave = await setItem(STORAGE_KEYS.BATCHES, batches);
+    await SyncQueue.enqueue({
+      table: "inventory_batches",
+      operation: "update",
+      payload: mapBatchToDb(batches[index]),
+      match: { column: "id", value: batch.id },
+      base,
+    });
+    return localSave;
   },
   async getByProductId(productId: string): Promise<InventoryBatch[]> {
     const batches = await this.getAll();
     return batches.filter((b) => b.productId === productId);
   },
   async updateQuantity(batchId: string, quantity: number): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      try {
-        const { error } = await supabase
-          .from('inventory_batches')
-          .update({ quantity })
-          .eq('id', batchId);
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error updating batch quantity in Supabase:', error);
-      }
-    }
     const batches = await this.getAll();
     const index = batches.findIndex((b) => b.id === batchId);
-    if (index !== -1) {
-      batches[index].quantity = quantity;
-      return setItem(STORAGE_KEYS.BATCHES, batches);
+    if (index === -1) return false;
+    const base = {
+      quantity: batches[index].quantity,
+      updated_at: batches[index].updatedAt || null,
+    };
+    batches[index] = stampUpdatedAt({ ...batches[index], quantity });
+    const localSave = await setItem(STORAGE_KEYS.BATCHES, batches);
+    await SyncQueue.enqueue({
+      table: "inventory_batches",
+      operation: "update",
+      payload: { quantity, updated_at: batches[index].updatedAt },
+      match: { column: "id", value: batchId },
+      base,
+    });
+    return localSave;
+  },
+  // Takes every expired batch out of sale in one write. Returns the updated
+  // list, or null when nothing needed quarantining.
+  async quarantineExpired(now = new Date()): Promise<InventoryBatch[] | null> {
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
+    const expired = batches.filter(
+      (b) => !b.quarantinedAt && b.quantity > 0 && isBatchExpired(b, now),
+    );
+    if (expired.length === 0) return null;
+
+    const quarantinedAt = now.toISOString();
+    const updated = batches.map((b) =>
+      expired.includes(b) ? stampUpdatedAt({ ...b, quarantinedAt }) : b,
+    );
+    const localSave = await setItem(STORAGE_KEYS.BATCHES, updated);
+    if (!localSave) return null;
+    for (const batch of expired) {
+      await SyncQueue.enqueue({
+        table: "inventory_batches",
+        operation: "update",
+        payload: mapBatchToDb(updated.find((b) => b.id === batch.id)!),
+        match: { column: "id", value: batch.id },
+        base: mapBatchToDb(batch),
+      });
     }
-    return false;
+    return updated;
   },
   async getExpiringSoon(days: number = 30): Promise<InventoryBatch[]> {
     const batches = await this.getAll();
@@ -468,11 +939,12 @@ export const ReceiptStorage = {
     return receipts.find((r) => r.id === id) || null;
   },
   async getAll(): Promise<ScannedReceipt[]> {
-    if (isSupabaseConfigured()) {
+    if (await canRefreshFromCloud("scanned_receipts")) {
       try {
         const { data, error } = await supabase
           .from('scanned_receipts')
           .select('*')
+          .eq("shop_id", getCurrentShopId())
           .order('created_at', { ascending: false });
         if (error) throw error;
         if (data && data.length > 0) {
@@ -490,153 +962,770 @@ export const ReceiptStorage = {
     return setItem(STORAGE_KEYS.RECEIPTS, receipts);
   },
   async add(receipt: ScannedReceipt): Promise<boolean> {
-    if (isSupabaseConfigured()) {
+    const receipts = await this.getAll();
+    receipts.unshift(receipt);
+    const localSave = await setItem(STORAGE_KEYS.RECEIPTS, receipts);
+    await SyncQueue.enqueue({
+      table: "scanned_receipts",
+      operation: "upsert",
+      payload: mapReceiptToDb(receipt),
+    });
+    return localSave;
+  },
+  async update(receipt: ScannedReceipt): Promise<boolean> {
+    const receipts = await this.getAll();
+    const index = receipts.findIndex((r) => r.id === receipt.id);
+    if (index === -1) return false;
+    receipts[index] = receipt;
+    const localSave = await setItem(STORAGE_KEYS.RECEIPTS, receipts);
+    await SyncQueue.enqueue({
+      table: "scanned_receipts",
+      operation: "update",
+      payload: mapReceiptToDb(receipt),
+      match: { column: "id", value: receipt.id },
+    });
+    return localSave;
+  },
+  async delete(id: string): Promise<boolean> {
+    const receipts = await this.getAll();
+    const filtered = receipts.filter((r) => r.id !== id);
+    const localSave = await setItem(STORAGE_KEYS.RECEIPTS, filtered);
+    await SyncQueue.enqueue({
+      table: "scanned_receipts",
+      operation: "delete",
+      match: { column: "id", value: id },
+    });
+    return localSave;
+  },
+};
+
+export const SettingsStorage = {
+  async get(): Promise<Record<string, unknown> | null> {
+    return getItem<Record<string, unknown>>(STORAGE_KEYS.SETTINGS);
+  },
+  async save(settings: Record<string, unknown>): Promise<boolean> {
+    return setItem(STORAGE_KEYS.SETTINGS, settings);
+  },
+};
+
+export const PrinterSettingsStorage = {
+  async get(): Promise<PrinterSettings | null> {
+    return getItem<PrinterSettings>(STORAGE_KEYS.PRINTER_SETTINGS);
+  },
+  async save(settings: PrinterSettings): Promise<boolean> {
+    return setItem(STORAGE_KEYS.PRINTER_SETTINGS, settings);
+  },
+};
+
+export const PriceHistoryStorage = {
+  async getAll(): Promise<PurchasePriceRecord[]> {
+    return (
+      (await getItem<PurchasePriceRecord[]>(STORAGE_KEYS.PRICE_HISTORY)) || []
+    );
+  },
+  async save(records: PurchasePriceRecord[]): Promise<boolean> {
+    return setItem(STORAGE_KEYS.PRICE_HISTORY, records);
+  },
+  async add(record: PurchasePriceRecord): Promise<boolean> {
+    const records = await this.getAll();
+    records.unshift(record);
+    return setItem(STORAGE_KEYS.PRICE_HISTORY, records);
+  },
+  async getByProductId(productId: string): Promise<PurchasePriceRecord[]> {
+    const records = await this.getAll();
+    return records.filter((r) => r.productId === productId);
+  },
+  async addMultiple(newRecords: PurchasePriceRecord[]): Promise<boolean> {
+    const records = await this.getAll();
+    records.unshift(...newRecords);
+    return setItem(STORAGE_KEYS.PRICE_HISTORY, records);
+  },
+};
+
+export const CreditTransactionStorage = {
+  async getAll(): Promise<CreditTransaction[]> {
+    if (await canRefreshFromCloud("credit_transactions")) {
+      try {
+        const { data, error } = await supabase
+          .from("credit_transactions")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("created_at", { ascending: false });
+        if (error) throw error;
+        if (data && data.length > 0) {
+          const transactions = data.map(mapDbToCreditTransaction);
+          await setItem(STORAGE_KEYS.CREDIT_TRANSACTIONS, transactions);
+          return transactions;
+        }
+      } catch (error) {
+        console.error(
+          "Error fetching credit transactions from Supabase:",
+          error,
+        );
+      }
+    }
+    return (
+      (await getItem<CreditTransaction[]>(STORAGE_KEYS.CREDIT_TRANSACTIONS)) ||
+      []
+    );
+  },
+  async save(transactions: CreditTransaction[]): Promise<boolean> {
+    return setItem(STORAGE_KEYS.CREDIT_TRANSACTIONS, transactions);
+  },
+  async add(transaction: CreditTransaction): Promise<boolean> {
+    const transactions = await this.getAll();
+    transactions.unshift(transaction);
+    const localSave = await setItem(
+      STORAGE_KEYS.CREDIT_TRANSACTIONS,
+      transactions,
+    );
+    await SyncQueue.enqueue({
+      table: "credit_transactions",
+      operation: "upsert",
+      payload: mapCreditTransactionToDb(transaction),
+    });
+    return localSave;
+  },
+  async getByCustomerId(customerId: string): Promise<CreditTransaction[]> {
+    const transactions = await this.getAll();
+    return transactions.filter((t) => t.customerId === customerId);
+  },
+};
+
+export const SupplierTransactionStorage = {
+  async getAll(): Promise<SupplierTransaction[]> {
+    if (await canRefreshFromCloud("supplier_transactions")) {
+      try {
+        const { data, error } = await supabase
+          .from("supplier_transactions")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("created_at", { ascending: false });
+        if (error) throw error;
+        if (data && data.length > 0) {
+          const transactions = data.map(mapDbToSupplierTransaction);
+          await setItem(STORAGE_KEYS.SUPPLIER_TRANSACTIONS, transactions);
+          return transactions;
+        }
+      } catch (error) {
+        console.error(
+          "Error fetching supplier transactions from Supabase:",
+          error,
+        );
+      }
+    }
+    return (
+      (await getItem<SupplierTransaction[]>(
+        STORAGE_KEYS.SUPPLIER_TRANSACTIONS,
+      )) || []
+    );
+  },
+  async add(transaction: SupplierTransaction): Promise<boolean> {
+    const transactions =
+      (await getItem<SupplierTransaction[]>(
+        STORAGE_KEYS.SUPPLIER_TRANSACTIONS,
+      )) || [];
+    // Invoices are raised once per delivery or scanned receipt.
+    if (
+      transaction.sourceId &&
+      transactions.some(
+        (t) =>
+          t.type === transaction.type && t.sourceId === transaction.sourceId,
+      )
+    ) {
+      return true;
+    }
+    transactions.unshift(transaction);
+    const localSave = await setItem(
+      STORAGE_KEYS.SUPPLIER_TRANSACTIONS,
+      transactions,
+    );
+    await SyncQueue.enqueue({
+      table: "supplier_transactions",
+      operation: "upsert",
+      payload: mapSupplierTransactionToDb(transaction),
+    });
+    return localSave;
+  },
+};
+
+export const PaymentReminderStorage = {
+  async getAll(): Promise<PaymentReminder[]> {
+    if (await canRefreshFromCloud("payment_reminders")) {
+      try {
+        const { data, error } = await supabase
+          .from("payment_reminders")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("sent_at", { ascending: false });
+        if (error) throw error;
+        if (data && data.length > 0) {
+          const reminders = data.map(mapDbToPaymentReminder);
+          await setItem(STORAGE_KEYS.PAYMENT_REMINDERS, reminders);
+          return reminders;
+        }
+      } catch (error) {
+        console.error("Error fetching payment reminders from Supabase:", error);
+      }
+    }
+    return (
+      (await getItem<PaymentReminder[]>(STORAGE_KEYS.PAYMENT_REMINDERS)) || []
+    );
+  },
+  async add(reminder: PaymentReminder): Promise<boolean> {
+    const reminders =
+      (await getItem<PaymentReminder[]>(STORAGE_KEYS.PAYMENT_REMINDERS)) || [];
+    reminders.unshift(reminder);
+    const localSave = await setItem(STORAGE_KEYS.PAYMENT_REMINDERS, reminders);
+    await SyncQueue.enqueue({
+      table: "payment_reminders",
+      operation: "upsert",
+      payload: mapPaymentReminderToDb(reminder),
+    });
+    return localSave;
+  },
+};
+
+export const ShiftStorage = {
+  async getAll(): Promise<Shift[]> {
+    if (await canRefreshFromCloud("shifts")) {
+      try {
+        const { data, error } = await supabase
+          .from("shifts")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("opened_at", { ascending: false });
+        if (error) throw error;
+        if (data && data.length > 0) {
+          const shifts = await mergeByUpdatedAt<Shift>(
+            STORAGE_KEYS.SHIFTS,
+            data.map(mapDbToShift),
+          );
+          await setItem(STORAGE_KEYS.SHIFTS, shifts);
+          return shifts;
+        }
+      } catch (error) {
+        console.error("Error fetching shifts from Supabase:", error);
+      }
+    }
+    return (await getItem<Shift[]>(STORAGE_KEYS.SHIFTS)) || [];
+  },
+  async save(shift: Shift): Promise<Shift | null> {
+    const shifts = (await getItem<Shift[]>(STORAGE_KEYS.SHIFTS)) || [];
+    const stamped = stampUpdatedAt(shift);
+    const index = shifts.findIndex((s) => s.id === shift.id);
+    if (index === -1) {
+      shifts.unshift(stamped);
+    } else {
+      shifts[index] = stamped;
+    }
+    const localSave = await setItem(STORAGE_KEYS.SHIFTS, shifts);
+    if (!localSave) return null;
+    await SyncQueue.enqueue({
+      table: "shifts",
+      operation: "upsert",
+      payload: mapShiftToDb(stamped),
+    });
+    return stamped;
+  },
+};
+
+export const PromotionStorage = {
+  async getAll(): Promise<Promotion[]> {
+    if (await canRefreshFromCloud("promotions")) {
       try {
-        const { error } = await supabase.from('scanned_receipts').insert(mapReceiptToDb(receipt));
+        const { data, error } = await supabase
+          .from("promotions")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("start_date", { ascending: false });
         if (error) throw error;
+        if (data && data.length > 0) {
+          const promotions = await mergeByUpdatedAt<Promotion>(
+            STORAGE_KEYS.PROMOTIONS,
+            data.map(mapDbToPromotion),
+          );
+          await setItem(STORAGE_KEYS.PROMOTIONS, promotions);
+          return promotions;
+        }
       } catch (error) {
-        console.error('Error adding receipt to Supabase:', error);
+        console.error("Error fetching promotions from Supabase:", error);
       }
     }
-    const receipts = await this.getAll();
-    receipts.unshift(receipt);
-    return setItem(STORAGE_KEYS.RECEIPTS, receipts);
+    return (await getItem<Promotion[]>(STORAGE_KEYS.PROMOTIONS)) || [];
   },
-  async update(receipt: ScannedReceipt): Promise<boolean> {
-    if (isSupabaseConfigured()) {
+  async save(promotion: Promotion): Promise<Promotion | null> {
+    const promotions =
+      (await getItem<Promotion[]>(STORAGE_KEYS.PROMOTIONS)) || [];
+    const stamped = stampUpdatedAt(promotion);
+    const index = promotions.findIndex((p) => p.id === promotion.id);
+    if (index === -1) {
+      promotions.unshift(stamped);
+    } else {
+      promotions[index] = stamped;
+    }
+    const localSave = await setItem(STORAGE_KEYS.PROMOTIONS, promotions);
+    if (!localSave) return null;
+    await SyncQueue.enqueue({
+      table: "promotions",
+      operation: "upsert",
+      payload: mapPromotionToDb(stamped),
+    });
+    return stamped;
+  },
+};
+
+// Summaries are closed out once per day and never rewritten. Cloud rows are
+// keyed by shop and date, so a day closed on two devices lands once.
+export const DailySummaryStorage = {
+  async getAll(): Promise<DailySummary[]> {
+    if (await canRefreshFromCloud("daily_summaries")) {
       try {
-        const { error } = await supabase
-          .from('scanned_receipts')
-          .update(mapReceiptToDb(receipt))
-          .eq('id', receipt.id);
+        const { data, error } = await supabase
+          .from("daily_summaries")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("date", { ascending: false });
         if (error) throw error;
+        if (data && data.length > 0) {
+          const summaries = data.map(mapDbToDailySummary);
+          await setItem(STORAGE_KEYS.DAILY_SUMMARIES, summaries);
+          return summaries;
+        }
       } catch (error) {
-        console.error('Error updating receipt in Supabase:', error);
+        console.error("Error fetching daily summaries from Supabase:", error);
       }
     }
-    const receipts = await this.getAll();
-    const index = receipts.findIndex((r) => r.id === receipt.id);
-    if (index !== -1) {
-      receipts[index] = receipt;
-      return setItem(STORAGE_KEYS.RECEIPTS, receipts);
+    return (await getItem<DailySummary[]>(STORAGE_KEYS.DAILY_SUMMARIES)) || [];
+  },
+  async add(newSummaries: DailySummary[]): Promise<DailySummary[] | null> {
+    const summaries =
+      (await getItem<DailySummary[]>(STORAGE_KEYS.DAILY_SUMMARIES)) || [];
+    const closed = new Set(summaries.map((s) => s.date));
+    const added = newSummaries.filter((s) => !closed.has(s.date));
+    if (added.length === 0) return summaries;
+    const updated = [...summaries, ...added].sort((a, b) =>
+      b.date.localeCompare(a.date),
+    );
+    const localSave = await setItem(STORAGE_KEYS.DAILY_SUMMARIES, updated);
+    if (!localSave) return null;
+    for (const summary of added) {
+      await SyncQueue.enqueue({
+        table: "daily_summaries",
+        operation: "upsert",
+        payload: mapDailySummaryToDb(summary),
+      });
     }
-    return false;
+    return updated;
   },
-  async delete(id: string): Promise<boolean> {
-    if (isSupabaseConfigured()) {
+};
+
+export const WriteOffStorage = {
+  async getAll(): Promise<StockWriteOff[]> {
+    if (await canRefreshFromCloud("stock_write_offs")) {
       try {
-        const { error } = await supabase.from('scanned_receipts').delete().eq('id', id);
+        const { data, error } = await supabase
+          .from("stock_write_offs")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("created_at", { ascending: false });
         if (error) throw error;
+        if (data && data.length > 0) {
+          const writeOffs = data.map(mapDbToWriteOff);
+          await setItem(STORAGE_KEYS.WRITE_OFFS, writeOffs);
+          return writeOffs;
+        }
       } catch (error) {
-        console.error('Error deleting receipt from Supabase:', error);
+        console.error("Error fetching write-offs from Supabase:", error);
       }
     }
-    const receipts = await this.getAll();
-    const filtered = receipts.filter((r) => r.id !== id);
-    return setItem(STORAGE_KEYS.RECEIPTS, filtered);
+    return (await getItem<StockWriteOff[]>(STORAGE_KEYS.WRITE_OFFS)) || [];
   },
-};
+  // Records the write-off and takes the quantity off its batch in one local
+  // write, queued as a single write_off_stock call.
+  async commit(
+    writeOff: StockWriteOff,
+    stockMovements: StockMovement[],
+  ): Promise<boolean> {
+    const writeOffs =
+      (await getItem<StockWriteOff[]>(STORAGE_KEYS.WRITE_OFFS)) || [];
+    if (writeOffs.some((w) => w.id === writeOff.id)) return true;
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
 
-export const SettingsStorage = {
-  async get(): Promise<Record<string, unknown> | null> {
-    return getItem<Record<string, unknown>>(STORAGE_KEYS.SETTINGS);
-  },
-  async save(settings: Record<string, unknown>): Promise<boolean> {
-    return setItem(STORAGE_KEYS.SETTINGS, settings);
+    const localSave = await setItems(
+      await withStockMovements(
+        [
+          [STORAGE_KEYS.WRITE_OFFS, [writeOff, ...writeOffs]],
+          [
+            STORAGE_KEYS.BATCHES,
+            applyBatchDeductions(batches, [
+              { batchId: writeOff.batchId, quantity: writeOff.quantity },
+            ]),
+          ],
+        ],
+        stockMovements,
+      ),
+    );
+    if (!localSave) return false;
+
+    await SyncQueue.enqueue({
+      table: "stock_write_offs",
+      operation: "rpc",
+      rpc: "write_off_stock",
+      affects: ["inventory_batches", "stock_movements"],
+      payload: {
+        p_write_off: mapWriteOffToDb(writeOff),
+        p_stock_movements: stockMovements.map(mapStockMovementToDb),
+      },
+    });
+    return true;
   },
 };
 
-export const PriceHistoryStorage = {
-  async getAll(): Promise<PurchasePriceRecord[]> {
-    return (await getItem<PurchasePriceRecord[]>(STORAGE_KEYS.PRICE_HISTORY)) || [];
-  },
-  async save(records: PurchasePriceRecord[]): Promise<boolean> {
-    return setItem(STORAGE_KEYS.PRICE_HISTORY, records);
+// Append-only: entries are never edited or removed. Stock changes that are not
+// part of a larger commit (restocks, receipts, adjustments) append here after
+// their batch write.
+export const StockMovementStorage = {
+  async getAll(): Promise<StockMovement[]> {
+    if (await canRefreshFromCloud("stock_movements")) {
+      try {
+        const { data, error } = await supabase
+          .from("stock_movements")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("created_at", { ascending: false });
+        if (error) throw error;
+        if (data && data.length > 0) {
+          const movements = data.map(mapDbToStockMovement);
+          await setItem(STORAGE_KEYS.STOCK_MOVEMENTS, movements);
+          return movements;
+        }
+      } catch (error) {
+        console.error("Error fetching stock movements from Supabase:", error);
+      }
+    }
+    return (await getItem<StockMovement[]>(STORAGE_KEYS.STOCK_MOVEMENTS)) || [];
   },
-  async add(record: PurchasePriceRecord): Promise<boolean> {
-    const records = await this.getAll();
-    records.unshift(record);
-    return setItem(STORAGE_KEYS.PRICE_HISTORY, records);
+  async getByProductId(productId: string): Promise<StockMovement[]> {
+    const movements = await this.getAll();
+    return movements.filter((m) => m.productId === productId);
   },
-  async getByProductId(productId: string): Promise<PurchasePriceRecord[]> {
-    const records = await this.getAll();
-    return records.filter((r) => r.productId === productId);
+  async append(movements: StockMovement[]): Promise<boolean> {
+    if (movements.length === 0) return true;
+    const existing =
+      (await getItem<StockMovement[]>(STORAGE_KEYS.STOCK_MOVEMENTS)) || [];
+    const known = new Set(existing.map((m) => m.id));
+    const added = movements.filter((m) => !known.has(m.id));
+    if (added.length === 0) return true;
+
+    const localSave = await setItem(STORAGE_KEYS.STOCK_MOVEMENTS, [
+      ...added,
+      ...existing,
+    ]);
+    if (!localSave) return false;
+    await SyncQueue.enqueue({
+      table: "stock_movements",
+      operation: "rpc",
+      rpc: "record_stock_movements",
+      payload: { p_movements: added.map(mapStockMovementToDb) },
+    });
+    return true;
   },
-  async addMultiple(newRecords: PurchasePriceRecord[]): Promise<boolean> {
-    const records = await this.getAll();
-    records.unshift(...newRecords);
-    return setItem(STORAGE_KEYS.PRICE_HISTORY, records);
+  // Starts the ledger for stock that predates it: while it is still empty,
+  // every batch gets one opening entry for its quantity. Ids are derived from
+  // the batch so two devices backfilling the same shop do not double count.
+  async recordOpeningBalances(
+    batches: InventoryBatch[],
+  ): Promise<StockMovement[]> {
+    const existing =
+      (await getItem<StockMovement[]>(STORAGE_KEYS.STOCK_MOVEMENTS)) || [];
+    if (existing.length > 0) return existing;
+    const openings: StockMovement[] = batches
+      .filter((b) => b.quantity !== 0)
+      .map((b) => ({
+        id: `opening-${b.id}`,
+        productId: b.productId,
+        batchId: b.id,
+        batchNumber: b.batchNumber,
+        type: "opening",
+        quantity: b.quantity,
+        createdAt: b.purchaseDate,
+      }));
+    if (openings.length === 0) return existing;
+    await this.append(openings);
+    return [...openings, ...existing];
   },
 };
 
-export const CreditTransactionStorage = {
-  async getAll(): Promise<CreditTransaction[]> {
-    if (isSupabaseConfigured()) {
+export interface StockTakeApproval {
+  stockTake: StockTake;
+  corrections: BatchDeduction[];
+  newBatches: InventoryBatch[];
+  stockMovements: StockMovement[];
+}
+
+export const StockTakeStorage = {
+  async getAll(): Promise<StockTake[]> {
+    if (await canRefreshFromCloud("stock_takes")) {
       try {
         const { data, error } = await supabase
-          .from('credit_transactions')
+          .from("stock_takes")
           .select('*')
-          .order('created_at', { ascending: false });
+          .eq("shop_id", getCurrentShopId())
+          .order("started_at", { ascending: false });
         if (error) throw error;
         if (data && data.length > 0) {
-          const transactions = data.map(mapDbToCreditTransaction);
-          await setItem(STORAGE_KEYS.CREDIT_TRANSACTIONS, transactions);
-          return transactions;
+          const stockTakes = await mergeByUpdatedAt<StockTake>(
+            STORAGE_KEYS.STOCK_TAKES,
+            data.map(mapDbToStockTake),
+          );
+          await setItem(STORAGE_KEYS.STOCK_TAKES, stockTakes);
+          return stockTakes;
         }
       } catch (error) {
-        console.error('Error fetching credit transactions from Supabase:', error);
+        console.error("Error fetching stock takes from Supabase:", error);
       }
     }
-    return (await getItem<CreditTransaction[]>(STORAGE_KEYS.CREDIT_TRANSACTIONS)) || [];
+    return (await getItem<StockTake[]>(STORAGE_KEYS.STOCK_TAKES)) || [];
   },
-  async save(transactions: CreditTransaction[]): Promise<boolean> {
-    return setItem(STORAGE_KEYS.CREDIT_TRANSACTIONS, transactions);
+  // Saves a session still being counted; approval goes through commitApproval.
+  async save(stockTake: StockTake): Promise<StockTake | null> {
+    const stockTakes =
+      (await getItem<StockTake[]>(STORAGE_KEYS.STOCK_TAKES)) || [];
+    const stamped = stampUpdatedAt(stockTake);
+    const index = stockTakes.findIndex((s) => s.id === stockTake.id);
+    if (index === -1) {
+      stockTakes.unshift(stamped);
+    } else {
+      stockTakes[index] = stamped;
+    }
+    const localSave = await setItem(STORAGE_KEYS.STOCK_TAKES, stockTakes);
+    if (!localSave) return null;
+    await SyncQueue.enqueue({
+      table: "stock_takes",
+      operation: "upsert",
+      payload: mapStockTakeToDb(stamped),
+    });
+    return stamped;
   },
-  async add(transaction: CreditTransaction): Promise<boolean> {
-    if (isSupabaseConfigured()) {
+  // Completes the session and applies its corrections to the batches in one
+  // local write, queued as a single apply_stock_take call.
+  async commitApproval({
+    stockTake,
+    corrections,
+    newBatches,
+    stockMovements,
+  }: StockTakeApproval): Promise<boolean> {
+    const stockTakes =
+      (await getItem<StockTake[]>(STORAGE_KEYS.STOCK_TAKES)) || [];
+    if (
+      stockTakes.some((s) => s.id === stockTake.id && s.status === "completed")
+    )
+      return true;
+    const stamped = stampUpdatedAt(stockTake);
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
+
+    const localSave = await setItems(
+      await withStockMovements(
+        [
+          [
+            STORAGE_KEYS.STOCK_TAKES,
+            [stamped, ...stockTakes.filter((s) => s.id !== stockTake.id)],
+          ],
+          [
+            STORAGE_KEYS.BATCHES,
+            [...applyBatchDeductions(batches, corrections), ...newBatches],
+          ],
+        ],
+        stockMovements,
+      ),
+    );
+    if (!localSave) return false;
+
+    await SyncQueue.enqueue({
+      table: "stock_takes",
+      operation: "rpc",
+      rpc: "apply_stock_take",
+      affects: ["inventory_batches", "stock_movements"],
+      payload: {
+        p_stock_take: mapStockTakeToDb(stamped),
+        p_batch_corrections: corrections.map((c) => ({
+          batch_id: c.batchId,
+          quantity: -c.quantity,
+        })),
+        p_new_batches: newBatches.map(mapBatchToDb),
+        p_stock_movements: stockMovements.map(mapStockMovementToDb),
+      },
+    });
+    return true;
+  },
+};
+
+export interface GoodsReceipt {
+  purchaseOrder: PurchaseOrder;
+  receiptId: string;
+  newBatches: InventoryBatch[];
+  stockMovements: StockMovement[];
+}
+
+export const PurchaseOrderStorage = {
+  async getAll(): Promise<PurchaseOrder[]> {
+    if (await canRefreshFromCloud("purchase_orders")) {
       try {
-        const { error } = await supabase.from('credit_transactions').insert(mapCreditTransactionToDb(transaction));
+        const { data, error } = await supabase
+          .from("purchase_orders")
+          .select("*")
+          .eq("shop_id", getCurrentShopId())
+          .order("created_at", { ascending: false });
         if (error) throw error;
+        if (data && data.length > 0) {
+          const orders = await mergeByUpdatedAt<PurchaseOrder>(
+            STORAGE_KEYS.PURCHASE_ORDERS,
+            data.map(mapDbToPurchaseOrder),
+          );
+          await setItem(STORAGE_KEYS.PURCHASE_ORDERS, orders);
+          return orders;
+        }
       } catch (error) {
-        console.error('Error adding credit transaction to Supabase:', error);
+        console.error("Error fetching purchase orders from Supabase:", error);
       }
     }
-    const transactions = await this.getAll();
-    transactions.unshift(transaction);
-    return setItem(STORAGE_KEYS.CREDIT_TRANSACTIONS, transactions);
+    return (await getItem<PurchaseOrder[]>(STORAGE_KEYS.PURCHASE_ORDERS)) || [];
   },
-  async getByCustomerId(customerId: string): Promise<CreditTransaction[]> {
-    const transactions = await this.getAll();
-    return transactions.filter((t) => t.customerId === customerId);
+  // Saves a draft or sent order; deliveries go through commitReceipt.
+  async save(order: PurchaseOrder): Promise<PurchaseOrder | null> {
+    const orders =
+      (await getItem<PurchaseOrder[]>(STORAGE_KEYS.PURCHASE_ORDERS)) || [];
+    const stamped = stampUpdatedAt(order);
+    const index = orders.findIndex((o) => o.id === order.id);
+    if (index === -1) {
+      orders.unshift(stamped);
+    } else {
+      orders[index] = stamped;
+    }
+    const localSave = await setItem(STORAGE_KEYS.PURCHASE_ORDERS, orders);
+    if (!localSave) return null;
+    await SyncQueue.enqueue({
+      table: "purchase_orders",
+      operation: "upsert",
+      payload: mapPurchaseOrderToDb(stamped),
+    });
+    return stamped;
+  },
+  async delete(id: string): Promise<boolean> {
+    const orders =
+      (await getItem<PurchaseOrder[]>(STORAGE_KEYS.PURCHASE_ORDERS)) || [];
+    const localSave = await setItem(
+      STORAGE_KEYS.PURCHASE_ORDERS,
+      orders.filter((o) => o.id !== id),
+    );
+    await SyncQueue.enqueue({
+      table: "purchase_orders",
+      operation: "delete",
+      match: { column: "id", value: id },
+    });
+    return localSave;
+  },
+  // Records a delivery: the updated order and its new batches are written
+  // locally together and queued as a single receive_purchase_order call.
+  async commitReceipt({
+    purchaseOrder,
+    receiptId,
+    newBatches,
+    stockMovements,
+  }: GoodsReceipt): Promise<boolean> {
+    const orders =
+      (await getItem<PurchaseOrder[]>(STORAGE_KEYS.PURCHASE_ORDERS)) || [];
+    const existing = orders.find((o) => o.id === purchaseOrder.id);
+    if (existing?.receipts.some((r) => r.id === receiptId)) return true;
+    const stamped = stampUpdatedAt(purchaseOrder);
+    const batches =
+      (await getItem<InventoryBatch[]>(STORAGE_KEYS.BATCHES)) || [];
+
+    const localSave = await setItems(
+      await withStockMovements(
+        [
+          [
+            STORAGE_KEYS.PURCHASE_ORDERS,
+            orders.map((o) => (o.id === stamped.id ? stamped : o)),
+          ],
+          [STORAGE_KEYS.BATCHES, [...batches, ...newBatches]],
+        ],
+        stockMovements,
+      ),
+    );
+    if (!localSave) return false;
+
+    await SyncQueue.enqueue({
+      table: "purchase_orders",
+      operation: "rpc",
+      rpc: "receive_purchase_order",
+      affects: ["inventory_batches", "stock_movements"],
+      payload: {
+        p_purchase_order: mapPurchaseOrderToDb(stamped),
+        p_receipt_id: receiptId,
+        p_new_batches: newBatches.map(mapBatchToDb),
+        p_stock_movements: stockMovements.map(mapStockMovementToDb),
+      },
+    });
+    return true;
   },
 };
 
 export const clearAllData = async (): Promise<boolean> => {
   try {
-    // Clear local AsyncStorage
-    const keysToRemove = Object.values(STORAGE_KEYS).filter(key => key !== STORAGE_KEYS.DATA_CLEARED);
-    await AsyncStorage.multiRemove(keysToRemove);
-    await AsyncStorage.setItem(STORAGE_KEYS.DATA_CLEARED, "true");
-    
-    // Clear Supabase tables if configured
-    if (isSupabaseConfigured()) {
-      try {
-        // Delete all data from Supabase tables
-        // Using neq with a condition that matches all rows
-        await supabase.from('transactions').delete().neq('id', '');
-        await supabase.from('inventory_batches').delete().neq('id', '');
-        await supabase.from('products').delete().neq('id', '');
-        await supabase.from('customers').delete().neq('id', '');
-        await supabase.from('suppliers').delete().neq('id', '');
-        await supabase.from('scanned_receipts').delete().neq('id', '');
-        await supabase.from('price_history').delete().neq('id', '');
-        console.log('All Supabase data cleared successfully');
-      } catch (supabaseError) {
-        console.error('Error clearing Supabase data:', supabaseError);
-        // Continue even if Supabase clear fails - local data is already cleared
+    // Clear Supabase tables first, so a failure leaves the device's copy
+    // intact and the user can try again
+    const client = isSupabaseConfigured() ? getSupabase() : null;
+    if (client) {
+      // Delete this shop's rows only; other shops share the same tables.
+      // stock_movements and mpesa_payments cannot be changed from the app and
+      // are kept as the audit trail. Rows that reference another table go
+      // before it.
+      const shopId = getCurrentShopId();
+      const tables = [
+        "stock_takes",
+        "purchase_orders",
+        "stock_write_offs",
+        "credit_transactions",
+        "etims_invoices",
+        "transactions",
+        "payment_reminders",
+        "shifts",
+        "daily_summaries",
+        "promotions",
+        "supplier_transactions",
+        "inventory_batches",
+        "scanned_receipts",
+        "price_history",
+        "products",
+        "customers",
+        "suppliers",
+      ];
+      for (const table of tables) {
+        const { error } = await client
+          .from(table)
+          .delete()
+          .eq("shop_id", shopId);
+        if (error) {
+          console.error(`Error clearing Supabase table ${table}:`, error);
+          return false;
+        }
       }
+      console.log("All Supabase data cleared successfully");
     }
-    
+
+    // Clear local AsyncStorage
+    const keysToRemove = Object.values(STORAGE_KEYS).filter(
+      (key) => key !== STORAGE_KEYS.DATA_CLEARED,
+    );
+    await AsyncStorage.multiRemove(keysToRemove.map(scopeKey));
+    await AsyncStorage.setItem(scopeKey(STORAGE_KEYS.DATA_CLEARED), "true");
+    await SyncQueue.clear();
+    await ConflictStorage.clear();
+
     return true;
   } catch (error) {
     console.error("Error clearing all data:", error);
@@ -646,7 +1735,9 @@ export const clearAllData = async (): Promise<boolean> => {
 
 export const wasDataCleared = async (): Promise<boolean> => {
   try {
-    const value = await AsyncStorage.getItem(STORAGE_KEYS.DATA_CLEARED);
+    const value = await AsyncStorage.getItem(
+      scopeKey(STORAGE_KEYS.DATA_CLEARED),
+    );
     return value === "true";
   } catch (error) {
     return false;
@@ -655,12 +1746,77 @@ export const wasDataCleared = async (): Promise<boolean> => {
 
 export const resetDataClearedFlag = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEYS.DATA_CLEARED);
+    await AsyncStorage.removeItem(scopeKey(STORAGE_KEYS.DATA_CLEARED));
   } catch (error) {
     console.error("Error resetting data cleared flag:", error);
   }
 };
 
+// Points the local cache at the signed-in shop's namespace. Data cached before
+// keys were namespaced is adopted by the first shop to sign in on the device.
+export const setStorageShop = async (shopId: string | null): Promise<void> => {
+  setCurrentShopId(shopId);
+  if (!shopId) return;
+  try {
+    const legacyKeys = Object.values(STORAGE_KEYS);
+    const legacy = await AsyncStorage.multiGet(legacyKeys);
+    const toMove = legacy.filter(([, value]) => value !== null) as [
+      string,
+      string,
+    ][];
+    if (toMove.length === 0) return;
+    const scoped = await AsyncStorage.multiGet(
+      toMove.map(([key]) => scopeKey(key)),
+    );
+    const missing = toMove.filter((_, i) => scoped[i][1] === null);
+    await AsyncStorage.multiSet(
+      missing.map(([key, value]) => [scopeKey(key), value]),
+    );
+    await AsyncStorage.multiRemove(toMove.map(([key]) => key));
+  } catch (error) {
+    console.error("Error migrating cached data to shop storage:", error);
+  }
+};
+
+// Writes rows merged during sync back into the local cache so this device
+// shows the reconciled values without waiting for the next cloud refresh.
+SyncQueue.setMergeHandler(async (table, recordId, row) => {
+  switch (table) {
+    case "products":
+      await replaceCached(STORAGE_KEYS.PRODUCTS, recordId, (p: Product) =>
+        mapDbToProduct({ ...mapProductToDb(p), ...row }),
+      );
+      break;
+    case "customers":
+      await replaceCached(STORAGE_KEYS.CUSTOMERS, recordId, (c: Customer) =>
+        mapDbToCustomer({ ...mapCustomerToDb(c), ...row }),
+      );
+      break;
+    case "suppliers":
+      await replaceCached(STORAGE_KEYS.SUPPLIERS, recordId, (s: Supplier) =>
+        mapDbToSupplier({ ...mapSupplierToDb(s), ...row }),
+      );
+      break;
+    case "inventory_batches":
+      await replaceCached(STORAGE_KEYS.BATCHES, recordId, (b: InventoryBatch) =>
+        mapDbToBatch({ ...mapBatchToDb(b), ...row }),
+      );
+      break;
+  }
+});
+
+async function replaceCached<T extends Versioned>(
+  key: string,
+  id: string,
+  merge: (record: T) => T,
+) {
+  const records = (await getItem<T[]>(key)) || [];
+  await setItem(
+    key,
+    records.map((r) => (r.id === id ? merge(r) : r)),
+  );
+}
+
 export const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
@@ -672,6 +1828,10 @@ export const generateTransactionNumber = (): string => {
   return `TXN-${dateStr}-${random}`;
 };
 
+export const generateRefundNumber = (): string => {
+  return generateTransactionNumber().replace(/^TXN-/, "RFD-");
+};
+
 const RECEIPT_BUCKET = "receipts";
 
 export const uploadReceiptImage = async (localUri: string): Promise<string> => {
@@ -723,6 +1883,7 @@ export const uploadReceiptImage = async (localUri: string): Promise<string> => {
 function mapProductToDb(product: Product) {
   return {
     id: product.id,
+    shop_id: getCurrentShopId(),
     name: product.name,
     description: product.description,
     category: product.category,
@@ -731,8 +1892,10 @@ function mapProductToDb(product: Product) {
     unit: product.unit,
     retail_price: product.retailPrice,
     wholesale_price: product.wholesalePrice,
+    wholesale_min_quantity: product.wholesaleMinQuantity ?? null,
     cost_price: product.costPrice,
     reorder_level: product.reorderLevel,
+    tax_class: product.taxClass || null,
     image_url: product.imageUrl || null,
     active: product.active,
     created_at: product.createdAt,
@@ -757,8 +1920,13 @@ function mapDbToProduct(data: Record<string, unknown>): Product {
     unit: data.unit as Product['unit'],
     retailPrice: data.retail_price as number,
     wholesalePrice: data.wholesale_price as number,
+    wholesaleMinQuantity:
+      data.wholesale_min_quantity != null
+        ? Number(data.wholesale_min_quantity)
+        : undefined,
     costPrice: data.cost_price as number,
     reorderLevel: data.reorder_level as number,
+    taxClass: (data.tax_class as Product["taxClass"] | null) || undefined,
     imageUrl: data.image_url as string | undefined,
     active: data.active as boolean,
     createdAt: data.created_at as string,
@@ -775,6 +1943,7 @@ function mapDbToProduct(data: Record<string, unknown>): Product {
 function mapCustomerToDb(customer: Customer) {
   return {
     id: customer.id,
+    shop_id: getCurrentShopId(),
     name: customer.name,
     phone: customer.phone,
     email: customer.email || null,
@@ -783,6 +1952,7 @@ function mapCustomerToDb(customer: Customer) {
     credit_limit: customer.creditLimit,
     current_balance: customer.currentBalance,
     loyalty_points: customer.loyaltyPoints,
+    updated_at: customer.updatedAt || null,
   };
 }
 
@@ -797,12 +1967,14 @@ function mapDbToCustomer(data: Record<string, unknown>): Customer {
     creditLimit: data.credit_limit as number,
     currentBalance: data.current_balance as number,
     loyaltyPoints: data.loyalty_points as number,
+    updatedAt: data.updated_at as string | undefined,
   };
 }
 
 function mapSupplierToDb(supplier: Supplier) {
   return {
     id: supplier.id,
+    shop_id: getCurrentShopId(),
     name: supplier.name,
     contact_person: supplier.contactPerson,
     phone: supplier.phone,
@@ -810,6 +1982,7 @@ function mapSupplierToDb(supplier: Supplier) {
     address: supplier.address || null,
     payment_terms: supplier.paymentTerms || null,
     active: supplier.active,
+    updated_at: supplier.updatedAt || null,
   };
 }
 
@@ -823,12 +1996,14 @@ function mapDbToSupplier(data: Record<string, unknown>): Supplier {
     address: data.address as string | undefined,
     paymentTerms: data.payment_terms as string | undefined,
     active: data.active as boolean,
+    updatedAt: data.updated_at as string | undefined,
   };
 }
 
 function mapTransactionToDb(transaction: Transaction) {
   const transactionData = {
     id: transaction.id,
+    shop_id: getCurrentShopId(),
     transaction_number: transaction.transactionNumber,
     customer_id: transaction.customerId || null,
     customer_name: transaction.customerName || null,
@@ -838,14 +2013,27 @@ function mapTransactionToDb(transaction: Transaction) {
     discount: transaction.discount,
     tax: transaction.tax,
     total: transaction.total,
+    prices_include_tax: transaction.pricesIncludeTax ?? null,
     payment_method: transaction.paymentMethod,
     payment_status: transaction.paymentStatus,
     reference_number: transaction.referenceNumber || null,
+    payments: transaction.payments || null,
     notes: transaction.notes || null,
+    kind: transaction.kind || "sale",
+    original_transaction_id: transaction.originalTransactionId || null,
+    void_reason: transaction.voidReason || null,
+    voided_at: transaction.voidedAt || null,
+    voided_by: transaction.voidedBy || null,
+    voided_by_name: transaction.voidedByName || null,
+    credit_override_by: transaction.creditOverrideBy || null,
+    credit_override_by_name: transaction.creditOverrideByName || null,
+    credit_override_reason: transaction.creditOverrideReason || null,
+    etims: transaction.etims || null,
   };
 
   const itemsData = transaction.items.map(item => ({
     id: item.id,
+    shop_id: getCurrentShopId(),
     transaction_id: transaction.id,
     product_id: item.productId,
     product_name: item.productName,
@@ -853,6 +2041,15 @@ function mapTransactionToDb(transaction: Transaction) {
     unit_price: item.unitPrice,
     discount: item.discount,
     total: item.total,
+    batch_allocations: item.batchAllocations || null,
+    returned_quantity: item.returnedQuantity || 0,
+    original_item_id: item.originalItemId || null,
+    promotion_id: item.promotionId || null,
+    promotion_name: item.promotionName || null,
+    tax_class: item.taxClass || null,
+    tax_rate: item.taxRate ?? null,
+    taxable_amount: item.taxableAmount ?? null,
+    tax_amount: item.taxAmount ?? null,
   }));
 
   return { transactionData, itemsData };
@@ -867,6 +2064,16 @@ function mapDbToTransaction(data: Record<string, unknown>): Transaction {
     unitPrice: item.unit_price as number,
     discount: item.discount as number,
     total: item.total as number,
+    batchAllocations: item.batch_allocations as BatchDeduction[] | undefined,
+    returnedQuantity: (item.returned_quantity as number | null) || undefined,
+    originalItemId: item.original_item_id as string | undefined,
+    promotionId: item.promotion_id as string | undefined,
+    promotionName: item.promotion_name as string | undefined,
+    taxClass: (item.tax_class as Product["taxClass"] | null) || undefined,
+    taxRate: item.tax_rate != null ? Number(item.tax_rate) : undefined,
+    taxableAmount:
+      item.taxable_amount != null ? Number(item.taxable_amount) : undefined,
+    taxAmount: item.tax_amount != null ? Number(item.tax_amount) : undefined,
   }));
 
   return {
@@ -881,23 +2088,39 @@ function mapDbToTransaction(data: Record<string, unknown>): Transaction {
     discount: data.discount as number,
     tax: data.tax as number,
     total: data.total as number,
+    pricesIncludeTax: (data.prices_include_tax as boolean | null) ?? undefined,
     paymentMethod: data.payment_method as Transaction['paymentMethod'],
     paymentStatus: data.payment_status as Transaction['paymentStatus'],
     referenceNumber: data.reference_number as string | undefined,
+    payments: (data.payments as TransactionPayment[] | null) || undefined,
     notes: data.notes as string | undefined,
+    kind: data.kind as Transaction["kind"],
+    originalTransactionId: data.original_transaction_id as string | undefined,
+    voidReason: data.void_reason as string | undefined,
+    voidedAt: data.voided_at as string | undefined,
+    voidedBy: data.voided_by as string | undefined,
+    voidedByName: data.voided_by_name as string | undefined,
+    creditOverrideBy: data.credit_override_by as string | undefined,
+    creditOverrideByName: data.credit_override_by_name as string | undefined,
+    creditOverrideReason: data.credit_override_reason as string | undefined,
+    etims: (data.etims as EtimsRecord | null) || undefined,
   };
 }
 
 function mapBatchToDb(batch: InventoryBatch) {
   return {
     id: batch.id,
+    shop_id: getCurrentShopId(),
     product_id: batch.productId,
     batch_number: batch.batchNumber,
     quantity: batch.quantity,
     expiry_date: batch.expiryDate || null,
     supplier_id: batch.supplierId || null,
+    invoice_number: batch.invoiceNumber || null,
+    quarantined_at: batch.quarantinedAt || null,
     purchase_date: batch.purchaseDate,
     cost_per_unit: batch.costPerUnit,
+    updated_at: batch.updatedAt || null,
   };
 }
 
@@ -909,14 +2132,18 @@ function mapDbToBatch(data: Record<string, unknown>): InventoryBatch {
     quantity: data.quantity as number,
     expiryDate: data.expiry_date as string | undefined,
     supplierId: data.supplier_id as string | undefined,
+    invoiceNumber: data.invoice_number as string | undefined,
+    quarantinedAt: data.quarantined_at as string | undefined,
     purchaseDate: data.purchase_date as string,
     costPerUnit: data.cost_per_unit as number,
+    updatedAt: data.updated_at as string | undefined,
   };
 }
 
 function mapReceiptToDb(receipt: ScannedReceipt) {
   return {
     id: receipt.id,
+    shop_id: getCurrentShopId(),
     supplier_id: receipt.supplierId || null,
     receipt_date: receipt.receiptDate,
     image_url: receipt.imageUrl,
@@ -945,6 +2172,7 @@ function mapDbToReceipt(data: Record<string, unknown>): ScannedReceipt {
 function mapCreditTransactionToDb(transaction: CreditTransaction) {
   return {
     id: transaction.id,
+    shop_id: getCurrentShopId(),
     customer_id: transaction.customerId,
     transaction_id: transaction.transactionId || null,
     type: transaction.type,
@@ -975,3 +2203,350 @@ function mapDbToCreditTransaction(data: Record<string, unknown>): CreditTransact
     createdBy: data.created_by as string | undefined,
   };
 }
+
+function mapSupplierTransactionToDb(transaction: SupplierTransaction) {
+  return {
+    id: transaction.id,
+    shop_id: getCurrentShopId(),
+    supplier_id: transaction.supplierId,
+    type: transaction.type,
+    amount: transaction.amount,
+    balance_before: transaction.balanceBefore,
+    balance_after: transaction.balanceAfter,
+    invoice_number: transaction.invoiceNumber || null,
+    invoice_date: transaction.invoiceDate || null,
+    due_date: transaction.dueDate || null,
+    source: transaction.source || null,
+    source_id: transaction.sourceId || null,
+    payment_method: transaction.paymentMethod || null,
+    reference_number: transaction.referenceNumber || null,
+    notes: transaction.notes || null,
+    created_at: transaction.createdAt,
+    created_by: transaction.createdBy || null,
+  };
+}
+
+function mapDbToSupplierTransaction(
+  data: Record<string, unknown>,
+): SupplierTransaction {
+  return {
+    id: data.id as string,
+    supplierId: data.supplier_id as string,
+    type: data.type as SupplierTransaction["type"],
+    amount: Number(data.amount),
+    balanceBefore: Number(data.balance_before),
+    balanceAfter: Number(data.balance_after),
+    invoiceNumber: data.invoice_number as string | undefined,
+    invoiceDate: data.invoice_date as string | undefined,
+    dueDate: data.due_date as string | undefined,
+    source: data.source as SupplierTransaction["source"],
+    sourceId: data.source_id as string | undefined,
+    paymentMethod: data.payment_method as string | undefined,
+    referenceNumber: data.reference_number as string | undefined,
+    notes: data.notes as string | undefined,
+    createdAt: data.created_at as string,
+    createdBy: data.created_by as string | undefined,
+  };
+}
+
+function mapShiftToDb(shift: Shift) {
+  return {
+    id: shift.id,
+    shop_id: getCurrentShopId(),
+    user_id: shift.userId,
+    user_name: shift.userName,
+    status: shift.status,
+    opened_at: shift.openedAt,
+    opening_float: shift.openingFloat,
+    paid_outs: shift.paidOuts,
+    closed_at: shift.closedAt || null,
+    closed_by: shift.closedBy || null,
+    counted_cash: shift.countedCash ?? null,
+    over_short: shift.overShort ?? null,
+    totals: shift.totals || null,
+    notes: shift.notes || null,
+    updated_at: shift.updatedAt || null,
+  };
+}
+
+function mapDbToShift(data: Record<string, unknown>): Shift {
+  return {
+    id: data.id as string,
+    userId: data.user_id as string,
+    userName: data.user_name as string,
+    status: data.status as Shift["status"],
+    openedAt: data.opened_at as string,
+    openingFloat: Number(data.opening_float),
+    paidOuts: (data.paid_outs as Shift["paidOuts"]) || [],
+    closedAt: data.closed_at as string | undefined,
+    closedBy: data.closed_by as string | undefined,
+    countedCash:
+      data.counted_cash != null ? Number(data.counted_cash) : undefined,
+    overShort: data.over_short != null ? Number(data.over_short) : undefined,
+    totals: (data.totals as Shift["totals"]) || undefined,
+    notes: data.notes as string | undefined,
+    updatedAt: data.updated_at as string | undefined,
+  };
+}
+
+function mapPromotionToDb(promotion: Promotion) {
+  return {
+    id: promotion.id,
+    shop_id: getCurrentShopId(),
+    name: promotion.name,
+    type: promotion.type,
+    product_ids: promotion.productIds,
+    category_ids: promotion.categoryIds,
+    value: promotion.value,
+    buy_quantity: promotion.buyQuantity ?? null,
+    get_quantity: promotion.getQuantity ?? null,
+    start_date: promotion.startDate,
+    end_date: promotion.endDate,
+    happy_hour_start: promotion.happyHourStart || null,
+    happy_hour_end: promotion.happyHourEnd || null,
+    active: promotion.active,
+    created_at: promotion.createdAt,
+    created_by: promotion.createdBy || null,
+    updated_at: promotion.updatedAt || null,
+  };
+}
+
+function mapDbToPromotion(data: Record<string, unknown>): Promotion {
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    type: data.type as Promotion["type"],
+    productIds: (data.product_ids as string[]) || [],
+    categoryIds: (data.category_ids as Promotion["categoryIds"]) || [],
+    value: Number(data.value),
+    buyQuantity:
+      data.buy_quantity != null ? Number(data.buy_quantity) : undefined,
+    getQuantity:
+      data.get_quantity != null ? Number(data.get_quantity) : undefined,
+    startDate: data.start_date as string,
+    endDate: data.end_date as string,
+    happyHourStart: data.happy_hour_start as string | undefined,
+    happyHourEnd: data.happy_hour_end as string | undefined,
+    active: data.active as boolean,
+    createdAt: data.created_at as string,
+    createdBy: data.created_by as string | undefined,
+    updatedAt: data.updated_at as string | undefined,
+  };
+}
+
+function mapDailySummaryToDb(summary: DailySummary) {
+  return {
+    shop_id: getCurrentShopId(),
+    date: summary.date,
+    total_sales: summary.totalSales,
+    transaction_count: summary.transactionCount,
+    top_products: summary.topProducts,
+    payment_breakdown: summary.paymentBreakdown,
+    cost_of_sales: summary.costOfSales,
+    gross_margin: summary.grossMargin,
+    created_at: summary.createdAt,
+  };
+}
+
+function mapDbToDailySummary(data: Record<string, unknown>): DailySummary {
+  return {
+    date: data.date as string,
+    totalSales: Number(data.total_sales),
+    transactionCount: Number(data.transaction_count),
+    topProducts: (data.top_products as DailySummary["topProducts"]) || [],
+    paymentBreakdown:
+      (data.payment_breakdown as DailySummary["paymentBreakdown"]) || [],
+    costOfSales: Number(data.cost_of_sales),
+    grossMargin: Number(data.gross_margin),
+    createdAt: data.created_at as string,
+  };
+}
+
+function mapPaymentReminderToDb(reminder: PaymentReminder) {
+  return {
+    id: reminder.id,
+    shop_id: getCurrentShopId(),
+    campaign_id: reminder.campaignId,
+    customer_id: reminder.customerId,
+    customer_name: reminder.customerName,
+    phone: reminder.phone,
+    message: reminder.message,
+    balance: reminder.balance,
+    status: reminder.status,
+    gateway: reminder.gateway,
+    gateway_message_id: reminder.gatewayMessageId || null,
+    error: reminder.error || null,
+    sent_at: reminder.sentAt,
+    sent_by: reminder.sentBy || null,
+  };
+}
+
+function mapDbToPaymentReminder(
+  data: Record<string, unknown>,
+): PaymentReminder {
+  return {
+    id: data.id as string,
+    campaignId: data.campaign_id as string,
+    customerId: data.customer_id as string,
+    customerName: data.customer_name as string,
+    phone: data.phone as string,
+    message: data.message as string,
+    balance: Number(data.balance),
+    status: data.status as PaymentReminder["status"],
+    gateway: data.gateway as string,
+    gatewayMessageId: data.gateway_message_id as string | undefined,
+    error: data.error as string | undefined,
+    sentAt: data.sent_at as string,
+    sentBy: data.sent_by as string | undefined,
+  };
+}
+
+function mapWriteOffToDb(writeOff: StockWriteOff) {
+  return {
+    id: writeOff.id,
+    shop_id: getCurrentShopId(),
+    batch_id: writeOff.batchId,
+    product_id: writeOff.productId,
+    product_name: writeOff.productName,
+    batch_number: writeOff.batchNumber,
+    quantity: writeOff.quantity,
+    cost_per_unit: writeOff.costPerUnit,
+    total_cost: writeOff.totalCost,
+    reason: writeOff.reason,
+    notes: writeOff.notes || null,
+    created_at: writeOff.createdAt,
+    created_by: writeOff.createdBy || null,
+  };
+}
+
+function mapDbToWriteOff(data: Record<string, unknown>): StockWriteOff {
+  return {
+    id: data.id as string,
+    batchId: data.batch_id as string,
+    productId: data.product_id as string,
+    productName: data.product_name as string,
+    batchNumber: data.batch_number as string,
+    quantity: data.quantity as number,
+    costPerUnit: data.cost_per_unit as number,
+    totalCost: data.total_cost as number,
+    reason: data.reason as StockWriteOff["reason"],
+    notes: data.notes as string | undefined,
+    createdAt: data.created_at as string,
+    createdBy: data.created_by as string | undefined,
+  };
+}
+
+function mapStockMovementToDb(movement: StockMovement) {
+  return {
+    id: movement.id,
+    shop_id: getCurrentShopId(),
+    product_id: movement.productId,
+    batch_id: movement.batchId,
+    batch_number: movement.batchNumber || null,
+    type: movement.type,
+    quantity: movement.quantity,
+    reason: movement.reason || null,
+    notes: movement.notes || null,
+    reference_id: movement.referenceId || null,
+    user_id: movement.userId || null,
+    user_name: movement.userName || null,
+    created_at: movement.createdAt,
+  };
+}
+
+function mapDbToStockMovement(data: Record<string, unknown>): StockMovement {
+  return {
+    id: data.id as string,
+    productId: data.product_id as string,
+    batchId: data.batch_id as string,
+    batchNumber: data.batch_number as string | undefined,
+    type: data.type as StockMovement["type"],
+    quantity: Number(data.quantity),
+    reason: data.reason as StockMovement["reason"],
+    notes: data.notes as string | undefined,
+    referenceId: data.reference_id as string | undefined,
+    userId: data.user_id as string | undefined,
+    userName: data.user_name as string | undefined,
+    createdAt: data.created_at as string,
+  };
+}
+
+function mapStockTakeToDb(stockTake: StockTake) {
+  return {
+    id: stockTake.id,
+    shop_id: getCurrentShopId(),
+    reference: stockTake.reference,
+    status: stockTake.status,
+    category_id: stockTake.categoryId || null,
+    items: stockTake.items,
+    started_at: stockTake.startedAt,
+    started_by: stockTake.startedBy || null,
+    started_by_name: stockTake.startedByName || null,
+    counted_by: stockTake.countedBy || null,
+    counted_by_name: stockTake.countedByName || null,
+    completed_at: stockTake.completedAt || null,
+    approved_by: stockTake.approvedBy || null,
+    approved_by_name: stockTake.approvedByName || null,
+    notes: stockTake.notes || null,
+    updated_at: stockTake.updatedAt || null,
+  };
+}
+
+function mapDbToStockTake(data: Record<string, unknown>): StockTake {
+  return {
+    id: data.id as string,
+    reference: data.reference as string,
+    status: data.status as StockTake["status"],
+    categoryId: data.category_id as string | undefined,
+    items: (data.items as StockTake["items"]) || [],
+    startedAt: data.started_at as string,
+    startedBy: data.started_by as string | undefined,
+    startedByName: data.started_by_name as string | undefined,
+    countedBy: data.counted_by as string | undefined,
+    countedByName: data.counted_by_name as string | undefined,
+    completedAt: data.completed_at as string | undefined,
+    approvedBy: data.approved_by as string | undefined,
+    approvedByName: data.approved_by_name as string | undefined,
+    notes: data.notes as string | undefined,
+    updatedAt: data.updated_at as string | undefined,
+  };
+}
+
+function mapPurchaseOrderToDb(order: PurchaseOrder) {
+  return {
+    id: order.id,
+    shop_id: getCurrentShopId(),
+    order_number: order.orderNumber,
+    supplier_id: order.supplierId,
+    supplier_name: order.supplierName,
+    status: order.status,
+    lines: order.lines,
+    receipts: order.receipts,
+    notes: order.notes || null,
+    created_at: order.createdAt,
+    created_by: order.createdBy || null,
+    created_by_name: order.createdByName || null,
+    sent_at: order.sentAt || null,
+    received_at: order.receivedAt || null,
+    updated_at: order.updatedAt || null,
+  };
+}
+
+function mapDbToPurchaseOrder(data: Record<string, unknown>): PurchaseOrder {
+  return {
+    id: data.id as string,
+    orderNumber: data.order_number as string,
+    supplierId: data.supplier_id as string,
+    supplierName: data.supplier_name as string,
+    status: data.status as PurchaseOrder["status"],
+    lines: (data.lines as PurchaseOrder["lines"]) || [],
+    receipts: (data.receipts as PurchaseOrder["receipts"]) || [],
+    notes: data.notes as string | undefined,
+    createdAt: data.created_at as string,
+    createdBy: data.created_by as string | undefined,
+    createdByName: data.created_by_name as string | undefined,
+    sentAt: data.sent_at as string | undefined,
+    receivedAt: data.received_at as string | undefined,
+    updatedAt: data.updated_at as string | undefined,
+  };
+}
@@ -0,0 +1,318 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getSupabase, isSupabaseConfigured } from "./supabase";
+import { getCurrentShopId, scopeKey } from "./shopScope";
+import {
+  ConflictStorage,
+  mergeWithRemote,
+  VERSIONED_TABLES,
+} from "./conflictResolver";
+
+const SYNC_QUEUE_KEY = "@agrovet_sync_queue";
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 10 * 60 * 1000;
+const MAX_PERMANENT_ATTEMPTS = 3;
+
+export type SyncOperation = "upsert" | "update" | "delete" | "rpc";
+
+export interface SyncMutation {
+  id: string;
+  table: string;
+  operation: SyncOperation;
+  payload?: Record<string, unknown>;
+  match?: { column: string; value: string };
+  // Postgres function called with the payload as arguments for "rpc" writes.
+  rpc?: string;
+  // Other tables an "rpc" write changes, kept from being refreshed until it lands.
+  affects?: string[];
+  // Cloud row as last seen before this edit; enables three-way merging.
+  base?: Record<string, unknown>;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  failed?: boolean;
+}
+
+export type NewSyncMutation = Pick<
+  SyncMutation,
+  "table" | "operation" | "payload" | "match" | "rpc" | "affects" | "base"
+>;
+
+export interface SyncStatus {
+  pendingCount: number;
+  failedCount: number;
+  conflictCount: number;
+  isSyncing: boolean;
+  lastSyncedAt?: string;
+  lastMergedAt?: string;
+  lastError?: string;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+type MergeHandler = (
+  table: string,
+  recordId: string,
+  row: Record<string, unknown>,
+) => Promise<void>;
+
+const listeners = new Set<SyncListener>();
+let mergeHandler: MergeHandler | null = null;
+let status: SyncStatus = {
+  pendingCount: 0,
+  failedCount: 0,
+  conflictCount: 0,
+  isSyncing: false,
+};
+let lock: Promise<unknown> = Promise.resolve();
+let activeFlush: Promise<void> | null = null;
+
+// Serialises read-modify-write cycles on the queue so concurrent storage
+// writes cannot drop each other's mutations.
+function withLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = lock.then(task, task);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+async function readQueue(): Promise<SyncMutation[]> {
+  try {
+    const value = await AsyncStorage.getItem(scopeKey(SYNC_QUEUE_KEY));
+    return value ? JSON.parse(value) : [];
+  } catch (error) {
+    console.error("Error reading sync queue:", error);
+    return [];
+  }
+}
+
+async function writeQueue(queue: SyncMutation[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(scopeKey(SYNC_QUEUE_KEY), JSON.stringify(queue));
+  } catch (error) {
+    console.error("Error saving sync queue:", error);
+  }
+  setStatus({
+    pendingCount: queue.filter((m) => !m.failed).length,
+    failedCount: queue.filter((m) => m.failed).length,
+  });
+}
+
+function setStatus(updates: Partial<SyncStatus>) {
+  status = { ...status, ...updates };
+  listeners.forEach((listener) => listener(status));
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+// Postgres (22xxx data, 23xxx constraint, 42xxx schema) and PostgREST errors
+// will fail the same way on every retry, unlike network errors.
+function isPermanentError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === "string" && /^(22|23|42|PGRST)/.test(code);
+}
+
+async function pushMutation(mutation: SyncMutation): Promise<void> {
+  const client = getSupabase();
+  if (!client) {
+    throw new Error("Supabase not configured");
+  }
+
+  let payload = mutation.payload || {};
+  const recordId = mutation.match?.value ?? (payload.id as string | undefined);
+  let merged = false;
+  if (
+    (mutation.operation === "upsert" || mutation.operation === "update") &&
+    mutation.base &&
+    recordId &&
+    VERSIONED_TABLES[mutation.table]
+  ) {
+    const result = await mergeWithRemote(
+      client,
+      mutation.table,
+      recordId,
+      payload,
+      mutation.base,
+    );
+    payload = result.row;
+    merged = result.merged;
+  }
+
+  const table = client.from(mutation.table);
+  let result;
+  switch (mutation.operation) {
+    case "upsert":
+      result = await table.upsert(payload);
+      break;
+    case "update":
+      if (!mutation.match)
+        throw new Error("Update mutation is missing a match");
+      result = await table
+        .update(payload)
+        .eq(mutation.match.column, mutation.match.value);
+      break;
+    case "delete":
+      if (!mutation.match)
+        throw new Error("Delete mutation is missing a match");
+      result = await table
+        .delete()
+        .eq(mutation.match.column, mutation.match.value);
+      break;
+    case "rpc":
+      if (!mutation.rpc) throw new Error("RPC mutation is missing a function");
+      result = await client.rpc(mutation.rpc, payload);
+      break;
+  }
+  if (result.error) throw result.error;
+
+  if (merged && recordId) {
+    await mergeHandler?.(mutation.table, recordId, payload);
+    const conflicts = await ConflictStorage.getUnreviewed();
+    setStatus({
+      conflictCount: conflicts.length,
+      lastMergedAt: new Date().toISOString(),
+    });
+  }
+}
+
+async function processQueue(): Promise<void> {
+  setStatus({ isSyncing: true });
+  try {
+    while (true) {
+      const queue = await withLock(readQueue);
+      const next = queue.find((m) => !m.failed);
+      if (!next || new Date(next.nextAttemptAt).getTime() > Date.now()) {
+        break;
+      }
+
+      try {
+        await pushMutation(next);
+        await withLock(async () => {
+          const current = await readQueue();
+          await writeQueue(current.filter((m) => m.id !== next.id));
+        });
+        setStatus({
+          lastSyncedAt: new Date().toISOString(),
+          lastError: undefined,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : String((error as { message?: unknown })?.message ?? error);
+        const permanent = isPermanentError(error);
+        await withLock(async () => {
+          const current = await readQueue();
+          await writeQueue(
+            current.map((m) => {
+              if (m.id !== next.id) return m;
+              const attempts = m.attempts + 1;
+              return {
+                ...m,
+                attempts,
+                lastError: message,
+                failed: permanent && attempts >= MAX_PERMANENT_ATTEMPTS,
+                nextAttemptAt: new Date(
+                  Date.now() + getRetryDelay(attempts),
+                ).toISOString(),
+              };
+            }),
+          );
+        });
+        setStatus({ lastError: message });
+        if (!permanent) {
+          // Likely offline: keep the queue in order and wait for the next attempt.
+          break;
+        }
+      }
+    }
+  } finally {
+    setStatus({ isSyncing: false });
+  }
+}
+
+export const SyncQueue = {
+  async getAll(): Promise<SyncMutation[]> {
+    return readQueue();
+  },
+  async enqueue(mutation: NewSyncMutation): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    const now = new Date().toISOString();
+    await withLock(async () => {
+      const queue = await readQueue();
+      queue.push({
+        ...mutation,
+        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        createdAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+      });
+      await writeQueue(queue);
+    });
+    void this.flush();
+  },
+  async hasPending(table: string): Promise<boolean> {
+    const queue = await readQueue();
+    return queue.some((m) => m.table === table || m.affects?.includes(table));
+  },
+  // Replays queued mutations oldest first. Concurrent callers share one run.
+  flush(): Promise<void> {
+    if (!isSupabaseConfigured() || !getCurrentShopId()) {
+      return Promise.resolve();
+    }
+    if (!activeFlush) {
+      activeFlush = processQueue().finally(() => {
+        activeFlush = null;
+      });
+    }
+    return activeFlush;
+  },
+  // Makes every waiting mutation due now, including ones parked as failed.
+  async retryAll(): Promise<void> {
+    await withLock(async () => {
+      const queue = await readQueue();
+      const now = new Date().toISOString();
+      await writeQueue(
+        queue.map((m) => ({
+          ...m,
+          failed: false,
+          attempts: 0,
+          nextAttemptAt: now,
+        })),
+      );
+    });
+    await this.flush();
+  },
+  async discardFailed(): Promise<void> {
+    await withLock(async () => {
+      const queue = await readQueue();
+      await writeQueue(queue.filter((m) => !m.failed));
+    });
+  },
+  async clear(): Promise<void> {
+    await withLock(() => writeQueue([]));
+  },
+  async refreshStatus(): Promise<SyncStatus> {
+    const queue = await readQueue();
+    const conflicts = await ConflictStorage.getUnreviewed();
+    setStatus({
+      pendingCount: queue.filter((m) => !m.failed).length,
+      failedCount: queue.filter((m) => m.failed).length,
+      conflictCount: conflicts.length,
+    });
+    return status;
+  },
+  // Lets the storage layer write merged cloud rows back into the local cache.
+  setMergeHandler(handler: MergeHandler | null) {
+    mergeHandler = handler;
+  },
+  getStatus(): SyncStatus {
+    return status;
+  },
+  subscribe(listener: SyncListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,185 @@
+import { TAX_CLASSES, TaxClassId } from "@/constants/categories";
+import { CartItem, Product, Shop, Transaction } from "@/types";
+import { formatCurrency, toLocalDateKey } from "./format";
+
+// Nothing is taxed until the shop sets its tax classes, so a shop that is not
+// VAT registered keeps selling at zero tax.
+export const DEFAULT_TAX_CLASS: TaxClassId = "exempt";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const getTaxRate = (taxClass: TaxClassId) =>
+  TAX_CLASSES.find((c) => c.id === taxClass)?.rate ?? 0;
+
+export const getTaxClassName = (taxClass: TaxClassId) =>
+  TAX_CLASSES.find((c) => c.id === taxClass)?.name ?? taxClass;
+
+export const pricesIncludeTax = (shop?: Shop | null) =>
+  shop?.pricesIncludeTax ?? true;
+
+export function getTaxClass(product: Product, shop?: Shop | null): TaxClassId {
+  return (
+    product.taxClass ||
+    shop?.categoryTaxClasses?.[product.category] ||
+    DEFAULT_TAX_CLASS
+  );
+}
+
+export interface LineTax {
+  taxClass: TaxClassId;
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface SaleTax {
+  lines: LineTax[];
+  tax: number;
+  total: number;
+}
+
+// Tax on each cart line after its share of the sale-level discount. With
+// tax-inclusive prices the VAT is taken out of what the customer pays; with
+// tax-exclusive prices it is added on top.
+export function calculateSaleTax(
+  cart: CartItem[],
+  discount: number,
+  shop?: Shop | null,
+): SaleTax {
+  const inclusive = pricesIncludeTax(shop);
+  const amounts = cart.map(
+    (item) => item.unitPrice * item.quantity - item.discount,
+  );
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  const discountShare = subtotal > 0 ? discount / subtotal : 0;
+
+  const lines = cart.map((item, index) => {
+    const taxClass = getTaxClass(item.product, shop);
+    const taxRate = getTaxRate(taxClass);
+    const amount = amounts[index] * (1 - discountShare);
+    const taxAmount = roundCents(
+      inclusive ? (amount * taxRate) / (1 + taxRate) : amount * taxRate,
+    );
+    return {
+      taxClass,
+      taxRate,
+      taxableAmount: roundCents(inclusive ? amount - taxAmount : amount),
+      taxAmount,
+    };
+  });
+  const tax = roundCents(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+  return {
+    lines,
+    tax,
+    total: subtotal - discount + (inclusive ? 0 : tax),
+  };
+}
+
+export interface TaxClassTotal {
+  taxClass: TaxClassId;
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+// Taxable amount and tax per class, standard first. Lines sold before tax
+// classes count as exempt at their discounted value.
+export function getTaxSummary(transactions: Transaction[]): TaxClassTotal[] {
+  const totals = new Map<TaxClassId, TaxClassTotal>();
+  transactions.forEach((t) => {
+    const discountShare = t.subtotal !== 0 ? t.discount / t.subtotal : 0;
+    t.items.forEach((item) => {
+      const taxClass = item.taxClass || DEFAULT_TAX_CLASS;
+      const entry = totals.get(taxClass) || {
+        taxClass,
+        taxRate: item.taxRate ?? getTaxRate(taxClass),
+        taxableAmount: 0,
+        taxAmount: 0,
+      };
+      entry.taxableAmount = roundCents(
+        entry.taxableAmount +
+          (item.taxableAmount ?? item.total * (1 - discountShare)),
+      );
+      entry.taxAmount = roundCents(entry.taxAmount + (item.taxAmount || 0));
+      totals.set(taxClass, entry);
+    });
+  });
+  const order = TAX_CLASSES.map((c) => c.id as TaxClassId);
+  return Array.from(totals.values())
+    .filter((entry) => entry.taxableAmount !== 0 || entry.taxAmount !== 0)
+    .sort((a, b) => order.indexOf(a.taxClass) - order.indexOf(b.taxClass));
+}
+
+export interface VatReport {
+  // YYYY-MM
+  month: string;
+  salesCount: number;
+  refundCount: number;
+  classes: TaxClassTotal[];
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export const getMonthKey = (date: Date | string) =>
+  toLocalDateKey(date).slice(0, 7);
+
+export function addMonthsToMonthKey(month: string, months: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(year, monthIndex - 1 + months, 1);
+  return getMonthKey(date);
+}
+
+export function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString("en-KE", {
+    month: "long",
+    year: "numeric",
+  });
+}
+
+// Output VAT for a calendar month, as filed with KRA. Voided sales are left
+// out and refunds given in the month come off it.
+export function buildVatReport(
+  transactions: Transaction[],
+  month: string,
+): VatReport {
+  const counted = transactions.filter(
+    (t) =>
+      t.paymentStatus !== "voided" && getMonthKey(t.transactionDate) === month,
+  );
+  const classes = getTaxSummary(counted);
+  return {
+    month,
+    salesCount: counted.filter((t) => t.kind !== "refund").length,
+    refundCount: counted.filter((t) => t.kind === "refund").length,
+    classes,
+    taxableAmount: roundCents(
+      classes.reduce((sum, c) => sum + c.taxableAmount, 0),
+    ),
+    taxAmount: roundCents(classes.reduce((sum, c) => sum + c.taxAmount, 0)),
+  };
+}
+
+export function formatVatReportText(
+  report: VatReport,
+  shopName: string,
+  taxId?: string,
+): string {
+  return [
+    shopName,
+    ...(taxId ? [`PIN: ${taxId}`] : []),
+    `VAT REPORT ${formatMonth(report.month)}`,
+    "-------------------",
+    `Sales: ${report.salesCount}`,
+    `Refunds: ${report.refundCount}`,
+    "",
+    ...report.classes.map(
+      (c) =>
+        `${getTaxClassName(c.taxClass)}: ${formatCurrency(c.taxableAmount)} VAT ${formatCurrency(c.taxAmount)}`,
+    ),
+    "-------------------",
+    `Taxable value: ${formatCurrency(report.taxableAmount)}`,
+    `Output VAT: ${formatCurrency(report.taxAmount)}`,
+  ].join("\n");
+}